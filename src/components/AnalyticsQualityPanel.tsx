@@ -0,0 +1,135 @@
+import { Box, Button, LinearProgress, MenuItem, Paper, Select, Stack, Typography } from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+import { ANALYTICS_COLUMN_TYPES, ANALYTICS_DATE_FORMATS, DATE_FORMAT_LABELS } from '../services/analyticsSchema'
+import type {
+  AnalyticsColumnProfile,
+  AnalyticsColumnType,
+  AnalyticsColumnTyping,
+  AnalyticsDateFormat,
+  AnalyticsQualityReport,
+} from '../types/busAnalytics'
+
+type AnalyticsQualityPanelProps = {
+  profiles: AnalyticsColumnProfile[]
+  typings: Record<string, AnalyticsColumnTyping>
+  quality: AnalyticsQualityReport
+  duplicateRows: number
+  rebuilding: boolean
+  hasOverrides: boolean
+  onTypingChange: (field: string, typing: AnalyticsColumnTyping) => void
+  onResetTypings: () => void
+}
+
+const COLUMN_TYPE_LABELS: Record<AnalyticsColumnType, string> = {
+  integer: 'columnTypeInteger',
+  decimal: 'columnTypeDecimal',
+  date: 'columnTypeDate',
+  boolean: 'columnTypeBoolean',
+  category: 'columnTypeCategory',
+  text: 'columnTypeText',
+}
+
+export default function AnalyticsQualityPanel({
+  profiles,
+  typings,
+  quality,
+  duplicateRows,
+  rebuilding,
+  hasOverrides,
+  onTypingChange,
+  onResetTypings,
+}: AnalyticsQualityPanelProps) {
+  const { t } = useLanguage()
+  const conflictTotal = Object.values(quality.conflicts).reduce((total, count) => total + count, 0)
+  const negativeTotal = Object.values(quality.negativeCounts).reduce((total, count) => total + count, 0)
+  const summary = [
+    `${conflictTotal.toLocaleString()} ${t('typeConflicts')}`,
+    `${quality.outOfRangeHours.toLocaleString()} ${t('outOfRangeHours')}`,
+    `${negativeTotal.toLocaleString()} ${t('negativeCounts')}`,
+    `${duplicateRows.toLocaleString()} ${t('duplicateRows')}`,
+  ].join(' · ')
+
+  const changeType = (profile: AnalyticsColumnProfile, type: AnalyticsColumnType) => {
+    const dateFormat = type === 'date' ? (profile.inferred.dateFormat ?? 'iso') : null
+    onTypingChange(profile.field, { type, dateFormat })
+  }
+
+  return (
+    <Paper className="page-panel analytics-quality-panel" elevation={0}>
+      <Box className="zone-detail-header">
+        <Box>
+          <Typography variant="subtitle2">{t('dataQuality')}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {summary}
+          </Typography>
+        </Box>
+        <Button size="small" variant="outlined" color="secondary" onClick={onResetTypings} disabled={!hasOverrides}>
+          {t('resetColumnTypes')}
+        </Button>
+      </Box>
+      {rebuilding && <LinearProgress sx={{ mt: 1 }} />}
+
+      <Box className="analytics-quality-grid">
+        <Typography variant="caption">{t('sourceField')}</Typography>
+        <Typography variant="caption">{t('columnType')}</Typography>
+        <Typography variant="caption">{t('nullValues')}</Typography>
+        <Typography variant="caption">{t('distinctValues')}</Typography>
+        <Typography variant="caption">{t('typeConflicts')}</Typography>
+        <Typography variant="caption">{t('negativeCounts')}</Typography>
+        {profiles.map((profile) => {
+          const typing = typings[profile.field] ?? profile.inferred
+          const conflicts = quality.conflicts[profile.field] ?? 0
+          const negatives = quality.negativeCounts[profile.field]
+          return (
+            <Box key={profile.field} className="analytics-quality-row">
+              <Typography variant="body2">
+                <strong>{profile.field}</strong>
+              </Typography>
+              <Stack direction="row" spacing={1}>
+                <Select
+                  size="small"
+                  value={typing.type}
+                  onChange={(event) => changeType(profile, event.target.value as AnalyticsColumnType)}
+                  disabled={rebuilding}
+                  sx={{ minWidth: 130 }}
+                >
+                  {ANALYTICS_COLUMN_TYPES.map((type) => (
+                    <MenuItem key={type} value={type}>
+                      {t(COLUMN_TYPE_LABELS[type])}
+                      {type === profile.inferred.type ? ` (${t('inferredType')})` : ''}
+                    </MenuItem>
+                  ))}
+                </Select>
+                {typing.type === 'date' && (
+                  <Select
+                    size="small"
+                    value={typing.dateFormat ?? 'iso'}
+                    onChange={(event) =>
+                      onTypingChange(profile.field, { type: 'date', dateFormat: event.target.value as AnalyticsDateFormat })
+                    }
+                    disabled={rebuilding}
+                    sx={{ minWidth: 170 }}
+                  >
+                    {ANALYTICS_DATE_FORMATS.map((format) => (
+                      <MenuItem key={format} value={format}>
+                        {DATE_FORMAT_LABELS[format]}
+                      </MenuItem>
+                    ))}
+                  </Select>
+                )}
+              </Stack>
+              <Typography variant="body2">{profile.nullCount.toLocaleString()}</Typography>
+              <Typography variant="body2">{profile.distinctCount.toLocaleString()}</Typography>
+              <Typography variant="body2" className={conflicts > 0 ? 'analytics-quality-issue' : undefined}>
+                {conflicts.toLocaleString()}
+              </Typography>
+              <Typography variant="body2" className={negatives ? 'analytics-quality-issue' : undefined}>
+                {negatives === undefined ? '-' : negatives.toLocaleString()}
+              </Typography>
+            </Box>
+          )
+        })}
+      </Box>
+    </Paper>
+  )
+}
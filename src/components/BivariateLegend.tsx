@@ -0,0 +1,49 @@
+import { Box, Typography } from '@mui/material'
+import { BIVARIATE_COLORS, type BivariateBreaks } from '../services/bivariate'
+
+type BivariateLegendProps = {
+  breaks: BivariateBreaks
+  labels: {
+    population: string
+    jobs: string
+  }
+}
+
+export default function BivariateLegend({ breaks, labels }: BivariateLegendProps) {
+  const rowsTopDown = [...BIVARIATE_COLORS].reverse()
+
+  return (
+    <Box className="legend-card bivariate-legend">
+      <Box className="bivariate-legend-matrix">
+        <Typography variant="caption" className="bivariate-legend-y-label">
+          {labels.jobs} &rarr;
+        </Typography>
+        <Box className="bivariate-legend-grid">
+          {rowsTopDown.map((row, rowIndex) =>
+            row.map((color, columnIndex) => (
+              <Box key={`${rowIndex}-${columnIndex}`} className="bivariate-legend-cell" sx={{ backgroundColor: color }} />
+            )),
+          )}
+        </Box>
+        <Typography variant="caption" className="bivariate-legend-x-label">
+          {labels.population} &rarr;
+        </Typography>
+      </Box>
+      <Box className="bivariate-legend-breaks">
+        <Typography variant="body2">
+          {labels.population}: {formatBreaks(breaks.population)}
+        </Typography>
+        <Typography variant="body2">
+          {labels.jobs}: {formatBreaks(breaks.jobs)}
+        </Typography>
+      </Box>
+    </Box>
+  )
+}
+
+function formatBreaks(breaks: number[]): string {
+  if (breaks.length === 0) {
+    return '-'
+  }
+  return breaks.map((value) => Math.round(value).toLocaleString()).join(' / ')
+}
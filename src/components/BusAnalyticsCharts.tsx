@@ -6,25 +6,59 @@ type ChartItem = {
   value: number
 }
 
+type HeatmapRow = {
+  key: string
+  label: string
+  values: number[]
+  onSelect: (hour: number) => void
+}
+
 type BusAnalyticsChartsProps = {
   chartData: {
     hourly: ChartItem[]
     topRoutes: ChartItem[]
     operatorSplit: ChartItem[]
     paymentMix: ChartItem[]
+    weekdayHours: number[][]
+    routeHours: Array<{ route: string; hours: number[] }>
   }
   labels: {
     hourlyPassengerVolume: string
     topRoutesByCount: string
     operatorContribution: string
     paymentMix: string
+    hourByWeekday: string
+    topRoutesByHour: string
+    heatmapHint: string
+    // Indexed by weekday, 0 is Sunday.
+    weekdays: string[]
   }
+  onWeekdayHourSelect: (weekday: number, hour: number) => void
+  onRouteHourSelect: (route: string, hour: number) => void
 }
 
 const OPERATOR_COLORS = ['#2970ff', '#155eef', '#2e90fa', '#175cd3', '#53b1fd', '#7a5af8']
 const PAYMENT_COLORS = ['#2970ff', '#2e90fa']
+const WEEKDAY_ROWS = [1, 2, 3, 4, 5, 6, 0]
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour)
+
+export default function BusAnalyticsCharts({ chartData, labels, onWeekdayHourSelect, onRouteHourSelect }: BusAnalyticsChartsProps) {
+  const weekdayRows: HeatmapRow[] =
+    chartData.weekdayHours.length === 0
+      ? []
+      : WEEKDAY_ROWS.map((weekday) => ({
+          key: String(weekday),
+          label: labels.weekdays[weekday],
+          values: chartData.weekdayHours[weekday],
+          onSelect: (hour) => onWeekdayHourSelect(weekday, hour),
+        }))
+  const routeRows: HeatmapRow[] = chartData.routeHours.map((item) => ({
+    key: item.route,
+    label: item.route,
+    values: item.hours,
+    onSelect: (hour) => onRouteHourSelect(item.route, hour),
+  }))
 
-export default function BusAnalyticsCharts({ chartData, labels }: BusAnalyticsChartsProps) {
   return (
     <Grid container spacing={2}>
       <Grid size={{ xs: 12, lg: 6 }}>
@@ -103,10 +137,78 @@ export default function BusAnalyticsCharts({ chartData, labels }: BusAnalyticsCh
           </Box>
         </Paper>
       </Grid>
+      {weekdayRows.length > 0 && (
+        <Grid size={{ xs: 12, xl: 6 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Typography variant="subtitle2" gutterBottom>
+              {labels.hourByWeekday}
+            </Typography>
+            <HourHeatmap rows={weekdayRows} hint={labels.heatmapHint} />
+          </Paper>
+        </Grid>
+      )}
+      {routeRows.length > 0 && (
+        <Grid size={{ xs: 12, xl: 6 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Typography variant="subtitle2" gutterBottom>
+              {labels.topRoutesByHour}
+            </Typography>
+            <HourHeatmap rows={routeRows} hint={labels.heatmapHint} />
+          </Paper>
+        </Grid>
+      )}
     </Grid>
   )
 }
 
+// Every row shares the matrix's colour scale, so a busy route stands out against a quiet one rather than each row being
+// shaded against its own peak.
+function HourHeatmap({ rows, hint }: { rows: HeatmapRow[]; hint: string }) {
+  const max = Math.max(0, ...rows.flatMap((row) => row.values))
+  return (
+    <Box className="chart-shell">
+      <Box className="hour-heatmap">
+        <span />
+        {HOURS.map((hour) => (
+          <Typography key={hour} variant="caption" className="hour-heatmap-hour">
+            {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+          </Typography>
+        ))}
+        {rows.map((row) => (
+          <Box key={row.key} className="hour-heatmap-row">
+            <Typography variant="caption" className="hour-heatmap-label" noWrap>
+              {row.label}
+            </Typography>
+            {HOURS.map((hour) => (
+              <button
+                key={hour}
+                type="button"
+                className="hour-heatmap-cell"
+                style={{ background: getHeatColor(row.values[hour] ?? 0, max) }}
+                title={`${row.label} · ${String(hour).padStart(2, '0')}:00 · ${(row.values[hour] ?? 0).toLocaleString()}`}
+                onClick={() => row.onSelect(hour)}
+              />
+            ))}
+          </Box>
+        ))}
+      </Box>
+      <Box className="hour-heatmap-legend">
+        <Typography variant="caption">0</Typography>
+        <Box className="hour-heatmap-scale" />
+        <Typography variant="caption">{max.toLocaleString()}</Typography>
+        <Typography variant="caption" color="text.secondary" sx={{ ml: 'auto' }}>
+          {hint}
+        </Typography>
+      </Box>
+    </Box>
+  )
+}
+
+function getHeatColor(value: number, max: number): string {
+  const share = max > 0 ? value / max : 0
+  return `rgba(21, 94, 239, ${(0.04 + share * 0.96).toFixed(3)})`
+}
+
 function asNumber(value: unknown): number {
   if (typeof value === 'number') {
     return Number.isFinite(value) ? value : 0
@@ -0,0 +1,120 @@
+import { Autocomplete, Box, Button, Paper, Slider, Stack, TextField, Typography } from '@mui/material'
+import FilterAltOffRoundedIcon from '@mui/icons-material/FilterAltOffRounded'
+import { useLanguage } from '../i18n/useLanguage'
+import {
+  DEFAULT_CHECK_IN_FILTERS,
+  hasCheckInFilters,
+  WEEKDAY_LABEL_KEYS,
+  WEEKDAY_ORDER,
+  type CheckInFilterOptions,
+} from '../services/busAnalytics'
+import type { CheckInFilters } from '../types/busAnalytics'
+
+type CheckInFilterBarProps = {
+  filters: CheckInFilters
+  options: CheckInFilterOptions
+  onChange: (filters: CheckInFilters) => void
+}
+
+export default function CheckInFilterBar({ filters, options, onChange }: CheckInFilterBarProps) {
+  const { t } = useLanguage()
+  const update = (patch: Partial<CheckInFilters>) => onChange({ ...filters, ...patch })
+
+  return (
+    <Paper className="page-panel check-in-filter-bar" elevation={0}>
+      <Stack direction={{ xs: 'column', lg: 'row' }} spacing={2} sx={{ alignItems: { lg: 'center' } }}>
+        <Stack direction="row" spacing={1}>
+          <TextField
+            size="small"
+            type="date"
+            label={t('dateFrom')}
+            value={filters.dateFrom ?? ''}
+            onChange={(event) => update({ dateFrom: event.target.value || null })}
+            disabled={options.firstDate === null}
+            slotProps={{
+              inputLabel: { shrink: true },
+              htmlInput: { min: options.firstDate ?? undefined, max: filters.dateTo ?? options.lastDate ?? undefined },
+            }}
+            sx={{ width: 160 }}
+          />
+          <TextField
+            size="small"
+            type="date"
+            label={t('dateTo')}
+            value={filters.dateTo ?? ''}
+            onChange={(event) => update({ dateTo: event.target.value || null })}
+            disabled={options.firstDate === null}
+            slotProps={{
+              inputLabel: { shrink: true },
+              htmlInput: { min: filters.dateFrom ?? options.firstDate ?? undefined, max: options.lastDate ?? undefined },
+            }}
+            sx={{ width: 160 }}
+          />
+        </Stack>
+        <Box className="check-in-hour-range">
+          <Typography variant="caption" color="text.secondary">
+            {t('hourRange')}: {formatHour(filters.hourFrom)} – {formatHour(filters.hourTo)}
+          </Typography>
+          <Slider
+            size="small"
+            min={0}
+            max={23}
+            step={1}
+            value={[filters.hourFrom, filters.hourTo]}
+            onChange={(_, value) => {
+              const [hourFrom, hourTo] = value as number[]
+              update({ hourFrom, hourTo })
+            }}
+            valueLabelDisplay="auto"
+            valueLabelFormat={formatHour}
+          />
+        </Box>
+        <Autocomplete
+          multiple
+          size="small"
+          limitTags={2}
+          options={WEEKDAY_ORDER}
+          value={filters.weekdays}
+          onChange={(_, value) => update({ weekdays: value })}
+          getOptionLabel={(weekday) => t(WEEKDAY_LABEL_KEYS[weekday])}
+          disabled={options.firstDate === null}
+          renderInput={(params) => <TextField {...params} label={t('weekdays')} />}
+          sx={{ minWidth: 180, flex: 1 }}
+        />
+        <Autocomplete
+          multiple
+          size="small"
+          limitTags={3}
+          options={options.routes}
+          value={filters.routes}
+          onChange={(_, value) => update({ routes: value })}
+          renderInput={(params) => <TextField {...params} label={t('routes')} />}
+          sx={{ minWidth: 200, flex: 1 }}
+        />
+        <Autocomplete
+          multiple
+          size="small"
+          limitTags={2}
+          options={options.operators}
+          value={filters.operators}
+          onChange={(_, value) => update({ operators: value })}
+          renderInput={(params) => <TextField {...params} label={t('operators')} />}
+          sx={{ minWidth: 200, flex: 1 }}
+        />
+        <Button
+          size="small"
+          color="secondary"
+          startIcon={<FilterAltOffRoundedIcon />}
+          onClick={() => onChange(DEFAULT_CHECK_IN_FILTERS)}
+          disabled={!hasCheckInFilters(filters)}
+        >
+          {t('clearFilters')}
+        </Button>
+      </Stack>
+    </Paper>
+  )
+}
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, '0')}:00`
+}
@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react'
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  InputLabel,
+  LinearProgress,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+import { CHECK_IN_DELIMITERS, CHECK_IN_ENCODINGS, isXlsxFile, readCheckInPreview, type CheckInFilePreview } from '../services/checkInImport'
+import type { CheckInDelimiter, CheckInEncoding, CheckInImportOptions } from '../types/busAnalytics'
+
+type CheckInImportDialogProps = {
+  file: File
+  initialOptions: CheckInImportOptions
+  onCancel: () => void
+  onLoad: (options: CheckInImportOptions) => void
+}
+
+type PreviewResult = {
+  options: CheckInImportOptions
+  preview: CheckInFilePreview | null
+  error: string | null
+}
+
+const PREVIEW_ROW_COUNT = 8
+
+const DELIMITER_LABELS: Record<CheckInDelimiter, string> = {
+  '': 'delimiterAuto',
+  ',': 'delimiterComma',
+  ';': 'delimiterSemicolon',
+  '\t': 'delimiterTab',
+  '|': 'delimiterPipe',
+}
+
+const ENCODING_LABELS: Record<CheckInEncoding, string> = {
+  'utf-8': 'UTF-8',
+  'windows-1251': 'Windows-1251',
+}
+
+export default function CheckInImportDialog({ file, initialOptions, onCancel, onLoad }: CheckInImportDialogProps) {
+  const { t } = useLanguage()
+  const [options, setOptions] = useState<CheckInImportOptions>(initialOptions)
+  const [result, setResult] = useState<PreviewResult | null>(null)
+  const spreadsheet = isXlsxFile(file)
+
+  // Re-read whenever an option changes; a result for older options is ignored until the new one arrives.
+  useEffect(() => {
+    let active = true
+
+    readCheckInPreview(file, options, PREVIEW_ROW_COUNT)
+      .then((preview) => {
+        if (active) {
+          setResult({ options, preview, error: null })
+        }
+      })
+      .catch((previewError: unknown) => {
+        if (active) {
+          setResult({ options, preview: null, error: previewError instanceof Error ? previewError.message : null })
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [file, options])
+
+  const current = result?.options === options ? result : null
+  const updateOptions = (patch: Partial<CheckInImportOptions>) => setOptions((previous) => ({ ...previous, ...patch }))
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>{t('importCheckIns')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {file.name} · {formatFileSize(file.size)}
+        </Typography>
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} sx={{ mb: 2, pt: 0.75 }}>
+          <FormControl size="small" sx={{ minWidth: 180 }} disabled={spreadsheet}>
+            <InputLabel id="check-in-delimiter-label">{t('delimiter')}</InputLabel>
+            <Select
+              labelId="check-in-delimiter-label"
+              value={options.delimiter}
+              label={t('delimiter')}
+              onChange={(event) => updateOptions({ delimiter: event.target.value as CheckInDelimiter })}
+            >
+              {CHECK_IN_DELIMITERS.map((delimiter) => (
+                <MenuItem key={delimiter || 'auto'} value={delimiter}>
+                  {t(DELIMITER_LABELS[delimiter])}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <FormControl size="small" sx={{ minWidth: 180 }} disabled={spreadsheet}>
+            <InputLabel id="check-in-encoding-label">{t('encoding')}</InputLabel>
+            <Select
+              labelId="check-in-encoding-label"
+              value={options.encoding}
+              label={t('encoding')}
+              onChange={(event) => updateOptions({ encoding: event.target.value as CheckInEncoding })}
+            >
+              {CHECK_IN_ENCODINGS.map((encoding) => (
+                <MenuItem key={encoding} value={encoding}>
+                  {ENCODING_LABELS[encoding]}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <TextField
+            size="small"
+            type="number"
+            label={t('headerRow')}
+            value={options.headerRow}
+            onChange={(event) => updateOptions({ headerRow: Math.max(Math.floor(Number(event.target.value)) || 1, 1) })}
+            slotProps={{ htmlInput: { min: 1 } }}
+            sx={{ width: 140 }}
+          />
+        </Stack>
+
+        {spreadsheet && (
+          <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+            {t('spreadsheetFirstSheet')}
+          </Typography>
+        )}
+
+        {!current ? (
+          <LinearProgress />
+        ) : !current.preview ? (
+          <Alert severity="warning">{`${t('importFailed')} ${current.error ?? ''}`.trim()}</Alert>
+        ) : (
+          <Box className="check-in-preview">
+            <table>
+              <thead>
+                <tr>
+                  {current.preview.header.map((cell, index) => (
+                    <th key={index}>{cell}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {current.preview.rows.map((row, rowIndex) => (
+                  <tr key={rowIndex}>
+                    {current.preview?.header.map((_, index) => (
+                      <td key={index}>{row[index] ?? ''}</td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </Box>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>{t('cancel')}</Button>
+        <Button variant="contained" onClick={() => onLoad(options)} disabled={!current?.preview}>
+          {t('loadCheckIns')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+function formatFileSize(bytes: number): string {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(Math.round(bytes / 1024), 1).toLocaleString()} KB`
+  }
+  return `${(bytes / (1024 * 1024)).toLocaleString(undefined, { maximumFractionDigits: 1 })} MB`
+}
@@ -0,0 +1,90 @@
+import { Box, FormControl, InputLabel, MenuItem, Select, Stack, TextField } from '@mui/material'
+import { CLASS_COUNT_OPTIONS, PALETTES, getPaletteColors } from '../services/choroplethPalettes'
+import { CLASSIFICATION_SCHEMES } from '../services/classification'
+import type { MapClassification } from '../hooks/useMapSymbology'
+import { useLanguage } from '../i18n/useLanguage'
+import type { ClassificationScheme, PaletteKey } from '../types/demographics'
+
+type ClassificationControlsProps = {
+  classification: MapClassification
+  manualBreaksInvalid: boolean
+  onChange: (classification: MapClassification) => void
+}
+
+export default function ClassificationControls({ classification, manualBreaksInvalid, onChange }: ClassificationControlsProps) {
+  const { t } = useLanguage()
+  const { scheme, classCount, palette, manualBreaksInput } = classification
+
+  return (
+    <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mt: 2 }}>
+      <FormControl size="small" sx={{ minWidth: 200 }}>
+        <InputLabel id="classification-label">{t('classificationScheme')}</InputLabel>
+        <Select
+          labelId="classification-label"
+          value={scheme}
+          label={t('classificationScheme')}
+          onChange={(event) => onChange({ ...classification, scheme: event.target.value as ClassificationScheme })}
+        >
+          {CLASSIFICATION_SCHEMES.map((schemeKey) => (
+            <MenuItem key={schemeKey} value={schemeKey}>
+              {t(schemeKey)}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 120 }} disabled={scheme === 'manual'}>
+        <InputLabel id="class-count-label">{t('classCount')}</InputLabel>
+        <Select
+          labelId="class-count-label"
+          value={classCount}
+          label={t('classCount')}
+          onChange={(event) => onChange({ ...classification, classCount: Number(event.target.value) })}
+        >
+          {CLASS_COUNT_OPTIONS.map((count) => (
+            <MenuItem key={count} value={count}>
+              {count}
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      <FormControl size="small" sx={{ minWidth: 220 }}>
+        <InputLabel id="palette-label">{t('palette')}</InputLabel>
+        <Select
+          labelId="palette-label"
+          value={palette}
+          label={t('palette')}
+          onChange={(event) => onChange({ ...classification, palette: event.target.value as PaletteKey })}
+        >
+          {PALETTES.map((option) => (
+            <MenuItem key={option.key} value={option.key}>
+              <Box className="palette-option">
+                <Box className="palette-option-strip">
+                  {getPaletteColors(option.key, 5).map((color) => (
+                    <Box key={color} component="span" sx={{ backgroundColor: color }} />
+                  ))}
+                </Box>
+                <span>
+                  {option.label} ({t(option.kind)})
+                </span>
+              </Box>
+            </MenuItem>
+          ))}
+        </Select>
+      </FormControl>
+
+      {scheme === 'manual' && (
+        <TextField
+          size="small"
+          label={t('manualBreaks')}
+          value={manualBreaksInput}
+          onChange={(event) => onChange({ ...classification, manualBreaksInput: event.target.value })}
+          error={manualBreaksInvalid}
+          helperText={t('manualBreaksHint')}
+          sx={{ minWidth: 260 }}
+        />
+      )}
+    </Stack>
+  )
+}
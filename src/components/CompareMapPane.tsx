@@ -0,0 +1,184 @@
+import { useCallback, useMemo } from 'react'
+import { Alert, Box, Chip, FormControl, InputLabel, MenuItem, Paper, Select, Stack, Typography } from '@mui/material'
+import type * as L from 'leaflet'
+import type { Map as LeafletMap, PathOptions } from 'leaflet'
+import { GeoJSON, MapContainer, TileLayer } from 'react-leaflet'
+import { getPaletteColors } from '../services/choroplethPalettes'
+import { computeClassBreaks, getClassIndex } from '../services/classification'
+import { escapeHtml } from '../services/escapeHtml'
+import { getHierarchyName, getRegionName } from '../services/regionAttributes'
+import { formatMetricValue, getFeatureMetricValue, type MetricOption } from '../services/regionMetrics'
+import { useLanguage } from '../i18n/useLanguage'
+import type { RegionFeature } from '../types/data'
+import type { ClassificationScheme, DatasetSchema, MetricKey, PaletteKey, RegionLevel } from '../types/demographics'
+
+export type CompareClassification = {
+  scheme: ClassificationScheme
+  classCount: number
+  palette: PaletteKey
+  manualBreaks: number[]
+}
+
+type CompareMapPaneProps = {
+  label: string
+  features: RegionFeature[]
+  dissolving: boolean
+  aggregationError: string | null
+  schema: DatasetSchema
+  level: RegionLevel
+  metric: MetricKey
+  metricOptions: MetricOption[]
+  classification: CompareClassification
+  pinnedKey: string | null
+  center: [number, number]
+  onLevelChange: (level: RegionLevel) => void
+  onMetricChange: (metric: MetricKey) => void
+  onPin: (key: string | null) => void
+  onMapChange: (map: LeafletMap | null) => void
+}
+
+export default function CompareMapPane({
+  label,
+  features,
+  dissolving,
+  aggregationError,
+  schema,
+  level,
+  metric,
+  metricOptions,
+  classification,
+  pinnedKey,
+  center,
+  onLevelChange,
+  onMetricChange,
+  onPin,
+  onMapChange,
+}: CompareMapPaneProps) {
+  const { t, language } = useLanguage()
+  const metricName = t(metricOptions.find((option) => option.key === metric)?.label ?? metric)
+
+  const classBreaks = useMemo(() => {
+    const values = features.map((feature) => getFeatureMetricValue(feature, metric, schema)).filter((value) => value > 0)
+    const { scheme, classCount, manualBreaks } = classification
+    return computeClassBreaks(values, scheme === 'manual' && manualBreaks.length === 0 ? 'quantile' : scheme, classCount, manualBreaks)
+  }, [classification, features, metric, schema])
+
+  const classColors = useMemo(() => {
+    const classes = Math.max(classBreaks.length - 1, 0)
+    return getPaletteColors(classification.palette, classes).slice(0, classes)
+  }, [classBreaks, classification.palette])
+
+  const styleFeature = useCallback(
+    (feature?: RegionFeature): PathOptions => {
+      const value = feature ? getFeatureMetricValue(feature, metric, schema) : 0
+      const isPinned = feature !== undefined && pinnedKey !== null && getHierarchyName(feature.properties, level, schema) === pinnedKey
+      return {
+        color: isPinned ? '#f79009' : '#2557be',
+        weight: isPinned ? 3 : level === 'micro' ? 1 : 1.6,
+        fillOpacity: 0.78,
+        fillColor: classColors.length > 0 ? classColors[getClassIndex(value, classBreaks)] : '#dce7ff',
+      }
+    },
+    [classBreaks, classColors, level, metric, pinnedKey, schema],
+  )
+
+  const onEachFeature = useCallback(
+    (feature: RegionFeature, layer: L.Layer) => {
+      const name = getRegionName(feature.properties, level, schema)
+      const value = formatMetricValue(getFeatureMetricValue(feature, metric, schema), metric, schema)
+      layer.bindTooltip(
+        `<div class="map-tooltip-inner"><strong>${escapeHtml(name)}</strong><span>${escapeHtml(metricName)}: ${value}</span></div>`,
+        {
+          sticky: true,
+          className: 'map-tooltip',
+        },
+      )
+      layer.on('click', () => {
+        const key = getHierarchyName(feature.properties, level, schema)
+        onPin(key === pinnedKey ? null : key)
+      })
+    },
+    [level, metric, metricName, onPin, pinnedKey, schema],
+  )
+
+  const pinnedName = useMemo(() => {
+    if (!pinnedKey) {
+      return null
+    }
+    const feature = features.find((item) => getHierarchyName(item.properties, level, schema) === pinnedKey)
+    return feature ? getRegionName(feature.properties, level, schema) : null
+  }, [features, level, pinnedKey, schema])
+
+  return (
+    <Paper className="page-panel compare-map-pane" elevation={0}>
+      <Stack direction="row" spacing={1.5} alignItems="center">
+        <Chip label={label} color="secondary" size="small" />
+        <FormControl size="small" sx={{ minWidth: 200, flex: 1 }}>
+          <InputLabel id={`compare-metric-${label}`}>{t('metric')}</InputLabel>
+          <Select
+            labelId={`compare-metric-${label}`}
+            value={metric}
+            label={t('metric')}
+            onChange={(event) => onMetricChange(event.target.value)}
+          >
+            {metricOptions.map((option) => (
+              <MenuItem key={option.key} value={option.key}>
+                {t(option.label)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel id={`compare-level-${label}`}>{t('regionLevel')}</InputLabel>
+          <Select
+            labelId={`compare-level-${label}`}
+            value={level}
+            label={t('regionLevel')}
+            onChange={(event) => onLevelChange(event.target.value as RegionLevel)}
+          >
+            <MenuItem value="micro">{t('micro')}</MenuItem>
+            <MenuItem value="meso">{t('meso')}</MenuItem>
+            <MenuItem value="macro">{t('macro')}</MenuItem>
+          </Select>
+        </FormControl>
+      </Stack>
+
+      <Box className="compare-map-frame">
+        <MapContainer center={center} zoom={11} scrollWheelZoom attributionControl={false} className="compare-map-canvas" ref={onMapChange}>
+          <TileLayer
+            attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+            url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+            crossOrigin="anonymous"
+          />
+          {features.length > 0 && (
+            <GeoJSON
+              key={`${level}-${metric}-${language}-${pinnedKey ?? 'none'}-${features.length}`}
+              data={{ type: 'FeatureCollection', features } as never}
+              style={styleFeature as never}
+              onEachFeature={onEachFeature as never}
+            />
+          )}
+        </MapContainer>
+        {dissolving && <Box className="map-overlay-loading">{t('dissolvingRegions')}</Box>}
+      </Box>
+      {aggregationError !== null && <Alert severity="warning">{`${t('regionAggregationFailed')} ${aggregationError}`.trim()}</Alert>}
+
+      <Box className="compare-map-footer">
+        <Box className="legend-gradient-track" sx={{ background: `linear-gradient(90deg, ${classColors.join(', ')})` }} />
+        <Box className="legend-boundary-row">
+          <Typography variant="caption">{formatMetricValue(classBreaks[0], metric, schema)}</Typography>
+          <Typography variant="caption">{formatMetricValue(classBreaks[classBreaks.length - 1], metric, schema)}</Typography>
+        </Box>
+        <Typography variant="body2" color="text.secondary">
+          {pinnedName ? (
+            <>
+              {t('pinnedZone')}: <strong>{pinnedName}</strong>
+            </>
+          ) : (
+            t('clickToPinZone')
+          )}
+        </Typography>
+      </Box>
+    </Paper>
+  )
+}
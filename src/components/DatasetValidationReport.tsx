@@ -0,0 +1,70 @@
+import { useState } from 'react'
+import { Box, Button, Paper, Typography } from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+import type { DatasetValidationReport as ValidationReport } from '../types/demographics'
+
+type DatasetValidationReportProps = {
+  report: ValidationReport
+  onEditSchema: () => void
+}
+
+const COLLAPSED_ISSUE_COUNT = 12
+
+export default function DatasetValidationReport({ report, onEditSchema }: DatasetValidationReportProps) {
+  const { t } = useLanguage()
+  const [expanded, setExpanded] = useState(false)
+  const fieldsWithIssues = report.fields.filter((field) => field.missing > 0 || field.nonNumeric > 0)
+  const visibleIssues = expanded ? report.issues : report.issues.slice(0, COLLAPSED_ISSUE_COUNT)
+
+  return (
+    <Paper className="page-panel dataset-validation-report" elevation={0}>
+      <Box className="zone-detail-header">
+        <Box>
+          <Typography variant="subtitle2">{t('dataValidation')}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {fieldsWithIssues.length > 0
+              ? `${fieldsWithIssues.length} / ${report.fields.length} ${t('fieldsWithIssues')} · ${report.featureCount.toLocaleString()} ${t('featuresLoaded')}`
+              : t('noDataIssues')}
+          </Typography>
+        </Box>
+        <Button size="small" variant="outlined" color="secondary" onClick={onEditSchema}>
+          {t('editDatasetSchema')}
+        </Button>
+      </Box>
+
+      {fieldsWithIssues.length > 0 && (
+        <Box className="dataset-validation-grid">
+          <Typography variant="caption">{t('sourceField')}</Typography>
+          <Typography variant="caption">{t('missingValues')}</Typography>
+          <Typography variant="caption">{t('nonNumericValues')}</Typography>
+          {fieldsWithIssues.map((field) => (
+            <Box key={field.field} className="dataset-validation-row">
+              <Typography variant="body2">
+                <strong>{field.field}</strong>
+              </Typography>
+              <Typography variant="body2">{field.missing.toLocaleString()}</Typography>
+              <Typography variant="body2">{field.nonNumeric.toLocaleString()}</Typography>
+            </Box>
+          ))}
+        </Box>
+      )}
+
+      {visibleIssues.length > 0 && (
+        <Box className="dataset-validation-issues">
+          {visibleIssues.map((issue, index) => (
+            <Typography key={`${issue.featureIndex}-${issue.field}-${index}`} variant="body2" className="dataset-validation-issue">
+              #{issue.featureIndex + 1} {issue.featureName} · <strong>{issue.field}</strong>:{' '}
+              {issue.kind === 'missing' ? t('missingValue') : `${t('nonNumericValue')} "${String(issue.value)}"`}
+            </Typography>
+          ))}
+        </Box>
+      )}
+
+      {report.issues.length > COLLAPSED_ISSUE_COUNT && (
+        <Button size="small" onClick={() => setExpanded((previous) => !previous)} sx={{ mt: 1 }}>
+          {expanded ? t('showFewerIssues') : `${t('showAllIssues')} (${report.issues.length.toLocaleString()})`}
+        </Button>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,36 @@
+import { useEffect } from 'react'
+import { canvas, circleMarker, layerGroup } from 'leaflet'
+import { useMap } from 'react-leaflet'
+import { DOT_COLORS, type DotPoint } from '../services/mapRenderers'
+
+type DotDensityLayerProps = {
+  points: DotPoint[]
+}
+
+// Tens of thousands of dots are too many for SVG paths or React children, so they go to one canvas renderer.
+export default function DotDensityLayer({ points }: DotDensityLayerProps) {
+  const map = useMap()
+
+  useEffect(() => {
+    const renderer = canvas({ padding: 0.5 })
+    const layer = layerGroup(
+      points.map((point) =>
+        circleMarker([point.lat, point.lng], {
+          renderer,
+          radius: 1.6,
+          stroke: false,
+          fillColor: DOT_COLORS[point.role],
+          fillOpacity: 0.75,
+          interactive: false,
+        }),
+      ),
+    )
+    layer.addTo(map)
+
+    return () => {
+      layer.remove()
+    }
+  }, [map, points])
+
+  return null
+}
@@ -0,0 +1,194 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  Card,
+  CardContent,
+  FormControlLabel,
+  Grid,
+  LinearProgress,
+  Paper,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useLanguage } from '../i18n/useLanguage'
+import type { FareRevenue, RevenueBreakdown } from '../services/fareRevenue'
+import { DEFAULT_FARE_TABLE, FARE_ZONES, type FareTable, type FareZone, type PaymentChannel } from '../services/fareTable'
+
+type FareRevenuePanelProps = {
+  revenue: FareRevenue
+  fareTable: FareTable
+  breakdown: RevenueBreakdown
+  // True while the AYNA route tariffs and zones are loading.
+  loading: boolean
+  onFareTableChange: (fareTable: FareTable) => void
+  onBreakdownChange: (breakdown: RevenueBreakdown) => void
+}
+
+const CHANNEL_LABELS: Record<PaymentChannel, string> = { smartCard: 'SmartCard', qr: 'QR', other: 'otherPayments' }
+const CHANNEL_COLORS: Record<PaymentChannel, string> = { smartCard: '#155eef', qr: '#53b1fd', other: '#98a2b3' }
+const ZONE_LABELS: Record<FareZone, string> = { city: 'fareZoneCity', suburban: 'fareZoneSuburban' }
+
+export default function FareRevenuePanel({
+  revenue,
+  fareTable,
+  breakdown,
+  loading,
+  onFareTableChange,
+  onBreakdownChange,
+}: FareRevenuePanelProps) {
+  const { t } = useLanguage()
+  const channels: PaymentChannel[] = revenue.byChannel.other > 0 ? ['smartCard', 'qr', 'other'] : ['smartCard', 'qr']
+  const channelLabel = (channel: PaymentChannel) => (channel === 'other' ? t(CHANNEL_LABELS.other) : CHANNEL_LABELS[channel])
+
+  const updateFare = (zone: FareZone, channel: Exclude<PaymentChannel, 'other'>, fare: number) => {
+    onFareTableChange({ ...fareTable, zones: { ...fareTable.zones, [zone]: { ...fareTable.zones[zone], [channel]: fare } } })
+  }
+
+  const kpis = [
+    { label: t('estimatedRevenueAzn'), value: formatMoney(revenue.total) },
+    ...channels.map((channel) => ({
+      label: `${channelLabel(channel)} · ${t('revenueShort')}`,
+      value: formatMoney(revenue.byChannel[channel]),
+    })),
+    { label: t('averageFareAzn'), value: revenue.averageFare === null ? '-' : formatMoney(revenue.averageFare) },
+  ]
+
+  return (
+    <Stack spacing={2}>
+      <Grid container spacing={2}>
+        {kpis.map((kpi) => (
+          <Grid key={kpi.label} size={{ xs: 12, sm: 6, md: 'grow' }}>
+            <Card className="stats-card" elevation={0}>
+              <CardContent>
+                <Typography color="text.secondary" variant="body2">
+                  {kpi.label}
+                </Typography>
+                <Typography variant="h5">{kpi.value}</Typography>
+              </CardContent>
+            </Card>
+          </Grid>
+        ))}
+      </Grid>
+
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, lg: 4 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Typography variant="subtitle2" gutterBottom>
+              {t('fareTable')}
+            </Typography>
+            <Box className="fare-table-grid">
+              <span />
+              <Typography variant="caption">{channelLabel('smartCard')}</Typography>
+              <Typography variant="caption">{channelLabel('qr')}</Typography>
+              {FARE_ZONES.map((zone) => (
+                <Box key={zone} className="fare-table-row">
+                  <Typography variant="body2">{t(ZONE_LABELS[zone])}</Typography>
+                  {(['smartCard', 'qr'] as const).map((channel) => (
+                    <FareInput
+                      key={channel}
+                      fare={fareTable.zones[zone][channel]}
+                      label={`${t(ZONE_LABELS[zone])} ${channelLabel(channel)}`}
+                      onCommit={(fare) => updateFare(zone, channel, fare)}
+                    />
+                  ))}
+                </Box>
+              ))}
+            </Box>
+            <FormControlLabel
+              sx={{ mt: 1 }}
+              control={
+                <Switch
+                  size="small"
+                  checked={fareTable.useRouteTariffs}
+                  onChange={(event) => onFareTableChange({ ...fareTable, useRouteTariffs: event.target.checked })}
+                />
+              }
+              label={t('useRouteTariffs')}
+            />
+            <Typography variant="body2" color="text.secondary">
+              {t('routesWithTariff')}: {revenue.routeTariffCount.toLocaleString()}
+            </Typography>
+            {loading && <LinearProgress sx={{ mt: 1 }} />}
+            <Button
+              size="small"
+              color="secondary"
+              startIcon={<RestartAltRoundedIcon />}
+              onClick={() => onFareTableChange(DEFAULT_FARE_TABLE)}
+              disabled={fareTable === DEFAULT_FARE_TABLE}
+              sx={{ mt: 1 }}
+            >
+              {t('resetFares')}
+            </Button>
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 12, lg: 8 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} sx={{ alignItems: { md: 'center' }, mb: 1.5 }}>
+              <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+                {t('revenueByChannel')}
+              </Typography>
+              <ToggleButtonGroup
+                size="small"
+                exclusive
+                value={breakdown}
+                onChange={(_, value: RevenueBreakdown | null) => value && onBreakdownChange(value)}
+              >
+                <ToggleButton value="route">{t('breakdownRoute')}</ToggleButton>
+                <ToggleButton value="operator">{t('breakdownOperator')}</ToggleButton>
+                <ToggleButton value="day">{t('breakdownDay')}</ToggleButton>
+              </ToggleButtonGroup>
+            </Stack>
+            <Box className="chart-shell">
+              <ResponsiveContainer width="100%" height={320}>
+                <BarChart data={revenue.groups} margin={{ top: 8, right: 8, left: 0, bottom: 8 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#dbe7ff" />
+                  <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={breakdown === 'day' ? 24 : 4} />
+                  <YAxis tick={{ fontSize: 11 }} />
+                  <Tooltip formatter={(value) => (typeof value === 'number' ? formatMoney(value) : String(value ?? ''))} />
+                  <Legend />
+                  {channels.map((channel) => (
+                    <Bar key={channel} dataKey={channel} name={channelLabel(channel)} stackId="revenue" fill={CHANNEL_COLORS[channel]} />
+                  ))}
+                </BarChart>
+              </ResponsiveContainer>
+            </Box>
+          </Paper>
+        </Grid>
+      </Grid>
+    </Stack>
+  )
+}
+
+// Keeps what is typed while it is not a valid fare, e.g. a cleared box; leaving the field restores the committed fare.
+function FareInput({ fare, label, onCommit }: { fare: number; label: string; onCommit: (fare: number) => void }) {
+  const [text, setText] = useState<string | null>(null)
+
+  return (
+    <TextField
+      size="small"
+      type="number"
+      value={text ?? String(fare)}
+      onChange={(event) => {
+        const value = event.target.value
+        setText(value)
+        const parsed = Number(value)
+        if (value.trim() !== '' && Number.isFinite(parsed) && parsed >= 0) {
+          onCommit(parsed)
+        }
+      }}
+      onBlur={() => setText(null)}
+      slotProps={{ htmlInput: { min: 0, step: 0.05, 'aria-label': label } }}
+    />
+  )
+}
+
+function formatMoney(value: number): string {
+  return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
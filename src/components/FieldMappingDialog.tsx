@@ -0,0 +1,282 @@
+import { useState } from 'react'
+import {
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material'
+import AddRoundedIcon from '@mui/icons-material/AddRounded'
+import DeleteOutlineRoundedIcon from '@mui/icons-material/DeleteOutlineRounded'
+import { useLanguage } from '../i18n/useLanguage'
+import { DEFAULT_DATASET_SCHEMA } from '../services/datasetSchema'
+import type { DatasetMetric, DatasetSchema, MetricAggregation, MetricRole, RegionLevel } from '../types/demographics'
+
+type FieldMappingDialogProps = {
+  fileName: string
+  featureCount: number
+  fields: string[]
+  sampleProperties: Record<string, unknown>
+  initialSchema: DatasetSchema
+  onCancel: () => void
+  onApply: (schema: DatasetSchema) => void
+}
+
+const METRIC_ROLES: MetricRole[] = ['population', 'jobs']
+const HIERARCHY_LEVELS: RegionLevel[] = ['micro', 'meso', 'macro']
+const AGGREGATIONS: MetricAggregation[] = ['sum', 'mean', 'weightedMean']
+
+export default function FieldMappingDialog({
+  fileName,
+  featureCount,
+  fields,
+  sampleProperties,
+  initialSchema,
+  onCancel,
+  onApply,
+}: FieldMappingDialogProps) {
+  const { t } = useLanguage()
+  const [schema, setSchema] = useState<DatasetSchema>(initialSchema)
+
+  const roleKeys = new Set(Object.values(schema.roles).filter((key): key is string => key !== null))
+  const extraMetrics = schema.metrics.filter((metric) => !roleKeys.has(metric.key))
+  const invalidMetric = schema.metrics.some(
+    (metric) => !metric.field || !metric.label.trim() || (metric.aggregation === 'weightedMean' && !metric.weightBy),
+  )
+  const canApply = schema.metrics.length > 0 && !invalidMetric
+
+  const getRoleField = (role: MetricRole) => schema.metrics.find((metric) => metric.key === schema.roles[role])?.field ?? null
+
+  const setRoleField = (role: MetricRole, field: string | null) => {
+    setSchema((previous) => {
+      const metrics = previous.metrics.filter((metric) => metric.key !== role)
+      if (!field) {
+        return { ...previous, metrics: clearWeightReferences(metrics, role), roles: { ...previous.roles, [role]: null } }
+      }
+
+      const template = DEFAULT_DATASET_SCHEMA.metrics.find((metric) => metric.key === role)
+      const existing = previous.metrics.find((metric) => metric.key === role)
+      const roleMetric: DatasetMetric = { ...(existing ?? template ?? createMetric(role, field)), field }
+      return { ...previous, metrics: [roleMetric, ...metrics], roles: { ...previous.roles, [role]: role } }
+    })
+  }
+
+  const updateMetric = (key: string, patch: Partial<DatasetMetric>) => {
+    setSchema((previous) => ({
+      ...previous,
+      metrics: previous.metrics.map((metric) => (metric.key === key ? { ...metric, ...patch } : metric)),
+    }))
+  }
+
+  const addMetric = () => {
+    setSchema((previous) => {
+      const usedFields = new Set(previous.metrics.map((metric) => metric.field))
+      const field = fields.find((item) => !usedFields.has(item) && typeof sampleProperties[item] === 'number') ?? fields[0] ?? ''
+      return { ...previous, metrics: [...previous.metrics, createMetric(getUniqueKey(field, previous.metrics), field)] }
+    })
+  }
+
+  const removeMetric = (key: string) => {
+    setSchema((previous) => ({
+      ...previous,
+      metrics: clearWeightReferences(
+        previous.metrics.filter((metric) => metric.key !== key),
+        key,
+      ),
+    }))
+  }
+
+  const renderFieldOptions = () =>
+    fields.map((field) => (
+      <MenuItem key={field} value={field}>
+        {field}
+        <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+          {formatSample(sampleProperties[field])}
+        </Typography>
+      </MenuItem>
+    ))
+
+  return (
+    <Dialog open onClose={onCancel} maxWidth="md" fullWidth>
+      <DialogTitle>{t('fieldMapping')}</DialogTitle>
+      <DialogContent>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+          {fileName} · {featureCount.toLocaleString()} {t('featuresLoaded')}
+        </Typography>
+
+        <Typography variant="subtitle2" gutterBottom>
+          {t('keyFields')}
+        </Typography>
+        <Box className="field-mapping-grid">
+          {METRIC_ROLES.map((role) => (
+            <FormControl key={role} size="small" fullWidth>
+              <InputLabel id={`field-mapping-${role}`}>{t(role)}</InputLabel>
+              <Select
+                labelId={`field-mapping-${role}`}
+                value={getRoleField(role) ?? ''}
+                label={t(role)}
+                onChange={(event) => setRoleField(role, event.target.value || null)}
+              >
+                <MenuItem value="">
+                  <em>{t('notMapped')}</em>
+                </MenuItem>
+                {renderFieldOptions()}
+              </Select>
+            </FormControl>
+          ))}
+          {HIERARCHY_LEVELS.map((level) => (
+            <FormControl key={level} size="small" fullWidth>
+              <InputLabel id={`field-mapping-${level}`}>{t(level)}</InputLabel>
+              <Select
+                labelId={`field-mapping-${level}`}
+                value={schema.hierarchy[level] ?? ''}
+                label={t(level)}
+                onChange={(event) =>
+                  setSchema((previous) => ({ ...previous, hierarchy: { ...previous.hierarchy, [level]: event.target.value || null } }))
+                }
+              >
+                <MenuItem value="">
+                  <em>{t('notMapped')}</em>
+                </MenuItem>
+                {renderFieldOptions()}
+              </Select>
+            </FormControl>
+          ))}
+          <FormControl size="small" fullWidth>
+            <InputLabel id="field-mapping-level">{t('levelField')}</InputLabel>
+            <Select
+              labelId="field-mapping-level"
+              value={schema.levelField ?? ''}
+              label={t('levelField')}
+              onChange={(event) => setSchema((previous) => ({ ...previous, levelField: event.target.value || null }))}
+            >
+              <MenuItem value="">
+                <em>{t('notMapped')}</em>
+              </MenuItem>
+              {renderFieldOptions()}
+            </Select>
+          </FormControl>
+        </Box>
+
+        <Box className="field-mapping-section-header">
+          <Typography variant="subtitle2">{t('additionalMetrics')}</Typography>
+          <Button size="small" startIcon={<AddRoundedIcon />} onClick={addMetric} disabled={fields.length === 0}>
+            {t('addMetric')}
+          </Button>
+        </Box>
+        <Stack spacing={1.5}>
+          {extraMetrics.map((metric) => (
+            <Box key={metric.key} className="field-mapping-metric-row">
+              <FormControl size="small">
+                <InputLabel id={`metric-field-${metric.key}`}>{t('sourceField')}</InputLabel>
+                <Select
+                  labelId={`metric-field-${metric.key}`}
+                  value={metric.field}
+                  label={t('sourceField')}
+                  onChange={(event) => updateMetric(metric.key, { field: event.target.value })}
+                >
+                  {renderFieldOptions()}
+                </Select>
+              </FormControl>
+              <TextField
+                size="small"
+                label={t('metricLabel')}
+                value={metric.label}
+                onChange={(event) => updateMetric(metric.key, { label: event.target.value })}
+              />
+              <TextField
+                size="small"
+                label={t('metricUnit')}
+                value={metric.unit}
+                onChange={(event) => updateMetric(metric.key, { unit: event.target.value })}
+              />
+              <FormControl size="small">
+                <InputLabel id={`metric-aggregation-${metric.key}`}>{t('aggregation')}</InputLabel>
+                <Select
+                  labelId={`metric-aggregation-${metric.key}`}
+                  value={metric.aggregation}
+                  label={t('aggregation')}
+                  onChange={(event) => updateMetric(metric.key, { aggregation: event.target.value as MetricAggregation })}
+                >
+                  {AGGREGATIONS.map((aggregation) => (
+                    <MenuItem key={aggregation} value={aggregation}>
+                      {t(aggregation)}
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+              <FormControl size="small" disabled={metric.aggregation !== 'weightedMean'}>
+                <InputLabel id={`metric-weight-${metric.key}`}>{t('weightBy')}</InputLabel>
+                <Select
+                  labelId={`metric-weight-${metric.key}`}
+                  value={metric.weightBy ?? ''}
+                  label={t('weightBy')}
+                  onChange={(event) => updateMetric(metric.key, { weightBy: event.target.value || undefined })}
+                >
+                  {schema.metrics
+                    .filter((candidate) => candidate.key !== metric.key)
+                    .map((candidate) => (
+                      <MenuItem key={candidate.key} value={candidate.key}>
+                        {t(candidate.label)}
+                      </MenuItem>
+                    ))}
+                </Select>
+              </FormControl>
+              <IconButton size="small" onClick={() => removeMetric(metric.key)} aria-label={t('removeMetric')}>
+                <DeleteOutlineRoundedIcon fontSize="small" />
+              </IconButton>
+            </Box>
+          ))}
+        </Stack>
+
+        {!canApply && (
+          <Typography variant="body2" color="warning.main" sx={{ mt: 2 }}>
+            {t('fieldMappingMetricRequired')}
+          </Typography>
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onCancel}>{t('cancel')}</Button>
+        <Button variant="contained" onClick={() => onApply(schema)} disabled={!canApply}>
+          {t('applyMapping')}
+        </Button>
+      </DialogActions>
+    </Dialog>
+  )
+}
+
+function createMetric(key: string, field: string): DatasetMetric {
+  return { key, field, label: field, unit: '', aggregation: 'sum' }
+}
+
+function getUniqueKey(field: string, metrics: DatasetMetric[]): string {
+  const keys = new Set(metrics.map((metric) => metric.key))
+  let key = field || 'metric'
+  let suffix = 2
+  while (keys.has(key)) {
+    key = `${field || 'metric'}_${suffix}`
+    suffix += 1
+  }
+  return key
+}
+
+function clearWeightReferences(metrics: DatasetMetric[], removedKey: string): DatasetMetric[] {
+  return metrics.map((metric) => (metric.weightBy === removedKey ? { ...metric, weightBy: undefined } : metric))
+}
+
+function formatSample(value: unknown): string {
+  if (value === null || value === undefined || value === '') {
+    return ''
+  }
+  const text = String(value)
+  return text.length > 24 ? `${text.slice(0, 24)}…` : text
+}
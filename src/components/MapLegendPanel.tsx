@@ -0,0 +1,81 @@
+import { Box, Paper, Typography } from '@mui/material'
+import BivariateLegend from './BivariateLegend'
+import type { BivariateBreaks } from '../services/bivariate'
+import type { MapImageLegendItem } from '../services/demographicsExport'
+import { useLanguage } from '../i18n/useLanguage'
+import type { ChoroplethMode, MapRenderer } from '../types/demographics'
+
+type MapLegendPanelProps = {
+  metricLabel: string
+  mode: ChoroplethMode
+  renderer: MapRenderer
+  bivariateBreaks: BivariateBreaks
+  dotLegendItems: MapImageLegendItem[]
+  symbolLegendValues: Array<{ value: number; radius: number }>
+  classColors: string[]
+  legendItems: MapImageLegendItem[]
+  legendBounds: { min: number; max: number }
+  formatMetric: (value: number) => string
+}
+
+// The bivariate grid, the dot key or the class legend, whichever the map currently draws.
+export default function MapLegendPanel({
+  metricLabel,
+  mode,
+  renderer,
+  bivariateBreaks,
+  dotLegendItems,
+  symbolLegendValues,
+  classColors,
+  legendItems,
+  legendBounds,
+  formatMetric,
+}: MapLegendPanelProps) {
+  const { t } = useLanguage()
+
+  return (
+    <Paper className="page-panel" elevation={0}>
+      <Typography variant="subtitle2" gutterBottom>
+        {t('legend')} ({metricLabel})
+      </Typography>
+      {mode === 'bivariate' ? (
+        <BivariateLegend breaks={bivariateBreaks} labels={{ population: t('population'), jobs: t('jobs') }} />
+      ) : renderer === 'dotDensity' ? (
+        <Box className="legend-chip-grid">
+          {dotLegendItems.map((item) => (
+            <Box key={item.label} className="legend-item">
+              <Box className="legend-dot" sx={{ backgroundColor: item.color }} />
+              <Typography variant="caption">{item.label}</Typography>
+            </Box>
+          ))}
+        </Box>
+      ) : (
+        <Box className="legend-card">
+          {renderer === 'proportional' && (
+            <Box className="symbol-legend">
+              {symbolLegendValues.map((item) => (
+                <Box key={item.value} className="symbol-legend-item">
+                  <Box className="symbol-legend-circle" sx={{ width: item.radius * 2, height: item.radius * 2 }} />
+                  <Typography variant="caption">{formatMetric(item.value)}</Typography>
+                </Box>
+              ))}
+            </Box>
+          )}
+          <Box className="legend-gradient-track" sx={{ background: `linear-gradient(90deg, ${classColors.join(', ')})` }} />
+          <Box className="legend-boundary-row">
+            <Typography variant="body2">{formatMetric(legendBounds.min)}</Typography>
+            <Typography variant="body2">{formatMetric(legendBounds.max)}</Typography>
+          </Box>
+          <Box className="legend-chip-grid">
+            {legendItems.map((item, index) => (
+              <Box key={`${item.color}-${index}`} className="legend-item">
+                <Box className="legend-swatch" sx={{ backgroundColor: item.color }} />
+                <Typography variant="caption">{item.label}</Typography>
+              </Box>
+            ))}
+          </Box>
+        </Box>
+      )}
+    </Paper>
+  )
+}
@@ -0,0 +1,80 @@
+import { useEffect, useState } from 'react'
+import { latLngBounds, type LatLng, type LeafletMouseEvent } from 'leaflet'
+import { Polygon, Rectangle, useMap, useMapEvents } from 'react-leaflet'
+
+export type SelectionDrawMode = 'rectangle' | 'lasso'
+
+type MapSelectionToolProps = {
+  drawMode: SelectionDrawMode | null
+  onComplete: (ring: Array<[number, number]>, additive: boolean) => void
+}
+
+const PREVIEW_STYLE = { color: '#f79009', weight: 2, dashArray: '6 4', fillOpacity: 0.08 }
+
+export default function MapSelectionTool({ drawMode, onComplete }: MapSelectionToolProps) {
+  const map = useMap()
+  const [points, setPoints] = useState<LatLng[]>([])
+
+  useEffect(() => {
+    if (!drawMode) {
+      return
+    }
+
+    const container = map.getContainer()
+    map.dragging.disable()
+    container.classList.add('map-canvas-drawing')
+
+    return () => {
+      map.dragging.enable()
+      container.classList.remove('map-canvas-drawing')
+    }
+  }, [drawMode, map])
+
+  useMapEvents({
+    mousedown: (event: LeafletMouseEvent) => {
+      if (drawMode) {
+        setPoints([event.latlng])
+      }
+    },
+    mousemove: (event: LeafletMouseEvent) => {
+      if (!drawMode || points.length === 0) {
+        return
+      }
+      setPoints((previous) => (drawMode === 'rectangle' ? [previous[0], event.latlng] : [...previous, event.latlng]))
+    },
+    mouseup: (event: LeafletMouseEvent) => {
+      if (!drawMode || points.length === 0) {
+        return
+      }
+
+      const ring = drawMode === 'rectangle' ? toRectangleRing(points[0], event.latlng) : points.map(toPosition)
+      setPoints([])
+      if (ring.length >= 3) {
+        onComplete(ring, event.originalEvent.shiftKey)
+      }
+    },
+  })
+
+  if (!drawMode || points.length < 2) {
+    return null
+  }
+
+  if (drawMode === 'rectangle') {
+    return <Rectangle bounds={latLngBounds(points[0], points[1])} pathOptions={PREVIEW_STYLE} interactive={false} />
+  }
+
+  return <Polygon positions={points} pathOptions={PREVIEW_STYLE} interactive={false} />
+}
+
+function toPosition(point: LatLng): [number, number] {
+  return [point.lng, point.lat]
+}
+
+function toRectangleRing(start: LatLng, end: LatLng): Array<[number, number]> {
+  return [
+    [start.lng, start.lat],
+    [end.lng, start.lat],
+    [end.lng, end.lat],
+    [start.lng, end.lat],
+  ]
+}
@@ -0,0 +1,56 @@
+import { Box, Button, ToggleButton, ToggleButtonGroup, Tooltip, Typography } from '@mui/material'
+import CropSquareRoundedIcon from '@mui/icons-material/CropSquareRounded'
+import DeselectRoundedIcon from '@mui/icons-material/DeselectRounded'
+import GestureRoundedIcon from '@mui/icons-material/GestureRounded'
+import type { SelectionDrawMode } from './MapSelectionTool'
+import { useLanguage } from '../i18n/useLanguage'
+
+type MapSelectionToolbarProps = {
+  drawMode: SelectionDrawMode | null
+  onDrawModeChange: (drawMode: SelectionDrawMode | null) => void
+  hasSelection: boolean
+  onClear: () => void
+}
+
+export default function MapSelectionToolbar({ drawMode, onDrawModeChange, hasSelection, onClear }: MapSelectionToolbarProps) {
+  const { t } = useLanguage()
+
+  return (
+    <Box className="map-selection-toolbar">
+      <ToggleButtonGroup
+        size="small"
+        exclusive
+        value={drawMode}
+        onChange={(_, value: SelectionDrawMode | null) => onDrawModeChange(value)}
+      >
+        <ToggleButton value="rectangle" aria-label={t('boxSelect')}>
+          <Tooltip title={t('boxSelect')}>
+            <CropSquareRoundedIcon fontSize="small" />
+          </Tooltip>
+        </ToggleButton>
+        <ToggleButton value="lasso" aria-label={t('lassoSelect')}>
+          <Tooltip title={t('lassoSelect')}>
+            <GestureRoundedIcon fontSize="small" />
+          </Tooltip>
+        </ToggleButton>
+      </ToggleButtonGroup>
+      <Tooltip title={t('clearSelection')}>
+        <span>
+          <Button
+            size="small"
+            variant="outlined"
+            color="secondary"
+            onClick={onClear}
+            disabled={!hasSelection}
+            aria-label={t('clearSelection')}
+          >
+            <DeselectRoundedIcon fontSize="small" />
+          </Button>
+        </span>
+      </Tooltip>
+      <Typography variant="caption" className="map-selection-hint">
+        {drawMode ? t('drawSelectionHint') : t('shiftClickHint')}
+      </Typography>
+    </Box>
+  )
+}
@@ -0,0 +1,22 @@
+import { useMapEvents } from 'react-leaflet'
+
+export type MapViewport = {
+  lat: number
+  lng: number
+  zoom: number
+}
+
+type MapViewportTrackerProps = {
+  onChange: (viewport: MapViewport) => void
+}
+
+export default function MapViewportTracker({ onChange }: MapViewportTrackerProps) {
+  const map = useMapEvents({
+    moveend: () => {
+      const center = map.getCenter()
+      onChange({ lat: center.lat, lng: center.lng, zoom: map.getZoom() })
+    },
+  })
+
+  return null
+}
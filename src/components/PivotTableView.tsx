@@ -0,0 +1,378 @@
+import { useMemo, useState, type DragEvent } from 'react'
+import { Alert, Box, Button, Chip, LinearProgress, Menu, MenuItem, Paper, Stack, Typography } from '@mui/material'
+import FileDownloadRoundedIcon from '@mui/icons-material/FileDownloadRounded'
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useLanguage } from '../i18n/useLanguage'
+import { downloadBlob } from '../services/demographicsExport'
+import { buildPivotCsv, getPivotChartData, PIVOT_AGGREGATIONS } from '../services/pivotTable'
+import type { PivotAggregation, PivotConfig, PivotRow, PivotTable, PivotValueField } from '../types/busAnalytics'
+
+export type PivotField = {
+  field: string
+  numeric: boolean
+}
+
+type PivotZone = 'rows' | 'columns' | 'values'
+// What is being dragged: a field from the list, or a chip already placed in a zone.
+type PivotDragItem = {
+  field: string
+  from: PivotZone | null
+  index: number
+}
+type PivotMenu = { anchor: HTMLElement; field: string } | { anchor: HTMLElement; valueIndex: number }
+
+type PivotTableViewProps = {
+  fields: PivotField[]
+  config: PivotConfig
+  pivot: PivotTable | null
+  loading: boolean
+  error: string | null
+  fieldLabel: (field: string) => string
+  onConfigChange: (config: PivotConfig) => void
+}
+
+const PIVOT_ZONES: PivotZone[] = ['rows', 'columns', 'values']
+const ZONE_LABELS: Record<PivotZone, string> = { rows: 'pivotRows', columns: 'pivotColumns', values: 'pivotValues' }
+const ADD_TO_ZONE_LABELS: Record<PivotZone, string> = { rows: 'pivotAddToRows', columns: 'pivotAddToColumns', values: 'pivotAddToValues' }
+const AGGREGATION_LABELS: Record<PivotAggregation, string> = {
+  sum: 'aggregationSum',
+  mean: 'aggregationMean',
+  count: 'aggregationCount',
+  min: 'aggregationMin',
+  max: 'aggregationMax',
+}
+const DRAG_TYPE = 'application/x-pivot-field'
+const SERIES_COLORS = ['#2970ff', '#f79009', '#12b76a', '#7a5af8', '#ee46bc', '#0ba5ec', '#f04438', '#667085']
+const MAX_LEGEND_SERIES = 12
+
+export default function PivotTableView({ fields, config, pivot, loading, error, fieldLabel, onConfigChange }: PivotTableViewProps) {
+  const { t } = useLanguage()
+  const [menu, setMenu] = useState<PivotMenu | null>(null)
+  const [dropZone, setDropZone] = useState<PivotZone | null>(null)
+  const numericFields = useMemo(() => new Set(fields.filter((item) => item.numeric).map((item) => item.field)), [fields])
+
+  const valueLabel = (value: PivotValueField) => `${t(AGGREGATION_LABELS[value.aggregation])} · ${fieldLabel(value.field)}`
+  const zoneFields = (zone: PivotZone) => (zone === 'values' ? config.values.map((value) => value.field) : config[zone])
+
+  const addField = (field: string, zone: PivotZone, from: PivotZone | null = null, index = -1) => {
+    const next = from ? removeFromZone(config, from, index) : config
+    if (zone === 'values') {
+      const moved = from === 'values' ? config.values[index] : null
+      const value: PivotValueField = moved ?? { field, aggregation: numericFields.has(field) ? 'sum' : 'count' }
+      const exists = next.values.some((item) => item.field === value.field && item.aggregation === value.aggregation)
+      onConfigChange(exists ? next : { ...next, values: [...next.values, value] })
+      return
+    }
+    // A field groups either the rows or the columns, not both.
+    const other = zone === 'rows' ? 'columns' : 'rows'
+    onConfigChange({
+      ...next,
+      [other]: next[other].filter((item) => item !== field),
+      [zone]: [...next[zone].filter((item) => item !== field), field],
+    })
+  }
+
+  const handleDragStart = (event: DragEvent<HTMLElement>, item: PivotDragItem) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(item))
+    event.dataTransfer.effectAllowed = 'move'
+  }
+
+  const handleDrop = (event: DragEvent<HTMLElement>, zone: PivotZone) => {
+    event.preventDefault()
+    event.stopPropagation()
+    setDropZone(null)
+    const item = readDragItem(event)
+    if (item && fields.some((candidate) => candidate.field === item.field)) {
+      addField(item.field, zone, item.from, item.index)
+    }
+  }
+
+  return (
+    <Stack spacing={2}>
+      <Paper className="page-panel" elevation={0}>
+        <Typography variant="subtitle2" gutterBottom>
+          {t('pivotFields')}
+        </Typography>
+        <Box className="pivot-field-list">
+          {fields.map((item) => (
+            <Chip
+              key={item.field}
+              size="small"
+              variant="outlined"
+              label={fieldLabel(item.field)}
+              draggable
+              onDragStart={(event) => handleDragStart(event, { field: item.field, from: null, index: -1 })}
+              onClick={(event) => setMenu({ anchor: event.currentTarget, field: item.field })}
+            />
+          ))}
+        </Box>
+        <Typography variant="caption" color="text.secondary">
+          {t('pivotDragHint')}
+        </Typography>
+
+        <Box className="pivot-zone-grid">
+          {PIVOT_ZONES.map((zone) => (
+            <Box
+              key={zone}
+              className={`pivot-zone ${dropZone === zone ? 'pivot-zone-active' : ''}`}
+              onDragOver={(event) => {
+                if (event.dataTransfer.types.includes(DRAG_TYPE)) {
+                  event.preventDefault()
+                  event.stopPropagation()
+                  setDropZone(zone)
+                }
+              }}
+              onDragLeave={() => setDropZone((current) => (current === zone ? null : current))}
+              onDrop={(event) => handleDrop(event, zone)}
+            >
+              <Typography variant="caption" color="text.secondary">
+                {t(ZONE_LABELS[zone])}
+              </Typography>
+              <Stack direction="row" spacing={0.5} useFlexGap sx={{ flexWrap: 'wrap' }}>
+                {zoneFields(zone).map((field, index) => (
+                  <Chip
+                    key={`${field}-${index}`}
+                    size="small"
+                    color="primary"
+                    label={zone === 'values' ? valueLabel(config.values[index]) : fieldLabel(field)}
+                    draggable
+                    onDragStart={(event) => handleDragStart(event, { field, from: zone, index })}
+                    onClick={zone === 'values' ? (event) => setMenu({ anchor: event.currentTarget, valueIndex: index }) : undefined}
+                    onDelete={() => onConfigChange(removeFromZone(config, zone, index))}
+                  />
+                ))}
+              </Stack>
+            </Box>
+          ))}
+        </Box>
+      </Paper>
+
+      <Menu open={menu !== null} anchorEl={menu?.anchor} onClose={() => setMenu(null)}>
+        {menu &&
+          'field' in menu &&
+          PIVOT_ZONES.map((zone) => (
+            <MenuItem
+              key={zone}
+              onClick={() => {
+                addField(menu.field, zone)
+                setMenu(null)
+              }}
+            >
+              {t(ADD_TO_ZONE_LABELS[zone])}
+            </MenuItem>
+          ))}
+        {menu &&
+          'valueIndex' in menu &&
+          PIVOT_AGGREGATIONS.map((aggregation) => {
+            const value = config.values[menu.valueIndex]
+            return (
+              <MenuItem
+                key={aggregation}
+                selected={value?.aggregation === aggregation}
+                disabled={!value || (aggregation !== 'count' && !numericFields.has(value.field))}
+                onClick={() => {
+                  onConfigChange({
+                    ...config,
+                    values: config.values.map((item, index) => (index === menu.valueIndex ? { ...item, aggregation } : item)),
+                  })
+                  setMenu(null)
+                }}
+              >
+                {t(AGGREGATION_LABELS[aggregation])}
+              </MenuItem>
+            )
+          })}
+      </Menu>
+
+      {error !== null && <Alert severity="warning">{`${t('pivotFailed')} ${error}`.trim()}</Alert>}
+      {config.values.length === 0 ? (
+        <Alert severity="info">{t('pivotNeedsValue')}</Alert>
+      ) : (
+        pivot && <PivotResult pivot={pivot} loading={loading} fieldLabel={fieldLabel} valueLabel={valueLabel} />
+      )}
+      {loading && !pivot && <LinearProgress />}
+    </Stack>
+  )
+}
+
+type PivotResultProps = {
+  pivot: PivotTable
+  loading: boolean
+  fieldLabel: (field: string) => string
+  valueLabel: (value: PivotValueField) => string
+}
+
+function PivotResult({ pivot, loading, fieldLabel, valueLabel }: PivotResultProps) {
+  const { t } = useLanguage()
+  const { config } = pivot
+  const valueLabels = config.values.map(valueLabel)
+  const hasColumns = config.columns.length > 0
+  const heatRanges = useMemo(() => getHeatRanges(pivot), [pivot])
+  const chart = getPivotChartData(pivot, t('pivotGrandTotal'))
+  const totalColumnStart = pivot.columnKeys.length * config.values.length
+
+  const handleExport = () => {
+    const csv = buildPivotCsv(pivot, {
+      total: t('pivotGrandTotal'),
+      subtotal: t('pivotSubtotal'),
+      valueLabels: config.values.map((value) => `${t(AGGREGATION_LABELS[value.aggregation])} · ${value.field}`),
+    })
+    downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8' }), 'check-in-pivot.csv')
+  }
+
+  const renderKeyCells = (row: PivotRow) =>
+    config.rows.map((field, index) => {
+      if (index < row.keys.length) {
+        return <th key={field}>{row.keys[index] || t('pivotBlank')}</th>
+      }
+      const label = index === row.keys.length ? (row.kind === 'total' ? t('pivotGrandTotal') : t('pivotSubtotal')) : ''
+      return <th key={field}>{label}</th>
+    })
+
+  return (
+    <>
+      <Paper className="page-panel" elevation={0}>
+        <Stack direction="row" spacing={1} sx={{ alignItems: 'center', mb: 1.5 }}>
+          <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+            {t('pivotView')} · {pivot.rows.filter((row) => row.kind === 'row').length.toLocaleString()} {t('pivotGroups')}
+          </Typography>
+          <Button size="small" variant="outlined" color="secondary" startIcon={<FileDownloadRoundedIcon />} onClick={handleExport}>
+            {t('exportPivotCsv')}
+          </Button>
+        </Stack>
+        {pivot.truncatedColumns && (
+          <Alert severity="info" sx={{ mb: 1.5 }}>
+            {t('pivotColumnsTruncated')}
+          </Alert>
+        )}
+        {loading && <LinearProgress sx={{ mb: 1 }} />}
+        <Box className="pivot-table-scroll">
+          <table className="pivot-table">
+            <thead>
+              <tr>
+                {config.rows.map((field) => (
+                  <th key={field} rowSpan={hasColumns ? 2 : 1}>
+                    {fieldLabel(field)}
+                  </th>
+                ))}
+                {hasColumns
+                  ? [...pivot.columnKeys.map((keys) => keys.map((key) => key || t('pivotBlank')).join(' / ')), t('pivotGrandTotal')].map(
+                      (label, index) => (
+                        <th key={index} colSpan={config.values.length} className="pivot-column-group">
+                          {label}
+                        </th>
+                      ),
+                    )
+                  : valueLabels.map((label) => <th key={label}>{label}</th>)}
+              </tr>
+              {hasColumns && (
+                <tr>
+                  {pivot.columnKeys
+                    .concat([[]])
+                    .flatMap((_, columnIndex) => valueLabels.map((label) => <th key={`${columnIndex}-${label}`}>{label}</th>))}
+                </tr>
+              )}
+            </thead>
+            <tbody>
+              {pivot.rows.map((row, rowIndex) => (
+                <tr key={rowIndex} className={row.kind === 'row' ? undefined : `pivot-${row.kind}-row`}>
+                  {renderKeyCells(row)}
+                  {row.cells.map((cell, cellIndex) => {
+                    const range = heatRanges.get(getHeatKey(cellIndex, config.values.length, totalColumnStart))
+                    return (
+                      <td key={cellIndex} style={row.kind === 'row' ? { background: getHeatColor(cell, range) } : undefined}>
+                        {formatCell(cell)}
+                      </td>
+                    )
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </Box>
+      </Paper>
+
+      <Paper className="page-panel" elevation={0}>
+        <Typography variant="subtitle2" gutterBottom>
+          {valueLabels[0]}
+        </Typography>
+        <Box className="chart-shell">
+          <ResponsiveContainer width="100%" height={320}>
+            <BarChart data={chart.data} margin={{ top: 8, right: 8, left: -8, bottom: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#dbe7ff" />
+              <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={12} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(value) => (typeof value === 'number' ? formatCell(value) : String(value ?? ''))} />
+              {chart.series.length <= MAX_LEGEND_SERIES && <Legend />}
+              {chart.series.map((series, index) => (
+                <Bar
+                  key={series}
+                  dataKey={series}
+                  name={series || t('pivotBlank')}
+                  stackId={hasColumns ? 'columns' : undefined}
+                  fill={SERIES_COLORS[index % SERIES_COLORS.length]}
+                />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </Box>
+      </Paper>
+    </>
+  )
+}
+
+function removeFromZone(config: PivotConfig, zone: PivotZone, index: number): PivotConfig {
+  return zone === 'values'
+    ? { ...config, values: config.values.filter((_, position) => position !== index) }
+    : { ...config, [zone]: config[zone].filter((_, position) => position !== index) }
+}
+
+function readDragItem(event: DragEvent<HTMLElement>): PivotDragItem | null {
+  try {
+    const item = JSON.parse(event.dataTransfer.getData(DRAG_TYPE)) as PivotDragItem
+    return typeof item.field === 'string' ? item : null
+  } catch {
+    return null
+  }
+}
+
+// Cells are shaded per value field, with the row totals on a scale of their own; subtotals and the grand total are not
+// shaded, as they would always be the darkest cells.
+function getHeatRanges(pivot: PivotTable): Map<string, { min: number; max: number }> {
+  const valueCount = pivot.config.values.length
+  const totalColumnStart = pivot.columnKeys.length * valueCount
+  const ranges = new Map<string, { min: number; max: number }>()
+  for (const row of pivot.rows) {
+    if (row.kind !== 'row') {
+      continue
+    }
+    row.cells.forEach((cell, index) => {
+      if (cell === null) {
+        return
+      }
+      const key = getHeatKey(index, valueCount, totalColumnStart)
+      const range = ranges.get(key) ?? { min: cell, max: cell }
+      ranges.set(key, { min: Math.min(range.min, cell), max: Math.max(range.max, cell) })
+    })
+  }
+  return ranges
+}
+
+function getHeatKey(cellIndex: number, valueCount: number, totalColumnStart: number): string {
+  return `${cellIndex >= totalColumnStart ? 'total' : 'cell'}:${cellIndex % valueCount}`
+}
+
+function getHeatColor(cell: number | null, range: { min: number; max: number } | undefined): string | undefined {
+  if (cell === null || !range) {
+    return undefined
+  }
+  const share = range.max > range.min ? (cell - range.min) / (range.max - range.min) : 0
+  return `rgba(41, 112, 255, ${(0.04 + share * 0.46).toFixed(3)})`
+}
+
+function formatCell(value: number | null): string {
+  if (value === null) {
+    return ''
+  }
+  return Number.isInteger(value) ? value.toLocaleString() : value.toLocaleString(undefined, { maximumFractionDigits: 2 })
+}
@@ -0,0 +1,60 @@
+import { CircleMarker, Tooltip } from 'react-leaflet'
+import { getSymbolRadius } from '../services/mapRenderers'
+
+export type ProportionalSymbol = {
+  key: string
+  name: string
+  center: [number, number]
+  value: number
+  valueLabel: string
+  color: string
+}
+
+type ProportionalSymbolLayerProps = {
+  symbols: ProportionalSymbol[]
+  metricLabel: string
+  selectedKey: string | null
+  interactive: boolean
+  onSelect: (key: string, additive: boolean) => void
+}
+
+export default function ProportionalSymbolLayer({
+  symbols,
+  metricLabel,
+  selectedKey,
+  interactive,
+  onSelect,
+}: ProportionalSymbolLayerProps) {
+  const maxValue = symbols.reduce((max, symbol) => Math.max(max, symbol.value), 0)
+  // Largest circles first, so smaller ones stay visible and clickable on top.
+  const ordered = [...symbols].filter((symbol) => symbol.value > 0).sort((a, b) => b.value - a.value)
+
+  return (
+    <>
+      {ordered.map((symbol) => (
+        <CircleMarker
+          key={symbol.key}
+          center={symbol.center}
+          radius={getSymbolRadius(symbol.value, maxValue)}
+          interactive={interactive}
+          pathOptions={{
+            color: symbol.key === selectedKey ? '#f79009' : '#ffffff',
+            weight: symbol.key === selectedKey ? 3 : 1,
+            fillColor: symbol.color,
+            fillOpacity: 0.72,
+          }}
+          eventHandlers={{ click: (event) => onSelect(symbol.key, event.originalEvent.shiftKey) }}
+        >
+          <Tooltip sticky className="map-tooltip">
+            <div className="map-tooltip-inner">
+              <strong>{symbol.name}</strong>
+              <span>
+                {metricLabel}: {symbol.valueLabel}
+              </span>
+            </div>
+          </Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
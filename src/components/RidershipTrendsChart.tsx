@@ -0,0 +1,183 @@
+import { useMemo } from 'react'
+import { Alert, Box, Grid, Paper, Stack, ToggleButton, ToggleButtonGroup, Typography } from '@mui/material'
+import { Bar, CartesianGrid, Cell, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts'
+import { useLanguage } from '../i18n/useLanguage'
+import { buildRidershipTrends, type TrendBreakdown, type TrendGranularity } from '../services/ridershipTrends'
+import type { DailyRidership } from '../types/busAnalytics'
+
+type RidershipTrendsChartProps = {
+  daily: DailyRidership[]
+  outlierDays: number
+  granularity: TrendGranularity
+  breakdown: TrendBreakdown
+  onGranularityChange: (granularity: TrendGranularity) => void
+  onBreakdownChange: (breakdown: TrendBreakdown) => void
+}
+
+const GROUP_COLORS = ['#2970ff', '#f79009', '#12b76a', '#7a5af8', '#ee46bc', '#0ba5ec']
+const ANOMALY_COLOR = '#d92d20'
+
+export default function RidershipTrendsChart({
+  daily,
+  outlierDays,
+  granularity,
+  breakdown,
+  onGranularityChange,
+  onBreakdownChange,
+}: RidershipTrendsChartProps) {
+  const { t } = useLanguage()
+  const trends = useMemo(() => buildRidershipTrends(daily, granularity, breakdown), [daily, granularity, breakdown])
+  const weekendShare =
+    trends.weekdayAverage && trends.weekendAverage !== null ? (trends.weekendAverage / trends.weekdayAverage - 1) * 100 : null
+
+  if (daily.length === 0) {
+    return <Alert severity="info">{t('trendsNeedDates')}</Alert>
+  }
+
+  return (
+    <Stack spacing={2}>
+      {outlierDays > 0 && (
+        <Alert severity="warning">
+          {t('trendOutlierDays')}: {outlierDays.toLocaleString()}
+        </Alert>
+      )}
+      <Paper className="page-panel" elevation={0}>
+        <Stack direction={{ xs: 'column', md: 'row' }} spacing={1.5} sx={{ alignItems: { md: 'center' }, mb: 1.5 }}>
+          <Typography variant="subtitle2" sx={{ flexGrow: 1 }}>
+            {t('ridershipTrend')}
+          </Typography>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={granularity}
+            onChange={(_, value: TrendGranularity | null) => value && onGranularityChange(value)}
+          >
+            <ToggleButton value="daily">{t('granularityDaily')}</ToggleButton>
+            <ToggleButton value="weekly">{t('granularityWeekly')}</ToggleButton>
+          </ToggleButtonGroup>
+          <ToggleButtonGroup
+            size="small"
+            exclusive
+            value={breakdown}
+            onChange={(_, value: TrendBreakdown | null) => value && onBreakdownChange(value)}
+          >
+            <ToggleButton value="total">{t('breakdownTotal')}</ToggleButton>
+            <ToggleButton value="route">{t('breakdownRoute')}</ToggleButton>
+            <ToggleButton value="operator">{t('breakdownOperator')}</ToggleButton>
+          </ToggleButtonGroup>
+        </Stack>
+        <Box className="chart-shell">
+          <ResponsiveContainer width="100%" height={320}>
+            <ComposedChart data={trends.points} margin={{ top: 8, right: 8, left: -8, bottom: 8 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#dbe7ff" />
+              <XAxis dataKey="date" tick={{ fontSize: 11 }} minTickGap={24} />
+              <YAxis tick={{ fontSize: 11 }} />
+              <Tooltip formatter={(value) => formatTooltipValue(value)} />
+              <Legend />
+              {breakdown === 'total' ? (
+                <Bar dataKey="total" name={t('totalCheckIns')} fill="#2970ff" radius={[4, 4, 0, 0]}>
+                  {trends.points.map((point) => (
+                    <Cell key={point.date} fill={point.anomaly ? ANOMALY_COLOR : point.weekend ? '#84adff' : '#2970ff'} />
+                  ))}
+                </Bar>
+              ) : (
+                trends.groups.map((group, index) => (
+                  <Line
+                    key={group}
+                    type="monotone"
+                    dataKey={(point: { groups: Record<string, number> }) => point.groups[group] ?? 0}
+                    name={group}
+                    stroke={GROUP_COLORS[index % GROUP_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))
+              )}
+              {granularity === 'daily' && (
+                <Line
+                  type="monotone"
+                  dataKey="movingAverage"
+                  name={t('movingAverage7')}
+                  stroke="#101828"
+                  strokeDasharray="6 3"
+                  dot={false}
+                />
+              )}
+              {breakdown !== 'total' &&
+                trends.points
+                  .filter((point) => point.anomaly)
+                  .map((point) => <ReferenceLine key={point.date} x={point.date} stroke={ANOMALY_COLOR} strokeDasharray="4 4" />)}
+            </ComposedChart>
+          </ResponsiveContainer>
+        </Box>
+      </Paper>
+
+      <Grid container spacing={2}>
+        <Grid size={{ xs: 12, md: 5 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Typography variant="subtitle2" gutterBottom>
+              {t('weekdayWeekend')}
+            </Typography>
+            <Stack direction="row" spacing={3}>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('weekdayAverage')}
+                </Typography>
+                <Typography variant="h6">{formatAverage(trends.weekdayAverage)}</Typography>
+              </Box>
+              <Box>
+                <Typography variant="body2" color="text.secondary">
+                  {t('weekendAverage')}
+                </Typography>
+                <Typography variant="h6">{formatAverage(trends.weekendAverage)}</Typography>
+              </Box>
+            </Stack>
+            {weekendShare !== null && (
+              <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+                {t('weekendVsWeekday')}: {weekendShare > 0 ? '+' : ''}
+                {weekendShare.toFixed(1)}%
+              </Typography>
+            )}
+          </Paper>
+        </Grid>
+        <Grid size={{ xs: 12, md: 7 }}>
+          <Paper className="page-panel" elevation={0}>
+            <Typography variant="subtitle2" gutterBottom>
+              {t('anomalousDays')} ({trends.anomalies.length.toLocaleString()})
+            </Typography>
+            {trends.anomalies.length === 0 ? (
+              <Typography variant="body2" color="text.secondary">
+                {t('noAnomalousDays')}
+              </Typography>
+            ) : (
+              <Box className="ridership-anomaly-grid">
+                <Typography variant="caption">{t('day')}</Typography>
+                <Typography variant="caption">{t('totalCheckIns')}</Typography>
+                <Typography variant="caption">{t('expectedValue')}</Typography>
+                <Typography variant="caption">{t('zScore')}</Typography>
+                {trends.anomalies.map((anomaly) => (
+                  <Box key={anomaly.date} className="ridership-anomaly-row">
+                    <Typography variant="body2">
+                      <strong>{anomaly.date}</strong>
+                    </Typography>
+                    <Typography variant="body2">{anomaly.total.toLocaleString()}</Typography>
+                    <Typography variant="body2">{Math.round(anomaly.expected).toLocaleString()}</Typography>
+                    <Typography variant="body2">{anomaly.zScore.toFixed(1)}</Typography>
+                  </Box>
+                ))}
+              </Box>
+            )}
+          </Paper>
+        </Grid>
+      </Grid>
+    </Stack>
+  )
+}
+
+function formatAverage(value: number | null): string {
+  return value === null ? '-' : Math.round(value).toLocaleString()
+}
+
+function formatTooltipValue(value: unknown): string {
+  return typeof value === 'number' && Number.isFinite(value) ? Math.round(value).toLocaleString() : String(value ?? '')
+}
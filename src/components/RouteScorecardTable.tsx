@@ -0,0 +1,162 @@
+import { useMemo } from 'react'
+import { Alert, Box, LinearProgress, Paper, Stack, Typography } from '@mui/material'
+import { DataGrid, type GridColDef } from '@mui/x-data-grid'
+import { getGridLocaleText } from '../i18n/gridLocaleText'
+import { useLanguage } from '../i18n/useLanguage'
+import type { RouteScorecard } from '../services/routeScorecards'
+
+type RouteScorecardRow = RouteScorecard & {
+  id: string
+  rank: number
+}
+
+type RouteScorecardTableProps = {
+  scorecards: RouteScorecard[]
+  loading: boolean
+  // Where the bus metadata came from; null until it has loaded.
+  source: 'live-api' | 'snapshot-fallback' | null
+  error: string | null
+}
+
+const SPARKLINE_WIDTH = 120
+const SPARKLINE_HEIGHT = 28
+
+export default function RouteScorecardTable({ scorecards, loading, source, error }: RouteScorecardTableProps) {
+  const { t, language } = useLanguage()
+  const rows = useMemo<RouteScorecardRow[]>(
+    () =>
+      [...scorecards]
+        .sort((left, right) => right.totalCount - left.totalCount)
+        .map((scorecard, index) => ({ ...scorecard, id: scorecard.route, rank: index + 1 })),
+    [scorecards],
+  )
+  const matchedCount = scorecards.filter((scorecard) => scorecard.busId !== null).length
+
+  const columns = useMemo<GridColDef<RouteScorecardRow>[]>(
+    () => [
+      { field: 'rank', headerName: t('rank'), type: 'number', width: 70 },
+      { field: 'route', headerName: t('route'), minWidth: 90 },
+      { field: 'carrier', headerName: t('carrier'), flex: 1, minWidth: 160, valueFormatter: (value: string | null) => value ?? '-' },
+      { field: 'totalCount', headerName: t('totalCheckIns'), type: 'number', minWidth: 120, valueFormatter: formatNumber },
+      { field: 'busCount', headerName: t('busHours'), type: 'number', minWidth: 110, valueFormatter: formatNumber },
+      { field: 'passengersPerBus', headerName: t('passengersPerBus'), type: 'number', minWidth: 130, valueFormatter: formatDecimal },
+      { field: 'routeLengthKm', headerName: t('routeLengthKm'), type: 'number', minWidth: 110, valueFormatter: formatDecimal },
+      { field: 'passengersPerKm', headerName: t('passengersPerKm'), type: 'number', minWidth: 130, valueFormatter: formatDecimal },
+      { field: 'durationMinutes', headerName: t('durationMinutes'), type: 'number', minWidth: 110, valueFormatter: formatNumber },
+      { field: 'fareAzn', headerName: t('fareAzn'), type: 'number', minWidth: 100, valueFormatter: formatMoney },
+      { field: 'estimatedRevenue', headerName: t('estimatedRevenueAzn'), type: 'number', minWidth: 150, valueFormatter: formatMoney },
+      {
+        field: 'smartCardShare',
+        headerName: t('paymentMix'),
+        type: 'number',
+        minWidth: 150,
+        renderCell: (params) =>
+          params.row.smartCardShare === null ? (
+            '-'
+          ) : (
+            <Box
+              className="route-payment-mix"
+              title={`SmartCard ${formatShare(params.row.smartCardShare)} · QR ${formatShare(params.row.qrShare)}`}
+            >
+              <Box className="route-payment-mix-bar">
+                <Box sx={{ width: `${params.row.smartCardShare * 100}%` }} />
+              </Box>
+              <Typography variant="caption">{formatShare(params.row.smartCardShare)}</Typography>
+            </Box>
+          ),
+      },
+      {
+        field: 'daily',
+        headerName: t('dailyTrend'),
+        width: SPARKLINE_WIDTH + 24,
+        sortable: false,
+        filterable: false,
+        renderCell: (params) => <Sparkline values={params.row.daily} />,
+      },
+    ],
+    [t],
+  )
+
+  const gridLocaleText = useMemo(() => getGridLocaleText(language), [language])
+
+  return (
+    <Paper className="table-panel" elevation={0}>
+      <Stack spacing={1} sx={{ mb: 1.5 }}>
+        <Typography variant="subtitle2">{t('routeScorecards')}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {t('routesMatched')}: {matchedCount.toLocaleString()} / {scorecards.length.toLocaleString()}
+          {source ? ` · ${source === 'live-api' ? t('liveApi') : t('fallbackSource')}` : ''}
+        </Typography>
+        {error !== null && <Alert severity="warning">{`${t('routeMetadataFailed')} ${error}`.trim()}</Alert>}
+        {loading && <LinearProgress />}
+      </Stack>
+      <Box sx={{ height: 560, width: '100%' }}>
+        <DataGrid
+          rows={rows}
+          columns={columns}
+          localeText={gridLocaleText}
+          density="compact"
+          pageSizeOptions={[10, 25, 50, 100]}
+          initialState={{
+            pagination: {
+              paginationModel: {
+                pageSize: 25,
+                page: 0,
+              },
+            },
+          }}
+          disableRowSelectionOnClick
+          showToolbar
+          slotProps={{
+            toolbar: {
+              printOptions: {
+                disableToolbarButton: true,
+              },
+            },
+          }}
+        />
+      </Box>
+    </Paper>
+  )
+}
+
+// Scaled to the route's own peak, so the shape reads even for quiet routes.
+function Sparkline({ values }: { values: number[] }) {
+  if (values.length < 2) {
+    return null
+  }
+  const max = Math.max(...values, 1)
+  const points = values
+    .map((value, index) => {
+      const x = (index / (values.length - 1)) * SPARKLINE_WIDTH
+      const y = SPARKLINE_HEIGHT - 2 - (value / max) * (SPARKLINE_HEIGHT - 4)
+      return `${x.toFixed(1)},${y.toFixed(1)}`
+    })
+    .join(' ')
+  return (
+    <svg
+      className="route-sparkline"
+      width={SPARKLINE_WIDTH}
+      height={SPARKLINE_HEIGHT}
+      viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+    >
+      <polyline points={points} fill="none" stroke="#2970ff" strokeWidth={1.5} />
+    </svg>
+  )
+}
+
+function formatNumber(value: number | null): string {
+  return value === null ? '-' : Math.round(value).toLocaleString()
+}
+
+function formatDecimal(value: number | null): string {
+  return value === null ? '-' : value.toLocaleString(undefined, { maximumFractionDigits: 1 })
+}
+
+function formatMoney(value: number | null): string {
+  return value === null ? '-' : value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })
+}
+
+function formatShare(value: number | null): string {
+  return value === null ? '-' : `${Math.round(value * 100)}%`
+}
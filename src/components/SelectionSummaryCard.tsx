@@ -0,0 +1,74 @@
+import { Box, Button, Paper, Typography } from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+
+export type SelectionSummary = {
+  zoneCount: number
+  population: number
+  jobs: number
+  areaKm2: number
+  metricSum: number
+  metricMean: number
+}
+
+type SelectionSummaryCardProps = {
+  summary: SelectionSummary
+  metricLabel: string
+  formatMetric: (value: number) => string
+  onClear: () => void
+}
+
+export default function SelectionSummaryCard({ summary, metricLabel, formatMetric, onClear }: SelectionSummaryCardProps) {
+  const { t } = useLanguage()
+  const count = Math.max(summary.zoneCount, 1)
+
+  const rows = [
+    { label: t('population'), sum: summary.population.toLocaleString(), mean: formatNumber(summary.population / count) },
+    { label: t('jobs'), sum: summary.jobs.toLocaleString(), mean: formatNumber(summary.jobs / count) },
+    { label: t('areaKm2'), sum: formatNumber(summary.areaKm2, 2), mean: formatNumber(summary.areaKm2 / count, 2) },
+    { label: metricLabel, sum: formatMetric(summary.metricSum), mean: formatMetric(summary.metricMean) },
+  ]
+
+  return (
+    <Paper className="page-panel selection-summary-card" elevation={0}>
+      <Box className="zone-detail-header">
+        <Box>
+          <Typography variant="subtitle2">{t('selectionSummary')}</Typography>
+          <Typography variant="body2" color="text.secondary">
+            {summary.zoneCount.toLocaleString()} {t('zonesSelected')}
+          </Typography>
+        </Box>
+        <Button size="small" variant="outlined" color="secondary" onClick={onClear}>
+          {t('clearSelection')}
+        </Button>
+      </Box>
+
+      <Box className="selection-summary-grid">
+        <span />
+        <Typography variant="caption">{t('sum')}</Typography>
+        <Typography variant="caption">{t('mean')}</Typography>
+        {rows.map((row) => (
+          <Box key={row.label} className="zone-detail-share-row">
+            <Typography variant="body2">{row.label}</Typography>
+            <Typography variant="body2">
+              <strong>{row.sum}</strong>
+            </Typography>
+            <Typography variant="body2">{row.mean}</Typography>
+          </Box>
+        ))}
+      </Box>
+
+      <Box className="map-popup-row">
+        <span>{t('populationDensity')}</span>
+        <strong>{formatNumber(summary.areaKm2 > 0 ? summary.population / summary.areaKm2 : 0, 1)}</strong>
+      </Box>
+      <Box className="map-popup-row">
+        <span>{t('jobDensity')}</span>
+        <strong>{formatNumber(summary.areaKm2 > 0 ? summary.jobs / summary.areaKm2 : 0, 1)}</strong>
+      </Box>
+    </Paper>
+  )
+}
+
+function formatNumber(value: number, maximumFractionDigits = 0): string {
+  return value.toLocaleString(undefined, { maximumFractionDigits })
+}
@@ -0,0 +1,40 @@
+import { useMemo } from 'react'
+import { CircleMarker, Polygon, Tooltip } from 'react-leaflet'
+import type { LatLngTuple } from 'leaflet'
+import type { AynaBusStop } from '../services/dataService'
+import type { TransitCoverage } from '../types/demographics'
+
+type TransitCoverageLayerProps = {
+  coverage: TransitCoverage | null
+  stops: AynaBusStop[]
+}
+
+// Buffers and stops sit above the zones but ignore the pointer, so zone selection keeps working underneath.
+export default function TransitCoverageLayer({ coverage, stops }: TransitCoverageLayerProps) {
+  const bufferPositions = useMemo(
+    () => coverage?.buffers.map((polygon) => polygon.map((ring) => ring.map(([lng, lat]): LatLngTuple => [lat, lng]))) ?? [],
+    [coverage],
+  )
+
+  return (
+    <>
+      {bufferPositions.length > 0 && (
+        <Polygon
+          positions={bufferPositions}
+          interactive={false}
+          pathOptions={{ color: '#0e9384', weight: 1.5, dashArray: '4 4', fillColor: '#15b79e', fillOpacity: 0.18 }}
+        />
+      )}
+      {stops.map((stop) => (
+        <CircleMarker
+          key={stop.id}
+          center={[stop.lat, stop.lng]}
+          radius={3}
+          pathOptions={{ color: '#ffffff', weight: 1, fillColor: '#0e9384', fillOpacity: 1 }}
+        >
+          <Tooltip>{stop.name}</Tooltip>
+        </CircleMarker>
+      ))}
+    </>
+  )
+}
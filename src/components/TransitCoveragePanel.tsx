@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react'
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  FormControl,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+import type { AynaBusSummary } from '../services/dataService'
+import { WALKING_RADIUS_OPTIONS_M, getTransitCoverageTotals, summarizeTransitCoverage } from '../services/transitCoverage'
+import type { AggregatedRegionLevel, TransitCoverage } from '../types/demographics'
+
+type TransitCoveragePanelProps = {
+  buses: AynaBusSummary[]
+  selectedBusIds: number[]
+  onSelectedBusIdsChange: (busIds: number[]) => void
+  radiusM: number
+  onRadiusChange: (radiusM: number) => void
+  stopCount: number
+  coverage: TransitCoverage | null
+  loading: boolean
+  failedBusCount: number
+  // Set when the coverage overlay could not be computed.
+  error: string | null
+}
+
+// Districts below this share of covered residents are flagged as under-served.
+const UNDER_SERVED_SHARE = 0.5
+
+export default function TransitCoveragePanel({
+  buses,
+  selectedBusIds,
+  onSelectedBusIdsChange,
+  radiusM,
+  onRadiusChange,
+  stopCount,
+  coverage,
+  loading,
+  failedBusCount,
+  error,
+}: TransitCoveragePanelProps) {
+  const { t } = useLanguage()
+  const [level, setLevel] = useState<AggregatedRegionLevel>('meso')
+  const selectedBuses = useMemo(() => buses.filter((bus) => selectedBusIds.includes(bus.id)), [buses, selectedBusIds])
+  const totals = useMemo(() => (coverage ? getTransitCoverageTotals(coverage.zones) : null), [coverage])
+  const districts = useMemo(() => (coverage ? summarizeTransitCoverage(coverage.zones, level) : []), [coverage, level])
+
+  return (
+    <Paper className="page-panel" elevation={0}>
+      <Typography variant="subtitle2" gutterBottom>
+        {t('transitCoverage')}
+      </Typography>
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mb: 2 }}>
+        <Autocomplete
+          multiple
+          size="small"
+          limitTags={6}
+          options={buses}
+          value={selectedBuses}
+          getOptionLabel={(bus) => bus.number}
+          isOptionEqualToValue={(option, value) => option.id === value.id}
+          onChange={(_, value) => onSelectedBusIdsChange(value.map((bus) => bus.id))}
+          renderInput={(params) => <TextField {...params} label={t('transitBuses')} />}
+          sx={{ minWidth: 320, flex: 1 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 180 }}>
+          <InputLabel id="walking-radius-label">{t('walkingRadius')}</InputLabel>
+          <Select
+            labelId="walking-radius-label"
+            value={radiusM}
+            label={t('walkingRadius')}
+            onChange={(event) => onRadiusChange(Number(event.target.value))}
+          >
+            {WALKING_RADIUS_OPTIONS_M.map((option) => (
+              <MenuItem key={option} value={option}>
+                {option} m
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        <ToggleButtonGroup
+          size="small"
+          exclusive
+          value={level}
+          onChange={(_, value: AggregatedRegionLevel | null) => value && setLevel(value)}
+        >
+          <ToggleButton value="meso">{t('meso')}</ToggleButton>
+          <ToggleButton value="macro">{t('macro')}</ToggleButton>
+        </ToggleButtonGroup>
+      </Stack>
+
+      {failedBusCount > 0 && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {t('transitBusesFailed')}: {failedBusCount}
+        </Alert>
+      )}
+
+      {error !== null && (
+        <Alert severity="warning" sx={{ mb: 2 }}>
+          {`${t('transitCoverageFailed')} ${error}`.trim()}
+        </Alert>
+      )}
+
+      {selectedBusIds.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('selectTransitBusesHint')}
+        </Typography>
+      ) : loading ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('computingTransitCoverage')}
+        </Typography>
+      ) : error !== null ? null : !coverage || !totals ? (
+        <Typography variant="body2" color="text.secondary">
+          {t('noTransitStops')}
+        </Typography>
+      ) : (
+        <>
+          <Typography variant="body2" sx={{ mb: 1.5 }}>
+            {stopCount.toLocaleString()} {t('transitStops')} · {t('population')} {formatShare(totals.populationShare)} · {t('jobs')}{' '}
+            {formatShare(totals.jobsShare)} {t('withinWalkingRadius')}
+          </Typography>
+          <Box className="transit-coverage-grid">
+            <Typography variant="caption">{t(level)}</Typography>
+            <Typography variant="caption">{t('population')}</Typography>
+            <Typography variant="caption">{t('coveredPopulation')}</Typography>
+            <Typography variant="caption">{t('jobs')}</Typography>
+            <Typography variant="caption">{t('coveredJobs')}</Typography>
+            {districts.map((district) => (
+              <Box key={district.key} className="transit-coverage-row">
+                <Typography variant="body2" className="zone-comparison-name">
+                  {district.key}
+                </Typography>
+                <Typography variant="body2">{Math.round(district.population).toLocaleString()}</Typography>
+                <Typography variant="body2" className={getShareClassName(district.populationShare, district.population)}>
+                  {Math.round(district.coveredPopulation).toLocaleString()} · <strong>{formatShare(district.populationShare)}</strong>
+                </Typography>
+                <Typography variant="body2">{Math.round(district.jobs).toLocaleString()}</Typography>
+                <Typography variant="body2" className={getShareClassName(district.jobsShare, district.jobs)}>
+                  {Math.round(district.coveredJobs).toLocaleString()} · <strong>{formatShare(district.jobsShare)}</strong>
+                </Typography>
+              </Box>
+            ))}
+          </Box>
+        </>
+      )}
+    </Paper>
+  )
+}
+
+function formatShare(value: number): string {
+  return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`
+}
+
+function getShareClassName(share: number, total: number): string | undefined {
+  if (total <= 0) {
+    return undefined
+  }
+  return share < UNDER_SERVED_SHARE ? 'zone-comparison-negative' : 'zone-comparison-positive'
+}
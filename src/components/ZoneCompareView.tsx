@@ -0,0 +1,126 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Box, Stack } from '@mui/material'
+import type { Map as LeafletMap } from 'leaflet'
+import CompareMapPane, { type CompareClassification } from './CompareMapPane'
+import ZoneComparisonTable from './ZoneComparisonTable'
+import { useRegionLevelFeatures } from '../hooks/useRegionLevelFeatures'
+import { getHierarchyName } from '../services/regionAttributes'
+import type { MetricOption } from '../services/regionMetrics'
+import { getComparedZone } from '../services/zoneComparison'
+import type { RegionFeature, RegionsGeoJson } from '../types/data'
+import type { DatasetSchema, HierarchyTotals, MetricKey, RegionLevel } from '../types/demographics'
+
+type CompareSide = {
+  metric: MetricKey
+  level: RegionLevel
+  pinnedKey: string | null
+}
+
+type ZoneCompareViewProps = {
+  regions: RegionsGeoJson | null
+  schema: DatasetSchema
+  metricOptions: MetricOption[]
+  hierarchyTotals: HierarchyTotals
+  classification: CompareClassification
+  initialMetric: MetricKey
+  initialLevel: RegionLevel
+  center: [number, number]
+}
+
+const SIDE_LABELS = ['A', 'B'] as const
+
+export default function ZoneCompareView({
+  regions,
+  schema,
+  metricOptions,
+  hierarchyTotals,
+  classification,
+  initialMetric,
+  initialLevel,
+  center,
+}: ZoneCompareViewProps) {
+  const [sides, setSides] = useState<CompareSide[]>(() => [
+    { metric: initialMetric, level: initialLevel, pinnedKey: null },
+    { metric: initialMetric, level: initialLevel, pinnedKey: null },
+  ])
+  const [firstMap, setFirstMap] = useState<LeafletMap | null>(null)
+  const [secondMap, setSecondMap] = useState<LeafletMap | null>(null)
+  const first = useRegionLevelFeatures(regions, schema, sides[0].level)
+  const second = useRegionLevelFeatures(regions, schema, sides[1].level)
+
+  // Panning or zooming either map moves the other one; the flag stops the two move handlers from echoing each other.
+  useEffect(() => {
+    if (!firstMap || !secondMap) {
+      return
+    }
+
+    let syncing = false
+    const follow = (source: LeafletMap, target: LeafletMap) => () => {
+      if (syncing) {
+        return
+      }
+      syncing = true
+      target.setView(source.getCenter(), source.getZoom(), { animate: false })
+      syncing = false
+    }
+    const moveSecond = follow(firstMap, secondMap)
+    const moveFirst = follow(secondMap, firstMap)
+    firstMap.on('move', moveSecond)
+    secondMap.on('move', moveFirst)
+    moveSecond()
+
+    return () => {
+      firstMap.off('move', moveSecond)
+      secondMap.off('move', moveFirst)
+    }
+  }, [firstMap, secondMap])
+
+  const updateSide = (index: number, patch: Partial<CompareSide>) => {
+    setSides((previous) => previous.map((side, sideIndex) => (sideIndex === index ? { ...side, ...patch } : side)))
+  }
+
+  const getSideMetric = (side: CompareSide) =>
+    metricOptions.some((option) => option.key === side.metric) ? side.metric : (metricOptions[0]?.key ?? side.metric)
+
+  const comparedZones = useMemo(
+    () =>
+      [first.features, second.features].map((features, index) => {
+        const { level, pinnedKey } = sides[index]
+        const feature = pinnedKey ? findZone(features, level, pinnedKey, schema) : undefined
+        return feature ? getComparedZone(feature, level, schema, hierarchyTotals) : null
+      }),
+    [first.features, hierarchyTotals, schema, second.features, sides],
+  )
+
+  return (
+    <Stack spacing={2}>
+      <Box className="compare-map-grid">
+        {[first, second].map((side, index) => (
+          <CompareMapPane
+            key={SIDE_LABELS[index]}
+            label={SIDE_LABELS[index]}
+            features={side.features}
+            dissolving={side.dissolving}
+            aggregationError={side.aggregationError}
+            schema={schema}
+            level={sides[index].level}
+            metric={getSideMetric(sides[index])}
+            metricOptions={metricOptions}
+            classification={classification}
+            pinnedKey={sides[index].pinnedKey}
+            center={center}
+            onLevelChange={(level) => updateSide(index, { level, pinnedKey: null })}
+            onMetricChange={(metric) => updateSide(index, { metric })}
+            onPin={(pinnedKey) => updateSide(index, { pinnedKey })}
+            onMapChange={index === 0 ? setFirstMap : setSecondMap}
+          />
+        ))}
+      </Box>
+      <ZoneComparisonTable first={comparedZones[0]} second={comparedZones[1]} firstLabel={SIDE_LABELS[0]} secondLabel={SIDE_LABELS[1]} />
+    </Stack>
+  )
+}
+
+function findZone(features: RegionFeature[], level: RegionLevel, key: string, schema: DatasetSchema): RegionFeature | undefined {
+  return features.find((feature) => getHierarchyName(feature.properties, level, schema) === key)
+}
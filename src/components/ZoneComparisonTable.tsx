@@ -0,0 +1,112 @@
+import { Box, Paper, Typography } from '@mui/material'
+import { useLanguage } from '../i18n/useLanguage'
+import { buildZoneComparisonRows, type ComparedZone, type ZoneComparisonRow } from '../services/zoneComparison'
+
+type ZoneComparisonTableProps = {
+  first: ComparedZone | null
+  second: ComparedZone | null
+  firstLabel: string
+  secondLabel: string
+}
+
+export default function ZoneComparisonTable({ first, second, firstLabel, secondLabel }: ZoneComparisonTableProps) {
+  const { t } = useLanguage()
+
+  if (!first || !second) {
+    return (
+      <Paper className="page-panel" elevation={0}>
+        <Typography variant="subtitle2">{t('zoneComparison')}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {t('pinTwoZonesHint')}
+        </Typography>
+      </Paper>
+    )
+  }
+
+  const rows = buildZoneComparisonRows(first, second)
+
+  return (
+    <Paper className="page-panel" elevation={0}>
+      <Typography variant="subtitle2" gutterBottom>
+        {t('zoneComparison')}
+      </Typography>
+      <Box className="zone-comparison-grid">
+        <span />
+        <ZoneHeader label={firstLabel} zone={first} levelLabel={t(first.level)} />
+        <ZoneHeader label={secondLabel} zone={second} levelLabel={t(second.level)} />
+        <Typography variant="caption">
+          {t('difference')} ({secondLabel} − {firstLabel})
+        </Typography>
+        <Typography variant="caption">{t('change')}</Typography>
+        {rows.map((row) => (
+          <Box key={row.key} className="zone-comparison-row">
+            <Typography variant="body2">{t(row.label)}</Typography>
+            <Typography variant="body2">{formatValue(row.first, row.kind)}</Typography>
+            <Typography variant="body2">{formatValue(row.second, row.kind)}</Typography>
+            <Typography variant="body2" className={getDeltaClassName(row.delta)}>
+              <strong>{formatDelta(row.delta, row.kind)}</strong>
+            </Typography>
+            <Typography variant="body2" className={getDeltaClassName(row.relativeDelta)}>
+              {formatRelativeDelta(row.relativeDelta)}
+            </Typography>
+          </Box>
+        ))}
+      </Box>
+    </Paper>
+  )
+}
+
+function ZoneHeader({ label, zone, levelLabel }: { label: string; zone: ComparedZone; levelLabel: string }) {
+  return (
+    <Box>
+      <Typography variant="caption">
+        {label} · {levelLabel}
+      </Typography>
+      <Typography variant="body2" className="zone-comparison-name">
+        <strong>{zone.name}</strong>
+      </Typography>
+    </Box>
+  )
+}
+
+function formatValue(value: number | null, kind: ZoneComparisonRow['kind']): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '-'
+  }
+  if (kind === 'share') {
+    return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`
+  }
+  return value.toLocaleString(undefined, { maximumFractionDigits: getFractionDigits(kind) })
+}
+
+function formatDelta(value: number | null, kind: ZoneComparisonRow['kind']): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '-'
+  }
+  const sign = value > 0 ? '+' : ''
+  if (kind === 'share') {
+    return `${sign}${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })} pp`
+  }
+  return `${sign}${value.toLocaleString(undefined, { maximumFractionDigits: getFractionDigits(kind) })}`
+}
+
+function formatRelativeDelta(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '-'
+  }
+  return `${value > 0 ? '+' : ''}${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`
+}
+
+function getFractionDigits(kind: ZoneComparisonRow['kind']): number {
+  if (kind === 'area') {
+    return 2
+  }
+  return kind === 'density' ? 1 : 0
+}
+
+function getDeltaClassName(value: number | null): string | undefined {
+  if (value === null || value === 0 || !Number.isFinite(value)) {
+    return undefined
+  }
+  return value > 0 ? 'zone-comparison-positive' : 'zone-comparison-negative'
+}
@@ -0,0 +1,116 @@
+import { Box, IconButton, Paper, Typography } from '@mui/material'
+import CloseRoundedIcon from '@mui/icons-material/CloseRounded'
+import { useLanguage } from '../i18n/useLanguage'
+import type { RegionLevel, ZoneShare } from '../types/demographics'
+
+type ZoneDetailsPanelProps = {
+  name: string
+  level: RegionLevel
+  properties: Record<string, unknown>
+  metrics: Array<{ label: string; value: string }>
+  rank: number
+  rankTotal: number
+  rankMetricLabel: string
+  shares: ZoneShare[]
+  onClose: () => void
+}
+
+export default function ZoneDetailsPanel({
+  name,
+  level,
+  properties,
+  metrics,
+  rank,
+  rankTotal,
+  rankMetricLabel,
+  shares,
+  onClose,
+}: ZoneDetailsPanelProps) {
+  const { t } = useLanguage()
+
+  return (
+    <Paper className="page-panel zone-detail-panel" elevation={0}>
+      <Box className="zone-detail-header">
+        <Box>
+          <Typography variant="caption" color="text.secondary">
+            {t(level)}
+          </Typography>
+          <Typography variant="subtitle1" className="zone-detail-title">
+            {name}
+          </Typography>
+        </Box>
+        <IconButton size="small" onClick={onClose} aria-label={t('closeDetails')}>
+          <CloseRoundedIcon fontSize="small" />
+        </IconButton>
+      </Box>
+
+      <Box className="zone-detail-rank">
+        <Typography variant="h6">#{rank.toLocaleString()}</Typography>
+        <Typography variant="body2" color="text.secondary">
+          {t('rankOf')} {rankTotal.toLocaleString()} · {rankMetricLabel}
+        </Typography>
+      </Box>
+
+      <Box className="zone-detail-section">
+        {metrics.map((item) => (
+          <Box key={item.label} className="map-popup-row">
+            <span>{item.label}</span>
+            <strong>{item.value}</strong>
+          </Box>
+        ))}
+      </Box>
+
+      {shares.length > 0 && (
+        <Box className="zone-detail-section">
+          <Typography variant="subtitle2">{t('shareOfParent')}</Typography>
+          <Box className="zone-detail-share-grid">
+            <span />
+            <Typography variant="caption">{t('population')}</Typography>
+            <Typography variant="caption">{t('jobs')}</Typography>
+            {shares.map((share) => (
+              <Box key={`${share.parentLevel}-${share.parentName}`} className="zone-detail-share-row">
+                <Typography variant="body2" className="zone-detail-share-parent">
+                  {share.parentLevel === 'total' ? t('allZones') : `${t(share.parentLevel)}: ${share.parentName}`}
+                </Typography>
+                <Typography variant="body2">{formatShare(share.populationShare)}</Typography>
+                <Typography variant="body2">{formatShare(share.jobsShare)}</Typography>
+              </Box>
+            ))}
+          </Box>
+        </Box>
+      )}
+
+      <Box className="zone-detail-section">
+        <Typography variant="subtitle2">{t('attributes')}</Typography>
+        <Box className="zone-detail-attributes">
+          {Object.entries(properties).map(([key, value]) => (
+            <Box key={key} className="map-popup-row">
+              <span>{key}</span>
+              <strong>{formatAttribute(value)}</strong>
+            </Box>
+          ))}
+        </Box>
+      </Box>
+    </Paper>
+  )
+}
+
+function formatShare(value: number | null): string {
+  if (value === null || !Number.isFinite(value)) {
+    return '-'
+  }
+  return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`
+}
+
+function formatAttribute(value: unknown): string {
+  if (typeof value === 'number') {
+    return value.toLocaleString(undefined, { maximumFractionDigits: 4 })
+  }
+  if (value === null || value === undefined) {
+    return '-'
+  }
+  if (typeof value === 'object') {
+    return JSON.stringify(value)
+  }
+  return String(value)
+}
@@ -0,0 +1,179 @@
+import { useEffect, useMemo } from 'react'
+import { Box, Paper, Typography } from '@mui/material'
+import {
+  DataGrid,
+  gridExpandedSortedRowIdsSelector,
+  gridFilterModelSelector,
+  gridPaginatedVisibleSortedGridRowIdsSelector,
+  gridSortModelSelector,
+  useGridApiRef,
+  type GridColDef,
+  type GridRowId,
+} from '@mui/x-data-grid'
+import { getGridLocaleText } from '../i18n/gridLocaleText'
+import { useLanguage } from '../i18n/useLanguage'
+
+// Rows are keyed by feature index because several zones can share a blank hierarchy value; zoneKey links back to the map.
+export type ZoneRankingRow = {
+  id: number
+  zoneKey: string
+  name: string
+  population: number
+  jobs: number
+  value: number
+  rank: number
+  populationShare: number
+  jobsShare: number
+  classColor: string
+}
+
+type ZoneRankingTableProps = {
+  rows: ZoneRankingRow[]
+  metricLabel: string
+  formatMetric: (value: number) => string
+  onHighlightChange: (keys: string[] | null) => void
+  onHoverChange: (key: string | null) => void
+  onRowSelect: (key: string) => void
+}
+
+export default function ZoneRankingTable({
+  rows,
+  metricLabel,
+  formatMetric,
+  onHighlightChange,
+  onHoverChange,
+  onRowSelect,
+}: ZoneRankingTableProps) {
+  const { t, language } = useLanguage()
+  const apiRef = useGridApiRef()
+
+  // A filter highlights every matching zone; a sort alone highlights the zones on the current page.
+  useEffect(() => {
+    const api = apiRef.current
+    if (!api) {
+      return
+    }
+
+    const toZoneKeys = (ids: GridRowId[]) => ids.map((id) => api.getRow<ZoneRankingRow>(id)?.zoneKey ?? String(id))
+    const emitHighlight = () => {
+      const filterModel = gridFilterModelSelector(apiRef)
+      const filterActive =
+        filterModel.items.some((item) => item.value !== undefined && item.value !== '') || (filterModel.quickFilterValues ?? []).length > 0
+      if (filterActive) {
+        onHighlightChange(toZoneKeys(gridExpandedSortedRowIdsSelector(apiRef)))
+        return
+      }
+      if (gridSortModelSelector(apiRef).length > 0) {
+        onHighlightChange(toZoneKeys(gridPaginatedVisibleSortedGridRowIdsSelector(apiRef)))
+        return
+      }
+      onHighlightChange(null)
+    }
+
+    const unsubscribers = [
+      api.subscribeEvent('sortedRowsSet', emitHighlight),
+      api.subscribeEvent('filteredRowsSet', emitHighlight),
+      api.subscribeEvent('paginationModelChange', emitHighlight),
+    ]
+
+    return () => {
+      unsubscribers.forEach((unsubscribe) => unsubscribe())
+      onHighlightChange(null)
+    }
+  }, [apiRef, onHighlightChange])
+
+  const columns = useMemo<GridColDef<ZoneRankingRow>[]>(
+    () => [
+      { field: 'rank', headerName: t('rank'), type: 'number', width: 80 },
+      {
+        field: 'classColor',
+        headerName: t('classColor'),
+        width: 90,
+        sortable: false,
+        filterable: false,
+        renderCell: (params) => (
+          <Box className="zone-ranking-swatch-cell">
+            <Box className="zone-ranking-swatch" sx={{ backgroundColor: params.row.classColor }} />
+          </Box>
+        ),
+      },
+      { field: 'name', headerName: t('zoneName'), flex: 1, minWidth: 160 },
+      {
+        field: 'value',
+        headerName: metricLabel,
+        type: 'number',
+        minWidth: 140,
+        valueFormatter: (value: number) => formatMetric(value),
+      },
+      {
+        field: 'population',
+        headerName: t('population'),
+        type: 'number',
+        minWidth: 120,
+        valueFormatter: (value: number) => value.toLocaleString(),
+      },
+      { field: 'jobs', headerName: t('jobs'), type: 'number', minWidth: 110, valueFormatter: (value: number) => value.toLocaleString() },
+      {
+        field: 'populationShare',
+        headerName: t('populationShareOfTotal'),
+        type: 'number',
+        minWidth: 140,
+        valueFormatter: formatShare,
+      },
+      { field: 'jobsShare', headerName: t('jobsShareOfTotal'), type: 'number', minWidth: 130, valueFormatter: formatShare },
+    ],
+    [formatMetric, metricLabel, t],
+  )
+
+  const gridLocaleText = useMemo(() => getGridLocaleText(language), [language])
+
+  return (
+    <Paper className="table-panel zone-ranking-panel" elevation={0}>
+      <Typography variant="subtitle2" gutterBottom>
+        {t('zoneRanking')}
+      </Typography>
+      <Box sx={{ height: 480, width: '100%' }}>
+        <DataGrid
+          apiRef={apiRef}
+          rows={rows}
+          columns={columns}
+          localeText={gridLocaleText}
+          density="compact"
+          pageSizeOptions={[10, 25, 50, 100]}
+          initialState={{
+            pagination: {
+              paginationModel: {
+                pageSize: 10,
+                page: 0,
+              },
+            },
+          }}
+          onRowClick={(params) => onRowSelect(params.row.zoneKey)}
+          disableRowSelectionOnClick
+          showToolbar
+          slotProps={{
+            toolbar: {
+              printOptions: {
+                disableToolbarButton: true,
+              },
+            },
+            row: {
+              onMouseEnter: (event) => {
+                const id = event.currentTarget.getAttribute('data-id')
+                onHoverChange(id === null ? null : (apiRef.current?.getRow<ZoneRankingRow>(Number(id))?.zoneKey ?? null))
+              },
+              onMouseLeave: () => onHoverChange(null),
+            },
+          }}
+        />
+      </Box>
+    </Paper>
+  )
+}
+
+function formatShare(value: number): string {
+  if (!Number.isFinite(value)) {
+    return '-'
+  }
+  return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 2 })}%`
+}
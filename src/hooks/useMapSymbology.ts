@@ -0,0 +1,148 @@
+import { useCallback, useMemo } from 'react'
+import { scaleThreshold } from 'd3-scale'
+import type { ProportionalSymbol } from '../components/ProportionalSymbolLayer'
+import { computeBivariateBreaks, getBivariateColor } from '../services/bivariate'
+import { MAX_CLASS_COUNT, getPaletteColors } from '../services/choroplethPalettes'
+import { computeClassBreaks, parseManualBreaks } from '../services/classification'
+import { generateDotDensity, getSymbolRadius } from '../services/mapRenderers'
+import { getHierarchyName, getRegionName } from '../services/regionAttributes'
+import { getFeatureCentroid } from '../services/regionGeometry'
+import { formatMetricValue, getFeatureMetricValue } from '../services/regionMetrics'
+import type { RegionFeature } from '../types/data'
+import type {
+  ChoroplethMode,
+  ClassificationScheme,
+  DatasetSchema,
+  MapRenderer,
+  MetricKey,
+  PaletteKey,
+  RegionLevel,
+} from '../types/demographics'
+
+export type MapClassification = {
+  scheme: ClassificationScheme
+  classCount: number
+  palette: PaletteKey
+  manualBreaksInput: string
+}
+
+// Everything drawn over the zones for the current metric: class breaks and colours, the bivariate grid, dots and
+// proportional symbols, plus the legend entries for each. Dots and symbols are only generated for their renderer.
+export function useMapSymbology(
+  features: RegionFeature[],
+  schema: DatasetSchema,
+  regionLevel: RegionLevel,
+  metric: MetricKey,
+  mode: ChoroplethMode,
+  renderer: MapRenderer,
+  classification: MapClassification,
+  dotValue: number,
+) {
+  const { scheme, classCount, palette, manualBreaksInput } = classification
+
+  const metricValues = useMemo(
+    () => features.map((feature) => getFeatureMetricValue(feature, metric, schema)).filter((value) => value > 0),
+    [features, metric, schema],
+  )
+
+  const manualBreaks = useMemo(() => parseManualBreaks(manualBreaksInput).slice(0, MAX_CLASS_COUNT - 1), [manualBreaksInput])
+  const manualBreaksInvalid = scheme === 'manual' && manualBreaksInput.trim().length > 0 && manualBreaks.length === 0
+
+  const classBreaks = useMemo(() => {
+    const activeScheme = scheme === 'manual' && manualBreaks.length === 0 ? 'quantile' : scheme
+    return computeClassBreaks(metricValues, activeScheme, classCount, manualBreaks)
+  }, [classCount, manualBreaks, metricValues, scheme])
+
+  const classColors = useMemo(() => {
+    const classes = Math.max(classBreaks.length - 1, 0)
+    return getPaletteColors(palette, classes).slice(0, classes)
+  }, [classBreaks, palette])
+
+  const colorScale = useMemo(() => {
+    if (classColors.length === 0) {
+      return null
+    }
+
+    return scaleThreshold<number, string>().domain(classBreaks.slice(1, -1)).range(classColors)
+  }, [classBreaks, classColors])
+
+  const legendItems = useMemo(
+    () =>
+      classColors.map((color, index) => ({
+        color,
+        label: `${formatMetricValue(classBreaks[index], metric, schema)} - ${formatMetricValue(classBreaks[index + 1], metric, schema)}`,
+      })),
+    [classBreaks, classColors, metric, schema],
+  )
+
+  const legendBounds = useMemo(() => {
+    if (classBreaks.length === 0) {
+      return { min: 0, max: 0 }
+    }
+
+    return {
+      min: classBreaks[0],
+      max: classBreaks[classBreaks.length - 1],
+    }
+  }, [classBreaks])
+
+  const bivariateBreaks = useMemo(() => computeBivariateBreaks(features, schema), [features, schema])
+
+  const dotDensity = useMemo(
+    () => (renderer === 'dotDensity' ? generateDotDensity(features, schema, dotValue) : null),
+    [dotValue, features, renderer, schema],
+  )
+
+  const getFillColor = useCallback(
+    (feature: RegionFeature) => {
+      if (mode === 'bivariate') {
+        return getBivariateColor(feature, bivariateBreaks, schema)
+      }
+      return colorScale ? colorScale(getFeatureMetricValue(feature, metric, schema)) : '#dce7ff'
+    },
+    [bivariateBreaks, colorScale, metric, mode, schema],
+  )
+
+  const proportionalSymbols = useMemo<ProportionalSymbol[]>(() => {
+    if (renderer !== 'proportional') {
+      return []
+    }
+
+    return features.flatMap((feature) => {
+      const centroid = getFeatureCentroid(feature)
+      if (!centroid) {
+        return []
+      }
+      const value = getFeatureMetricValue(feature, metric, schema)
+      return [
+        {
+          key: getHierarchyName(feature.properties, regionLevel, schema),
+          name: getRegionName(feature.properties, regionLevel, schema),
+          center: [centroid[1], centroid[0]] as [number, number],
+          value,
+          valueLabel: formatMetricValue(value, metric, schema),
+          color: getFillColor(feature),
+        },
+      ]
+    })
+  }, [features, getFillColor, metric, regionLevel, renderer, schema])
+
+  const symbolLegendValues = useMemo(() => {
+    const maxValue = proportionalSymbols.reduce((max, symbol) => Math.max(max, symbol.value), 0)
+    return maxValue > 0 ? [maxValue, maxValue / 4, maxValue / 16].map((value) => ({ value, radius: getSymbolRadius(value, maxValue) })) : []
+  }, [proportionalSymbols])
+
+  return {
+    manualBreaks,
+    manualBreaksInvalid,
+    classBreaks,
+    classColors,
+    legendItems,
+    legendBounds,
+    bivariateBreaks,
+    dotDensity,
+    getFillColor,
+    proportionalSymbols,
+    symbolLegendValues,
+  }
+}
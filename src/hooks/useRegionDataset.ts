@@ -0,0 +1,115 @@
+import { useEffect, useState } from 'react'
+import { loadRegionsGeoJson } from '../services/dataService'
+import { DEFAULT_DATASET_SCHEMA, listPropertyFields, suggestDatasetSchema } from '../services/datasetSchema'
+import { readRegionFile } from '../services/regionImport'
+import type { RegionFeature, RegionsGeoJson } from '../types/data'
+import type { DatasetSchema } from '../types/demographics'
+
+// Also used to edit the schema of the dataset already on the map, in which case features is the current collection.
+type PendingImport = {
+  fileName: string
+  features: RegionFeature[]
+  fields: string[]
+  schema: DatasetSchema
+}
+
+const DEFAULT_DATASET_NAME = 'zone_attributes_synthetic.geojson'
+
+// The zone dataset on the map and its schema: the bundled GeoJSON on first load, replaced by a user file once its
+// fields are mapped. importError holds the reader's message, which may be empty.
+export function useRegionDataset() {
+  const [regions, setRegions] = useState<RegionsGeoJson | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [schema, setSchema] = useState<DatasetSchema>(DEFAULT_DATASET_SCHEMA)
+  const [datasetName, setDatasetName] = useState<string | null>(null)
+  const [pendingImport, setPendingImport] = useState<PendingImport | null>(null)
+  const [importing, setImporting] = useState(false)
+  const [importError, setImportError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let active = true
+    loadRegionsGeoJson()
+      .then((data) => {
+        if (!active) {
+          return
+        }
+        setRegions(data)
+        setError(null)
+      })
+      .catch(() => {
+        if (!active) {
+          return
+        }
+        setError('Regional GeoJSON file not found. Expected /public/data/zone_attributes_synthetic.geojson.')
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false)
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [])
+
+  const readFile = async (file: File) => {
+    setImportError(null)
+    setImporting(true)
+    try {
+      const collection = await readRegionFile(file)
+      const fields = listPropertyFields(collection.features)
+      setPendingImport({ fileName: file.name, features: collection.features, fields, schema: suggestDatasetSchema(fields) })
+    } catch (importFailure) {
+      setImportError(importFailure instanceof Error ? importFailure.message : '')
+    } finally {
+      setImporting(false)
+    }
+  }
+
+  const editSchema = () => {
+    if (!regions) {
+      return
+    }
+
+    setPendingImport({
+      fileName: datasetName ?? DEFAULT_DATASET_NAME,
+      features: regions.features,
+      fields: listPropertyFields(regions.features),
+      schema,
+    })
+  }
+
+  // Returns false when there was no pending import to apply.
+  const applyFieldMapping = (nextSchema: DatasetSchema) => {
+    if (!pendingImport) {
+      return false
+    }
+
+    if (pendingImport.features !== regions?.features) {
+      setRegions({ type: 'FeatureCollection', features: pendingImport.features })
+      setDatasetName(pendingImport.fileName)
+    }
+    setSchema(nextSchema)
+    setPendingImport(null)
+    setError(null)
+    return true
+  }
+
+  return {
+    regions,
+    loading,
+    error,
+    schema,
+    datasetName,
+    pendingImport,
+    importing,
+    importError,
+    readFile,
+    editSchema,
+    applyFieldMapping,
+    cancelImport: () => setPendingImport(null),
+    dismissImportError: () => setImportError(null),
+  }
+}
@@ -0,0 +1,105 @@
+import { useEffect, useMemo, useState } from 'react'
+import { loadDissolvedRegions, loadHexGridRegions } from '../services/dataService'
+import { featureMatchesLevel, getFeatureLevel } from '../services/regionAttributes'
+import type { RegionFeature, RegionsGeoJson } from '../types/data'
+import type { DatasetSchema, RegionLevel } from '../types/demographics'
+
+type AggregatedFeatures = {
+  source: RegionFeature[]
+  schema: DatasetSchema
+  key: string
+  features: RegionFeature[]
+  error: string | null
+}
+
+// Features to draw at a region level: filtered by the schema's level field when the dataset has one,
+// otherwise meso / macro are dissolved from the micro zones in the worker. A hex edge length replaces the
+// zones with a hex grid re-aggregated from the micro zones.
+export function useRegionLevelFeatures(
+  regions: RegionsGeoJson | null,
+  schema: DatasetSchema,
+  regionLevel: RegionLevel,
+  hexEdgeKm: number | null = null,
+) {
+  const [aggregated, setAggregated] = useState<AggregatedFeatures | null>(null)
+
+  const hasExplicitRegionLevels = useMemo(() => {
+    if (!regions) {
+      return false
+    }
+
+    return regions.features.some((feature) => getFeatureLevel(feature.properties, schema) !== null)
+  }, [regions, schema])
+
+  const filteredFeatures = useMemo(() => {
+    if (!regions) {
+      return []
+    }
+
+    if (!hasExplicitRegionLevels) {
+      return regions.features
+    }
+
+    return regions.features.filter((feature) => featureMatchesLevel(feature.properties, regionLevel, schema))
+  }, [regions, hasExplicitRegionLevels, regionLevel, schema])
+
+  const microFeatures = useMemo(() => {
+    if (!regions || !hasExplicitRegionLevels) {
+      return regions?.features ?? []
+    }
+
+    return regions.features.filter((feature) => featureMatchesLevel(feature.properties, 'micro', schema))
+  }, [regions, hasExplicitRegionLevels, schema])
+
+  const aggregationKey =
+    hexEdgeKm !== null ? `hex:${hexEdgeKm}` : !hasExplicitRegionLevels && regionLevel !== 'micro' ? regionLevel : null
+
+  useEffect(() => {
+    if (!regions || aggregationKey === null) {
+      return
+    }
+
+    let active = true
+    const source = regions.features
+    const pending =
+      hexEdgeKm !== null
+        ? loadHexGridRegions(microFeatures, hexEdgeKm, schema)
+        : regionLevel !== 'micro'
+          ? loadDissolvedRegions(source, regionLevel, schema)
+          : null
+    pending
+      ?.then((features) => {
+        if (active) {
+          setAggregated({ source, schema, key: aggregationKey, features, error: null })
+        }
+      })
+      .catch((error: unknown) => {
+        if (active) {
+          const message = error instanceof Error ? error.message : String(error)
+          setAggregated({ source, schema, key: aggregationKey, features: [], error: message })
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [aggregationKey, hexEdgeKm, microFeatures, regionLevel, regions, schema])
+
+  const currentAggregated =
+    aggregated && aggregated.source === regions?.features && aggregated.schema === schema && aggregated.key === aggregationKey
+      ? aggregated
+      : null
+
+  const features = useMemo(() => {
+    if (aggregationKey === null) {
+      return filteredFeatures
+    }
+
+    return currentAggregated?.features ?? []
+  }, [aggregationKey, currentAggregated, filteredFeatures])
+
+  const dissolving = Boolean(regions) && aggregationKey !== null && !currentAggregated
+  const aggregationError = aggregationKey !== null ? (currentAggregated?.error ?? null) : null
+
+  return { features, dissolving, aggregationError }
+}
@@ -0,0 +1,132 @@
+import { useEffect, useMemo, useState } from 'react'
+import { loadAynaBusDetails, loadAynaBusList, loadTransitCoverage, type AynaBusStop, type AynaBusSummary } from '../services/dataService'
+import { useRegionLevelFeatures } from './useRegionLevelFeatures'
+import type { RegionFeature, RegionsGeoJson } from '../types/data'
+import type { DatasetSchema, TransitCoverage } from '../types/demographics'
+
+type LoadedStops = {
+  key: string
+  stops: AynaBusStop[]
+  failedBusCount: number
+}
+
+type ComputedCoverage = {
+  source: RegionFeature[]
+  stops: AynaBusStop[]
+  radiusM: number
+  schema: DatasetSchema
+  coverage: TransitCoverage | null
+  error: string | null
+}
+
+// Stops of the chosen buses, buffered by the walking radius and overlaid on the micro zones. Nothing is requested
+// until the overlay is enabled; stops shared by several buses or both directions are counted once.
+export function useTransitCoverage(
+  enabled: boolean,
+  regions: RegionsGeoJson | null,
+  schema: DatasetSchema,
+  busIds: number[],
+  radiusM: number,
+) {
+  const [buses, setBuses] = useState<AynaBusSummary[] | null>(null)
+  const [loadedStops, setLoadedStops] = useState<LoadedStops | null>(null)
+  const [computed, setComputed] = useState<ComputedCoverage | null>(null)
+  const { features } = useRegionLevelFeatures(regions, schema, 'micro')
+  const busKey = busIds.join(',')
+
+  useEffect(() => {
+    if (!enabled || buses) {
+      return
+    }
+
+    let active = true
+    loadAynaBusList()
+      .then((result) => {
+        if (active) {
+          setBuses(result.buses)
+        }
+      })
+      .catch(() => {
+        if (active) {
+          setBuses([])
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [buses, enabled])
+
+  useEffect(() => {
+    if (!enabled || busKey.length === 0) {
+      return
+    }
+
+    let active = true
+    const ids = busKey.split(',').map(Number)
+    void Promise.allSettled(ids.map((id) => loadAynaBusDetails(id))).then((results) => {
+      if (!active) {
+        return
+      }
+
+      const stops = new Map<number, AynaBusStop>()
+      for (const result of results) {
+        if (result.status === 'fulfilled') {
+          result.value.stops.forEach((stop) => stops.set(stop.id, stop))
+        }
+      }
+      setLoadedStops({
+        key: busKey,
+        stops: [...stops.values()],
+        failedBusCount: results.filter((result) => result.status === 'rejected').length,
+      })
+    })
+
+    return () => {
+      active = false
+    }
+  }, [busKey, enabled])
+
+  const currentStops = loadedStops && loadedStops.key === busKey && busKey.length > 0 ? loadedStops : null
+  const stops = useMemo(() => currentStops?.stops ?? [], [currentStops])
+
+  useEffect(() => {
+    if (!enabled || stops.length === 0 || features.length === 0) {
+      return
+    }
+
+    let active = true
+    loadTransitCoverage(features, stops, radiusM, schema)
+      .then((coverage) => {
+        if (active) {
+          setComputed({ source: features, stops, radiusM, schema, coverage, error: null })
+        }
+      })
+      .catch((error: unknown) => {
+        if (active) {
+          const message = error instanceof Error ? error.message : String(error)
+          setComputed({ source: features, stops, radiusM, schema, coverage: null, error: message })
+        }
+      })
+
+    return () => {
+      active = false
+    }
+  }, [enabled, features, radiusM, schema, stops])
+
+  const currentComputed =
+    computed && computed.source === features && computed.stops === stops && computed.radiusM === radiusM && computed.schema === schema
+      ? computed
+      : null
+  const coverage = currentComputed?.coverage ?? null
+  const loading = enabled && ((busKey.length > 0 && !currentStops) || (stops.length > 0 && features.length > 0 && !currentComputed))
+
+  return {
+    buses: buses ?? [],
+    stops,
+    coverage: stops.length > 0 ? coverage : null,
+    loading,
+    failedBusCount: currentStops?.failedBusCount ?? 0,
+    error: stops.length > 0 ? (currentComputed?.error ?? null) : null,
+  }
+}
@@ -0,0 +1,16 @@
+import { useEffect } from 'react'
+import { useSearchParams } from 'react-router-dom'
+import { buildUrlStateQuery, type UrlStateValue } from '../services/urlState'
+
+// Mirrors a page's view state into its query string. The page owns all parameters of its route, and the history
+// entry is replaced rather than pushed, so panning a map or paging a table does not flood the back button.
+export function useUrlStateSync(state: Record<string, UrlStateValue>) {
+  const [searchParams, setSearchParams] = useSearchParams()
+  const query = buildUrlStateQuery(state)
+
+  useEffect(() => {
+    if (query !== searchParams.toString()) {
+      setSearchParams(new URLSearchParams(query), { replace: true })
+    }
+  }, [query, searchParams, setSearchParams])
+}
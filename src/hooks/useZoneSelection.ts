@@ -0,0 +1,122 @@
+import { useCallback, useMemo, useState } from 'react'
+import type { SelectionDrawMode } from '../components/MapSelectionTool'
+import type { SelectionSummary } from '../components/SelectionSummaryCard'
+import { getHierarchyName, getRoleValue } from '../services/regionAttributes'
+import { getFeatureAreaKm2, getFeatureCentroid, isPointInRing } from '../services/regionGeometry'
+import { getFeatureMetricValue } from '../services/regionMetrics'
+import type { RegionFeature } from '../types/data'
+import type { DatasetSchema, MetricKey, RegionLevel } from '../types/demographics'
+
+export type ZoneRef = {
+  level: RegionLevel
+  key: string
+}
+
+// The single zone shown in the details panel, the map focus target and the shift-click / drawn multi-selection.
+// Both selections are kept per level, so switching level hides them rather than matching another level's keys.
+export function useZoneSelection(
+  features: RegionFeature[],
+  regionLevel: RegionLevel,
+  schema: DatasetSchema,
+  metric: MetricKey,
+  initialZone: ZoneRef | null,
+) {
+  const [selectedZone, setSelectedZone] = useState<ZoneRef | null>(initialZone)
+  const [focusTarget, setFocusTarget] = useState<ZoneRef | null>(null)
+  const [multiSelection, setMultiSelection] = useState<{ level: RegionLevel; keys: string[] }>({ level: 'micro', keys: [] })
+  const [drawMode, setDrawMode] = useState<SelectionDrawMode | null>(null)
+
+  const multiSelectedKeys = useMemo(
+    () => new Set(multiSelection.level === regionLevel ? multiSelection.keys : []),
+    [multiSelection, regionLevel],
+  )
+
+  const selectionSummary = useMemo<SelectionSummary | null>(() => {
+    if (multiSelectedKeys.size === 0) {
+      return null
+    }
+
+    const selected = features.filter((feature) => multiSelectedKeys.has(getHierarchyName(feature.properties, regionLevel, schema)))
+    if (selected.length === 0) {
+      return null
+    }
+
+    const summary: SelectionSummary = { zoneCount: selected.length, population: 0, jobs: 0, areaKm2: 0, metricSum: 0, metricMean: 0 }
+    for (const feature of selected) {
+      summary.population += getRoleValue(feature.properties, 'population', schema)
+      summary.jobs += getRoleValue(feature.properties, 'jobs', schema)
+      summary.areaKm2 += getFeatureAreaKm2(feature)
+      summary.metricSum += getFeatureMetricValue(feature, metric, schema)
+    }
+    summary.metricMean = summary.metricSum / selected.length
+
+    return summary
+  }, [features, metric, multiSelectedKeys, regionLevel, schema])
+
+  const selectZone = useCallback(
+    (key: string, additive: boolean) => {
+      if (additive) {
+        setMultiSelection((previous) => {
+          const keys = previous.level === regionLevel ? previous.keys : []
+          return { level: regionLevel, keys: keys.includes(key) ? keys.filter((item) => item !== key) : [...keys, key] }
+        })
+        return
+      }
+      setSelectedZone({ level: regionLevel, key })
+    },
+    [regionLevel],
+  )
+
+  // Selects a zone and moves the map to it, as the ranking table and zone search do.
+  const focusZone = useCallback((target: ZoneRef) => {
+    setSelectedZone(target)
+    setFocusTarget(target)
+  }, [])
+
+  const completeDraw = useCallback(
+    (ring: Array<[number, number]>, additive: boolean) => {
+      const keys = features
+        .filter((feature) => {
+          const centroid = getFeatureCentroid(feature)
+          return centroid !== null && isPointInRing(centroid, ring)
+        })
+        .map((feature) => getHierarchyName(feature.properties, regionLevel, schema))
+
+      setMultiSelection((previous) => ({
+        level: regionLevel,
+        keys: additive && previous.level === regionLevel ? [...new Set([...previous.keys, ...keys])] : keys,
+      }))
+      setDrawMode(null)
+    },
+    [features, regionLevel, schema],
+  )
+
+  const clearSelection = () => {
+    setMultiSelection({ level: regionLevel, keys: [] })
+    setSelectedZone(null)
+    setDrawMode(null)
+  }
+
+  // Used when the zones themselves change, so neither selection nor the focus target can point at a stale key.
+  const resetSelection = () => {
+    setSelectedZone(null)
+    setFocusTarget(null)
+    setMultiSelection({ level: regionLevel, keys: [] })
+  }
+
+  return {
+    selectedZone,
+    setSelectedZone,
+    focusTarget,
+    setFocusTarget,
+    multiSelectedKeys,
+    selectionSummary,
+    drawMode,
+    setDrawMode,
+    selectZone,
+    focusZone,
+    completeDraw,
+    clearSelection,
+    resetSelection,
+  }
+}
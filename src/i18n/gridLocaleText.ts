@@ -0,0 +1,122 @@
+import type { GridLocaleText } from '@mui/x-data-grid'
+import type { LanguageCode } from './translations'
+
+export function getGridLocaleText(language: LanguageCode): Partial<GridLocaleText> {
+  if (language === 'az') {
+    return {
+      noRowsLabel: 'Məlumat tapılmadı',
+      noResultsOverlayLabel: 'Nəticə tapılmadı',
+      noColumnsOverlayLabel: 'Sütun tapılmadı',
+      toolbarColumns: 'Sütunlar',
+      toolbarColumnsLabel: 'Sütunları seç',
+      toolbarFilters: 'Filtrlər',
+      toolbarFiltersLabel: 'Filtrləri göstər',
+      toolbarDensity: 'Sıxlıq',
+      toolbarDensityLabel: 'Sətir sıxlığı',
+      toolbarDensityCompact: 'Kompakt',
+      toolbarDensityStandard: 'Standart',
+      toolbarDensityComfortable: 'Rahat',
+      toolbarExport: 'İxrac',
+      toolbarExportLabel: 'İxrac et',
+      toolbarExportCSV: 'CSV yüklə',
+      toolbarQuickFilterLabel: 'Sürətli axtarış',
+      toolbarQuickFilterPlaceholder: 'Axtar...',
+      columnsManagementSearchTitle: 'Sütun axtar',
+      columnsManagementShowHideAllText: 'Hamısını göstər/gizlət',
+      columnsManagementReset: 'Sıfırla',
+      filterPanelColumns: 'Sütun',
+      filterPanelOperator: 'Operator',
+      filterPanelInputLabel: 'Dəyər',
+      columnMenuShowColumns: 'Sütunlar',
+      columnMenuManageColumns: 'Sütunları idarə et',
+      columnMenuFilter: 'Filtr',
+      columnMenuHideColumn: 'Sütunu gizlət',
+      columnMenuUnsort: 'Sıralamanı sil',
+      columnMenuSortAsc: 'Artan sırala',
+      columnMenuSortDesc: 'Azalan sırala',
+      footerRowSelected: (count) => `${count.toLocaleString()} sətir seçildi`,
+      footerTotalRows: 'Ümumi sətir:',
+      paginationRowsPerPage: 'Səhifədə sətir:',
+      paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
+        `${from}-${to} / ${count !== -1 ? count : `${to}+`}`,
+    }
+  }
+
+  if (language === 'ru') {
+    return {
+      noRowsLabel: 'Нет данных',
+      noResultsOverlayLabel: 'Ничего не найдено',
+      noColumnsOverlayLabel: 'Нет колонок',
+      toolbarColumns: 'Колонки',
+      toolbarColumnsLabel: 'Выбрать колонки',
+      toolbarFilters: 'Фильтры',
+      toolbarFiltersLabel: 'Показать фильтры',
+      toolbarDensity: 'Плотность',
+      toolbarDensityLabel: 'Плотность строк',
+      toolbarDensityCompact: 'Компактно',
+      toolbarDensityStandard: 'Стандарт',
+      toolbarDensityComfortable: 'Комфортно',
+      toolbarExport: 'Экспорт',
+      toolbarExportLabel: 'Экспорт',
+      toolbarExportCSV: 'Скачать CSV',
+      toolbarQuickFilterLabel: 'Быстрый поиск',
+      toolbarQuickFilterPlaceholder: 'Поиск...',
+      columnsManagementSearchTitle: 'Поиск колонки',
+      columnsManagementShowHideAllText: 'Показать/скрыть все',
+      columnsManagementReset: 'Сброс',
+      filterPanelColumns: 'Колонка',
+      filterPanelOperator: 'Оператор',
+      filterPanelInputLabel: 'Значение',
+      columnMenuShowColumns: 'Колонки',
+      columnMenuManageColumns: 'Управление колонками',
+      columnMenuFilter: 'Фильтр',
+      columnMenuHideColumn: 'Скрыть колонку',
+      columnMenuUnsort: 'Убрать сортировку',
+      columnMenuSortAsc: 'Сортировать по возрастанию',
+      columnMenuSortDesc: 'Сортировать по убыванию',
+      footerRowSelected: (count) => `Выбрано строк: ${count.toLocaleString()}`,
+      footerTotalRows: 'Всего строк:',
+      paginationRowsPerPage: 'Строк на странице:',
+      paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
+        `${from}-${to} из ${count !== -1 ? count : `${to}+`}`,
+    }
+  }
+
+  return {
+    noRowsLabel: 'No rows',
+    noResultsOverlayLabel: 'No results found',
+    noColumnsOverlayLabel: 'No columns',
+    toolbarColumns: 'Columns',
+    toolbarColumnsLabel: 'Select columns',
+    toolbarFilters: 'Filters',
+    toolbarFiltersLabel: 'Show filters',
+    toolbarDensity: 'Density',
+    toolbarDensityLabel: 'Row density',
+    toolbarDensityCompact: 'Compact',
+    toolbarDensityStandard: 'Standard',
+    toolbarDensityComfortable: 'Comfortable',
+    toolbarExport: 'Export',
+    toolbarExportLabel: 'Export',
+    toolbarExportCSV: 'Download CSV',
+    toolbarQuickFilterLabel: 'Quick filter',
+    toolbarQuickFilterPlaceholder: 'Search...',
+    columnsManagementSearchTitle: 'Search column',
+    columnsManagementShowHideAllText: 'Show/hide all',
+    columnsManagementReset: 'Reset',
+    filterPanelColumns: 'Column',
+    filterPanelOperator: 'Operator',
+    filterPanelInputLabel: 'Value',
+    columnMenuShowColumns: 'Columns',
+    columnMenuManageColumns: 'Manage columns',
+    columnMenuFilter: 'Filter',
+    columnMenuHideColumn: 'Hide column',
+    columnMenuUnsort: 'Unsort',
+    columnMenuSortAsc: 'Sort by ASC',
+    columnMenuSortDesc: 'Sort by DESC',
+    footerRowSelected: (count) => `${count.toLocaleString()} row(s) selected`,
+    footerTotalRows: 'Total Rows:',
+    paginationRowsPerPage: 'Rows per page:',
+    paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
+      `${from}-${to} of ${count !== -1 ? count : `${to}+`}`,
+  }
+}
@@ -17,14 +17,257 @@ export const TRANSLATIONS: Record<LanguageCode, Dictionary> = {
     metric: 'Göstərici',
     population: 'Əhali',
     jobs: 'İş yerləri',
+    populationDensity: 'Əhali sıxlığı (km² üzrə)',
+    jobDensity: 'İş yeri sıxlığı (km² üzrə)',
+    jobsPerResident: 'Sakin başına iş yeri',
+    residentsPerJob: 'İş yeri başına sakin',
+    areaKm2: 'Sahə (km²)',
     regionLevel: 'Region Səviyyəsi',
     micro: 'Mikro',
     meso: 'Mezo',
     macro: 'Makro',
     resetView: 'Görünüşü sıfırla',
+    searchZones: 'Zona axtar (ad və ya ID)',
+    closeDetails: 'Detalları bağla',
+    rankOf: 'sıra, cəmi',
+    shareOfParent: 'Üst səviyyədə pay',
+    allZones: 'Bütün zonalar',
+    attributes: 'Atributlar',
+    boxSelect: 'Düzbucaqlı ilə seç',
+    lassoSelect: 'Lasso ilə seç',
+    clearSelection: 'Seçimi təmizlə',
+    shiftClickHint: 'Shift+klik zonaları seçimə əlavə edir',
+    drawSelectionHint: 'Seçmək üçün xəritədə çəkin (Shift əlavə edir)',
+    selectionSummary: 'Seçim xülasəsi',
+    zonesSelected: 'zona seçilib',
+    sum: 'Cəm',
+    mean: 'Orta',
+    export: 'İxrac',
+    exportGeoJson: 'GeoJSON (zonalar və siniflər)',
+    exportCsv: 'CSV (atribut cədvəli)',
+    exportPng: 'PNG (xəritə və rəng şkalası)',
+    exportImageFailed: 'Xəritə şəklini yaratmaq mümkün olmadı.',
+    zoneRanking: 'Zonaların reytinqi',
+    rank: 'Yer',
+    classColor: 'Sinif',
+    zoneName: 'Zona',
+    populationShareOfTotal: 'Əhali payı',
+    jobsShareOfTotal: 'İş yeri payı',
+    populationShareOfMeso: 'Mezo zonada əhali payı',
+    jobsShareOfMeso: 'Mezo zonada iş yeri payı',
+    populationShareOfMacro: 'Makro zonada əhali payı',
+    jobsShareOfMacro: 'Makro zonada iş yeri payı',
+    populationShareOfAllZones: 'Bütün zonalarda əhali payı',
+    jobsShareOfAllZones: 'Bütün zonalarda iş yeri payı',
+    loadDataset: 'Məlumat faylı yüklə',
+    readingDataset: 'Fayl oxunur...',
+    dropDatasetHere: 'Zona faylını buraya atın',
+    supportedDatasetFormats: 'GeoJSON, ziplənmiş Shapefile və ya GeoPackage (.gpkg)',
+    importFailed: 'Faylı oxumaq mümkün olmadı.',
+    datasetSource: 'Mənbə',
+    fieldMapping: 'Sahələrin uyğunlaşdırılması',
+    featuresLoaded: 'obyekt oxundu',
+    notMapped: 'Seçilməyib',
+    fieldMappingMetricRequired: 'Ən azı bir göstərici əlavə edin; hər göstəricinin sahəsi və adı olmalı, çəkili orta üçün çəki seçilməlidir.',
+    applyMapping: 'Tətbiq et',
+    cancel: 'Ləğv et',
+    unitPeople: 'nəfər',
+    unitJobs: 'iş yeri',
+    keyFields: 'Əsas sahələr',
+    levelField: 'Səviyyə sahəsi',
+    additionalMetrics: 'Əlavə göstəricilər',
+    addMetric: 'Göstərici əlavə et',
+    removeMetric: 'Göstəricini sil',
+    sourceField: 'Sahə',
+    metricLabel: 'Ad',
+    metricUnit: 'Vahid',
+    aggregation: 'Birləşdirmə',
+    weightedMean: 'Çəkili orta',
+    weightBy: 'Çəki',
+    datasetSchema: 'Məlumat sxemi',
+    editDatasetSchema: 'Sxemi redaktə et',
+    dataValidation: 'Məlumatların yoxlanması',
+    fieldsWithIssues: 'sahədə problem var',
+    noDataIssues: 'Çatışmayan və ya qeyri-rəqəmsal dəyər tapılmadı.',
+    missingValues: 'Boş',
+    nonNumericValues: 'Qeyri-rəqəmsal',
+    missingValue: 'dəyər yoxdur',
+    nonNumericValue: 'rəqəm deyil:',
+    showAllIssues: 'Hamısını göstər',
+    showFewerIssues: 'Daha az göstər',
+    compareMode: 'Müqayisə',
+    compareModeHint: 'İki sinxron xəritə: hər tərəf üçün göstərici və səviyyə seçin, müqayisə üçün hər xəritədə bir zonaya klikləyin.',
+    zoneComparison: 'Zonaların müqayisəsi',
+    pinTwoZonesHint: 'Fərqlər cədvəli üçün A və B xəritələrinin hər birində bir zona seçin.',
+    difference: 'Fərq',
+    change: 'Dəyişmə',
+    pinnedZone: 'Seçilmiş zona',
+    clickToPinZone: 'Zonanı sabitləmək üçün üzərinə klikləyin',
+    aggregationGrid: 'Həndəsə',
+    zonePolygons: 'Zona poliqonları',
+    hexGrid: 'Altıbucaqlı şəbəkə',
+    buildingHexGrid: 'Altıbucaqlı şəbəkə qurulur...',
+    renderer: 'Təsvir üsulu',
+    choropleth: 'Xoroplet',
+    dotDensity: 'Nöqtə sıxlığı',
+    proportionalSymbols: 'Mütənasib simvollar',
+    dotValue: 'Nöqtə dəyəri',
+    dot: 'nöqtə',
+    transitCoverage: 'Nəqliyyat əlçatanlığı',
+    transitBuses: 'Avtobuslar',
+    walkingRadius: 'Piyada radiusu',
+    transitStops: 'dayanacaq',
+    withinWalkingRadius: 'piyada radiusunda',
+    coveredPopulation: 'Əhatə olunan əhali',
+    coveredJobs: 'Əhatə olunan iş yerləri',
+    selectTransitBusesHint: 'Dayanacaqlarını yükləmək üçün avtobusları seçin.',
+    computingTransitCoverage: 'Əhatə hesablanır...',
+    noTransitStops: 'Seçilmiş avtobuslar üçün koordinatlı dayanacaq tapılmadı.',
+    transitBusesFailed: 'Yüklənə bilməyən avtobuslar',
+    transitCoverageFailed: 'Piyada əhatəsini hesablamaq mümkün olmadı.',
+    loadingStageParse: 'CSV təhlil edilir',
+    loadingStageSummarize: 'Yekunlar hesablanır',
+    rowsLoaded: 'sətir',
+    importCheckIns: 'Qeydiyyat faylının idxalı',
+    delimiter: 'Ayırıcı',
+    delimiterAuto: 'Avtomatik',
+    delimiterComma: 'Vergül (,)',
+    delimiterSemicolon: 'Nöqtəli vergül (;)',
+    delimiterTab: 'Tab',
+    delimiterPipe: 'Şaquli xətt (|)',
+    encoding: 'Kodlaşdırma',
+    headerRow: 'Başlıq sətri',
+    spreadsheetFirstSheet: 'XLSX iş kitabının ilk vərəqi oxunur; ayırıcı və kodlaşdırma tətbiq edilmir.',
+    loadCheckIns: 'Yüklə',
+    checkInFileMissing: 'Qeydiyyat faylı tapılmadı (/data/ceck_in_buss.csv). CSV və ya XLSX ixracını səhifəyə atın.',
+    checkInUploadNotSaved: 'Fayl yükləndi, lakin brauzerdə saxlanıla bilmədi; yenidən yükləmədən sonra itəcək.',
+    checkInSource: 'Mənbə',
+    bundledCheckIns: 'daxili CSV',
+    useBundledCheckIns: 'Daxili məlumatlara qayıt',
+    uploadCheckIns: 'CSV / XLSX yüklə',
+    dropCheckInsHere: 'Qeydiyyat faylını buraya atın',
+    supportedCheckInFormats: 'CSV, TSV, TXT və ya XLSX',
+    dataQuality: 'Məlumat keyfiyyəti',
+    typeConflicts: 'tip uyğunsuzluğu',
+    outOfRangeHours: 'aralıqdan kənar saat',
+    negativeCounts: 'mənfi say',
+    duplicateRows: 'təkrar sətir',
+    resetColumnTypes: 'Tipləri sıfırla',
+    columnType: 'Tip',
+    nullValues: 'Boş',
+    distinctValues: 'Unikal',
+    inferredType: 'aşkarlanıb',
+    columnTypeInteger: 'Tam ədəd',
+    columnTypeDecimal: 'Onluq ədəd',
+    columnTypeDate: 'Tarix',
+    columnTypeBoolean: 'Məntiqi',
+    columnTypeCategory: 'Kateqoriya',
+    columnTypeText: 'Mətn',
+    columnTypesNotApplied: 'Sütun tipləri tətbiq edilmədi.',
+    dateFrom: 'Başlanğıc tarixi',
+    dateTo: 'Son tarix',
+    hourRange: 'Saat aralığı',
+    operators: 'Operatorlar',
+    clearFilters: 'Filtrləri təmizlə',
+    trendsView: 'Trendlər',
+    ridershipTrend: 'Sərnişin axını dinamikası',
+    trendsNeedDates: 'Trendlər üçün tarix sütunu lazımdır.',
+    trendOutlierDays: 'Digər tarixlərdən çox uzaq olduğu üçün trenddən çıxarılan günlər',
+    granularityDaily: 'Günlük',
+    granularityWeekly: 'Həftəlik',
+    breakdownTotal: 'Cəmi',
+    breakdownRoute: 'Marşrut üzrə',
+    breakdownOperator: 'Operator üzrə',
+    totalCheckIns: 'Ümumi sərnişin',
+    movingAverage7: '7 günlük orta',
+    weekdayWeekend: 'İş günləri və həftəsonu',
+    weekdayAverage: 'İş günü ortalaması',
+    weekendAverage: 'Həftəsonu ortalaması',
+    weekendVsWeekday: 'Həftəsonu iş günlərinə nisbətən',
+    anomalousDays: 'Anomal günlər',
+    noAnomalousDays: 'Anomal gün aşkarlanmadı.',
+    day: 'Gün',
+    expectedValue: 'Gözlənilən',
+    zScore: 'z-bal',
+    pivotView: 'Pivot cədvəl',
+    pivotFields: 'Sahələr',
+    pivotDragHint: 'Sahələri sətirlərə, sütunlara və ya dəyərlərə sürükləyin, yaxud sahəyə klikləyin.',
+    pivotRows: 'Sətirlər',
+    pivotColumns: 'Sütunlar',
+    pivotValues: 'Dəyərlər',
+    pivotAddToRows: 'Sətirlərə əlavə et',
+    pivotAddToColumns: 'Sütunlara əlavə et',
+    pivotAddToValues: 'Dəyərlərə əlavə et',
+    aggregationSum: 'Cəm',
+    aggregationMean: 'Orta',
+    aggregationCount: 'Say',
+    aggregationMin: 'Minimum',
+    aggregationMax: 'Maksimum',
+    pivotNeedsValue: 'Pivot cədvəli qurmaq üçün dəyərlərə ən azı bir sahə əlavə edin.',
+    pivotFailed: 'Pivot cədvəli qurmaq mümkün olmadı.',
+    pivotGrandTotal: 'Ümumi cəm',
+    pivotSubtotal: 'Aralıq cəm',
+    pivotBlank: '(boş)',
+    pivotGroups: 'qrup',
+    pivotColumnsTruncated: 'Yalnız ilk 60 sütun qrupu göstərilir; sətir cəmlərinə bütün qruplar daxildir.',
+    exportPivotCsv: 'CSV ixrac et',
+    hourByWeekday: 'Saat və həftənin günü üzrə sərnişinlər',
+    topRoutesByHour: 'Ən yüklü marşrutlar saatlar üzrə',
+    heatmapHint: 'Cədvəldə həmin sətirləri görmək üçün xanaya klikləyin',
+    weekdays: 'Həftənin günləri',
+    weekdaySun: 'Bazar',
+    weekdayMon: 'B.e.',
+    weekdayTue: 'Ç.a.',
+    weekdayWed: 'Çər.',
+    weekdayThu: 'C.a.',
+    weekdayFri: 'Cümə',
+    weekdaySat: 'Şənbə',
+    scorecardsView: 'Marşrut göstəriciləri',
+    routeScorecards: 'Marşrutların reytinqi',
+    route: 'Marşrut',
+    busHours: 'Avtobus-saat',
+    passengersPerBus: 'Sərnişin / avtobus',
+    routeLengthKm: 'Uzunluq, km',
+    passengersPerKm: 'Sərnişin / km',
+    durationMinutes: 'Müddət, dəq',
+    fareAzn: 'Gediş haqqı, AZN',
+    estimatedRevenueAzn: 'Təxmini gəlir, AZN',
+    dailyTrend: 'Günlük dinamika',
+    routesMatched: 'AYNA avtobusları ilə uyğunlaşan marşrutlar',
+    routeMetadataFailed: 'Marşrut məlumatlarını yükləmək mümkün olmadı.',
+    revenueView: 'Gəlir',
+    revenueShort: 'gəlir',
+    averageFareAzn: 'Orta gediş haqqı, AZN',
+    otherPayments: 'Digər',
+    fareTable: 'Tariflər cədvəli, AZN',
+    fareZoneCity: 'Şəhər',
+    fareZoneSuburban: 'Şəhərətrafı',
+    useRouteTariffs: 'Marşrutun AYNA tarifini istifadə et',
+    routesWithTariff: 'Öz tarifi ilə hesablanan marşrutlar',
+    resetFares: 'Tarifləri sıfırla',
+    revenueByChannel: 'Ödəniş kanalları üzrə gəlir',
+    breakdownDay: 'Gün üzrə',
     showingWithMetric: 'regionları göstərilir, göstərici:',
     loadingMapData: 'Xəritə məlumatları yüklənir...',
     legend: 'Rəng Şkalası',
+    mapMode: 'Xəritə rejimi',
+    univariate: 'Tək göstərici',
+    bivariate: 'İkidəyişənli (əhali × iş yerləri)',
+    classificationScheme: 'Təsnifat üsulu',
+    quantile: 'Kvantil',
+    equalInterval: 'Bərabər interval',
+    jenks: 'Təbii sərhədlər (Jenks)',
+    standardDeviation: 'Standart sapma',
+    manual: 'Əl ilə sərhədlər',
+    classCount: 'Sinif sayı',
+    palette: 'Palitra',
+    sequential: 'ardıcıl',
+    diverging: 'divergent',
+    manualBreaks: 'Sərhəd dəyərləri',
+    manualBreaksHint: 'Vergüllə ayrılmış 1-8 rəqəm, məs. 500, 2000, 5000',
+    zoneCount: 'Zona sayı',
+    dissolvingRegions: 'Zonalar birləşdirilir...',
+    regionAggregationFailed: 'Zonaları birləşdirmək mümkün olmadı.',
     tableView: 'Cədvəl Görünüşü',
     chartView: 'Qrafik Görünüşü',
     totalRecords: 'Ümumi sətir sayı',
@@ -72,14 +315,257 @@ export const TRANSLATIONS: Record<LanguageCode, Dictionary> = {
     metric: 'Metric',
     population: 'Population',
     jobs: 'Jobs',
+    populationDensity: 'Population density (per km²)',
+    jobDensity: 'Job density (per km²)',
+    jobsPerResident: 'Jobs per resident',
+    residentsPerJob: 'Residents per job',
+    areaKm2: 'Area (km²)',
     regionLevel: 'Region Level',
     micro: 'Micro',
     meso: 'Meso',
     macro: 'Macro',
     resetView: 'Reset View',
+    searchZones: 'Search zones (name or ID)',
+    closeDetails: 'Close details',
+    rankOf: 'rank of',
+    shareOfParent: 'Share of parent totals',
+    allZones: 'All zones',
+    attributes: 'Attributes',
+    boxSelect: 'Box select',
+    lassoSelect: 'Lasso select',
+    clearSelection: 'Clear selection',
+    shiftClickHint: 'Shift+click adds zones to the selection',
+    drawSelectionHint: 'Drag on the map to select (hold Shift to add)',
+    selectionSummary: 'Selection summary',
+    zonesSelected: 'zones selected',
+    sum: 'Sum',
+    mean: 'Mean',
+    export: 'Export',
+    exportGeoJson: 'GeoJSON (zones with classes)',
+    exportCsv: 'CSV (attribute table)',
+    exportPng: 'PNG (map with legend)',
+    exportImageFailed: 'Could not render the map image.',
+    zoneRanking: 'Zone ranking',
+    rank: 'Rank',
+    classColor: 'Class',
+    zoneName: 'Zone',
+    populationShareOfTotal: 'Population share',
+    jobsShareOfTotal: 'Jobs share',
+    populationShareOfMeso: 'Population share of meso zone',
+    jobsShareOfMeso: 'Jobs share of meso zone',
+    populationShareOfMacro: 'Population share of macro zone',
+    jobsShareOfMacro: 'Jobs share of macro zone',
+    populationShareOfAllZones: 'Population share of all zones',
+    jobsShareOfAllZones: 'Jobs share of all zones',
+    loadDataset: 'Load dataset',
+    readingDataset: 'Reading file...',
+    dropDatasetHere: 'Drop a zone file here',
+    supportedDatasetFormats: 'GeoJSON, zipped Shapefile or GeoPackage (.gpkg)',
+    importFailed: 'Could not read the file.',
+    datasetSource: 'Source',
+    fieldMapping: 'Field mapping',
+    featuresLoaded: 'features read',
+    notMapped: 'Not mapped',
+    fieldMappingMetricRequired: 'Add at least one metric; every metric needs a field and a label, and weighted means need a weight.',
+    applyMapping: 'Apply',
+    cancel: 'Cancel',
+    unitPeople: 'people',
+    unitJobs: 'jobs',
+    keyFields: 'Key fields',
+    levelField: 'Level field',
+    additionalMetrics: 'Additional metrics',
+    addMetric: 'Add metric',
+    removeMetric: 'Remove metric',
+    sourceField: 'Field',
+    metricLabel: 'Label',
+    metricUnit: 'Unit',
+    aggregation: 'Aggregation',
+    weightedMean: 'Weighted mean',
+    weightBy: 'Weight by',
+    datasetSchema: 'Dataset schema',
+    editDatasetSchema: 'Edit schema',
+    dataValidation: 'Data validation',
+    fieldsWithIssues: 'fields with issues',
+    noDataIssues: 'No missing or non-numeric values found.',
+    missingValues: 'Missing',
+    nonNumericValues: 'Non-numeric',
+    missingValue: 'missing value',
+    nonNumericValue: 'not a number:',
+    showAllIssues: 'Show all',
+    showFewerIssues: 'Show fewer',
+    compareMode: 'Compare',
+    compareModeHint: 'Two synchronized maps: pick a metric and level for each side, then click one zone on each map to compare them.',
+    zoneComparison: 'Zone comparison',
+    pinTwoZonesHint: 'Pin one zone on map A and one on map B to see their differences.',
+    difference: 'Difference',
+    change: 'Change',
+    pinnedZone: 'Pinned zone',
+    clickToPinZone: 'Click a zone to pin it',
+    aggregationGrid: 'Geometry',
+    zonePolygons: 'Zone polygons',
+    hexGrid: 'Hex grid',
+    buildingHexGrid: 'Building hex grid...',
+    renderer: 'Renderer',
+    choropleth: 'Choropleth',
+    dotDensity: 'Dot density',
+    proportionalSymbols: 'Proportional symbols',
+    dotValue: 'Dot value',
+    dot: 'dot',
+    transitCoverage: 'Transit coverage',
+    transitBuses: 'Buses',
+    walkingRadius: 'Walking radius',
+    transitStops: 'stops',
+    withinWalkingRadius: 'within walking radius',
+    coveredPopulation: 'Covered population',
+    coveredJobs: 'Covered jobs',
+    selectTransitBusesHint: 'Select buses to load their stops.',
+    computingTransitCoverage: 'Computing coverage...',
+    noTransitStops: 'No stops with coordinates were found for the selected buses.',
+    transitBusesFailed: 'Buses that could not be loaded',
+    transitCoverageFailed: 'Could not compute the walking coverage.',
+    loadingStageParse: 'Parsing CSV',
+    loadingStageSummarize: 'Summarizing',
+    rowsLoaded: 'rows',
+    importCheckIns: 'Import check-in file',
+    delimiter: 'Delimiter',
+    delimiterAuto: 'Detect automatically',
+    delimiterComma: 'Comma (,)',
+    delimiterSemicolon: 'Semicolon (;)',
+    delimiterTab: 'Tab',
+    delimiterPipe: 'Pipe (|)',
+    encoding: 'Encoding',
+    headerRow: 'Header row',
+    spreadsheetFirstSheet: 'The first sheet of the XLSX workbook is read; delimiter and encoding do not apply.',
+    loadCheckIns: 'Load',
+    checkInFileMissing: 'No check-in file found at /data/ceck_in_buss.csv. Drop a CSV or XLSX export onto the page.',
+    checkInUploadNotSaved: 'The file was loaded but could not be saved in the browser, so it will be gone after a reload.',
+    checkInSource: 'Source',
+    bundledCheckIns: 'bundled CSV',
+    useBundledCheckIns: 'Back to bundled data',
+    uploadCheckIns: 'Upload CSV / XLSX',
+    dropCheckInsHere: 'Drop a check-in file here',
+    supportedCheckInFormats: 'CSV, TSV, TXT or XLSX',
+    dataQuality: 'Data quality',
+    typeConflicts: 'type conflicts',
+    outOfRangeHours: 'out-of-range hours',
+    negativeCounts: 'negative counts',
+    duplicateRows: 'duplicate rows',
+    resetColumnTypes: 'Reset types',
+    columnType: 'Type',
+    nullValues: 'Empty',
+    distinctValues: 'Distinct',
+    inferredType: 'inferred',
+    columnTypeInteger: 'Integer',
+    columnTypeDecimal: 'Decimal',
+    columnTypeDate: 'Date',
+    columnTypeBoolean: 'Boolean',
+    columnTypeCategory: 'Category',
+    columnTypeText: 'Text',
+    columnTypesNotApplied: 'Column types could not be applied.',
+    dateFrom: 'From date',
+    dateTo: 'To date',
+    hourRange: 'Hours',
+    operators: 'Operators',
+    clearFilters: 'Clear filters',
+    trendsView: 'Trends',
+    ridershipTrend: 'Ridership over time',
+    trendsNeedDates: 'Trends need a date column.',
+    trendOutlierDays: 'Days left out of the trend because they lie far outside the other dates',
+    granularityDaily: 'Daily',
+    granularityWeekly: 'Weekly',
+    breakdownTotal: 'Total',
+    breakdownRoute: 'By route',
+    breakdownOperator: 'By operator',
+    totalCheckIns: 'Total passengers',
+    movingAverage7: '7-day average',
+    weekdayWeekend: 'Weekdays vs weekends',
+    weekdayAverage: 'Weekday average',
+    weekendAverage: 'Weekend average',
+    weekendVsWeekday: 'Weekend vs weekday',
+    anomalousDays: 'Anomalous days',
+    noAnomalousDays: 'No anomalous days found.',
+    day: 'Day',
+    expectedValue: 'Expected',
+    zScore: 'z-score',
+    pivotView: 'Pivot',
+    pivotFields: 'Fields',
+    pivotDragHint: 'Drag fields into rows, columns or values, or click a field.',
+    pivotRows: 'Rows',
+    pivotColumns: 'Columns',
+    pivotValues: 'Values',
+    pivotAddToRows: 'Add to rows',
+    pivotAddToColumns: 'Add to columns',
+    pivotAddToValues: 'Add to values',
+    aggregationSum: 'Sum',
+    aggregationMean: 'Mean',
+    aggregationCount: 'Count',
+    aggregationMin: 'Min',
+    aggregationMax: 'Max',
+    pivotNeedsValue: 'Add at least one field to values to build the pivot.',
+    pivotFailed: 'Could not build the pivot.',
+    pivotGrandTotal: 'Grand total',
+    pivotSubtotal: 'Subtotal',
+    pivotBlank: '(blank)',
+    pivotGroups: 'groups',
+    pivotColumnsTruncated: 'Only the first 60 column groups are shown; row totals include all of them.',
+    exportPivotCsv: 'Export CSV',
+    hourByWeekday: 'Passengers by hour and weekday',
+    topRoutesByHour: 'Busiest routes by hour',
+    heatmapHint: 'Click a cell to see its rows in the table',
+    weekdays: 'Weekdays',
+    weekdaySun: 'Sun',
+    weekdayMon: 'Mon',
+    weekdayTue: 'Tue',
+    weekdayWed: 'Wed',
+    weekdayThu: 'Thu',
+    weekdayFri: 'Fri',
+    weekdaySat: 'Sat',
+    scorecardsView: 'Route scorecards',
+    routeScorecards: 'Route ranking',
+    route: 'Route',
+    busHours: 'Bus-hours',
+    passengersPerBus: 'Passengers / bus',
+    routeLengthKm: 'Length, km',
+    passengersPerKm: 'Passengers / km',
+    durationMinutes: 'Duration, min',
+    fareAzn: 'Fare, AZN',
+    estimatedRevenueAzn: 'Estimated revenue, AZN',
+    dailyTrend: 'Daily trend',
+    routesMatched: 'Routes matched to AYNA buses',
+    routeMetadataFailed: 'Could not load route metadata.',
+    revenueView: 'Revenue',
+    revenueShort: 'revenue',
+    averageFareAzn: 'Average fare, AZN',
+    otherPayments: 'Other',
+    fareTable: 'Fare table, AZN',
+    fareZoneCity: 'City',
+    fareZoneSuburban: 'Suburban',
+    useRouteTariffs: 'Use the route\'s AYNA tariff',
+    routesWithTariff: 'Routes priced with their own tariff',
+    resetFares: 'Reset fares',
+    revenueByChannel: 'Revenue by payment channel',
+    breakdownDay: 'By day',
     showingWithMetric: 'regions shown with metric:',
     loadingMapData: 'Loading map data...',
     legend: 'Color Legend',
+    mapMode: 'Map mode',
+    univariate: 'Single metric',
+    bivariate: 'Bivariate (population × jobs)',
+    classificationScheme: 'Classification',
+    quantile: 'Quantile',
+    equalInterval: 'Equal interval',
+    jenks: 'Natural breaks (Jenks)',
+    standardDeviation: 'Standard deviation',
+    manual: 'Manual breaks',
+    classCount: 'Classes',
+    palette: 'Palette',
+    sequential: 'sequential',
+    diverging: 'diverging',
+    manualBreaks: 'Break values',
+    manualBreaksHint: '1-8 comma-separated numbers, e.g. 500, 2000, 5000',
+    zoneCount: 'Zones',
+    dissolvingRegions: 'Merging zones...',
+    regionAggregationFailed: 'Could not merge the zones.',
     tableView: 'Table View',
     chartView: 'Chart View',
     totalRecords: 'Total records',
@@ -127,14 +613,257 @@ export const TRANSLATIONS: Record<LanguageCode, Dictionary> = {
     metric: 'Показатель',
     population: 'Население',
     jobs: 'Рабочие места',
+    populationDensity: 'Плотность населения (на км²)',
+    jobDensity: 'Плотность рабочих мест (на км²)',
+    jobsPerResident: 'Рабочих мест на жителя',
+    residentsPerJob: 'Жителей на рабочее место',
+    areaKm2: 'Площадь (км²)',
     regionLevel: 'Уровень региона',
     micro: 'Микро',
     meso: 'Мезо',
     macro: 'Макро',
     resetView: 'Сбросить вид',
+    searchZones: 'Поиск зоны (название или ID)',
+    closeDetails: 'Закрыть',
+    rankOf: 'место из',
+    shareOfParent: 'Доля в родительских итогах',
+    allZones: 'Все зоны',
+    attributes: 'Атрибуты',
+    boxSelect: 'Выбор прямоугольником',
+    lassoSelect: 'Выбор лассо',
+    clearSelection: 'Очистить выбор',
+    shiftClickHint: 'Shift+клик добавляет зоны в выбор',
+    drawSelectionHint: 'Проведите по карте для выбора (Shift добавляет)',
+    selectionSummary: 'Сводка выбора',
+    zonesSelected: 'зон выбрано',
+    sum: 'Сумма',
+    mean: 'Среднее',
+    export: 'Экспорт',
+    exportGeoJson: 'GeoJSON (зоны с классами)',
+    exportCsv: 'CSV (таблица атрибутов)',
+    exportPng: 'PNG (карта с легендой)',
+    exportImageFailed: 'Не удалось создать изображение карты.',
+    zoneRanking: 'Рейтинг зон',
+    rank: 'Место',
+    classColor: 'Класс',
+    zoneName: 'Зона',
+    populationShareOfTotal: 'Доля населения',
+    jobsShareOfTotal: 'Доля рабочих мест',
+    populationShareOfMeso: 'Доля населения в мезозоне',
+    jobsShareOfMeso: 'Доля рабочих мест в мезозоне',
+    populationShareOfMacro: 'Доля населения в макрозоне',
+    jobsShareOfMacro: 'Доля рабочих мест в макрозоне',
+    populationShareOfAllZones: 'Доля населения во всех зонах',
+    jobsShareOfAllZones: 'Доля рабочих мест во всех зонах',
+    loadDataset: 'Загрузить данные',
+    readingDataset: 'Чтение файла...',
+    dropDatasetHere: 'Перетащите файл зон сюда',
+    supportedDatasetFormats: 'GeoJSON, Shapefile в zip-архиве или GeoPackage (.gpkg)',
+    importFailed: 'Не удалось прочитать файл.',
+    datasetSource: 'Источник',
+    fieldMapping: 'Сопоставление полей',
+    featuresLoaded: 'объектов прочитано',
+    notMapped: 'Не выбрано',
+    fieldMappingMetricRequired: 'Добавьте хотя бы один показатель; у каждого должны быть поле и название, а для взвешенного среднего — вес.',
+    applyMapping: 'Применить',
+    cancel: 'Отмена',
+    unitPeople: 'чел.',
+    unitJobs: 'раб. мест',
+    keyFields: 'Основные поля',
+    levelField: 'Поле уровня',
+    additionalMetrics: 'Дополнительные показатели',
+    addMetric: 'Добавить показатель',
+    removeMetric: 'Удалить показатель',
+    sourceField: 'Поле',
+    metricLabel: 'Название',
+    metricUnit: 'Единица',
+    aggregation: 'Агрегация',
+    weightedMean: 'Взвешенное среднее',
+    weightBy: 'Вес',
+    datasetSchema: 'Схема данных',
+    editDatasetSchema: 'Изменить схему',
+    dataValidation: 'Проверка данных',
+    fieldsWithIssues: 'полей с проблемами',
+    noDataIssues: 'Пропущенных или нечисловых значений не найдено.',
+    missingValues: 'Пропуски',
+    nonNumericValues: 'Нечисловые',
+    missingValue: 'значение отсутствует',
+    nonNumericValue: 'не число:',
+    showAllIssues: 'Показать все',
+    showFewerIssues: 'Свернуть',
+    compareMode: 'Сравнение',
+    compareModeHint: 'Две синхронные карты: выберите показатель и уровень для каждой стороны и закрепите по одной зоне на каждой карте.',
+    zoneComparison: 'Сравнение зон',
+    pinTwoZonesHint: 'Закрепите по одной зоне на картах A и B, чтобы увидеть разницу.',
+    difference: 'Разница',
+    change: 'Изменение',
+    pinnedZone: 'Закреплённая зона',
+    clickToPinZone: 'Нажмите на зону, чтобы закрепить её',
+    aggregationGrid: 'Геометрия',
+    zonePolygons: 'Полигоны зон',
+    hexGrid: 'Гексагональная сетка',
+    buildingHexGrid: 'Построение гексагональной сетки...',
+    renderer: 'Способ отображения',
+    choropleth: 'Картограмма',
+    dotDensity: 'Точечная плотность',
+    proportionalSymbols: 'Пропорциональные символы',
+    dotValue: 'Вес точки',
+    dot: 'точка',
+    transitCoverage: 'Транспортная доступность',
+    transitBuses: 'Автобусы',
+    walkingRadius: 'Пешеходный радиус',
+    transitStops: 'остановок',
+    withinWalkingRadius: 'в пешеходном радиусе',
+    coveredPopulation: 'Охваченное население',
+    coveredJobs: 'Охваченные рабочие места',
+    selectTransitBusesHint: 'Выберите автобусы, чтобы загрузить их остановки.',
+    computingTransitCoverage: 'Расчёт охвата...',
+    noTransitStops: 'Для выбранных автобусов не найдено остановок с координатами.',
+    transitBusesFailed: 'Не удалось загрузить автобусы',
+    transitCoverageFailed: 'Не удалось рассчитать пешеходный охват.',
+    loadingStageParse: 'Разбор CSV',
+    loadingStageSummarize: 'Подсчёт итогов',
+    rowsLoaded: 'строк',
+    importCheckIns: 'Импорт файла регистраций',
+    delimiter: 'Разделитель',
+    delimiterAuto: 'Определить автоматически',
+    delimiterComma: 'Запятая (,)',
+    delimiterSemicolon: 'Точка с запятой (;)',
+    delimiterTab: 'Табуляция',
+    delimiterPipe: 'Вертикальная черта (|)',
+    encoding: 'Кодировка',
+    headerRow: 'Строка заголовков',
+    spreadsheetFirstSheet: 'Читается первый лист книги XLSX; разделитель и кодировка не применяются.',
+    loadCheckIns: 'Загрузить',
+    checkInFileMissing: 'Файл регистраций не найден (/data/ceck_in_buss.csv). Перетащите экспорт CSV или XLSX на страницу.',
+    checkInUploadNotSaved: 'Файл загружен, но не сохранён в браузере, поэтому после перезагрузки его не будет.',
+    checkInSource: 'Источник',
+    bundledCheckIns: 'встроенный CSV',
+    useBundledCheckIns: 'Вернуться к встроенным данным',
+    uploadCheckIns: 'Загрузить CSV / XLSX',
+    dropCheckInsHere: 'Перетащите файл регистраций сюда',
+    supportedCheckInFormats: 'CSV, TSV, TXT или XLSX',
+    dataQuality: 'Качество данных',
+    typeConflicts: 'конфликтов типа',
+    outOfRangeHours: 'часов вне диапазона',
+    negativeCounts: 'отрицательных значений',
+    duplicateRows: 'повторяющихся строк',
+    resetColumnTypes: 'Сбросить типы',
+    columnType: 'Тип',
+    nullValues: 'Пустые',
+    distinctValues: 'Уникальные',
+    inferredType: 'определён',
+    columnTypeInteger: 'Целое',
+    columnTypeDecimal: 'Десятичное',
+    columnTypeDate: 'Дата',
+    columnTypeBoolean: 'Логическое',
+    columnTypeCategory: 'Категория',
+    columnTypeText: 'Текст',
+    columnTypesNotApplied: 'Не удалось применить типы столбцов.',
+    dateFrom: 'С даты',
+    dateTo: 'По дату',
+    hourRange: 'Часы',
+    operators: 'Операторы',
+    clearFilters: 'Сбросить фильтры',
+    trendsView: 'Тренды',
+    ridershipTrend: 'Динамика пассажиропотока',
+    trendsNeedDates: 'Для трендов нужен столбец с датой.',
+    trendOutlierDays: 'Дни, исключённые из тренда, так как они далеко от остальных дат',
+    granularityDaily: 'По дням',
+    granularityWeekly: 'По неделям',
+    breakdownTotal: 'Всего',
+    breakdownRoute: 'По маршрутам',
+    breakdownOperator: 'По операторам',
+    totalCheckIns: 'Всего пассажиров',
+    movingAverage7: 'Среднее за 7 дней',
+    weekdayWeekend: 'Будни и выходные',
+    weekdayAverage: 'Среднее в будни',
+    weekendAverage: 'Среднее в выходные',
+    weekendVsWeekday: 'Выходные относительно будней',
+    anomalousDays: 'Аномальные дни',
+    noAnomalousDays: 'Аномальных дней не найдено.',
+    day: 'День',
+    expectedValue: 'Ожидаемое',
+    zScore: 'z-оценка',
+    pivotView: 'Сводная',
+    pivotFields: 'Поля',
+    pivotDragHint: 'Перетащите поля в строки, столбцы или значения либо нажмите на поле.',
+    pivotRows: 'Строки',
+    pivotColumns: 'Столбцы',
+    pivotValues: 'Значения',
+    pivotAddToRows: 'Добавить в строки',
+    pivotAddToColumns: 'Добавить в столбцы',
+    pivotAddToValues: 'Добавить в значения',
+    aggregationSum: 'Сумма',
+    aggregationMean: 'Среднее',
+    aggregationCount: 'Количество',
+    aggregationMin: 'Минимум',
+    aggregationMax: 'Максимум',
+    pivotNeedsValue: 'Добавьте в значения хотя бы одно поле, чтобы построить сводную таблицу.',
+    pivotFailed: 'Не удалось построить сводную таблицу.',
+    pivotGrandTotal: 'Общий итог',
+    pivotSubtotal: 'Промежуточный итог',
+    pivotBlank: '(пусто)',
+    pivotGroups: 'групп',
+    pivotColumnsTruncated: 'Показаны только первые 60 групп столбцов; итоги по строкам включают все группы.',
+    exportPivotCsv: 'Экспорт CSV',
+    hourByWeekday: 'Пассажиры по часам и дням недели',
+    topRoutesByHour: 'Самые загруженные маршруты по часам',
+    heatmapHint: 'Нажмите на ячейку, чтобы увидеть её строки в таблице',
+    weekdays: 'Дни недели',
+    weekdaySun: 'Вс',
+    weekdayMon: 'Пн',
+    weekdayTue: 'Вт',
+    weekdayWed: 'Ср',
+    weekdayThu: 'Чт',
+    weekdayFri: 'Пт',
+    weekdaySat: 'Сб',
+    scorecardsView: 'Показатели маршрутов',
+    routeScorecards: 'Рейтинг маршрутов',
+    route: 'Маршрут',
+    busHours: 'Автобусо-часы',
+    passengersPerBus: 'Пассажиров / автобус',
+    routeLengthKm: 'Длина, км',
+    passengersPerKm: 'Пассажиров / км',
+    durationMinutes: 'Время, мин',
+    fareAzn: 'Тариф, AZN',
+    estimatedRevenueAzn: 'Оценка выручки, AZN',
+    dailyTrend: 'Динамика по дням',
+    routesMatched: 'Маршруты, сопоставленные с автобусами AYNA',
+    routeMetadataFailed: 'Не удалось загрузить данные маршрутов.',
+    revenueView: 'Выручка',
+    revenueShort: 'выручка',
+    averageFareAzn: 'Средний тариф, AZN',
+    otherPayments: 'Прочее',
+    fareTable: 'Таблица тарифов, AZN',
+    fareZoneCity: 'Город',
+    fareZoneSuburban: 'Пригород',
+    useRouteTariffs: 'Использовать тариф маршрута из AYNA',
+    routesWithTariff: 'Маршруты со своим тарифом',
+    resetFares: 'Сбросить тарифы',
+    revenueByChannel: 'Выручка по каналам оплаты',
+    breakdownDay: 'По дням',
     showingWithMetric: 'регионов, показатель:',
     loadingMapData: 'Загрузка данных карты...',
     legend: 'Цветовая легенда',
+    mapMode: 'Режим карты',
+    univariate: 'Один показатель',
+    bivariate: 'Двумерный (население × рабочие места)',
+    classificationScheme: 'Классификация',
+    quantile: 'Квантили',
+    equalInterval: 'Равные интервалы',
+    jenks: 'Естественные границы (Jenks)',
+    standardDeviation: 'Стандартное отклонение',
+    manual: 'Ручные границы',
+    classCount: 'Классов',
+    palette: 'Палитра',
+    sequential: 'последовательная',
+    diverging: 'расходящаяся',
+    manualBreaks: 'Значения границ',
+    manualBreaksHint: '1-8 чисел через запятую, напр. 500, 2000, 5000',
+    zoneCount: 'Зон',
+    dissolvingRegions: 'Объединение зон...',
+    regionAggregationFailed: 'Не удалось объединить зоны.',
     tableView: 'Таблица',
     chartView: 'Графики',
     totalRecords: 'Всего записей',
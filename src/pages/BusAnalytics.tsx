@@ -1,163 +1,449 @@
-import { lazy, Suspense, useEffect, useMemo, useState } from 'react'
-import { Alert, Box, Card, CardContent, Grid, Paper, Skeleton, Stack, Typography } from '@mui/material'
-import { DataGrid, type GridColDef, type GridLocaleText } from '@mui/x-data-grid'
+import { lazy, Suspense, useEffect, useMemo, useRef, useState, type DragEvent } from 'react'
+import { Alert, Box, Button, Card, CardContent, Grid, LinearProgress, Paper, Skeleton, Stack, Typography } from '@mui/material'
+import RestartAltRoundedIcon from '@mui/icons-material/RestartAltRounded'
+import UploadFileRoundedIcon from '@mui/icons-material/UploadFileRounded'
+import {
+  DataGrid,
+  type GridColDef,
+  type GridFilterModel,
+  type GridPaginationModel,
+  type GridSortDirection,
+  type GridSortModel,
+} from '@mui/x-data-grid'
+import { useSearchParams } from 'react-router-dom'
+import AnalyticsQualityPanel from '../components/AnalyticsQualityPanel'
+import CheckInFilterBar from '../components/CheckInFilterBar'
+import CheckInImportDialog from '../components/CheckInImportDialog'
+import { useUrlStateSync } from '../hooks/useUrlStateSync'
+import { getGridLocaleText } from '../i18n/gridLocaleText'
 import { useLanguage } from '../i18n/useLanguage'
-import { loadBusCsv } from '../services/dataService'
-import type { CsvRecord } from '../types/data'
+import { getNumericFields, getStoreFields, getStoreRows, queryColumnStore, sumStoreColumn } from '../services/analyticsStore'
+import {
+  buildChartData,
+  buildCheckInFilterPredicate,
+  DEFAULT_CHECK_IN_FILTERS,
+  getCheckInFilterOptions,
+  WEEKDAY_LABEL_KEYS,
+} from '../services/busAnalytics'
+import { TREND_BREAKDOWNS, TREND_GRANULARITIES } from '../services/ridershipTrends'
+import { CHECK_IN_FILE_ACCEPT, DEFAULT_CHECK_IN_IMPORT_OPTIONS } from '../services/checkInImport'
+import { clearCheckInUpload, loadCheckInUpload, saveCheckInUpload } from '../services/checkInStorage'
+import { buildBusAnalytics, buildPivotTable, loadAynaRouteMetadata, loadBusAnalytics, type AynaBusDetails } from '../services/dataService'
+import { estimateFareRevenue, REVENUE_BREAKDOWNS } from '../services/fareRevenue'
+import { DEFAULT_FARE_TABLE, FARE_ZONES, type FareTable } from '../services/fareTable'
+import { fitPivotConfig, PIVOT_AGGREGATIONS } from '../services/pivotTable'
+import { buildRouteScorecards } from '../services/routeScorecards'
+import {
+  readEnumParam,
+  readJsonParam,
+  readNumberListParam,
+  readNumberOptionParam,
+  readNumberParam,
+  readStringListParam,
+  readStringParam,
+  unlessDefault,
+} from '../services/urlState'
+import type {
+  AnalyticsColumnStore,
+  AnalyticsColumnTyping,
+  AnalyticsRow,
+  BusAnalyticsBuild,
+  BusAnalyticsChartData,
+  BusAnalyticsLoadProgress,
+  BusAnalyticsLoadStage,
+  BusAnalyticsPreview,
+  BusAnalyticsWorkerSuccessPayload,
+  CheckInFilters,
+  CheckInImportOptions,
+  CheckInUpload,
+  PivotConfig,
+  PivotTable,
+} from '../types/busAnalytics'
+
+type ViewMode = 'table' | 'charts' | 'trends' | 'pivot' | 'scorecards' | 'revenue'
+// upload is null for the bundled CSV.
+type AnalyticsSource = {
+  upload: CheckInUpload | null
+}
+// The build for one set of type overrides; a build for older overrides is shown until the new one arrives.
+type RebuildResult = {
+  overrides: Record<string, AnalyticsColumnTyping>
+  build: BusAnalyticsBuild | null
+  error: string | null
+}
+// The pivot for one store, set of rows and config, compared by identity like RebuildResult.
+type PivotResult = {
+  store: AnalyticsColumnStore
+  rowIndexes: Uint32Array | null
+  config: PivotConfig
+  pivot: PivotTable | null
+  error: string | null
+}
+// AYNA details of the buses matching the store's routes, loaded once per distinct route list.
+type RouteMetadataResult = {
+  // Sorted route list as JSON, so a rebuilt store with the same routes reuses the loaded metadata.
+  routesKey: string
+  buses: AynaBusDetails[]
+  source: 'live-api' | 'snapshot-fallback' | null
+  error: string | null
+}
+
+const VIEW_MODES: ViewMode[] = ['table', 'charts', 'trends', 'pivot', 'scorecards', 'revenue']
+const PAGE_SIZE_OPTIONS = [10, 25, 50]
+const DEFAULT_PAGE_SIZE = 10
+
+const EMPTY_ROWS: AnalyticsRow[] = []
+const NO_OVERRIDES: Record<string, AnalyticsColumnTyping> = {}
+const EMPTY_PIVOT_CONFIG: PivotConfig = { rows: [], columns: [], values: [] }
+const NO_BUSES: AynaBusDetails[] = []
+const EMPTY_CHART_DATA: BusAnalyticsChartData = {
+  hourly: [],
+  topRoutes: [],
+  operatorSplit: [],
+  paymentMix: [],
+  daily: [],
+  outlierDays: 0,
+  weekdayHours: [],
+  routeHours: [],
+}
 
-type AnalyticsRow = CsvRecord & { id: number }
+const LOAD_STAGE_LABELS: Record<BusAnalyticsLoadStage, string> = {
+  parse: 'loadingStageParse',
+  summarize: 'loadingStageSummarize',
+}
 
 const BusAnalyticsCharts = lazy(() => import('../components/BusAnalyticsCharts'))
+const RidershipTrendsChart = lazy(() => import('../components/RidershipTrendsChart'))
+const PivotTableView = lazy(() => import('../components/PivotTableView'))
+const RouteScorecardTable = lazy(() => import('../components/RouteScorecardTable'))
+const FareRevenuePanel = lazy(() => import('../components/FareRevenuePanel'))
 
 export default function BusAnalytics() {
   const { t, language } = useLanguage()
-  const [rows, setRows] = useState<AnalyticsRow[]>([])
-  const [columns, setColumns] = useState<GridColDef[]>([])
-  const [viewMode, setViewMode] = useState<'table' | 'charts'>('table')
+  const [data, setData] = useState<BusAnalyticsWorkerSuccessPayload | null>(null)
+  const [preview, setPreview] = useState<BusAnalyticsPreview | null>(null)
+  const [progress, setProgress] = useState<BusAnalyticsLoadProgress | null>(null)
+  const [searchParams] = useSearchParams()
+  const [viewMode, setViewMode] = useState(() => readEnumParam(searchParams, 'view', VIEW_MODES, 'table'))
+  const [filterModel, setFilterModel] = useState<GridFilterModel>(
+    () => readJsonParam(searchParams, 'filters', isFilterModel) ?? { items: [] },
+  )
+  const [sortModel, setSortModel] = useState<GridSortModel>(() => parseSortModel(readStringParam(searchParams, 'sort')))
+  const [trendGranularity, setTrendGranularity] = useState(() => readEnumParam(searchParams, 'granularity', TREND_GRANULARITIES, 'daily'))
+  const [trendBreakdown, setTrendBreakdown] = useState(() => readEnumParam(searchParams, 'breakdown', TREND_BREAKDOWNS, 'total'))
+  const [checkInFilters, setCheckInFilters] = useState<CheckInFilters>(() => readCheckInFilters(searchParams))
+  const [fareTable, setFareTable] = useState<FareTable>(() => readJsonParam(searchParams, 'fares', isFareTable) ?? DEFAULT_FARE_TABLE)
+  const [revenueBreakdown, setRevenueBreakdown] = useState(() => readEnumParam(searchParams, 'revenueBy', REVENUE_BREAKDOWNS, 'route'))
+  const [pivotConfig, setPivotConfig] = useState<PivotConfig>(
+    () => readJsonParam(searchParams, 'pivot', isPivotConfig) ?? EMPTY_PIVOT_CONFIG,
+  )
+  const [paginationModel, setPaginationModel] = useState<GridPaginationModel>(() => ({
+    page: Math.max((readNumberParam(searchParams, 'page') ?? 1) - 1, 0),
+    pageSize: readNumberOptionParam(searchParams, 'pageSize', PAGE_SIZE_OPTIONS) ?? DEFAULT_PAGE_SIZE,
+  }))
   const [loading, setLoading] = useState(true)
   const [error, setError] = useState<string | null>(null)
-
+  const [source, setSource] = useState<AnalyticsSource | null>(null)
+  const [pendingFile, setPendingFile] = useState<File | null>(null)
+  const [dragActive, setDragActive] = useState(false)
+  const [uploadNotSaved, setUploadNotSaved] = useState(false)
+  const [typingOverrides, setTypingOverrides] = useState(NO_OVERRIDES)
+  const [rebuild, setRebuild] = useState<RebuildResult | null>(null)
+  const [pivotResult, setPivotResult] = useState<PivotResult | null>(null)
+  const [routeMetadata, setRouteMetadata] = useState<RouteMetadataResult | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  // A file uploaded in an earlier session wins over the bundled CSV, unless a file was uploaded or reset meanwhile.
   useEffect(() => {
-    let active = true
+    let cancelled = false
+    const restore = (upload: CheckInUpload | null) => {
+      if (!cancelled) {
+        setSource((current) => current ?? { upload })
+      }
+    }
 
-    loadBusCsv()
-      .then((records) => {
-        if (!active) {
-          return
-        }
+    loadCheckInUpload()
+      .then(restore)
+      .catch(() => restore(null))
 
-        const keys = getColumnKeys(records)
-        const dateKeys = keys.filter((key) => isDateColumn(records, key))
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
-        const tableRows = records.map((record, index) => {
-          const normalizedRecord: CsvRecord = { ...record }
-          for (const dateKey of dateKeys) {
-            normalizedRecord[dateKey] = formatDateTime(record[dateKey])
-          }
-          return {
-            ...normalizedRecord,
-            id: index + 1,
-          }
-        })
-
-        const tableColumns: GridColDef[] = keys.map((key) => ({
-          field: key,
-          headerName: translateColumnLabel(key, language),
-          flex: 1,
-          minWidth: 160,
-          type: isNumericColumn(records, key) ? 'number' : 'string',
-        }))
-
-        setRows(tableRows)
-        setColumns(tableColumns)
+  // Reloads whenever the source changes; leaving the page aborts the worker mid-download or mid-parse.
+  useEffect(() => {
+    if (!source) {
+      return
+    }
+    const controller = new AbortController()
+
+    loadBusAnalytics(source.upload, { onProgress: setProgress, onPreview: setPreview }, controller.signal)
+      .then((payload) => {
+        setData(payload)
         setError(null)
       })
-      .catch(() => {
-        if (!active) {
+      .catch((loadError: unknown) => {
+        if (controller.signal.aborted) {
           return
         }
-        setError('CSV file not found. Expected /public/data/ceck_in_buss.csv.')
+        setError(loadError instanceof Error ? loadError.message : '')
       })
       .finally(() => {
-        if (active) {
+        if (!controller.signal.aborted) {
           setLoading(false)
         }
       })
 
     return () => {
-      active = false
+      controller.abort()
     }
-  }, [language])
-
-  const stats = useMemo(() => {
-    const numericColumns = columns.filter((column) => column.type === 'number')
-    const firstNumericField = numericColumns[0]?.field
-    const totalFirstMetric = firstNumericField
-      ? rows.reduce((sum, row) => {
-          const value = row[firstNumericField]
-          return typeof value === 'number' ? sum + value : sum
-        }, 0)
-      : null
-
-    return {
-      records: rows.length,
-      columns: columns.length,
-      firstMetric: totalFirstMetric,
-      firstMetricLabel: firstNumericField ? translateColumnLabel(firstNumericField, language) : null,
+  }, [source])
+
+  // Overridden column types re-type the loaded columns in the worker; the file is not read again.
+  useEffect(() => {
+    if (!data || typingOverrides === NO_OVERRIDES) {
+      return
     }
-  }, [columns, rows, language])
-
-  const chartData = useMemo(() => {
-    const hourField = findFieldName(rows, /hour/i)
-    const routeField = findFieldName(rows, /^route$/i)
-    const totalCountField = findFieldName(rows, /total\s*count/i)
-    const operatorField = findFieldName(rows, /operator/i)
-    const smartCardField = findFieldName(rows, /smart\s*card/i)
-    const qrField = findFieldName(rows, /\bqr\b/i)
-
-    const hourlyTotals = new Map<string, number>()
-    const routeTotals = new Map<string, number>()
-    const operatorTotals = new Map<string, number>()
-    let smartCardTotal = 0
-    let qrTotal = 0
-
-    for (const row of rows) {
-      const countValue = totalCountField ? asNumber(row[totalCountField]) : 0
-      if (countValue <= 0) {
-        continue
-      }
+    const controller = new AbortController()
 
-      if (hourField) {
-        const hourValue = String(row[hourField] ?? '')
-        const hourLabel = hourValue.length > 0 ? `${hourValue.padStart(2, '0')}:00` : 'Unknown'
-        hourlyTotals.set(hourLabel, (hourlyTotals.get(hourLabel) ?? 0) + countValue)
-      }
+    buildBusAnalytics(data.raw, { ...data.build.typings, ...typingOverrides }, controller.signal)
+      .then((build) => setRebuild({ overrides: typingOverrides, build, error: null }))
+      .catch((buildError: unknown) => {
+        if (!controller.signal.aborted) {
+          setRebuild({ overrides: typingOverrides, build: null, error: buildError instanceof Error ? buildError.message : '' })
+        }
+      })
 
-      if (routeField) {
-        const route = String(row[routeField] ?? 'Unknown')
-        routeTotals.set(route, (routeTotals.get(route) ?? 0) + countValue)
-      }
+    return () => {
+      controller.abort()
+    }
+  }, [data, typingOverrides])
+
+  const switchSource = (nextSource: AnalyticsSource) => {
+    setData(null)
+    setTypingOverrides(NO_OVERRIDES)
+    setRebuild(null)
+    setPivotResult(null)
+    setPreview(null)
+    setProgress(null)
+    setError(null)
+    setLoading(true)
+    setFilterModel({ items: [] })
+    setCheckInFilters(DEFAULT_CHECK_IN_FILTERS)
+    setSortModel([])
+    setPaginationModel((previous) => ({ ...previous, page: 0 }))
+    setSource(nextSource)
+  }
 
-      if (operatorField) {
-        const operator = String(row[operatorField] ?? 'Unknown')
-        operatorTotals.set(operator, (operatorTotals.get(operator) ?? 0) + countValue)
-      }
+  const handleLoadUpload = (options: CheckInImportOptions) => {
+    if (!pendingFile) {
+      return
+    }
+    const upload: CheckInUpload = { file: pendingFile, options }
+    setPendingFile(null)
+    setUploadNotSaved(false)
+    switchSource({ upload })
+    saveCheckInUpload(upload).catch(() => setUploadNotSaved(true))
+  }
 
-      if (smartCardField) {
-        smartCardTotal += asNumber(row[smartCardField])
-      }
+  const handleUseBundledData = () => {
+    setUploadNotSaved(false)
+    switchSource({ upload: null })
+    void clearCheckInUpload().catch(() => undefined)
+  }
 
-      if (qrField) {
-        qrTotal += asNumber(row[qrField])
-      }
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault()
+    setDragActive(false)
+    const file = event.dataTransfer.files[0]
+    if (file) {
+      setPendingFile(file)
+    }
+  }
+
+  const handleCheckInFiltersChange = (filters: CheckInFilters) => {
+    setCheckInFilters(filters)
+    setPaginationModel((previous) => ({ ...previous, page: 0 }))
+  }
+
+  // A heatmap cell narrows the filters to its hour and weekday or route and opens the rows behind it.
+  const handleHeatmapSelect = (patch: Partial<CheckInFilters>) => {
+    handleCheckInFiltersChange({ ...checkInFilters, ...patch })
+    setViewMode('table')
+  }
+
+  const handleTypingChange = (field: string, typing: AnalyticsColumnTyping) => {
+    const inferred = data?.profiles.find((profile) => profile.field === field)?.inferred
+    const others = Object.fromEntries(Object.entries(typingOverrides).filter(([overridden]) => overridden !== field))
+    const overrides = inferred?.type === typing.type && inferred.dateFormat === typing.dateFormat ? others : { ...others, [field]: typing }
+    setTypingOverrides(Object.keys(overrides).length > 0 ? overrides : NO_OVERRIDES)
+  }
+
+  const rebuilding = typingOverrides !== NO_OVERRIDES && rebuild?.overrides !== typingOverrides
+  const build = typingOverrides === NO_OVERRIDES ? (data?.build ?? null) : (rebuild?.build ?? data?.build ?? null)
+
+  // Until the store arrives the grid shows the streamed preview; afterwards it filters, sorts and pages the store.
+  const store = build?.store ?? null
+  const fields = useMemo(() => (store ? getStoreFields(store) : (preview?.fields ?? [])), [store, preview])
+  const numericFields = useMemo(() => (store ? getNumericFields(store) : (preview?.numericFields ?? [])), [store, preview])
+  const columns = useMemo<GridColDef[]>(
+    () =>
+      fields.map((field) => ({
+        field,
+        headerName: translateColumnLabel(field, language),
+        flex: 1,
+        minWidth: 160,
+        type: numericFields.includes(field) ? 'number' : 'string',
+      })),
+    [fields, numericFields, language],
+  )
+  const filterOptions = useMemo(() => (store ? getCheckInFilterOptions(store) : null), [store])
+  const checkInPredicate = useMemo(() => (store ? buildCheckInFilterPredicate(store, checkInFilters) : null), [store, checkInFilters])
+  const rowIndexes = useMemo(
+    () => (store ? queryColumnStore(store, filterModel, sortModel, checkInPredicate) : null),
+    [store, filterModel, sortModel, checkInPredicate],
+  )
+  const rows = useMemo(() => {
+    if (!store || !rowIndexes) {
+      return preview?.rows ?? EMPTY_ROWS
     }
+    const start = paginationModel.page * paginationModel.pageSize
+    return getStoreRows(store, rowIndexes.subarray(start, start + paginationModel.pageSize))
+  }, [store, rowIndexes, preview, paginationModel])
+
+  // KPI cards and charts follow the rows the table shows; totals precomputed by the worker are used while nothing is filtered.
+  const filteredRowIndexes = store && rowIndexes && rowIndexes.length < store.rowCount ? rowIndexes : null
+  const chartData = useMemo(
+    () => (store && filteredRowIndexes ? buildChartData(store, filteredRowIndexes) : (build?.chartData ?? EMPTY_CHART_DATA)),
+    [store, filteredRowIndexes, build],
+  )
+  const stats = {
+    records: rowIndexes ? rowIndexes.length : (progress?.rows ?? 0),
+    columns: columns.length,
+    firstMetric:
+      store && filteredRowIndexes && build?.firstMetricField
+        ? sumStoreColumn(store, build.firstMetricField, filteredRowIndexes)
+        : (build?.firstMetricTotal ?? null),
+    firstMetricLabel: build?.firstMetricField ? translateColumnLabel(build.firstMetricField, language) : null,
+  }
 
-    const hourly = [...hourlyTotals.entries()]
-      .sort((a, b) => a[0].localeCompare(b[0]))
-      .map(([label, value]) => ({ label, value }))
+  // The pivot is computed in the worker from the rows the table shows, and only while the pivot view is open.
+  const pivotFields = useMemo(
+    () => (store ? store.columns.map((column) => ({ field: column.field, numeric: column.kind === 'number' })) : []),
+    [store],
+  )
+  const fittedPivotConfig = useMemo(() => (store ? fitPivotConfig(pivotConfig, store) : pivotConfig), [store, pivotConfig])
+  useEffect(() => {
+    if (viewMode !== 'pivot' || !store || fittedPivotConfig.values.length === 0) {
+      return
+    }
+    const controller = new AbortController()
+    const request = { store, rowIndexes: filteredRowIndexes, config: fittedPivotConfig }
+
+    buildPivotTable(store, filteredRowIndexes, fittedPivotConfig, controller.signal)
+      .then((pivot) => setPivotResult({ ...request, pivot, error: null }))
+      .catch((pivotError: unknown) => {
+        if (!controller.signal.aborted) {
+          setPivotResult({ ...request, pivot: null, error: pivotError instanceof Error ? pivotError.message : '' })
+        }
+      })
 
-    const topRoutes = [...routeTotals.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 12)
-      .map(([label, value]) => ({ label, value }))
+    return () => {
+      controller.abort()
+    }
+  }, [viewMode, store, filteredRowIndexes, fittedPivotConfig])
 
-    const operatorSplit = [...operatorTotals.entries()]
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 6)
-      .map(([label, value]) => ({ label, value }))
+  // Route metadata comes from the AYNA API and is only fetched once a view needs it.
+  const metadataRoutes = filterOptions?.routes ?? null
+  const metadataRoutesKey = metadataRoutes && metadataRoutes.length > 0 ? JSON.stringify([...metadataRoutes].sort()) : null
+  const needsRouteMetadata = viewMode === 'scorecards' || viewMode === 'revenue'
+  const currentRouteMetadata = routeMetadata?.routesKey === metadataRoutesKey ? routeMetadata : null
+  useEffect(() => {
+    if (!needsRouteMetadata || metadataRoutesKey === null || routeMetadata?.routesKey === metadataRoutesKey) {
+      return
+    }
+    let cancelled = false
 
-    const paymentMix = [
-      { label: 'SmartCard', value: smartCardTotal },
-      { label: 'QR', value: qrTotal },
-    ].filter((item) => item.value > 0)
+    loadAynaRouteMetadata(JSON.parse(metadataRoutesKey) as string[])
+      .then(({ buses, source }) => {
+        if (!cancelled) {
+          setRouteMetadata({ routesKey: metadataRoutesKey, buses, source, error: null })
+        }
+      })
+      .catch((metadataError: unknown) => {
+        if (!cancelled) {
+          const message = metadataError instanceof Error ? metadataError.message : ''
+          setRouteMetadata({ routesKey: metadataRoutesKey, buses: [], source: null, error: message })
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [needsRouteMetadata, metadataRoutesKey, routeMetadata])
+  const routeBuses = currentRouteMetadata?.buses ?? NO_BUSES
+  const scorecards = useMemo(
+    () =>
+      viewMode === 'scorecards' && store ? buildRouteScorecards(store, filteredRowIndexes, chartData.daily, routeBuses, fareTable) : [],
+    [viewMode, store, filteredRowIndexes, chartData, routeBuses, fareTable],
+  )
+  const fareRevenue = useMemo(
+    () =>
+      viewMode === 'revenue' && store ? estimateFareRevenue(store, filteredRowIndexes, routeBuses, fareTable, revenueBreakdown) : null,
+    [viewMode, store, filteredRowIndexes, routeBuses, fareTable, revenueBreakdown],
+  )
+  const routeMetadataLoading = metadataRoutesKey !== null && !currentRouteMetadata
 
-    return { hourly, topRoutes, operatorSplit, paymentMix }
-  }, [rows])
+  const pivotPending =
+    pivotResult?.store !== store || pivotResult.rowIndexes !== filteredRowIndexes || pivotResult.config !== fittedPivotConfig
+  const progressPercent =
+    progress?.stage === 'parse' && progress.totalBytes ? Math.min((progress.loadedBytes / progress.totalBytes) * 100, 100) : null
 
   const gridLocaleText = useMemo(() => getGridLocaleText(language), [language])
 
+  const hasFilters = filterModel.items.length > 0 || (filterModel.quickFilterValues?.length ?? 0) > 0
+  useUrlStateSync({
+    view: unlessDefault(viewMode, 'table'),
+    granularity: viewMode === 'trends' ? unlessDefault(trendGranularity, 'daily') : null,
+    breakdown: viewMode === 'trends' ? unlessDefault(trendBreakdown, 'total') : null,
+    fares: (viewMode === 'revenue' || viewMode === 'scorecards') && fareTable !== DEFAULT_FARE_TABLE ? JSON.stringify(fareTable) : null,
+    revenueBy: viewMode === 'revenue' ? unlessDefault(revenueBreakdown, 'route') : null,
+    pivot: viewMode === 'pivot' && pivotConfig !== EMPTY_PIVOT_CONFIG ? JSON.stringify(pivotConfig) : null,
+    filters: hasFilters ? JSON.stringify(filterModel) : null,
+    sort: sortModel.length > 0 ? formatSortModel(sortModel) : null,
+    from: checkInFilters.dateFrom,
+    to: checkInFilters.dateTo,
+    hourFrom: unlessDefault(checkInFilters.hourFrom, DEFAULT_CHECK_IN_FILTERS.hourFrom),
+    hourTo: unlessDefault(checkInFilters.hourTo, DEFAULT_CHECK_IN_FILTERS.hourTo),
+    weekdays: checkInFilters.weekdays.length > 0 ? checkInFilters.weekdays.join(',') : null,
+    routes: checkInFilters.routes.length > 0 ? JSON.stringify(checkInFilters.routes) : null,
+    operators: checkInFilters.operators.length > 0 ? JSON.stringify(checkInFilters.operators) : null,
+    page: unlessDefault(paginationModel.page + 1, 1),
+    pageSize: unlessDefault(paginationModel.pageSize, DEFAULT_PAGE_SIZE),
+  })
+
+  const errorMessage = error === null ? null : source?.upload ? `${t('importFailed')} ${error}`.trim() : t('checkInFileMissing')
+
   return (
-    <Stack spacing={2.5}>
+    <Stack
+      spacing={2.5}
+      className="bus-analytics-page"
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes('Files')) {
+          event.preventDefault()
+          setDragActive(true)
+        }
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setDragActive(false)
+        }
+      }}
+      onDrop={handleDrop}
+    >
+      {filterOptions && <CheckInFilterBar filters={checkInFilters} options={filterOptions} onChange={handleCheckInFiltersChange} />}
+
       <Grid container spacing={2}>
         <Grid size={{ xs: 12, md: 4 }}>
           <Card className="stats-card" elevation={0}>
@@ -193,9 +479,23 @@ export default function BusAnalytics() {
         </Grid>
       </Grid>
 
-      {error && <Alert severity="warning">{error}</Alert>}
+      {errorMessage && <Alert severity="warning">{errorMessage}</Alert>}
+      {uploadNotSaved && <Alert severity="info">{t('checkInUploadNotSaved')}</Alert>}
+      {!rebuilding && rebuild?.error !== null && rebuild?.error !== undefined && (
+        <Alert severity="warning">{`${t('columnTypesNotApplied')} ${rebuild.error}`.trim()}</Alert>
+      )}
 
-      <Stack direction="row" spacing={1}>
+      {loading && progress && (
+        <Paper className="page-panel" elevation={0}>
+          <Typography variant="body2" color="text.secondary" gutterBottom>
+            {t(LOAD_STAGE_LABELS[progress.stage])} · {progress.rows.toLocaleString()} {t('rowsLoaded')}
+            {progressPercent === null ? '' : ` · ${Math.round(progressPercent)}%`}
+          </Typography>
+          <LinearProgress variant={progressPercent === null ? 'indeterminate' : 'determinate'} value={progressPercent ?? 0} />
+        </Paper>
+      )}
+
+      <Stack direction={{ xs: 'column', md: 'row' }} spacing={1} sx={{ alignItems: { md: 'center' } }}>
         <Typography
           component="button"
           className={`view-mode-chip ${viewMode === 'table' ? 'view-mode-chip-active' : ''}`}
@@ -210,25 +510,102 @@ export default function BusAnalytics() {
         >
           {t('chartView')}
         </Typography>
+        <Typography
+          component="button"
+          className={`view-mode-chip ${viewMode === 'trends' ? 'view-mode-chip-active' : ''}`}
+          onClick={() => setViewMode('trends')}
+        >
+          {t('trendsView')}
+        </Typography>
+        <Typography
+          component="button"
+          className={`view-mode-chip ${viewMode === 'pivot' ? 'view-mode-chip-active' : ''}`}
+          onClick={() => setViewMode('pivot')}
+        >
+          {t('pivotView')}
+        </Typography>
+        <Typography
+          component="button"
+          className={`view-mode-chip ${viewMode === 'scorecards' ? 'view-mode-chip-active' : ''}`}
+          onClick={() => setViewMode('scorecards')}
+        >
+          {t('scorecardsView')}
+        </Typography>
+        <Typography
+          component="button"
+          className={`view-mode-chip ${viewMode === 'revenue' ? 'view-mode-chip-active' : ''}`}
+          onClick={() => setViewMode('revenue')}
+        >
+          {t('revenueView')}
+        </Typography>
+        <Box sx={{ flexGrow: 1 }} />
+        <Typography variant="body2" color="text.secondary">
+          {t('checkInSource')}: {source?.upload ? source.upload.file.name : t('bundledCheckIns')}
+        </Typography>
+        {source?.upload && (
+          <Button size="small" color="secondary" startIcon={<RestartAltRoundedIcon />} onClick={handleUseBundledData} disabled={loading}>
+            {t('useBundledCheckIns')}
+          </Button>
+        )}
+        <Button
+          size="small"
+          variant="outlined"
+          color="secondary"
+          startIcon={<UploadFileRoundedIcon />}
+          onClick={() => fileInputRef.current?.click()}
+          disabled={loading}
+        >
+          {t('uploadCheckIns')}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={CHECK_IN_FILE_ACCEPT}
+          hidden
+          onChange={(event) => {
+            const file = event.target.files?.[0]
+            event.target.value = ''
+            if (file) {
+              setPendingFile(file)
+            }
+          }}
+        />
       </Stack>
 
+      {data && build && (
+        <AnalyticsQualityPanel
+          profiles={data.profiles}
+          typings={build.typings}
+          quality={build.quality}
+          duplicateRows={data.duplicateRows}
+          rebuilding={rebuilding}
+          hasOverrides={typingOverrides !== NO_OVERRIDES}
+          onTypingChange={handleTypingChange}
+          onResetTypings={() => setTypingOverrides(NO_OVERRIDES)}
+        />
+      )}
+
       {viewMode === 'table' && (
         <Paper className="table-panel" elevation={0}>
           <Box sx={{ height: 600, width: '100%' }}>
+            {/* Remounted once the rows are in, so a page or filter restored from the URL is not reset against the empty loading grid. */}
             <DataGrid
+              key={loading ? 'loading' : 'loaded'}
               rows={rows}
               columns={columns}
               localeText={gridLocaleText}
-              loading={loading}
-              pageSizeOptions={[10, 25, 50]}
-              initialState={{
-                pagination: {
-                  paginationModel: {
-                    pageSize: 10,
-                    page: 0,
-                  },
-                },
-              }}
+              loading={loading && !preview}
+              paginationMode={store ? 'server' : 'client'}
+              sortingMode={store ? 'server' : 'client'}
+              filterMode={store ? 'server' : 'client'}
+              rowCount={rowIndexes?.length}
+              pageSizeOptions={PAGE_SIZE_OPTIONS}
+              paginationModel={paginationModel}
+              onPaginationModelChange={setPaginationModel}
+              sortModel={sortModel}
+              onSortModelChange={setSortModel}
+              filterModel={filterModel}
+              onFilterModelChange={setFilterModel}
               disableRowSelectionOnClick
               showToolbar
               slotProps={{
@@ -263,32 +640,177 @@ export default function BusAnalytics() {
               topRoutesByCount: t('topRoutesByCount'),
               operatorContribution: t('operatorContribution'),
               paymentMix: t('paymentMix'),
+              hourByWeekday: t('hourByWeekday'),
+              topRoutesByHour: t('topRoutesByHour'),
+              heatmapHint: t('heatmapHint'),
+              weekdays: WEEKDAY_LABEL_KEYS.map((key) => t(key)),
             }}
+            onWeekdayHourSelect={(weekday, hour) => handleHeatmapSelect({ weekdays: [weekday], hourFrom: hour, hourTo: hour })}
+            onRouteHourSelect={(route, hour) => handleHeatmapSelect({ routes: [route], hourFrom: hour, hourTo: hour })}
           />
         </Suspense>
       )}
+
+      {viewMode === 'trends' && (
+        <Suspense fallback={<Skeleton variant="rounded" height={400} animation="wave" />}>
+          {build ? (
+            <RidershipTrendsChart
+              daily={chartData.daily}
+              outlierDays={chartData.outlierDays}
+              granularity={trendGranularity}
+              breakdown={trendBreakdown}
+              onGranularityChange={setTrendGranularity}
+              onBreakdownChange={setTrendBreakdown}
+            />
+          ) : (
+            <Skeleton variant="rounded" height={400} animation="wave" />
+          )}
+        </Suspense>
+      )}
+
+      {viewMode === 'pivot' && (
+        <Suspense fallback={<Skeleton variant="rounded" height={400} animation="wave" />}>
+          {store ? (
+            <PivotTableView
+              fields={pivotFields}
+              config={fittedPivotConfig}
+              pivot={pivotResult?.pivot ?? null}
+              loading={fittedPivotConfig.values.length > 0 && pivotPending}
+              error={pivotPending ? null : (pivotResult?.error ?? null)}
+              fieldLabel={(field) => translateColumnLabel(field, language)}
+              onConfigChange={setPivotConfig}
+            />
+          ) : (
+            <Skeleton variant="rounded" height={400} animation="wave" />
+          )}
+        </Suspense>
+      )}
+
+      {viewMode === 'scorecards' && (
+        <Suspense fallback={<Skeleton variant="rounded" height={560} animation="wave" />}>
+          {store ? (
+            <RouteScorecardTable
+              scorecards={scorecards}
+              loading={routeMetadataLoading}
+              source={currentRouteMetadata?.source ?? null}
+              error={currentRouteMetadata?.error ?? null}
+            />
+          ) : (
+            <Skeleton variant="rounded" height={560} animation="wave" />
+          )}
+        </Suspense>
+      )}
+
+      {viewMode === 'revenue' && (
+        <Suspense fallback={<Skeleton variant="rounded" height={480} animation="wave" />}>
+          {fareRevenue ? (
+            <FareRevenuePanel
+              revenue={fareRevenue}
+              fareTable={fareTable}
+              breakdown={revenueBreakdown}
+              loading={routeMetadataLoading}
+              onFareTableChange={setFareTable}
+              onBreakdownChange={setRevenueBreakdown}
+            />
+          ) : (
+            <Skeleton variant="rounded" height={480} animation="wave" />
+          )}
+        </Suspense>
+      )}
+
+      {dragActive && (
+        <Box className="dataset-drop-overlay">
+          <UploadFileRoundedIcon fontSize="large" />
+          <Typography variant="h6">{t('dropCheckInsHere')}</Typography>
+          <Typography variant="body2">{t('supportedCheckInFormats')}</Typography>
+        </Box>
+      )}
+      {pendingFile && (
+        <CheckInImportDialog
+          file={pendingFile}
+          initialOptions={source?.upload?.options ?? DEFAULT_CHECK_IN_IMPORT_OPTIONS}
+          onCancel={() => setPendingFile(null)}
+          onLoad={handleLoadUpload}
+        />
+      )}
     </Stack>
   )
 }
 
-function getColumnKeys(records: CsvRecord[]): string[] {
-  const keys = new Set<string>()
-  for (const record of records) {
-    for (const key of Object.keys(record)) {
-      if (key.trim().length > 0) {
-        keys.add(key)
-      }
-    }
+// Sort order in the URL reads as field:direction pairs, e.g. sort=route:asc,total_count:desc.
+function parseSortModel(value: string | null): GridSortModel {
+  return (value ?? '').split(',').flatMap((item) => {
+    const separator = item.lastIndexOf(':')
+    const field = item.slice(0, separator)
+    const sort = item.slice(separator + 1)
+    return separator > 0 && (sort === 'asc' || sort === 'desc') ? [{ field, sort: sort as GridSortDirection }] : []
+  })
+}
+
+function readCheckInFilters(params: URLSearchParams): CheckInFilters {
+  const readDate = (key: string) => {
+    const value = readStringParam(params, key)
+    return value !== null && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : null
+  }
+  const readHour = (key: string, fallback: number) => {
+    const value = readNumberParam(params, key)
+    return value !== null && Number.isInteger(value) && value >= 0 && value <= 23 ? value : fallback
+  }
+  const hourFrom = readHour('hourFrom', DEFAULT_CHECK_IN_FILTERS.hourFrom)
+  const hourTo = readHour('hourTo', DEFAULT_CHECK_IN_FILTERS.hourTo)
+  return {
+    dateFrom: readDate('from'),
+    dateTo: readDate('to'),
+    hourFrom: Math.min(hourFrom, hourTo),
+    hourTo: Math.max(hourFrom, hourTo),
+    weekdays: readNumberListParam(params, 'weekdays').filter((weekday) => Number.isInteger(weekday) && weekday >= 0 && weekday <= 6),
+    routes: readStringListParam(params, 'routes'),
+    operators: readStringListParam(params, 'operators'),
   }
-  return [...keys]
 }
 
-function isNumericColumn(records: CsvRecord[], key: string): boolean {
-  const sample = records.find((record) => record[key] !== undefined && record[key] !== null)
-  if (!sample) {
+function formatSortModel(model: GridSortModel): string {
+  return model
+    .filter((item) => item.sort)
+    .map((item) => `${item.field}:${item.sort}`)
+    .join(',')
+}
+
+function isFilterModel(value: unknown): value is GridFilterModel {
+  if (typeof value !== 'object' || value === null || !Array.isArray((value as GridFilterModel).items)) {
     return false
   }
-  return typeof sample[key] === 'number'
+  return (value as GridFilterModel).items.every(
+    (item) => typeof item === 'object' && item !== null && typeof item.field === 'string' && typeof item.operator === 'string',
+  )
+}
+
+function isPivotConfig(value: unknown): value is PivotConfig {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const { rows, columns, values } = value as PivotConfig
+  const isFieldList = (list: unknown) => Array.isArray(list) && list.every((field) => typeof field === 'string')
+  return (
+    isFieldList(rows) &&
+    isFieldList(columns) &&
+    Array.isArray(values) &&
+    values.every((item) => typeof item?.field === 'string' && PIVOT_AGGREGATIONS.includes(item.aggregation))
+  )
+}
+
+function isFareTable(value: unknown): value is FareTable {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const { zones, useRouteTariffs } = value as FareTable
+  const isFare = (fare: unknown) => typeof fare === 'number' && Number.isFinite(fare) && fare >= 0
+  return (
+    typeof useRouteTariffs === 'boolean' &&
+    typeof zones === 'object' &&
+    zones !== null &&
+    FARE_ZONES.every((zone) => isFare(zones[zone]?.smartCard) && isFare(zones[zone]?.qr))
+  )
 }
 
 function toHeaderLabel(value: string): string {
@@ -321,205 +843,3 @@ function translateColumnLabel(field: string, language: 'az' | 'en' | 'ru'): stri
 
   return toHeaderLabel(field)
 }
-
-function isDateColumn(records: CsvRecord[], key: string): boolean {
-  const lowerKey = key.toLowerCase()
-  if (lowerKey.includes('date') || lowerKey.includes('time')) {
-    return true
-  }
-
-  const sample = records.find((record) => typeof record[key] === 'string')
-  if (!sample) {
-    return false
-  }
-
-  const sampleValue = String(sample[key])
-  return !Number.isNaN(Date.parse(sampleValue))
-}
-
-function formatDateTime(value: CsvRecord[string]): string {
-  if (typeof value === 'object' && value instanceof Date) {
-    if (Number.isNaN(value.getTime())) {
-      return ''
-    }
-    const day = String(value.getUTCDate()).padStart(2, '0')
-    const month = String(value.getUTCMonth() + 1).padStart(2, '0')
-    const year = value.getUTCFullYear()
-    const hours = String(value.getUTCHours()).padStart(2, '0')
-    const minutes = String(value.getUTCMinutes()).padStart(2, '0')
-    return `${day}.${month}.${year} ${hours}:${minutes}`
-  }
-
-  if (typeof value !== 'string') {
-    return String(value ?? '')
-  }
-
-  const isoLike = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)
-
-  if (isoLike) {
-    const date = new Date(value)
-    if (Number.isNaN(date.getTime())) {
-      return value
-    }
-
-    const day = String(date.getUTCDate()).padStart(2, '0')
-    const month = String(date.getUTCMonth() + 1).padStart(2, '0')
-    const year = date.getUTCFullYear()
-    const hours = String(date.getUTCHours()).padStart(2, '0')
-    const minutes = String(date.getUTCMinutes()).padStart(2, '0')
-    return `${day}.${month}.${year} ${hours}:${minutes}`
-  }
-
-  const date = new Date(value)
-  if (Number.isNaN(date.getTime())) {
-    return value
-  }
-
-  const day = String(date.getDate()).padStart(2, '0')
-  const month = String(date.getMonth() + 1).padStart(2, '0')
-  const year = date.getFullYear()
-  const hours = String(date.getHours()).padStart(2, '0')
-  const minutes = String(date.getMinutes()).padStart(2, '0')
-  return `${day}.${month}.${year} ${hours}:${minutes}`
-}
-
-function findFieldName(rows: AnalyticsRow[], matcher: RegExp): string | null {
-  if (rows.length === 0) {
-    return null
-  }
-
-  const keys = Object.keys(rows[0]).filter((key) => key !== 'id')
-  const found = keys.find((key) => matcher.test(key))
-  return found ?? null
-}
-
-function asNumber(value: unknown): number {
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : 0
-  }
-  if (typeof value === 'string') {
-    const parsed = Number(value)
-    return Number.isFinite(parsed) ? parsed : 0
-  }
-  return 0
-}
-
-function getGridLocaleText(language: 'az' | 'en' | 'ru'): Partial<GridLocaleText> {
-  if (language === 'az') {
-    return {
-      noRowsLabel: 'Məlumat tapılmadı',
-      noResultsOverlayLabel: 'Nəticə tapılmadı',
-      noColumnsOverlayLabel: 'Sütun tapılmadı',
-      toolbarColumns: 'Sütunlar',
-      toolbarColumnsLabel: 'Sütunları seç',
-      toolbarFilters: 'Filtrlər',
-      toolbarFiltersLabel: 'Filtrləri göstər',
-      toolbarDensity: 'Sıxlıq',
-      toolbarDensityLabel: 'Sətir sıxlığı',
-      toolbarDensityCompact: 'Kompakt',
-      toolbarDensityStandard: 'Standart',
-      toolbarDensityComfortable: 'Rahat',
-      toolbarExport: 'İxrac',
-      toolbarExportLabel: 'İxrac et',
-      toolbarExportCSV: 'CSV yüklə',
-      toolbarQuickFilterLabel: 'Sürətli axtarış',
-      toolbarQuickFilterPlaceholder: 'Axtar...',
-      columnsManagementSearchTitle: 'Sütun axtar',
-      columnsManagementShowHideAllText: 'Hamısını göstər/gizlət',
-      columnsManagementReset: 'Sıfırla',
-      filterPanelColumns: 'Sütun',
-      filterPanelOperator: 'Operator',
-      filterPanelInputLabel: 'Dəyər',
-      columnMenuShowColumns: 'Sütunlar',
-      columnMenuManageColumns: 'Sütunları idarə et',
-      columnMenuFilter: 'Filtr',
-      columnMenuHideColumn: 'Sütunu gizlət',
-      columnMenuUnsort: 'Sıralamanı sil',
-      columnMenuSortAsc: 'Artan sırala',
-      columnMenuSortDesc: 'Azalan sırala',
-      footerRowSelected: (count) => `${count.toLocaleString()} sətir seçildi`,
-      footerTotalRows: 'Ümumi sətir:',
-      paginationRowsPerPage: 'Səhifədə sətir:',
-      paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
-        `${from}-${to} / ${count !== -1 ? count : `${to}+`}`,
-    }
-  }
-
-  if (language === 'ru') {
-    return {
-      noRowsLabel: 'Нет данных',
-      noResultsOverlayLabel: 'Ничего не найдено',
-      noColumnsOverlayLabel: 'Нет колонок',
-      toolbarColumns: 'Колонки',
-      toolbarColumnsLabel: 'Выбрать колонки',
-      toolbarFilters: 'Фильтры',
-      toolbarFiltersLabel: 'Показать фильтры',
-      toolbarDensity: 'Плотность',
-      toolbarDensityLabel: 'Плотность строк',
-      toolbarDensityCompact: 'Компактно',
-      toolbarDensityStandard: 'Стандарт',
-      toolbarDensityComfortable: 'Комфортно',
-      toolbarExport: 'Экспорт',
-      toolbarExportLabel: 'Экспорт',
-      toolbarExportCSV: 'Скачать CSV',
-      toolbarQuickFilterLabel: 'Быстрый поиск',
-      toolbarQuickFilterPlaceholder: 'Поиск...',
-      columnsManagementSearchTitle: 'Поиск колонки',
-      columnsManagementShowHideAllText: 'Показать/скрыть все',
-      columnsManagementReset: 'Сброс',
-      filterPanelColumns: 'Колонка',
-      filterPanelOperator: 'Оператор',
-      filterPanelInputLabel: 'Значение',
-      columnMenuShowColumns: 'Колонки',
-      columnMenuManageColumns: 'Управление колонками',
-      columnMenuFilter: 'Фильтр',
-      columnMenuHideColumn: 'Скрыть колонку',
-      columnMenuUnsort: 'Убрать сортировку',
-      columnMenuSortAsc: 'Сортировать по возрастанию',
-      columnMenuSortDesc: 'Сортировать по убыванию',
-      footerRowSelected: (count) => `Выбрано строк: ${count.toLocaleString()}`,
-      footerTotalRows: 'Всего строк:',
-      paginationRowsPerPage: 'Строк на странице:',
-      paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
-        `${from}-${to} из ${count !== -1 ? count : `${to}+`}`,
-    }
-  }
-
-  return {
-    noRowsLabel: 'No rows',
-    noResultsOverlayLabel: 'No results found',
-    noColumnsOverlayLabel: 'No columns',
-    toolbarColumns: 'Columns',
-    toolbarColumnsLabel: 'Select columns',
-    toolbarFilters: 'Filters',
-    toolbarFiltersLabel: 'Show filters',
-    toolbarDensity: 'Density',
-    toolbarDensityLabel: 'Row density',
-    toolbarDensityCompact: 'Compact',
-    toolbarDensityStandard: 'Standard',
-    toolbarDensityComfortable: 'Comfortable',
-    toolbarExport: 'Export',
-    toolbarExportLabel: 'Export',
-    toolbarExportCSV: 'Download CSV',
-    toolbarQuickFilterLabel: 'Quick filter',
-    toolbarQuickFilterPlaceholder: 'Search...',
-    columnsManagementSearchTitle: 'Search column',
-    columnsManagementShowHideAllText: 'Show/hide all',
-    columnsManagementReset: 'Reset',
-    filterPanelColumns: 'Column',
-    filterPanelOperator: 'Operator',
-    filterPanelInputLabel: 'Value',
-    columnMenuShowColumns: 'Columns',
-    columnMenuManageColumns: 'Manage columns',
-    columnMenuFilter: 'Filter',
-    columnMenuHideColumn: 'Hide column',
-    columnMenuUnsort: 'Unsort',
-    columnMenuSortAsc: 'Sort by ASC',
-    columnMenuSortDesc: 'Sort by DESC',
-    footerRowSelected: (count) => `${count.toLocaleString()} row(s) selected`,
-    footerTotalRows: 'Total Rows:',
-    paginationRowsPerPage: 'Rows per page:',
-    paginationDisplayedRows: ({ from, to, count }: { from: number; to: number; count: number; estimated: number | undefined }) =>
-      `${from}-${to} of ${count !== -1 ? count : `${to}+`}`,
-  }
-}
@@ -1,235 +1,591 @@
-import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
-import { Alert, Box, Button, FormControl, InputLabel, MenuItem, Paper, Select, Stack, Typography } from '@mui/material'
-import { scaleQuantile } from 'd3-scale'
+import { useCallback, useEffect, useMemo, useRef, useState, type DragEvent } from 'react'
+import {
+  Alert,
+  Autocomplete,
+  Box,
+  Button,
+  FormControl,
+  InputLabel,
+  Menu,
+  MenuItem,
+  Paper,
+  Select,
+  Stack,
+  TextField,
+  ToggleButton,
+  Typography,
+  createFilterOptions,
+} from '@mui/material'
+import CompareArrowsRoundedIcon from '@mui/icons-material/CompareArrowsRounded'
+import DirectionsBusRoundedIcon from '@mui/icons-material/DirectionsBusRounded'
+import FileDownloadRoundedIcon from '@mui/icons-material/FileDownloadRounded'
+import UploadFileRoundedIcon from '@mui/icons-material/UploadFileRounded'
+import TuneRoundedIcon from '@mui/icons-material/TuneRounded'
 import * as L from 'leaflet'
 import { GeoJSON, MapContainer, TileLayer } from 'react-leaflet'
+import { useSearchParams } from 'react-router-dom'
 import type { Map as LeafletMap, PathOptions } from 'leaflet'
-import { loadRegionsGeoJson } from '../services/dataService'
+import ClassificationControls from '../components/ClassificationControls'
+import DatasetValidationReport from '../components/DatasetValidationReport'
+import DotDensityLayer from '../components/DotDensityLayer'
+import FieldMappingDialog from '../components/FieldMappingDialog'
+import MapLegendPanel from '../components/MapLegendPanel'
+import MapSelectionTool from '../components/MapSelectionTool'
+import MapSelectionToolbar from '../components/MapSelectionToolbar'
+import MapViewportTracker, { type MapViewport } from '../components/MapViewportTracker'
+import ProportionalSymbolLayer from '../components/ProportionalSymbolLayer'
+import SelectionSummaryCard from '../components/SelectionSummaryCard'
+import TransitCoverageLayer from '../components/TransitCoverageLayer'
+import TransitCoveragePanel from '../components/TransitCoveragePanel'
+import ZoneCompareView from '../components/ZoneCompareView'
+import ZoneDetailsPanel from '../components/ZoneDetailsPanel'
+import ZoneRankingTable, { type ZoneRankingRow } from '../components/ZoneRankingTable'
+import { BIVARIATE_CLASS_COUNT, BIVARIATE_COLORS, getBivariateClass } from '../services/bivariate'
+import { CLASS_COUNT_OPTIONS, PALETTES } from '../services/choroplethPalettes'
+import { CLASSIFICATION_SCHEMES, getClassIndex } from '../services/classification'
+import { validateDataset } from '../services/datasetSchema'
+import {
+  buildZoneAttributeCsv,
+  buildZoneGeoJson,
+  downloadBlob,
+  renderMapImage,
+  type MapImageLegendItem,
+  type ZoneExportContext,
+} from '../services/demographicsExport'
+import { escapeHtml } from '../services/escapeHtml'
+import { DOT_COLORS, DOT_VALUE_OPTIONS } from '../services/mapRenderers'
+import { featureMatchesLevel, getHierarchyName, getMetricValue, getRegionName, getRoleValue } from '../services/regionAttributes'
+import { HEX_GRID_EDGE_KM, getFeatureAreaKm2, getHexCellAreaKm2 } from '../services/regionGeometry'
+import { REGION_FILE_ACCEPT } from '../services/regionImport'
+import { DEFAULT_WALKING_RADIUS_M, WALKING_RADIUS_OPTIONS_M } from '../services/transitCoverage'
+import {
+  readBooleanParam,
+  readEnumParam,
+  readNumberListParam,
+  readNumberOptionParam,
+  readNumberParam,
+  readStringParam,
+  unlessDefault,
+} from '../services/urlState'
+import {
+  computeHierarchyTotals,
+  formatMetricValue,
+  getFeatureMetricValue,
+  getMetricOptions,
+  getZoneShares,
+  safeShare,
+} from '../services/regionMetrics'
+import { useMapSymbology, type MapClassification } from '../hooks/useMapSymbology'
+import { useRegionDataset } from '../hooks/useRegionDataset'
+import { useRegionLevelFeatures } from '../hooks/useRegionLevelFeatures'
+import { useTransitCoverage } from '../hooks/useTransitCoverage'
+import { useUrlStateSync } from '../hooks/useUrlStateSync'
+import { useZoneSelection, type ZoneRef } from '../hooks/useZoneSelection'
 import { useLanguage } from '../i18n/useLanguage'
-import type { RegionFeature, RegionsGeoJson } from '../types/data'
+import type { RegionFeature } from '../types/data'
+import type { ChoroplethMode, DatasetSchema, MapRenderer, MetricKey, RegionLevel } from '../types/demographics'
+
+type ZoneSearchOption = {
+  level: RegionLevel
+  key: string
+  label: string
+  zoneId: string | null
+}
 
-type RegionLevel = 'micro' | 'meso' | 'macro'
-type MetricKey = 'population' | 'jobs'
+type ExportFormat = 'geojson' | 'csv' | 'png'
 
 const MAP_CENTER: [number, number] = [40.4093, 49.8671]
+const MAP_ZOOM = 11
+
+const REGION_LEVELS: RegionLevel[] = ['micro', 'meso', 'macro']
+const CHOROPLETH_MODES: ChoroplethMode[] = ['univariate', 'bivariate']
+const MAP_RENDERERS: MapRenderer[] = ['choropleth', 'dotDensity', 'proportional']
+const PALETTE_KEYS = PALETTES.map((option) => option.key)
+const DEFAULT_DOT_VALUE = 1000
+const DEFAULT_CLASS_COUNT = 5
 
-const COLOR_RANGE = ['#eff4ff', '#dbe8ff', '#b8d2ff', '#7eadff', '#2970ff']
+const filterZoneOptions = createFilterOptions<ZoneSearchOption>({
+  limit: 60,
+  stringify: (option) => `${option.label} ${option.zoneId ?? ''}`,
+})
 
 export default function Demographics() {
-  const { t } = useLanguage()
-  const [regions, setRegions] = useState<RegionsGeoJson | null>(null)
-  const [loading, setLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-  const [regionLevel, setRegionLevel] = useState<RegionLevel>('micro')
-  const [metric, setMetric] = useState<MetricKey>('population')
+  const { t, language } = useLanguage()
+  const [searchParams] = useSearchParams()
+  const dataset = useRegionDataset()
+  const { regions, loading, schema } = dataset
+  const [selectedRegionLevel, setRegionLevel] = useState(() => readEnumParam(searchParams, 'level', REGION_LEVELS, 'micro'))
+  const [hexEdgeKm, setHexEdgeKm] = useState(() => readNumberOptionParam(searchParams, 'grid', HEX_GRID_EDGE_KM))
+  const [selectedMetric, setSelectedMetric] = useState<MetricKey>(() => readStringParam(searchParams, 'metric') ?? 'population')
+  const [selectedMode, setSelectedMode] = useState(() => readEnumParam(searchParams, 'mode', CHOROPLETH_MODES, 'univariate'))
+  const [compareMode, setCompareMode] = useState(() => readBooleanParam(searchParams, 'compare'))
+  const [selectedRenderer, setRenderer] = useState(() => readEnumParam(searchParams, 'renderer', MAP_RENDERERS, 'choropleth'))
+  const [dotValue, setDotValue] = useState(() => readNumberOptionParam(searchParams, 'dot', DOT_VALUE_OPTIONS) ?? DEFAULT_DOT_VALUE)
+  const [transitEnabled, setTransitEnabled] = useState(() => readBooleanParam(searchParams, 'transit'))
+  const [transitBusIds, setTransitBusIds] = useState(() => readNumberListParam(searchParams, 'buses'))
+  const [walkingRadiusM, setWalkingRadiusM] = useState(
+    () => readNumberOptionParam(searchParams, 'radius', WALKING_RADIUS_OPTIONS_M) ?? DEFAULT_WALKING_RADIUS_M,
+  )
+  const [classification, setClassification] = useState<MapClassification>(() => ({
+    scheme: readEnumParam(searchParams, 'scheme', CLASSIFICATION_SCHEMES, 'quantile'),
+    classCount: readNumberOptionParam(searchParams, 'classes', CLASS_COUNT_OPTIONS) ?? DEFAULT_CLASS_COUNT,
+    palette: readEnumParam(searchParams, 'palette', PALETTE_KEYS, 'aynaBlue'),
+    manualBreaksInput: readStringParam(searchParams, 'breaks') ?? '',
+  }))
+  const { scheme, classCount, palette, manualBreaksInput } = classification
+  const [viewport, setViewport] = useState<MapViewport | null>(() => readViewport(searchParams))
+  // A viewport restored from the URL wins over the automatic fit to the data on first load.
+  const skipInitialFitRef = useRef(viewport !== null)
+  const [tableHighlight, setTableHighlight] = useState<string[] | null>(null)
+  const [hoveredZoneKey, setHoveredZoneKey] = useState<string | null>(null)
+  const [exportMenuAnchor, setExportMenuAnchor] = useState<HTMLElement | null>(null)
+  const [exportError, setExportError] = useState<string | null>(null)
+  const [exporting, setExporting] = useState(false)
+  const [dragActive, setDragActive] = useState(false)
   const mapRef = useRef<LeafletMap | null>(null)
+  const fileInputRef = useRef<HTMLInputElement | null>(null)
+
+  const metricOptions = useMemo(() => getMetricOptions(schema), [schema])
+  const metric = metricOptions.some((option) => option.key === selectedMetric) ? selectedMetric : (metricOptions[0]?.key ?? selectedMetric)
+  const metricName = t(metricOptions.find((option) => option.key === metric)?.label ?? metric)
+  const schemaKey = useMemo(() => JSON.stringify(schema), [schema])
+  const bivariateAvailable = schema.roles.population !== null && schema.roles.jobs !== null
+  const mode: ChoroplethMode = bivariateAvailable ? selectedMode : 'univariate'
+  const dotDensityAvailable = schema.roles.population !== null || schema.roles.jobs !== null
+  // Dots and symbols are univariate renderings; bivariate mode always draws the choropleth.
+  const renderer: MapRenderer =
+    mode === 'bivariate' || (selectedRenderer === 'dotDensity' && !dotDensityAvailable) ? 'choropleth' : selectedRenderer
+
+  const validationReport = useMemo(() => (regions ? validateDataset(regions.features, schema) : null), [regions, schema])
+
+  // The hex grid is built from micro zones and keyed like them, so it is always handled as the micro level.
+  const regionLevel: RegionLevel = hexEdgeKm !== null ? 'micro' : selectedRegionLevel
+  const layerLabel = hexEdgeKm !== null ? `${t('hexGrid')} ${hexEdgeKm} km` : t(regionLevel)
+  const { features: displayFeatures, dissolving, aggregationError } = useRegionLevelFeatures(regions, schema, regionLevel, hexEdgeKm)
+  const transit = useTransitCoverage(transitEnabled && !compareMode, regions, schema, transitBusIds, walkingRadiusM)
+
+  const symbology = useMapSymbology(displayFeatures, schema, regionLevel, metric, mode, renderer, classification, dotValue)
+  const { classBreaks, bivariateBreaks, dotDensity, getFillColor } = symbology
+  const selection = useZoneSelection(displayFeatures, regionLevel, schema, metric, readSelectedZone(searchParams))
+  const { selectedZone, focusTarget, multiSelectedKeys, selectZone, focusZone } = selection
+
+  const compareClassification = useMemo(
+    () => ({ scheme, classCount, palette, manualBreaks: symbology.manualBreaks }),
+    [classCount, palette, scheme, symbology.manualBreaks],
+  )
 
-  useEffect(() => {
-    let active = true
-    loadRegionsGeoJson()
-      .then((data) => {
-        if (!active) {
-          return
-        }
-        setRegions(data)
-        setError(null)
-      })
-      .catch(() => {
-        if (!active) {
-          return
-        }
-        setError('Regional GeoJSON file not found. Expected /public/data/zone_attributes_synthetic.geojson.')
-      })
-      .finally(() => {
-        if (active) {
-          setLoading(false)
-        }
-      })
-
-    return () => {
-      active = false
-    }
-  }, [])
+  const tableHighlightKeys = useMemo(() => (tableHighlight ? new Set(tableHighlight) : null), [tableHighlight])
 
-  const hasExplicitRegionLevels = useMemo(() => {
-    if (!regions) {
-      return false
-    }
+  const styleFeature = useCallback(
+    (feature?: RegionFeature): PathOptions => {
+      const fillColor = feature && renderer === 'choropleth' ? getFillColor(feature) : '#dce7ff'
+      const isSelected =
+        feature !== undefined &&
+        selectedZone?.level === regionLevel &&
+        getHierarchyName(feature.properties, regionLevel, schema) === selectedZone.key
+      const key = feature ? getHierarchyName(feature.properties, regionLevel, schema) : ''
+      const isMultiSelected = multiSelectedKeys.has(key)
+      const isDimmed = tableHighlightKeys !== null && !tableHighlightKeys.has(key)
+      return {
+        color: isSelected ? '#f79009' : isMultiSelected ? '#dc6803' : '#2557be',
+        weight: isSelected ? 3 : isMultiSelected ? 2.5 : regionLevel === 'micro' ? 1 : 1.6,
+        // Dots and symbols carry the values, so the zones underneath are only a light base for outlines and clicks.
+        fillOpacity: renderer === 'choropleth' ? (isDimmed ? 0.18 : 0.78) : isDimmed ? 0.04 : 0.16,
+        opacity: isDimmed ? 0.35 : 1,
+        fillColor,
+      }
+    },
+    [getFillColor, multiSelectedKeys, regionLevel, renderer, schema, selectedZone, tableHighlightKeys],
+  )
 
-    return regions.features.some((feature) => getFeatureLevel(feature.properties) !== null)
-  }, [regions])
+  const onEachFeature = useCallback(
+    (feature: RegionFeature, layer: L.Layer) => {
+      const properties = feature.properties
+      const name = getRegionName(properties, regionLevel, schema)
+      const value = getFeatureMetricValue(feature, metric, schema)
+      const tooltipValue =
+        mode === 'bivariate'
+          ? `<span>${escapeHtml(t('population'))}: ${getRoleValue(properties, 'population', schema).toLocaleString()}</span><span>${escapeHtml(t('jobs'))}: ${getRoleValue(properties, 'jobs', schema).toLocaleString()}</span>`
+          : `<span>${escapeHtml(metricName)}: ${formatMetricValue(value, metric, schema)}</span>`
+      const label = `<div class="map-tooltip-inner"><strong>${escapeHtml(name)}</strong>${tooltipValue}</div>`
+      layer.bindTooltip(label, { sticky: true, className: 'map-tooltip' })
+      layer.on('click', (event: L.LeafletMouseEvent) => {
+        selectZone(getHierarchyName(properties, regionLevel, schema), event.originalEvent.shiftKey)
+      })
+    },
+    [metric, metricName, mode, regionLevel, schema, selectZone, t],
+  )
 
-  const filteredFeatures = useMemo(() => {
+  const zoneSearchOptions = useMemo(() => {
     if (!regions) {
-      return []
+      return [] as ZoneSearchOption[]
     }
 
-    if (!hasExplicitRegionLevels) {
-      return regions.features
+    const options: ZoneSearchOption[] = []
+    const seen = new Set<string>()
+    for (const level of ['macro', 'meso', 'micro'] as RegionLevel[]) {
+      for (const feature of regions.features) {
+        if (!featureMatchesLevel(feature.properties, level, schema)) {
+          continue
+        }
+        const key = getHierarchyName(feature.properties, level, schema)
+        const optionId = `${level}:${key}`
+        if (key === '-' || seen.has(optionId)) {
+          continue
+        }
+        seen.add(optionId)
+        const zoneId = feature.properties.zone_id
+        options.push({
+          level,
+          key,
+          label:
+            level === 'micro'
+              ? `${getRegionName(feature.properties, 'micro', schema)} · ${getHierarchyName(feature.properties, 'meso', schema)}`
+              : key,
+          zoneId: level === 'micro' && (typeof zoneId === 'number' || typeof zoneId === 'string') ? String(zoneId) : null,
+        })
+      }
     }
 
-    return regions.features.filter((feature) => featureMatchesLevel(feature.properties, regionLevel))
-  }, [regions, hasExplicitRegionLevels, regionLevel])
+    return options
+  }, [regions, schema])
+
+  const hierarchyTotals = useMemo(() => computeHierarchyTotals(regions?.features ?? [], schema), [regions, schema])
 
-  const groupedTotalsByLevel = useMemo(() => {
-    if (!regions || hasExplicitRegionLevels) {
+  const selectedDetails = useMemo(() => {
+    if (!selectedZone || selectedZone.level !== regionLevel) {
       return null
     }
 
-    const totals = new Map<string, { population: number; jobs: number }>()
-    for (const feature of regions.features) {
-      const key = getHierarchyName(feature.properties, regionLevel)
-      const current = totals.get(key) ?? { population: 0, jobs: 0 }
-      current.population += getMetricValue(feature.properties, 'population')
-      current.jobs += getMetricValue(feature.properties, 'jobs')
-      totals.set(key, current)
+    const feature = displayFeatures.find((item) => getHierarchyName(item.properties, regionLevel, schema) === selectedZone.key)
+    if (!feature) {
+      return null
     }
 
-    return totals
-  }, [regions, hasExplicitRegionLevels, regionLevel])
-
-  const resolveDisplayMetricValue = useCallback(
-    (properties: Record<string, unknown>, selectedMetric: MetricKey): number => {
-      if (hasExplicitRegionLevels || !groupedTotalsByLevel) {
-        return getMetricValue(properties, selectedMetric)
-      }
+    const properties = feature.properties
+    const rankedValues = displayFeatures.map((item) => getFeatureMetricValue(item, metric, schema))
+    const selectedValue = getFeatureMetricValue(feature, metric, schema)
+    const rank = rankedValues.filter((value) => value > selectedValue).length + 1
 
-      const key = getHierarchyName(properties, regionLevel)
-      const totals = groupedTotalsByLevel.get(key)
-      if (!totals) {
-        return 0
-      }
-      return selectedMetric === 'population' ? totals.population : totals.jobs
-    },
-    [groupedTotalsByLevel, hasExplicitRegionLevels, regionLevel],
-  )
+    const shares = getZoneShares(properties, regionLevel, schema, hierarchyTotals)
 
-  const metricValues = useMemo(() => {
-    if (!hasExplicitRegionLevels && groupedTotalsByLevel) {
-      return [...groupedTotalsByLevel.values()]
-        .map((totals) => (metric === 'population' ? totals.population : totals.jobs))
-        .filter((value) => value > 0)
+    return {
+      name: getRegionName(properties, regionLevel, schema),
+      properties,
+      rank,
+      rankTotal: displayFeatures.length,
+      shares,
+      metrics: [
+        ...schema.metrics.map((item) => ({
+          label: t(item.label),
+          value: formatMetricValue(getMetricValue(properties, item.key, schema), item.key, schema),
+        })),
+        { label: t('areaKm2'), value: getFeatureAreaKm2(feature).toLocaleString(undefined, { maximumFractionDigits: 2 }) },
+        ...metricOptions
+          .filter((option) => option.key === 'populationDensity' || option.key === 'jobDensity')
+          .map((option) => ({
+            label: t(option.label),
+            value: formatMetricValue(getFeatureMetricValue(feature, option.key, schema), option.key, schema),
+          })),
+      ],
     }
+  }, [displayFeatures, hierarchyTotals, metric, metricOptions, regionLevel, schema, selectedZone, t])
 
-    return filteredFeatures.map((feature) => resolveDisplayMetricValue(feature.properties, metric)).filter((value) => value > 0)
-  }, [filteredFeatures, groupedTotalsByLevel, hasExplicitRegionLevels, metric, resolveDisplayMetricValue])
-
-  const colorScale = useMemo(() => {
-    if (metricValues.length === 0) {
-      return null
+  useEffect(() => {
+    const map = mapRef.current
+    if (!map || displayFeatures.length === 0) {
+      return
     }
 
-    return scaleQuantile<string>().domain(metricValues).range(COLOR_RANGE)
-  }, [metricValues])
-
-  const legendItems = useMemo(() => {
-    if (!colorScale || metricValues.length === 0) {
-      return [] as Array<{ color: string; label: string }>
+    const focusFeatures =
+      focusTarget && focusTarget.level === regionLevel
+        ? displayFeatures.filter((feature) => getHierarchyName(feature.properties, regionLevel, schema) === focusTarget.key)
+        : []
+    if (skipInitialFitRef.current && focusFeatures.length === 0) {
+      skipInitialFitRef.current = false
+      return
     }
+    skipInitialFitRef.current = false
+    const features = focusFeatures.length > 0 ? focusFeatures : displayFeatures
+    const bounds = L.geoJSON({ type: 'FeatureCollection', features } as never).getBounds()
+    if (bounds.isValid()) {
+      map.fitBounds(bounds.pad(0.05))
+    }
+  }, [displayFeatures, focusTarget, regionLevel, schema])
+
+  const rankingRows = useMemo<ZoneRankingRow[]>(() => {
+    const values = displayFeatures.map((feature) => getFeatureMetricValue(feature, metric, schema))
+    const rankByValue = new Map<number, number>()
+    ;[...values]
+      .sort((a, b) => b - a)
+      .forEach((value, index) => {
+        if (!rankByValue.has(value)) {
+          rankByValue.set(value, index + 1)
+        }
+      })
 
-    const sortedValues = [...metricValues].sort((a, b) => a - b)
-    const min = sortedValues[0]
-    const max = sortedValues[sortedValues.length - 1]
-    const thresholds = colorScale.quantiles()
-    const boundaries = [min, ...thresholds, max]
-
-    return COLOR_RANGE.map((color, index) => {
-      const start = boundaries[index]
-      const end = boundaries[index + 1]
+    return displayFeatures.map((feature, index) => {
+      const population = getRoleValue(feature.properties, 'population', schema)
+      const jobs = getRoleValue(feature.properties, 'jobs', schema)
       return {
-        color,
-        label: `${formatCompact(start)} - ${formatCompact(end)}`,
+        id: index,
+        zoneKey: getHierarchyName(feature.properties, regionLevel, schema),
+        name: getRegionName(feature.properties, regionLevel, schema),
+        population,
+        jobs,
+        value: values[index],
+        rank: rankByValue.get(values[index]) ?? displayFeatures.length,
+        populationShare: safeShare(population, hierarchyTotals.all.population) ?? 0,
+        jobsShare: safeShare(jobs, hierarchyTotals.all.jobs) ?? 0,
+        classColor: getFillColor(feature),
       }
     })
-  }, [colorScale, metricValues])
+  }, [displayFeatures, getFillColor, hierarchyTotals, metric, regionLevel, schema])
+
+  const hoveredFeature = useMemo(
+    () =>
+      hoveredZoneKey
+        ? displayFeatures.find((feature) => getHierarchyName(feature.properties, regionLevel, schema) === hoveredZoneKey)
+        : undefined,
+    [displayFeatures, hoveredZoneKey, regionLevel, schema],
+  )
 
-  const legendBounds = useMemo(() => {
-    if (metricValues.length === 0) {
-      return { min: 0, max: 0 }
-    }
+  const handleRankingRowSelect = useCallback((key: string) => focusZone({ level: regionLevel, key }), [focusZone, regionLevel])
 
-    return {
-      min: Math.min(...metricValues),
-      max: Math.max(...metricValues),
+  const handleGridChange = (edgeKm: number | null) => {
+    setHexEdgeKm(edgeKm)
+    selection.resetSelection()
+    setTableHighlight(null)
+  }
+
+  const handleZoneSearch = (option: ZoneSearchOption | null) => {
+    if (!option) {
+      return
     }
-  }, [metricValues])
 
-  const styleFeature = useCallback(
-    (feature?: RegionFeature): PathOptions => {
-      const value = feature ? resolveDisplayMetricValue(feature.properties, metric) : 0
-      return {
-        color: '#2557be',
-        weight: 1,
-        fillOpacity: 0.78,
-        fillColor: colorScale ? colorScale(value) : '#dce7ff',
-      }
-    },
-    [colorScale, metric, resolveDisplayMetricValue],
-  )
+    setRegionLevel(option.level)
+    focusZone({ level: option.level, key: option.key })
+  }
 
-  const onEachFeature = useCallback(
-    (feature: RegionFeature, layer: L.Layer) => {
-      const properties = feature.properties
-      const name = getRegionName(properties, regionLevel)
-      const value = resolveDisplayMetricValue(properties, metric)
-      const population = resolveDisplayMetricValue(properties, 'population')
-      const jobs = resolveDisplayMetricValue(properties, 'jobs')
-      const micro = getHierarchyName(properties, 'micro')
-      const meso = getHierarchyName(properties, 'meso')
-      const macro = getHierarchyName(properties, 'macro')
-      const label = `<div class="map-tooltip-inner"><strong>${escapeHtml(name)}</strong><span>${t(metric)}: ${value.toLocaleString()}</span></div>`
-      layer.bindTooltip(label, { sticky: true, className: 'map-tooltip' })
-      layer.bindPopup(
-        `<div class="map-popup"><div class="map-popup-title">${escapeHtml(name)}</div><div class="map-popup-grid"><div class="map-popup-row"><span>${escapeHtml(t('micro'))}</span><strong>${escapeHtml(micro)}</strong></div><div class="map-popup-row"><span>${escapeHtml(t('meso'))}</span><strong>${escapeHtml(meso)}</strong></div><div class="map-popup-row"><span>${escapeHtml(t('macro'))}</span><strong>${escapeHtml(macro)}</strong></div><div class="map-popup-row"><span>${escapeHtml(t('population'))}</span><strong>${population.toLocaleString()}</strong></div><div class="map-popup-row"><span>${escapeHtml(t('jobs'))}</span><strong>${jobs.toLocaleString()}</strong></div></div></div>`,
-      )
-    },
-    [metric, regionLevel, resolveDisplayMetricValue, t],
+  const metricLabel =
+    mode === 'bivariate'
+      ? `${t('population')} × ${t('jobs')}`
+      : renderer === 'dotDensity'
+        ? `${t('population')} / ${t('jobs')}`
+        : metricName
+
+  const dotLegendItems: MapImageLegendItem[] = dotDensity
+    ? (['population', 'jobs'] as const)
+        .filter((role) => schema.roles[role] !== null)
+        .map((role) => ({ color: DOT_COLORS[role], label: `${t(role)} · 1 ${t('dot')} = ${dotDensity.dotValue.toLocaleString()}` }))
+    : []
+
+  const exportContext = useMemo<ZoneExportContext>(
+    () => ({
+      level: regionLevel,
+      metric: mode === 'bivariate' ? 'bivariate' : metric,
+      schema,
+      getDisplayValue: (feature) => getFeatureMetricValue(feature, metric, schema),
+      getClassIndex: (feature) => {
+        if (mode === 'bivariate') {
+          // Row-major index into BIVARIATE_COLORS: jobs class * 3 + population class.
+          const { populationClass, jobsClass } = getBivariateClass(feature, bivariateBreaks, schema)
+          return jobsClass * BIVARIATE_CLASS_COUNT + populationClass
+        }
+        return getClassIndex(getFeatureMetricValue(feature, metric, schema), classBreaks)
+      },
+      getBivariateCell:
+        mode === 'bivariate'
+          ? (feature) => ({
+              population: getRoleValue(feature.properties, 'population', schema),
+              jobs: getRoleValue(feature.properties, 'jobs', schema),
+              ...getBivariateClass(feature, bivariateBreaks, schema),
+            })
+          : undefined,
+    }),
+    [bivariateBreaks, classBreaks, metric, mode, regionLevel, schema],
   )
 
-  useEffect(() => {
+  const handleExport = async (format: ExportFormat) => {
+    setExportMenuAnchor(null)
+    setExportError(null)
+    const fileName = `demographics-${hexEdgeKm !== null ? `hex-${hexEdgeKm}km` : regionLevel}-${exportContext.metric}`
+
+    if (format === 'geojson') {
+      downloadBlob(new Blob([buildZoneGeoJson(displayFeatures, exportContext)], { type: 'application/geo+json' }), `${fileName}.geojson`)
+      return
+    }
+
+    if (format === 'csv') {
+      downloadBlob(new Blob([buildZoneAttributeCsv(displayFeatures, exportContext)], { type: 'text/csv;charset=utf-8' }), `${fileName}.csv`)
+      return
+    }
+
     const map = mapRef.current
-    if (!map || filteredFeatures.length === 0) {
+    if (!map) {
       return
     }
 
-    const bounds = L.geoJSON({ type: 'FeatureCollection', features: filteredFeatures } as never).getBounds()
-    if (bounds.isValid()) {
-      map.fitBounds(bounds.pad(0.05))
+    const legend: MapImageLegendItem[] =
+      mode === 'bivariate'
+        ? BIVARIATE_COLORS.flatMap((row, jobsClass) =>
+            row.map((color, populationClass) => ({
+              color,
+              label: `${t('population')} ${populationClass + 1}/${BIVARIATE_CLASS_COUNT} · ${t('jobs')} ${jobsClass + 1}/${BIVARIATE_CLASS_COUNT}`,
+            })),
+          )
+        : renderer === 'dotDensity'
+          ? dotLegendItems
+          : symbology.legendItems
+
+    setExporting(true)
+    try {
+      const image = await renderMapImage(map, {
+        title: t('pageDemographics'),
+        subtitle: `${layerLabel} ${t('showingWithMetric')} ${metricLabel}.`,
+        legendTitle: `${t('legend')} (${metricLabel})`,
+        legend,
+      })
+      downloadBlob(image, `${fileName}.png`)
+    } catch {
+      setExportError(t('exportImageFailed'))
+    } finally {
+      setExporting(false)
+    }
+  }
+
+  const handleApplyFieldMapping = (nextSchema: DatasetSchema) => {
+    if (dataset.applyFieldMapping(nextSchema)) {
+      selection.resetSelection()
+    }
+  }
+
+  const handleDrop = (event: DragEvent<HTMLElement>) => {
+    event.preventDefault()
+    setDragActive(false)
+    const file = event.dataTransfer.files[0]
+    if (file) {
+      void dataset.readFile(file)
     }
-  }, [filteredFeatures])
+  }
 
+  // Reset view also drops the selection, so no highlighted zone or multi-selection outlives the view it was made in.
   const handleResetView = () => {
     const map = mapRef.current
     if (!map) {
       return
     }
-    map.setView(MAP_CENTER, 11)
+    selection.setFocusTarget(null)
+    selection.clearSelection()
+    map.setView(MAP_CENTER, MAP_ZOOM)
   }
 
+  useUrlStateSync({
+    level: unlessDefault(regionLevel, 'micro'),
+    grid: hexEdgeKm,
+    metric: unlessDefault(metric, 'population'),
+    mode: unlessDefault(mode, 'univariate'),
+    renderer: unlessDefault(renderer, 'choropleth'),
+    dot: renderer === 'dotDensity' ? unlessDefault(dotValue, DEFAULT_DOT_VALUE) : null,
+    scheme: unlessDefault(scheme, 'quantile'),
+    classes: scheme === 'manual' ? null : unlessDefault(classCount, DEFAULT_CLASS_COUNT),
+    breaks: scheme === 'manual' ? manualBreaksInput : null,
+    palette: unlessDefault(palette, 'aynaBlue'),
+    zone: selectedZone?.level === regionLevel ? selectedZone.key : null,
+    compare: compareMode,
+    transit: transitEnabled,
+    buses: transitEnabled && transitBusIds.length > 0 ? transitBusIds.join(',') : null,
+    radius: transitEnabled ? unlessDefault(walkingRadiusM, DEFAULT_WALKING_RADIUS_M) : null,
+    lat: viewport ? viewport.lat.toFixed(5) : null,
+    lng: viewport ? viewport.lng.toFixed(5) : null,
+    zoom: viewport?.zoom,
+  })
+
   return (
-    <Stack spacing={2.5}>
+    <Stack
+      spacing={2.5}
+      className="demographics-page"
+      onDragOver={(event) => {
+        if (event.dataTransfer.types.includes('Files')) {
+          event.preventDefault()
+          setDragActive(true)
+        }
+      }}
+      onDragLeave={(event) => {
+        if (!event.currentTarget.contains(event.relatedTarget as Node | null)) {
+          setDragActive(false)
+        }
+      }}
+      onDrop={handleDrop}
+    >
       <Paper className="page-panel" elevation={0}>
         <Stack direction={{ xs: 'column', md: 'row' }} spacing={2}>
-          <FormControl size="small" sx={{ minWidth: 180 }}>
-            <InputLabel id="metric-label">{t('metric')}</InputLabel>
+          <ToggleButton
+            value="compare"
+            size="small"
+            color="secondary"
+            selected={compareMode}
+            onChange={() => setCompareMode((previous) => !previous)}
+            className="compare-mode-toggle"
+          >
+            <CompareArrowsRoundedIcon fontSize="small" sx={{ mr: 0.75 }} />
+            {t('compareMode')}
+          </ToggleButton>
+
+          <ToggleButton
+            value="transit"
+            size="small"
+            color="secondary"
+            selected={transitEnabled}
+            disabled={compareMode}
+            onChange={() => setTransitEnabled((previous) => !previous)}
+            className="compare-mode-toggle"
+          >
+            <DirectionsBusRoundedIcon fontSize="small" sx={{ mr: 0.75 }} />
+            {t('transitCoverage')}
+          </ToggleButton>
+
+          <FormControl size="small" sx={{ minWidth: 180 }} disabled={compareMode}>
+            <InputLabel id="choropleth-mode-label">{t('mapMode')}</InputLabel>
             <Select
-              labelId="metric-label"
-              value={metric}
-              label={t('metric')}
-              onChange={(event) => setMetric(event.target.value as MetricKey)}
+              labelId="choropleth-mode-label"
+              value={mode}
+              label={t('mapMode')}
+              onChange={(event) => setSelectedMode(event.target.value as ChoroplethMode)}
             >
-              <MenuItem value="population">{t('population')}</MenuItem>
-              <MenuItem value="jobs">{t('jobs')}</MenuItem>
+              <MenuItem value="univariate">{t('univariate')}</MenuItem>
+              <MenuItem value="bivariate" disabled={!bivariateAvailable}>
+                {t('bivariate')}
+              </MenuItem>
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={{ minWidth: 240 }} disabled={compareMode || mode === 'bivariate' || renderer === 'dotDensity'}>
+            <InputLabel id="metric-label">{t('metric')}</InputLabel>
+            <Select labelId="metric-label" value={metric} label={t('metric')} onChange={(event) => setSelectedMetric(event.target.value)}>
+              {metricOptions.map((option) => (
+                <MenuItem key={option.key} value={option.key}>
+                  {t(option.label)}
+                  {option.unit && (
+                    <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                      {t(option.unit)}
+                    </Typography>
+                  )}
+                </MenuItem>
+              ))}
             </Select>
           </FormControl>
 
-          <FormControl size="small" sx={{ minWidth: 180 }}>
+          <FormControl size="small" sx={{ minWidth: 180 }} disabled={compareMode || hexEdgeKm !== null}>
             <InputLabel id="region-level-label">{t('regionLevel')}</InputLabel>
             <Select
               labelId="region-level-label"
               value={regionLevel}
               label={t('regionLevel')}
-              onChange={(event) => setRegionLevel(event.target.value as RegionLevel)}
+              onChange={(event) => {
+                setRegionLevel(event.target.value as RegionLevel)
+                selection.setFocusTarget(null)
+              }}
             >
               <MenuItem value="micro">{t('micro')}</MenuItem>
               <MenuItem value="meso">{t('meso')}</MenuItem>
@@ -237,178 +593,333 @@ export default function Demographics() {
             </Select>
           </FormControl>
 
-          <Button variant="contained" color="secondary" onClick={handleResetView}>
+          <FormControl size="small" sx={{ minWidth: 190 }} disabled={compareMode || mode === 'bivariate'}>
+            <InputLabel id="renderer-label">{t('renderer')}</InputLabel>
+            <Select
+              labelId="renderer-label"
+              value={renderer}
+              label={t('renderer')}
+              onChange={(event) => setRenderer(event.target.value as MapRenderer)}
+            >
+              <MenuItem value="choropleth">{t('choropleth')}</MenuItem>
+              <MenuItem value="dotDensity" disabled={!dotDensityAvailable}>
+                {t('dotDensity')}
+              </MenuItem>
+              <MenuItem value="proportional">{t('proportionalSymbols')}</MenuItem>
+            </Select>
+          </FormControl>
+
+          <FormControl size="small" sx={{ minWidth: 200 }} disabled={compareMode}>
+            <InputLabel id="aggregation-grid-label">{t('aggregationGrid')}</InputLabel>
+            <Select
+              labelId="aggregation-grid-label"
+              value={hexEdgeKm ?? 'zones'}
+              label={t('aggregationGrid')}
+              onChange={(event) => handleGridChange(event.target.value === 'zones' ? null : Number(event.target.value))}
+            >
+              <MenuItem value="zones">{t('zonePolygons')}</MenuItem>
+              {HEX_GRID_EDGE_KM.map((edgeKm) => (
+                <MenuItem key={edgeKm} value={edgeKm}>
+                  {t('hexGrid')} {edgeKm} km
+                  <Typography component="span" variant="caption" color="text.secondary" sx={{ ml: 1 }}>
+                    ≈ {getHexCellAreaKm2(edgeKm).toLocaleString(undefined, { maximumFractionDigits: 2 })} km²
+                  </Typography>
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+
+          <Autocomplete
+            size="small"
+            options={zoneSearchOptions}
+            filterOptions={filterZoneOptions}
+            groupBy={(option) => t(option.level)}
+            getOptionLabel={(option) => option.label}
+            getOptionKey={(option) => `${option.level}:${option.key}`}
+            isOptionEqualToValue={(option, value) => option.level === value.level && option.key === value.key}
+            onChange={(_, option) => handleZoneSearch(option)}
+            disabled={compareMode || hexEdgeKm !== null}
+            renderInput={(params) => <TextField {...params} label={t('searchZones')} />}
+            sx={{ minWidth: 260, flex: 1 }}
+          />
+
+          <Button variant="contained" color="secondary" onClick={handleResetView} disabled={compareMode}>
             {t('resetView')}
           </Button>
+
+          <Button
+            variant="outlined"
+            color="secondary"
+            startIcon={<FileDownloadRoundedIcon />}
+            onClick={(event) => setExportMenuAnchor(event.currentTarget)}
+            disabled={compareMode || loading || dissolving || exporting || displayFeatures.length === 0}
+          >
+            {t('export')}
+          </Button>
+          <Button
+            variant="outlined"
+            color="secondary"
+            startIcon={<UploadFileRoundedIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            disabled={dataset.importing}
+          >
+            {dataset.importing ? t('readingDataset') : t('loadDataset')}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={REGION_FILE_ACCEPT}
+            hidden
+            onChange={(event) => {
+              const file = event.target.files?.[0]
+              event.target.value = ''
+              if (file) {
+                void dataset.readFile(file)
+              }
+            }}
+          />
+          <Button variant="outlined" color="secondary" startIcon={<TuneRoundedIcon />} onClick={dataset.editSchema} disabled={!regions}>
+            {t('datasetSchema')}
+          </Button>
+          <Menu anchorEl={exportMenuAnchor} open={Boolean(exportMenuAnchor)} onClose={() => setExportMenuAnchor(null)}>
+            <MenuItem onClick={() => void handleExport('geojson')}>{t('exportGeoJson')}</MenuItem>
+            <MenuItem onClick={() => void handleExport('csv')}>{t('exportCsv')}</MenuItem>
+            <MenuItem onClick={() => void handleExport('png')}>{t('exportPng')}</MenuItem>
+          </Menu>
         </Stack>
 
+        {renderer === 'dotDensity' && !compareMode && (
+          <Stack direction={{ xs: 'column', md: 'row' }} spacing={2} sx={{ mt: 2 }}>
+            <FormControl size="small" sx={{ minWidth: 200 }}>
+              <InputLabel id="dot-value-label">{t('dotValue')}</InputLabel>
+              <Select
+                labelId="dot-value-label"
+                value={dotValue}
+                label={t('dotValue')}
+                onChange={(event) => setDotValue(Number(event.target.value))}
+              >
+                {DOT_VALUE_OPTIONS.map((option) => (
+                  <MenuItem key={option} value={option}>
+                    1 {t('dot')} = {option.toLocaleString()}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Stack>
+        )}
+
+        {((mode === 'univariate' && renderer !== 'dotDensity') || compareMode) && (
+          <ClassificationControls
+            classification={classification}
+            manualBreaksInvalid={symbology.manualBreaksInvalid}
+            onChange={setClassification}
+          />
+        )}
+
         <Typography variant="body2" sx={{ mt: 1.5 }}>
-          {t(regionLevel)} {t('showingWithMetric')} {t(metric)}.
+          {compareMode ? t('compareModeHint') : `${layerLabel} ${t('showingWithMetric')} ${metricLabel}.`}
+          {dataset.datasetName && (
+            <>
+              {' '}
+              {t('datasetSource')}: <strong>{dataset.datasetName}</strong>
+            </>
+          )}
         </Typography>
       </Paper>
 
-      {error && <Alert severity="warning">{error}</Alert>}
-
-      <Paper className="map-panel" elevation={0}>
-        {loading ? (
-          <Box className="loading-state">{t('loadingMapData')}</Box>
-        ) : (
-          <MapContainer
-            center={MAP_CENTER}
-            zoom={11}
-            scrollWheelZoom
-            attributionControl={false}
-            className="map-canvas"
-            ref={mapRef}
-          >
-            <TileLayer
-              attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
-              url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
-            />
-            {filteredFeatures.length > 0 && (
-              <GeoJSON
-                data={{ type: 'FeatureCollection', features: filteredFeatures } as never}
-                style={styleFeature as never}
-                onEachFeature={onEachFeature as never}
-              />
+      {dataset.error && <Alert severity="warning">{dataset.error}</Alert>}
+      {aggregationError !== null && <Alert severity="warning">{`${t('regionAggregationFailed')} ${aggregationError}`.trim()}</Alert>}
+      {dataset.importError !== null && (
+        <Alert severity="warning" onClose={dataset.dismissImportError}>
+          {`${t('importFailed')} ${dataset.importError}`.trim()}
+        </Alert>
+      )}
+      {exportError && (
+        <Alert severity="warning" onClose={() => setExportError(null)}>
+          {exportError}
+        </Alert>
+      )}
+      {validationReport && (validationReport.issues.length > 0 || dataset.datasetName) && (
+        <DatasetValidationReport report={validationReport} onEditSchema={dataset.editSchema} />
+      )}
+
+      {compareMode ? (
+        <ZoneCompareView
+          regions={regions}
+          schema={schema}
+          metricOptions={metricOptions}
+          hierarchyTotals={hierarchyTotals}
+          classification={compareClassification}
+          initialMetric={metric}
+          initialLevel={regionLevel}
+          center={MAP_CENTER}
+        />
+      ) : (
+        <>
+          <Stack direction={{ xs: 'column', lg: 'row' }} spacing={2} className="demographics-layout">
+            <Paper className="map-panel demographics-map-panel" elevation={0}>
+              {loading ? (
+                <Box className="loading-state">{t('loadingMapData')}</Box>
+              ) : (
+                <MapContainer
+                  center={viewport ? [viewport.lat, viewport.lng] : MAP_CENTER}
+                  zoom={viewport?.zoom ?? MAP_ZOOM}
+                  scrollWheelZoom
+                  attributionControl={false}
+                  className="map-canvas"
+                  ref={mapRef}
+                >
+                  <TileLayer
+                    attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                    url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                    crossOrigin="anonymous"
+                  />
+                  {displayFeatures.length > 0 && (
+                    <GeoJSON
+                      key={`${regionLevel}-${hexEdgeKm ?? 'zones'}-${metric}-${mode}-${renderer}-${language}-${selection.drawMode ?? 'browse'}-${displayFeatures.length}-${schemaKey}`}
+                      data={{ type: 'FeatureCollection', features: displayFeatures } as never}
+                      style={styleFeature as never}
+                      onEachFeature={onEachFeature as never}
+                      interactive={selection.drawMode === null}
+                    />
+                  )}
+                  {hoveredFeature && (
+                    <GeoJSON
+                      key={`hover-${hoveredZoneKey}`}
+                      data={hoveredFeature as never}
+                      style={{ color: '#101828', weight: 3, fill: false }}
+                      interactive={false}
+                    />
+                  )}
+                  {dotDensity && <DotDensityLayer points={dotDensity.points} />}
+                  {renderer === 'proportional' && (
+                    <ProportionalSymbolLayer
+                      symbols={symbology.proportionalSymbols}
+                      metricLabel={metricName}
+                      selectedKey={selectedZone?.level === regionLevel ? selectedZone.key : null}
+                      interactive={selection.drawMode === null}
+                      onSelect={selectZone}
+                    />
+                  )}
+                  {transitEnabled && <TransitCoverageLayer coverage={transit.coverage} stops={transit.stops} />}
+                  <MapSelectionTool drawMode={selection.drawMode} onComplete={selection.completeDraw} />
+                  <MapViewportTracker onChange={setViewport} />
+                </MapContainer>
+              )}
+              {dissolving && (
+                <Box className="map-overlay-loading">{hexEdgeKm !== null ? t('buildingHexGrid') : t('dissolvingRegions')}</Box>
+              )}
+              {!loading && (
+                <MapSelectionToolbar
+                  drawMode={selection.drawMode}
+                  onDrawModeChange={selection.setDrawMode}
+                  hasSelection={multiSelectedKeys.size > 0 || selectedZone !== null}
+                  onClear={selection.clearSelection}
+                />
+              )}
+            </Paper>
+
+            {(selectedDetails || selection.selectionSummary) && (
+              <Stack spacing={2} className="demographics-side-column">
+                {selection.selectionSummary && (
+                  <SelectionSummaryCard
+                    summary={selection.selectionSummary}
+                    metricLabel={metricName}
+                    formatMetric={(value) => formatMetricValue(value, metric, schema)}
+                    onClear={selection.clearSelection}
+                  />
+                )}
+                {selectedDetails && (
+                  <ZoneDetailsPanel
+                    name={selectedDetails.name}
+                    level={regionLevel}
+                    properties={selectedDetails.properties}
+                    metrics={selectedDetails.metrics}
+                    rank={selectedDetails.rank}
+                    rankTotal={selectedDetails.rankTotal}
+                    rankMetricLabel={metricName}
+                    shares={selectedDetails.shares}
+                    onClose={() => selection.setSelectedZone(null)}
+                  />
+                )}
+              </Stack>
             )}
-          </MapContainer>
-        )}
-      </Paper>
-
-      <Paper className="page-panel" elevation={0}>
-        <Typography variant="subtitle2" gutterBottom>
-          {t('legend')} ({t(metric)})
-        </Typography>
-        <Box className="legend-card">
-          <Box className="legend-gradient-track" />
-          <Box className="legend-boundary-row">
-            <Typography variant="body2">{formatCompact(legendBounds.min)}</Typography>
-            <Typography variant="body2">{formatCompact(legendBounds.max)}</Typography>
-          </Box>
-          <Box className="legend-chip-grid">
-            {legendItems.map((item) => (
-              <Box key={item.color} className="legend-item">
-                <Box className="legend-swatch" sx={{ backgroundColor: item.color }} />
-                <Typography variant="caption">{item.label}</Typography>
-              </Box>
-            ))}
-          </Box>
+          </Stack>
+
+          {!loading && (
+            <ZoneRankingTable
+              rows={rankingRows}
+              metricLabel={metricLabel}
+              formatMetric={(value) => formatMetricValue(value, metric, schema)}
+              onHighlightChange={setTableHighlight}
+              onHoverChange={setHoveredZoneKey}
+              onRowSelect={handleRankingRowSelect}
+            />
+          )}
+
+          {transitEnabled && (
+            <TransitCoveragePanel
+              buses={transit.buses}
+              selectedBusIds={transitBusIds}
+              onSelectedBusIdsChange={setTransitBusIds}
+              radiusM={walkingRadiusM}
+              onRadiusChange={setWalkingRadiusM}
+              stopCount={transit.stops.length}
+              coverage={transit.coverage}
+              loading={transit.loading}
+              failedBusCount={transit.failedBusCount}
+              error={transit.error}
+            />
+          )}
+
+          <MapLegendPanel
+            metricLabel={metricLabel}
+            mode={mode}
+            renderer={renderer}
+            bivariateBreaks={bivariateBreaks}
+            dotLegendItems={dotLegendItems}
+            symbolLegendValues={symbology.symbolLegendValues}
+            classColors={symbology.classColors}
+            legendItems={symbology.legendItems}
+            legendBounds={symbology.legendBounds}
+            formatMetric={(value) => formatMetricValue(value, metric, schema)}
+          />
+        </>
+      )}
+
+      {dragActive && (
+        <Box className="dataset-drop-overlay">
+          <UploadFileRoundedIcon fontSize="large" />
+          <Typography variant="h6">{t('dropDatasetHere')}</Typography>
+          <Typography variant="body2">{t('supportedDatasetFormats')}</Typography>
         </Box>
-      </Paper>
+      )}
+      {dataset.pendingImport && (
+        <FieldMappingDialog
+          fileName={dataset.pendingImport.fileName}
+          featureCount={dataset.pendingImport.features.length}
+          fields={dataset.pendingImport.fields}
+          sampleProperties={dataset.pendingImport.features[0]?.properties ?? {}}
+          initialSchema={dataset.pendingImport.schema}
+          onCancel={dataset.cancelImport}
+          onApply={handleApplyFieldMapping}
+        />
+      )}
     </Stack>
   )
 }
 
-function getRegionName(properties: Record<string, unknown>, level: RegionLevel): string {
-  const candidatesByLevel: Record<RegionLevel, string[]> = {
-    micro: ['MICRO', 'micro', 'zone_id', 'id', 'fid', 'name'],
-    meso: ['MESO', 'meso', 'region_name', 'zone_name', 'district'],
-    macro: ['MACRO', 'macro', 'region_name', 'zone_name', 'district'],
-  }
-
-  const candidates = [...candidatesByLevel[level], 'name', 'region_name', 'zone_name', 'district', 'id']
-  for (const key of candidates) {
-    const value = properties[key]
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return value
-    }
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return String(value)
-    }
-  }
-  return 'Unknown Region'
-}
-
-function featureMatchesLevel(properties: Record<string, unknown>, selectedLevel: RegionLevel): boolean {
-  const level = getFeatureLevel(properties)
-  if (!level) {
-    return true
-  }
-
-  return level === selectedLevel
-}
-
-function getFeatureLevel(properties: Record<string, unknown>): RegionLevel | null {
-  const candidates = ['level', 'region_level', 'zone_level', 'category', 'LEVEL', 'REGION_LEVEL', 'ZONE_LEVEL', 'CATEGORY']
-  for (const key of candidates) {
-    const value = properties[key]
-    if (typeof value === 'string') {
-      const lower = value.toLowerCase()
-      if (lower === 'micro' || lower === 'meso' || lower === 'macro') {
-        return lower
-      }
-    }
-    if (typeof value === 'number') {
-      if (value === 1) {
-        return 'micro'
-      }
-      if (value === 2) {
-        return 'meso'
-      }
-      if (value === 3) {
-        return 'macro'
-      }
-    }
-  }
-
-  return null
-}
-
-function getMetricValue(properties: Record<string, unknown>, metric: MetricKey): number {
-  const candidates =
-    metric === 'population'
-      ? ['population', 'pop', 'population_total', 'residents']
-      : ['tot_jobs', 'jobs', 'employment', 'job_count', 'jobs_total']
-
-  for (const key of candidates) {
-    const value = properties[key]
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return value
-    }
-    if (typeof value === 'string') {
-      const parsed = Number(value)
-      if (Number.isFinite(parsed)) {
-        return parsed
-      }
-    }
-  }
-
-  return 0
+function readSelectedZone(params: URLSearchParams): ZoneRef | null {
+  const key = readStringParam(params, 'zone')
+  return key ? { level: readEnumParam(params, 'level', REGION_LEVELS, 'micro'), key } : null
 }
 
-function getHierarchyName(properties: Record<string, unknown>, level: RegionLevel): string {
-  const candidates: Record<RegionLevel, string[]> = {
-    micro: ['MICRO', 'micro', 'zone_id', 'id', 'fid'],
-    meso: ['MESO', 'meso', 'region_name', 'zone_name'],
-    macro: ['MACRO', 'macro', 'district', 'region_name'],
+function readViewport(params: URLSearchParams): MapViewport | null {
+  const lat = readNumberParam(params, 'lat')
+  const lng = readNumberParam(params, 'lng')
+  const zoom = readNumberParam(params, 'zoom')
+  if (lat === null || lng === null || zoom === null || Math.abs(lat) > 90 || Math.abs(lng) > 180) {
+    return null
   }
-
-  for (const key of candidates[level]) {
-    const value = properties[key]
-    if (typeof value === 'string' && value.trim().length > 0) {
-      return value
-    }
-    if (typeof value === 'number' && Number.isFinite(value)) {
-      return String(value)
-    }
-  }
-
-  return '-'
-}
-
-function formatCompact(value: number | undefined): string {
-  if (typeof value !== 'number' || !Number.isFinite(value)) {
-    return '-'
-  }
-  return value.toLocaleString()
-}
-
-function escapeHtml(value: string): string {
-  return value
-    .replaceAll('&', '&amp;')
-    .replaceAll('<', '&lt;')
-    .replaceAll('>', '&gt;')
-    .replaceAll('"', '&quot;')
-    .replaceAll("'", '&#039;')
+  return { lat, lng, zoom }
 }
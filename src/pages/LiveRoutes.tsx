@@ -3,18 +3,26 @@ import * as L from 'leaflet'
 import TuneRoundedIcon from '@mui/icons-material/TuneRounded'
 import { Alert, Box, Button, CircularProgress, Paper, Popover, Skeleton, Stack, TextField, Typography, useMediaQuery } from '@mui/material'
 import { MapContainer, Polyline, Popup, TileLayer, Tooltip } from 'react-leaflet'
+import { useSearchParams } from 'react-router-dom'
+import { useUrlStateSync } from '../hooks/useUrlStateSync'
 import { useLanguage } from '../i18n/useLanguage'
 import { clearAynaBusCaches, loadAynaBusDetails, loadAynaBusList, type AynaBusDetails, type AynaBusSummary } from '../services/dataService'
+import { readNumberOptionParam, readNumberParam, unlessDefault } from '../services/urlState'
 import type { RouteGeometry } from '../types/data'
 
 const MAP_CENTER: [number, number] = [40.4093, 49.8671]
 const ROUTE_COLORS = ['#2970ff', '#155eef', '#2e90fa', '#175cd3', '#53b1fd', '#7a5af8', '#364152']
+const REFRESH_INTERVALS_MS = [0, 30000, 60000, 120000]
+const DEFAULT_REFRESH_INTERVAL_MS = 60000
 
 export default function LiveRoutes() {
   const { t } = useLanguage()
   const isMobile = useMediaQuery('(max-width:900px)')
   const isNarrowLayout = useMediaQuery('(max-width:1199px)')
-  const [refreshIntervalMs, setRefreshIntervalMs] = useState(60000)
+  const [searchParams] = useSearchParams()
+  const [refreshIntervalMs, setRefreshIntervalMs] = useState(
+    () => readNumberOptionParam(searchParams, 'refresh', REFRESH_INTERVALS_MS) ?? DEFAULT_REFRESH_INTERVAL_MS,
+  )
   const [apiOverlayAnchorEl, setApiOverlayAnchorEl] = useState<HTMLElement | null>(null)
   const [busSearch, setBusSearch] = useState('')
   const [debouncedBusSearch, setDebouncedBusSearch] = useState('')
@@ -22,7 +30,7 @@ export default function LiveRoutes() {
   const [loadingBus, setLoadingBus] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [buses, setBuses] = useState<AynaBusSummary[]>([])
-  const [selectedBusId, setSelectedBusId] = useState<number | null>(null)
+  const [selectedBusId, setSelectedBusId] = useState<number | null>(() => readNumberParam(searchParams, 'bus'))
   const [selectedBus, setSelectedBus] = useState<AynaBusDetails | null>(null)
   const [activeRoutePopup, setActiveRoutePopup] = useState<{ label: string; position: [number, number] } | null>(null)
   const [lastUpdated, setLastUpdated] = useState<Date | null>(null)
@@ -140,15 +148,15 @@ export default function LiveRoutes() {
   }, [refreshIntervalMs, t])
 
   const refreshOptions = useMemo(
-    () => [
-      { value: 0, label: t('refreshOff') },
-      { value: 30000, label: '30s' },
-      { value: 60000, label: '60s' },
-      { value: 120000, label: '120s' },
-    ],
+    () => REFRESH_INTERVALS_MS.map((value) => ({ value, label: value === 0 ? t('refreshOff') : `${value / 1000}s` })),
     [t],
   )
 
+  useUrlStateSync({
+    bus: selectedBusId,
+    refresh: unlessDefault(refreshIntervalMs, DEFAULT_REFRESH_INTERVAL_MS),
+  })
+
   const renderedRoutes = useMemo(
     () =>
       (selectedBus?.features ?? [])
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { formatDateValue, inferColumnProfile, parseDateValue } from './analyticsSchema'
+import type { AnalyticsTextColumn } from '../types/busAnalytics'
+
+// Code 0 is the empty cell, as in the raw stores the worker builds.
+function textColumn(values: string[]): AnalyticsTextColumn {
+  const dictionary = ['']
+  const codes = values.map((value) => {
+    const index = dictionary.indexOf(value)
+    return index >= 0 ? index : dictionary.push(value) - 1
+  })
+  return { field: 'Date', kind: 'text', codes: new Uint32Array(codes), dictionary }
+}
+
+function inferTyping(values: string[]) {
+  return inferColumnProfile(textColumn(values), values.length).inferred
+}
+
+describe('inferColumnProfile date formats', () => {
+  it('reads ISO dates with times and zone suffixes', () => {
+    expect(inferTyping(['2024-03-01', '2024-03-02T07:15:00Z', '2024-03-03 18:40'])).toEqual({ type: 'date', dateFormat: 'iso' })
+  })
+
+  it('reads dotted day-first dates', () => {
+    expect(inferTyping(['01.03.2024 07:15', '02.03.2024', '28.02.2024 23:59:59'])).toEqual({ type: 'date', dateFormat: 'dmy-dot' })
+  })
+
+  it('tells day-first from month-first slashes by the values that only one of them accepts', () => {
+    expect(inferTyping(['03/04/2024', '25/04/2024', '13/05/2024'])).toEqual({ type: 'date', dateFormat: 'dmy-slash' })
+    expect(inferTyping(['03/04/2024', '04/25/2024', '05/13/2024'])).toEqual({ type: 'date', dateFormat: 'mdy-slash' })
+  })
+
+  it('reads fully ambiguous slashes as day-first', () => {
+    expect(inferTyping(['03/04/2024', '05/06/2024'])).toEqual({ type: 'date', dateFormat: 'dmy-slash' })
+  })
+
+  it('keeps the date type when a few values do not parse, and ignores empty cells', () => {
+    const values = [...Array.from({ length: 9 }, (_, index) => `2024-03-${String(index + 1).padStart(2, '0')}`), 'n/a', '', '']
+    expect(inferTyping(values)).toEqual({ type: 'date', dateFormat: 'iso' })
+  })
+
+  it('falls back to text when too few values are dates', () => {
+    expect(inferTyping(['2024-03-01', 'tomorrow', 'yesterday', 'soon'])).toEqual({ type: 'text', dateFormat: null })
+  })
+})
+
+describe('parseDateValue', () => {
+  it('returns the written wall-clock time as UTC', () => {
+    expect(parseDateValue('2024-03-01T07:15:30+04:00', 'iso')).toBe(Date.UTC(2024, 2, 1, 7, 15, 30))
+    expect(parseDateValue('04/25/2024 18:05', 'mdy-slash')).toBe(Date.UTC(2024, 3, 25, 18, 5))
+  })
+
+  it('rejects days that do not exist instead of rolling them over', () => {
+    expect(parseDateValue('31.02.2024', 'dmy-dot')).toBeNull()
+    expect(parseDateValue('29.02.2024', 'dmy-dot')).toBe(Date.UTC(2024, 1, 29))
+    expect(parseDateValue('2024-13-01', 'iso')).toBeNull()
+  })
+
+  it('round-trips through formatDateValue', () => {
+    const time = parseDateValue('05.01.2024 09:30', 'dmy-dot')
+    expect(time).not.toBeNull()
+    expect(formatDateValue(time ?? 0)).toBe('05.01.2024 09:30')
+  })
+})
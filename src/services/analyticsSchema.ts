@@ -0,0 +1,250 @@
+import type {
+  AnalyticsColumn,
+  AnalyticsColumnProfile,
+  AnalyticsColumnStore,
+  AnalyticsColumnType,
+  AnalyticsColumnTyping,
+  AnalyticsDateFormat,
+  AnalyticsQualityReport,
+  AnalyticsRawStore,
+  AnalyticsTextColumn,
+} from '../types/busAnalytics'
+
+type TypedStore = {
+  store: AnalyticsColumnStore
+  conflicts: Record<string, number>
+}
+
+export const ANALYTICS_COLUMN_TYPES: AnalyticsColumnType[] = ['integer', 'decimal', 'date', 'boolean', 'category', 'text']
+export const ANALYTICS_DATE_FORMATS: AnalyticsDateFormat[] = ['iso', 'dmy-dot', 'dmy-slash', 'mdy-slash']
+export const DATE_FORMAT_LABELS: Record<AnalyticsDateFormat, string> = {
+  iso: 'yyyy-MM-dd HH:mm',
+  'dmy-dot': 'dd.MM.yyyy HH:mm',
+  'dmy-slash': 'dd/MM/yyyy HH:mm',
+  'mdy-slash': 'MM/dd/yyyy HH:mm',
+}
+
+const INTEGER_PATTERN = /^[-+]?\d+$/
+const DECIMAL_PATTERN = /^[-+]?(?:\d+\.\d*|\.\d+|\d+)(?:e[-+]?\d+)?$/i
+const BOOLEAN_VALUES: Record<string, boolean> = { true: true, false: false, yes: true, no: false }
+// Zone suffixes on ISO times are ignored, so times stay as written in the export.
+const DATE_PATTERNS: Record<AnalyticsDateFormat, RegExp> = {
+  iso: /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?$/i,
+  'dmy-dot': /^(\d{1,2})\.(\d{1,2})\.(\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+  'dmy-slash': /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+  'mdy-slash': /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?:[T ](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/,
+}
+// A type is inferred when it covers this share of a column's non-empty values; the rest are reported as conflicts.
+const TYPE_MAJORITY_SHARE = 0.8
+// Text columns with at most this many distinct values, repeated on average, are categories.
+const CATEGORY_MAX_DISTINCT = 200
+const HOUR_COLUMN_PATTERN = /hour/i
+const COUNT_COLUMN_PATTERN = /count|smart\s*card|\bqr\b|number\s*of/i
+
+// Counts every distinct value once, weighted by how often it occurs, so inference covers the whole column cheaply.
+export function inferColumnProfile(column: AnalyticsTextColumn, rowCount: number): AnalyticsColumnProfile {
+  const occurrences = countCodes(column, rowCount)
+  const dateMatches: Record<AnalyticsDateFormat, number> = { iso: 0, 'dmy-dot': 0, 'dmy-slash': 0, 'mdy-slash': 0 }
+  let nullCount = 0
+  let distinctCount = 0
+  let integerCount = 0
+  let decimalCount = 0
+  let booleanCount = 0
+
+  column.dictionary.forEach((entry, code) => {
+    const count = occurrences[code]
+    const text = entry.trim()
+    if (count === 0) {
+      return
+    }
+    if (text.length === 0) {
+      nullCount += count
+      return
+    }
+
+    distinctCount += 1
+    if (INTEGER_PATTERN.test(text)) {
+      integerCount += count
+    } else if (DECIMAL_PATTERN.test(text)) {
+      decimalCount += count
+    }
+    if (text.toLowerCase() in BOOLEAN_VALUES) {
+      booleanCount += count
+    }
+    for (const format of ANALYTICS_DATE_FORMATS) {
+      if (parseDateValue(text, format) !== null) {
+        dateMatches[format] += count
+      }
+    }
+  })
+
+  const nonNullCount = rowCount - nullCount
+  const dateFormat = ANALYTICS_DATE_FORMATS.reduce((best, format) => (dateMatches[format] > dateMatches[best] ? format : best))
+  const candidates: [AnalyticsColumnTyping, number][] = [
+    [{ type: decimalCount > 0 ? 'decimal' : 'integer', dateFormat: null }, integerCount + decimalCount],
+    [{ type: 'date', dateFormat }, dateMatches[dateFormat]],
+    [{ type: 'boolean', dateFormat: null }, booleanCount],
+  ]
+  const [bestTyping, bestCount] = candidates.reduce((best, candidate) => (candidate[1] > best[1] ? candidate : best))
+  const isCategory = distinctCount > 0 && distinctCount <= CATEGORY_MAX_DISTINCT && distinctCount * 2 <= nonNullCount
+  const inferred: AnalyticsColumnTyping =
+    nonNullCount > 0 && bestCount >= nonNullCount * TYPE_MAJORITY_SHARE
+      ? bestTyping
+      : { type: isCategory ? 'category' : 'text', dateFormat: null }
+
+  return { field: column.field, inferred, nullCount, distinctCount }
+}
+
+// Values that do not parse as the column's type become empty cells and are counted as conflicts.
+export function buildTypedStore(raw: AnalyticsRawStore, typings: Record<string, AnalyticsColumnTyping>): TypedStore {
+  const conflicts: Record<string, number> = {}
+  const columns = raw.columns.map((column) => {
+    const typing = typings[column.field] ?? { type: 'text', dateFormat: null }
+    const typed = buildTypedColumn(column, typing, raw.rowCount)
+    conflicts[column.field] = typed.conflictCount
+    return typed.column
+  })
+  return { store: { rowCount: raw.rowCount, columns }, conflicts }
+}
+
+export function getQualityReport(store: AnalyticsColumnStore, conflicts: Record<string, number>): AnalyticsQualityReport {
+  const hourColumn = store.columns.find((column) => HOUR_COLUMN_PATTERN.test(column.field))
+  let outOfRangeHours = 0
+  if (hourColumn && hourColumn.kind === 'number') {
+    for (const value of hourColumn.values) {
+      if (!Number.isNaN(value) && (!Number.isInteger(value) || value < 0 || value > 23)) {
+        outOfRangeHours += 1
+      }
+    }
+  }
+
+  const negativeCounts: Record<string, number> = {}
+  for (const column of store.columns) {
+    if (column.kind !== 'number' || !COUNT_COLUMN_PATTERN.test(column.field)) {
+      continue
+    }
+    let negatives = 0
+    for (const value of column.values) {
+      if (value < 0) {
+        negatives += 1
+      }
+    }
+    negativeCounts[column.field] = negatives
+  }
+
+  return { conflicts, outOfRangeHours, negativeCounts }
+}
+
+// Rows are compared by a 52-bit hash of their value codes, so millions of rows need one sort of a Float64Array
+// rather than a set of row strings. A false match is possible but vanishingly rare at check-in volumes.
+export function countDuplicateRows(raw: AnalyticsRawStore): number {
+  const hashes = new Float64Array(raw.rowCount)
+  for (let rowIndex = 0; rowIndex < raw.rowCount; rowIndex += 1) {
+    let high = 0x811c9dc5
+    let low = 0x01000193
+    for (const column of raw.columns) {
+      const code = column.codes[rowIndex]
+      high = Math.imul(high ^ code, 0x01000193)
+      low = Math.imul(low ^ code, 0x5bd1e995) ^ (low >>> 15)
+    }
+    hashes[rowIndex] = (high >>> 0) * 0x100000 + (low >>> 12)
+  }
+
+  hashes.sort()
+  let duplicates = 0
+  for (let index = 1; index < hashes.length; index += 1) {
+    if (hashes[index] === hashes[index - 1]) {
+      duplicates += 1
+    }
+  }
+  return duplicates
+}
+
+// Returns UTC milliseconds of the written wall-clock time, or null when the text does not match the format.
+export function parseDateValue(text: string, format: AnalyticsDateFormat): number | null {
+  const match = DATE_PATTERNS[format].exec(text)
+  if (!match) {
+    return null
+  }
+
+  const [first, second, third] = [Number(match[1]), Number(match[2]), Number(match[3])]
+  const [year, month, day] =
+    format === 'iso' ? [first, second, third] : format === 'mdy-slash' ? [third, first, second] : [third, second, first]
+  const hours = Number(match[4] ?? 0)
+  const minutes = Number(match[5] ?? 0)
+  const seconds = Number(match[6] ?? 0)
+  if (month < 1 || month > 12 || day < 1 || day > 31 || hours > 23 || minutes > 59 || seconds > 59) {
+    return null
+  }
+
+  const time = Date.UTC(year, month - 1, day, hours, minutes, seconds)
+  // Rejects days past the end of the month, which Date.UTC would roll over.
+  return new Date(time).getUTCDate() === day ? time : null
+}
+
+export function formatDateValue(time: number): string {
+  const date = new Date(time)
+  const day = String(date.getUTCDate()).padStart(2, '0')
+  const month = String(date.getUTCMonth() + 1).padStart(2, '0')
+  const year = date.getUTCFullYear()
+  const hours = String(date.getUTCHours()).padStart(2, '0')
+  const minutes = String(date.getUTCMinutes()).padStart(2, '0')
+  return `${day}.${month}.${year} ${hours}:${minutes}`
+}
+
+function buildTypedColumn(
+  column: AnalyticsTextColumn,
+  typing: AnalyticsColumnTyping,
+  rowCount: number,
+): { column: AnalyticsColumn; conflictCount: number } {
+  if (typing.type === 'category' || typing.type === 'text') {
+    return { column, conflictCount: 0 }
+  }
+
+  if (typing.type === 'boolean') {
+    // Code 1 is true and code 2 is false; anything else is empty.
+    const entryCodes = column.dictionary.map((entry) => {
+      const value = BOOLEAN_VALUES[entry.trim().toLowerCase()]
+      return value === undefined ? 0 : value ? 1 : 2
+    })
+    const codes = new Uint32Array(rowCount)
+    let conflictCount = 0
+    for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+      const code = column.codes[rowIndex]
+      codes[rowIndex] = entryCodes[code]
+      if (entryCodes[code] === 0 && code !== 0 && column.dictionary[code].trim().length > 0) {
+        conflictCount += 1
+      }
+    }
+    return { column: { field: column.field, kind: 'text', codes, dictionary: ['', 'true', 'false'] }, conflictCount }
+  }
+
+  const entryValues = column.dictionary.map((entry) => parseTypedValue(entry.trim(), typing))
+  const entryConflicts = column.dictionary.map((entry, code) => Number.isNaN(entryValues[code]) && entry.trim().length > 0)
+  const values = new Float64Array(rowCount)
+  let conflictCount = 0
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+    const code = column.codes[rowIndex]
+    values[rowIndex] = entryValues[code]
+    if (entryConflicts[code]) {
+      conflictCount += 1
+    }
+  }
+  return { column: { field: column.field, kind: typing.type === 'date' ? 'date' : 'number', values }, conflictCount }
+}
+
+function parseTypedValue(text: string, typing: AnalyticsColumnTyping): number {
+  if (typing.type === 'date') {
+    return parseDateValue(text, typing.dateFormat ?? 'iso') ?? Number.NaN
+  }
+  const pattern = typing.type === 'integer' ? INTEGER_PATTERN : DECIMAL_PATTERN
+  return pattern.test(text) ? Number(text) : Number.NaN
+}
+
+function countCodes(column: AnalyticsTextColumn, rowCount: number): Uint32Array {
+  const occurrences = new Uint32Array(column.dictionary.length)
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+    occurrences[column.codes[rowIndex]] += 1
+  }
+  return occurrences
+}
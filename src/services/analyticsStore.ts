@@ -0,0 +1,262 @@
+import type { GridFilterItem, GridFilterModel, GridSortModel } from '@mui/x-data-grid'
+import type { AnalyticsCell, AnalyticsColumn, AnalyticsColumnStore, AnalyticsRow } from '../types/busAnalytics'
+import { formatDateValue } from './analyticsSchema'
+
+export type RowPredicate = (rowIndex: number) => boolean
+
+const EMPTY_VALUE_OPERATORS = new Set(['isEmpty', 'isNotEmpty'])
+
+// The table filters, sorts and pages the store through row indexes, so only the visible page is turned back into rows.
+export function getCellValue(column: AnalyticsColumn, rowIndex: number): string | number | null {
+  if (column.kind !== 'text') {
+    const value = column.values[rowIndex]
+    return Number.isNaN(value) ? null : column.kind === 'date' ? formatDateValue(value) : value
+  }
+
+  const code = column.codes[rowIndex]
+  return code === 0 ? null : column.dictionary[code]
+}
+
+export function getStoreFields(store: AnalyticsColumnStore): string[] {
+  return store.columns.map((column) => column.field)
+}
+
+export function getNumericFields(store: AnalyticsColumnStore): string[] {
+  return store.columns.filter((column) => column.kind === 'number').map((column) => column.field)
+}
+
+export function findStoreColumn(store: AnalyticsColumnStore, matcher: RegExp): AnalyticsColumn | null {
+  return store.columns.find((column) => matcher.test(column.field)) ?? null
+}
+
+// Row ids are 1-based positions in the file, matching the ids the table used before the store.
+export function getStoreRows(store: AnalyticsColumnStore, rowIndexes: ArrayLike<number>): AnalyticsRow[] {
+  return Array.from(rowIndexes, (rowIndex) => {
+    const row: Record<string, AnalyticsCell> = {}
+    for (const column of store.columns) {
+      row[column.field] = getCellValue(column, rowIndex)
+    }
+    return {
+      ...row,
+      id: rowIndex + 1,
+    }
+  })
+}
+
+// Mirrors the DataGrid's default string and number operators, so server-side filtering behaves like the client grid did.
+// The page's own filters come in as an extra predicate that rows must also pass.
+export function queryColumnStore(
+  store: AnalyticsColumnStore,
+  filterModel: GridFilterModel,
+  sortModel: GridSortModel,
+  extraPredicate: RowPredicate | null = null,
+): Uint32Array {
+  const gridPredicate = buildFilterPredicate(store, filterModel)
+  const predicates = [gridPredicate, extraPredicate].filter((item): item is RowPredicate => item !== null)
+  const predicate = predicates.length === 0 ? null : combinePredicates(predicates, 'and')
+  const rowIndexes = new Uint32Array(store.rowCount)
+  let count = 0
+
+  for (let rowIndex = 0; rowIndex < store.rowCount; rowIndex += 1) {
+    if (!predicate || predicate(rowIndex)) {
+      rowIndexes[count] = rowIndex
+      count += 1
+    }
+  }
+
+  return sortRowIndexes(store, rowIndexes.subarray(0, count), sortModel)
+}
+
+// Empty cells are skipped; null when the store has no such number column.
+export function sumStoreColumn(store: AnalyticsColumnStore, field: string, rowIndexes: ArrayLike<number>): number | null {
+  const column = store.columns.find((candidate) => candidate.field === field)
+  if (column?.kind !== 'number') {
+    return null
+  }
+  let total = 0
+  for (let position = 0; position < rowIndexes.length; position += 1) {
+    const value = column.values[rowIndexes[position]]
+    if (!Number.isNaN(value)) {
+      total += value
+    }
+  }
+  return total
+}
+
+function buildFilterPredicate(store: AnalyticsColumnStore, filterModel: GridFilterModel): RowPredicate | null {
+  const itemPredicates = filterModel.items.flatMap((item) => {
+    const column = store.columns.find((candidate) => candidate.field === item.field)
+    const predicate = column ? buildItemPredicate(column, item) : null
+    return predicate ? [predicate] : []
+  })
+  const quickPredicates = (filterModel.quickFilterValues ?? [])
+    .filter((value) => String(value ?? '').trim().length > 0)
+    .map((value) => buildQuickFilterPredicate(store, String(value)))
+
+  const predicates: RowPredicate[] = []
+  if (itemPredicates.length > 0) {
+    predicates.push(combinePredicates(itemPredicates, filterModel.logicOperator ?? 'and'))
+  }
+  if (quickPredicates.length > 0) {
+    predicates.push(combinePredicates(quickPredicates, filterModel.quickFilterLogicOperator ?? 'and'))
+  }
+
+  return predicates.length === 0 ? null : combinePredicates(predicates, 'and')
+}
+
+function combinePredicates(predicates: RowPredicate[], logicOperator: string): RowPredicate {
+  if (predicates.length === 1) {
+    return predicates[0]
+  }
+  return logicOperator === 'or'
+    ? (rowIndex) => predicates.some((predicate) => predicate(rowIndex))
+    : (rowIndex) => predicates.every((predicate) => predicate(rowIndex))
+}
+
+// Items without a value are ignored, as the grid does while a filter is still being typed.
+function buildItemPredicate(column: AnalyticsColumn, item: GridFilterItem): RowPredicate | null {
+  const filterValues = Array.isArray(item.value) ? item.value.map(String) : [String(item.value ?? '')]
+  const hasValue = filterValues.some((value) => value.trim().length > 0)
+  if (!hasValue && !EMPTY_VALUE_OPERATORS.has(item.operator)) {
+    return null
+  }
+
+  if (column.kind === 'text') {
+    // Matched once per distinct value rather than once per row.
+    const needles = filterValues.map((value) => value.toLowerCase())
+    const matches = column.dictionary.map((entry) => matchesText(entry.toLowerCase(), item.operator, needles))
+    return (rowIndex) => matches[column.codes[rowIndex]]
+  }
+
+  if (column.kind === 'date') {
+    // Dates are filtered as the text the table shows.
+    const needles = filterValues.map((value) => value.toLowerCase())
+    return buildDateTextPredicate(column.values, (text) => matchesText(text.toLowerCase(), item.operator, needles))
+  }
+
+  const targets = filterValues.map(Number)
+  return (rowIndex) => matchesNumber(column.values[rowIndex], item.operator, targets)
+}
+
+function buildQuickFilterPredicate(store: AnalyticsColumnStore, value: string): RowPredicate {
+  const needle = value.toLowerCase()
+  const target = Number(value)
+  const columnPredicates = store.columns.map((column): RowPredicate => {
+    if (column.kind === 'number') {
+      return (rowIndex) => column.values[rowIndex] === target
+    }
+    if (column.kind === 'date') {
+      return buildDateTextPredicate(column.values, (text) => text.includes(needle))
+    }
+    const matches = column.dictionary.map((entry) => entry.toLowerCase().includes(needle))
+    return (rowIndex) => matches[column.codes[rowIndex]]
+  })
+  return combinePredicates(columnPredicates, 'or')
+}
+
+// Check-ins share few distinct timestamps, so each one is formatted and matched once.
+function buildDateTextPredicate(values: Float64Array, matches: (text: string) => boolean): RowPredicate {
+  const results = new Map<number, boolean>()
+  return (rowIndex) => {
+    const value = values[rowIndex]
+    let result = results.get(value)
+    if (result === undefined) {
+      result = matches(Number.isNaN(value) ? '' : formatDateValue(value))
+      results.set(value, result)
+    }
+    return result
+  }
+}
+
+function matchesText(text: string, operator: string, needles: string[]): boolean {
+  const needle = needles[0]
+  switch (operator) {
+    case 'contains':
+      return text.includes(needle)
+    case 'doesNotContain':
+      return !text.includes(needle)
+    case 'equals':
+      return text === needle
+    case 'doesNotEqual':
+      return text !== needle
+    case 'startsWith':
+      return text.startsWith(needle)
+    case 'endsWith':
+      return text.endsWith(needle)
+    case 'isEmpty':
+      return text.length === 0
+    case 'isNotEmpty':
+      return text.length > 0
+    case 'isAnyOf':
+      return needles.includes(text)
+    default:
+      return true
+  }
+}
+
+function matchesNumber(value: number, operator: string, targets: number[]): boolean {
+  const target = targets[0]
+  switch (operator) {
+    case '=':
+      return value === target
+    case '!=':
+      return value !== target
+    case '>':
+      return value > target
+    case '>=':
+      return value >= target
+    case '<':
+      return value < target
+    case '<=':
+      return value <= target
+    case 'isEmpty':
+      return Number.isNaN(value)
+    case 'isNotEmpty':
+      return !Number.isNaN(value)
+    case 'isAnyOf':
+      return targets.includes(value)
+    default:
+      return true
+  }
+}
+
+// Empty cells sort first ascending, like the grid's own comparators; ties keep file order.
+function sortRowIndexes(store: AnalyticsColumnStore, rowIndexes: Uint32Array, sortModel: GridSortModel): Uint32Array {
+  const sortKeys = sortModel.flatMap((item) => {
+    const column = store.columns.find((candidate) => candidate.field === item.field)
+    return column && item.sort ? [{ readKey: getSortKeyReader(column), direction: item.sort === 'desc' ? -1 : 1 }] : []
+  })
+  if (sortKeys.length === 0) {
+    return rowIndexes
+  }
+
+  return rowIndexes.sort((left, right) => {
+    for (const { readKey, direction } of sortKeys) {
+      const difference = readKey(left) - readKey(right)
+      if (difference !== 0) {
+        return difference * direction
+      }
+    }
+    return left - right
+  })
+}
+
+function getSortKeyReader(column: AnalyticsColumn): (rowIndex: number) => number {
+  if (column.kind !== 'text') {
+    return (rowIndex) => {
+      const value = column.values[rowIndex]
+      return Number.isNaN(value) ? Number.NEGATIVE_INFINITY : value
+    }
+  }
+
+  // Text sorts by each distinct value's rank, so the collator runs over the dictionary only.
+  const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+  const order = column.dictionary
+    .map((_, code) => code)
+    .sort((left, right) => collator.compare(column.dictionary[left], column.dictionary[right]))
+  const ranks = new Uint32Array(order.length)
+  order.forEach((code, rank) => {
+    ranks[code] = rank
+  })
+  return (rowIndex) => ranks[column.codes[rowIndex]]
+}
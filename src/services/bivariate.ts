@@ -0,0 +1,44 @@
+import type { RegionFeature } from '../types/data'
+import { computeClassBreaks, getClassIndex } from './classification'
+import type { DatasetSchema } from '../types/demographics'
+import { getRoleValue } from './regionAttributes'
+
+export const BIVARIATE_CLASS_COUNT = 3
+
+// Rows are jobs classes (low to high), columns are population classes (low to high).
+export const BIVARIATE_COLORS: string[][] = [
+  ['#e8e8e8', '#ace4e4', '#5ac8c8'],
+  ['#dfb0d6', '#a5add3', '#5698b9'],
+  ['#be64ac', '#8c62aa', '#3b4994'],
+]
+
+export type BivariateBreaks = {
+  population: number[]
+  jobs: number[]
+}
+
+export function computeBivariateBreaks(features: RegionFeature[], schema: DatasetSchema): BivariateBreaks {
+  const population = features.map((feature) => getRoleValue(feature.properties, 'population', schema)).filter((value) => value > 0)
+  const jobs = features.map((feature) => getRoleValue(feature.properties, 'jobs', schema)).filter((value) => value > 0)
+
+  return {
+    population: computeClassBreaks(population, 'quantile', BIVARIATE_CLASS_COUNT),
+    jobs: computeClassBreaks(jobs, 'quantile', BIVARIATE_CLASS_COUNT),
+  }
+}
+
+export function getBivariateClass(
+  feature: RegionFeature,
+  breaks: BivariateBreaks,
+  schema: DatasetSchema,
+): { populationClass: number; jobsClass: number } {
+  return {
+    populationClass: getClassIndex(getRoleValue(feature.properties, 'population', schema), breaks.population),
+    jobsClass: getClassIndex(getRoleValue(feature.properties, 'jobs', schema), breaks.jobs),
+  }
+}
+
+export function getBivariateColor(feature: RegionFeature, breaks: BivariateBreaks, schema: DatasetSchema): string {
+  const { populationClass, jobsClass } = getBivariateClass(feature, breaks, schema)
+  return BIVARIATE_COLORS[jobsClass][populationClass]
+}
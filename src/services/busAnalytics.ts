@@ -0,0 +1,355 @@
+import type { AnalyticsColumn, AnalyticsColumnStore, BusAnalyticsChartData, CheckInFilters, DailyRidership } from '../types/busAnalytics'
+import { parseDateValue } from './analyticsSchema'
+import { findStoreColumn, getCellValue, type RowPredicate } from './analyticsStore'
+
+// Check-in columns found by their header; null when the file has no such column.
+export type CheckInColumns = {
+  hour: AnalyticsColumn | null
+  route: AnalyticsColumn | null
+  operator: AnalyticsColumn | null
+  totalCount: AnalyticsColumn | null
+  smartCard: AnalyticsColumn | null
+  qr: AnalyticsColumn | null
+  busCount: AnalyticsColumn | null
+  date: Extract<AnalyticsColumn, { kind: 'date' }> | null
+}
+
+export type CheckInFilterOptions = {
+  routes: string[]
+  operators: string[]
+  // yyyy-MM-dd bounds of the date column, or null without one.
+  firstDate: string | null
+  lastDate: string | null
+}
+
+// Columns are matched loosely by name since CSV headers vary.
+const HOUR_COLUMN_PATTERN = /hour/i
+const ROUTE_COLUMN_PATTERN = /^route$/i
+const OPERATOR_COLUMN_PATTERN = /operator/i
+const DATE_COLUMN_PATTERN = /date/i
+const MS_PER_DAY = 86400000
+const HEATMAP_ROUTES = 10
+// Longest run of days the daily series is filled for; a stray year typo in one row would otherwise fill millions of days.
+const MAX_DAILY_SPAN_DAYS = 3 * 366
+
+// Translation keys by weekday, 0 is Sunday; weeks are shown from Monday.
+export const WEEKDAY_LABEL_KEYS = ['weekdaySun', 'weekdayMon', 'weekdayTue', 'weekdayWed', 'weekdayThu', 'weekdayFri', 'weekdaySat']
+export const WEEKDAY_ORDER = [1, 2, 3, 4, 5, 6, 0]
+
+export const DEFAULT_CHECK_IN_FILTERS: CheckInFilters = {
+  dateFrom: null,
+  dateTo: null,
+  hourFrom: 0,
+  hourTo: 23,
+  weekdays: [],
+  routes: [],
+  operators: [],
+}
+
+// Chart aggregation over the check-in store, or over the given rows of it when filters are applied.
+export function buildChartData(store: AnalyticsColumnStore, rowIndexes?: ArrayLike<number>): BusAnalyticsChartData {
+  const {
+    hour: hourColumn,
+    route: routeColumn,
+    totalCount: totalCountColumn,
+    operator: operatorColumn,
+    smartCard: smartCardColumn,
+    qr: qrColumn,
+    date: dateColumn,
+  } = getCheckInColumns(store)
+  const readHour = getHourReader(store)
+
+  const hourlyTotals = new Map<string, number>()
+  const routeTotals = new Map<string, number>()
+  const operatorTotals = new Map<string, number>()
+  const dailyTotals = new Map<number, DailyRidership>()
+  const weekdayHours = Array.from({ length: 7 }, () => new Array<number>(24).fill(0))
+  const routeHours = new Map<string, number[]>()
+  let hasWeekdayHours = false
+  let smartCardTotal = 0
+  let qrTotal = 0
+
+  const rowCount = rowIndexes ? rowIndexes.length : store.rowCount
+  for (let position = 0; position < rowCount; position += 1) {
+    const rowIndex = rowIndexes ? rowIndexes[position] : position
+    const countValue = totalCountColumn ? asNumber(getCellValue(totalCountColumn, rowIndex)) : 0
+    if (countValue <= 0) {
+      continue
+    }
+
+    if (hourColumn) {
+      const hourValue = String(getCellValue(hourColumn, rowIndex) ?? '')
+      const hourLabel = hourValue.length > 0 ? `${hourValue.padStart(2, '0')}:00` : 'Unknown'
+      hourlyTotals.set(hourLabel, (hourlyTotals.get(hourLabel) ?? 0) + countValue)
+    }
+
+    const route = routeColumn ? String(getCellValue(routeColumn, rowIndex) ?? 'Unknown') : null
+    if (route !== null) {
+      routeTotals.set(route, (routeTotals.get(route) ?? 0) + countValue)
+    }
+
+    const operator = operatorColumn ? String(getCellValue(operatorColumn, rowIndex) ?? 'Unknown') : null
+    if (operator !== null) {
+      operatorTotals.set(operator, (operatorTotals.get(operator) ?? 0) + countValue)
+    }
+
+    const day = dateColumn ? Math.floor(dateColumn.values[rowIndex] / MS_PER_DAY) : Number.NaN
+    if (!Number.isNaN(day)) {
+      const daily = dailyTotals.get(day) ?? { date: toDateInputValue(day * MS_PER_DAY), total: 0, byRoute: {}, byOperator: {} }
+      daily.total += countValue
+      if (route !== null) {
+        daily.byRoute[route] = (daily.byRoute[route] ?? 0) + countValue
+      }
+      if (operator !== null) {
+        daily.byOperator[operator] = (daily.byOperator[operator] ?? 0) + countValue
+      }
+      dailyTotals.set(day, daily)
+    }
+
+    const hour = readHour ? readHour(rowIndex) : Number.NaN
+    if (Number.isInteger(hour) && hour >= 0 && hour <= 23) {
+      if (dateColumn && !Number.isNaN(day)) {
+        weekdayHours[new Date(dateColumn.values[rowIndex]).getUTCDay()][hour] += countValue
+        hasWeekdayHours = true
+      }
+      if (route !== null) {
+        const hours = routeHours.get(route) ?? new Array<number>(24).fill(0)
+        hours[hour] += countValue
+        routeHours.set(route, hours)
+      }
+    }
+
+    if (smartCardColumn) {
+      smartCardTotal += asNumber(getCellValue(smartCardColumn, rowIndex))
+    }
+
+    if (qrColumn) {
+      qrTotal += asNumber(getCellValue(qrColumn, rowIndex))
+    }
+  }
+
+  const hourly = [...hourlyTotals.entries()].sort((a, b) => a[0].localeCompare(b[0])).map(([label, value]) => ({ label, value }))
+
+  const topRoutes = [...routeTotals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 12)
+    .map(([label, value]) => ({ label, value }))
+
+  const operatorSplit = [...operatorTotals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, 6)
+    .map(([label, value]) => ({ label, value }))
+
+  const paymentMix = [
+    { label: 'SmartCard', value: smartCardTotal },
+    { label: 'QR', value: qrTotal },
+  ].filter((item) => item.value > 0)
+
+  const { daily, outlierDays } = fillDailyGaps(dailyTotals)
+  return {
+    hourly,
+    topRoutes,
+    operatorSplit,
+    paymentMix,
+    daily,
+    outlierDays,
+    weekdayHours: hasWeekdayHours ? weekdayHours : [],
+    routeHours: [...routeTotals.entries()]
+      .sort((a, b) => b[1] - a[1])
+      .flatMap(([route]) => {
+        const hours = routeHours.get(route)
+        return hours ? [{ route, hours }] : []
+      })
+      .slice(0, HEATMAP_ROUTES),
+  }
+}
+
+// Rows outside the date range, the hour range or the picked weekdays, routes and operators are left out. Filters whose column
+// the file does not have are ignored.
+export function buildCheckInFilterPredicate(store: AnalyticsColumnStore, filters: CheckInFilters): RowPredicate | null {
+  const predicates: RowPredicate[] = []
+
+  const dateColumn = findDateColumn(store)
+  const start = filters.dateFrom ? parseDateValue(filters.dateFrom, 'iso') : null
+  const end = filters.dateTo ? parseDateValue(filters.dateTo, 'iso') : null
+  if (dateColumn && (start !== null || end !== null)) {
+    const from = start ?? Number.NEGATIVE_INFINITY
+    const to = end === null ? Number.POSITIVE_INFINITY : end + MS_PER_DAY
+    predicates.push((rowIndex) => dateColumn.values[rowIndex] >= from && dateColumn.values[rowIndex] < to)
+  }
+
+  const readHour = filters.hourFrom > 0 || filters.hourTo < 23 ? getHourReader(store) : null
+  if (readHour) {
+    predicates.push((rowIndex) => {
+      const hour = readHour(rowIndex)
+      return hour >= filters.hourFrom && hour <= filters.hourTo
+    })
+  }
+
+  if (dateColumn && filters.weekdays.length > 0) {
+    const weekdays = new Set(filters.weekdays)
+    predicates.push((rowIndex) => weekdays.has(new Date(dateColumn.values[rowIndex]).getUTCDay()))
+  }
+
+  const routeColumn = findStoreColumn(store, ROUTE_COLUMN_PATTERN)
+  if (routeColumn && filters.routes.length > 0) {
+    predicates.push(buildValuePredicate(routeColumn, filters.routes))
+  }
+  const operatorColumn = findStoreColumn(store, OPERATOR_COLUMN_PATTERN)
+  if (operatorColumn && filters.operators.length > 0) {
+    predicates.push(buildValuePredicate(operatorColumn, filters.operators))
+  }
+
+  return predicates.length === 0 ? null : (rowIndex) => predicates.every((predicate) => predicate(rowIndex))
+}
+
+// Distinct values of the route column; empty cells are left out.
+export function getCheckInRoutes(store: AnalyticsColumnStore): string[] {
+  const routeColumn = findStoreColumn(store, ROUTE_COLUMN_PATTERN)
+  return routeColumn ? getDistinctValues(routeColumn, store.rowCount) : []
+}
+
+export function getCheckInFilterOptions(store: AnalyticsColumnStore): CheckInFilterOptions {
+  const operatorColumn = findStoreColumn(store, OPERATOR_COLUMN_PATTERN)
+  const dateColumn = findDateColumn(store)
+  let firstTime = Number.POSITIVE_INFINITY
+  let lastTime = Number.NEGATIVE_INFINITY
+  if (dateColumn) {
+    for (const value of dateColumn.values) {
+      if (Number.isNaN(value)) {
+        continue
+      }
+      firstTime = Math.min(firstTime, value)
+      lastTime = Math.max(lastTime, value)
+    }
+  }
+
+  return {
+    routes: getCheckInRoutes(store),
+    operators: operatorColumn ? getDistinctValues(operatorColumn, store.rowCount) : [],
+    firstDate: Number.isFinite(firstTime) ? toDateInputValue(firstTime) : null,
+    lastDate: Number.isFinite(lastTime) ? toDateInputValue(lastTime) : null,
+  }
+}
+
+export function getCheckInColumns(store: AnalyticsColumnStore): CheckInColumns {
+  return {
+    hour: findStoreColumn(store, HOUR_COLUMN_PATTERN),
+    route: findStoreColumn(store, ROUTE_COLUMN_PATTERN),
+    operator: findStoreColumn(store, OPERATOR_COLUMN_PATTERN),
+    totalCount: findStoreColumn(store, /total\s*count/i),
+    smartCard: findStoreColumn(store, /smart\s*card/i),
+    qr: findStoreColumn(store, /\bqr\b/i),
+    busCount: findStoreColumn(store, /number\s*of\s*bus/i),
+    date: findDateColumn(store),
+  }
+}
+
+export function hasCheckInFilters(filters: CheckInFilters): boolean {
+  return (
+    filters.dateFrom !== null ||
+    filters.dateTo !== null ||
+    filters.hourFrom > 0 ||
+    filters.hourTo < 23 ||
+    filters.weekdays.length > 0 ||
+    filters.routes.length > 0 ||
+    filters.operators.length > 0
+  )
+}
+
+export function asNumber(value: unknown): number {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : 0
+  }
+
+  if (typeof value === 'string') {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : 0
+  }
+
+  return 0
+}
+
+// A date-typed column named like a date wins over other date columns.
+function findDateColumn(store: AnalyticsColumnStore): Extract<AnalyticsColumn, { kind: 'date' }> | null {
+  const dateColumns = store.columns.filter((column) => column.kind === 'date')
+  return dateColumns.find((column) => DATE_COLUMN_PATTERN.test(column.field)) ?? dateColumns[0] ?? null
+}
+
+// Without an hour column the hour is read from the date column's time of day.
+function getHourReader(store: AnalyticsColumnStore): ((rowIndex: number) => number) | null {
+  const hourColumn = findStoreColumn(store, HOUR_COLUMN_PATTERN)
+  if (hourColumn?.kind === 'number') {
+    return (rowIndex) => hourColumn.values[rowIndex]
+  }
+  const dateColumn = findDateColumn(store)
+  return dateColumn ? (rowIndex) => new Date(dateColumn.values[rowIndex]).getUTCHours() : null
+}
+
+function buildValuePredicate(column: AnalyticsColumn, values: string[]): RowPredicate {
+  if (column.kind === 'text') {
+    const wanted = new Set(values)
+    const matches = column.dictionary.map((entry) => wanted.has(entry))
+    return (rowIndex) => matches[column.codes[rowIndex]]
+  }
+  const wanted = new Set(values.map(Number))
+  return (rowIndex) => wanted.has(column.values[rowIndex])
+}
+
+function getDistinctValues(column: AnalyticsColumn, rowCount: number): string[] {
+  if (column.kind === 'text') {
+    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+    return column.dictionary.filter((entry) => entry.length > 0).sort(collator.compare)
+  }
+
+  const values = new Set<number>()
+  for (let rowIndex = 0; rowIndex < rowCount; rowIndex += 1) {
+    if (!Number.isNaN(column.values[rowIndex])) {
+      values.add(column.values[rowIndex])
+    }
+  }
+  return [...values].sort((left, right) => left - right).map(String)
+}
+
+// Days without check-ins between the first and last day are kept as zero, so a data gap shows as a dip. When the days
+// span more than MAX_DAILY_SPAN_DAYS, only the window holding the most check-in days is kept and the rest are counted
+// as outliers.
+function fillDailyGaps(dailyTotals: Map<number, DailyRidership>): { daily: DailyRidership[]; outlierDays: number } {
+  if (dailyTotals.size === 0) {
+    return { daily: [], outlierDays: 0 }
+  }
+  const days = [...dailyTotals.keys()].sort((left, right) => left - right)
+  let windowStart = 0
+  let windowEnd = days.length - 1
+  if (days[windowEnd] - days[0] >= MAX_DAILY_SPAN_DAYS) {
+    let bestCount = 0
+    for (let start = 0, end = 0; end < days.length; end += 1) {
+      while (days[end] - days[start] >= MAX_DAILY_SPAN_DAYS) {
+        start += 1
+      }
+      if (end - start + 1 > bestCount) {
+        bestCount = end - start + 1
+        windowStart = start
+        windowEnd = end
+      }
+    }
+  }
+
+  const firstDay = days[windowStart]
+  const lastDay = days[windowEnd]
+  const daily = Array.from(
+    { length: lastDay - firstDay + 1 },
+    (_, offset) =>
+      dailyTotals.get(firstDay + offset) ?? {
+        date: toDateInputValue((firstDay + offset) * MS_PER_DAY),
+        total: 0,
+        byRoute: {},
+        byOperator: {},
+      },
+  )
+  return { daily, outlierDays: days.length - (windowEnd - windowStart + 1) }
+}
+
+function toDateInputValue(time: number): string {
+  return new Date(time).toISOString().slice(0, 10)
+}
@@ -0,0 +1,58 @@
+import * as Papa from 'papaparse'
+import type { CheckInDelimiter, CheckInEncoding, CheckInImportOptions } from '../types/busAnalytics'
+import { readXlsxRows } from './xlsxReader'
+
+export type CheckInFilePreview = {
+  header: string[]
+  rows: string[][]
+}
+
+export const CHECK_IN_FILE_ACCEPT = '.csv,.tsv,.txt,.xlsx'
+export const CHECK_IN_DELIMITERS: CheckInDelimiter[] = ['', ',', ';', '\t', '|']
+export const CHECK_IN_ENCODINGS: CheckInEncoding[] = ['utf-8', 'windows-1251']
+export const DEFAULT_CHECK_IN_IMPORT_OPTIONS: CheckInImportOptions = { delimiter: '', encoding: 'utf-8', headerRow: 1 }
+
+// The head of a text file is enough to preview a few rows without reading a multi-gigabyte export.
+const PREVIEW_BYTES = 256 * 1024
+
+// Blank lines still count towards the header row number, so it matches the line shown in an editor or in Excel;
+// below the header they are skipped.
+export function isBlankRecord(record: unknown[]): boolean {
+  return record.every((value) => value === null || value === undefined || value === '')
+}
+
+export function isXlsxFile(file: File): boolean {
+  return file.name.toLowerCase().endsWith('.xlsx')
+}
+
+// Reads the header and first rows the worker would load with these options, for the import dialog.
+export async function readCheckInPreview(file: File, options: CheckInImportOptions, rowCount: number): Promise<CheckInFilePreview> {
+  const headerIndex = Math.max(Math.floor(options.headerRow), 1) - 1
+  const records = isXlsxFile(file)
+    ? await readXlsxRows(await file.arrayBuffer(), headerIndex + 1 + rowCount)
+    : Papa.parse<unknown[]>(new TextDecoder(options.encoding).decode(await file.slice(0, PREVIEW_BYTES).arrayBuffer()), {
+        delimiter: options.delimiter,
+        preview: headerIndex + 1 + rowCount,
+      }).data
+
+  const header = records[headerIndex]
+  if (!header) {
+    throw new Error('The header row is beyond the end of the file.')
+  }
+
+  return {
+    header: header.map(formatPreviewCell),
+    rows: records
+      .slice(headerIndex + 1)
+      .filter((record) => !isBlankRecord(record))
+      .slice(0, rowCount)
+      .map((record) => record.map(formatPreviewCell)),
+  }
+}
+
+function formatPreviewCell(value: unknown): string {
+  if (value instanceof Date) {
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 16).replace('T', ' ')
+  }
+  return String(value ?? '')
+}
@@ -0,0 +1,56 @@
+import type { CheckInUpload } from '../types/busAnalytics'
+
+const DATABASE_NAME = 'ayna-ui'
+const DATABASE_VERSION = 1
+const STORE_NAME = 'check-in-uploads'
+const CURRENT_UPLOAD_KEY = 'current'
+
+// The last uploaded check-in export is kept in IndexedDB, which stores the File itself, so it survives a reload
+// without re-uploading. Only one upload is kept; a new one replaces it.
+export function saveCheckInUpload(upload: CheckInUpload): Promise<void> {
+  return runStoreRequest('readwrite', (store) => store.put(upload, CURRENT_UPLOAD_KEY)).then(() => undefined)
+}
+
+export function loadCheckInUpload(): Promise<CheckInUpload | null> {
+  return runStoreRequest('readonly', (store) => store.get(CURRENT_UPLOAD_KEY)).then((value: unknown) =>
+    isCheckInUpload(value) ? value : null,
+  )
+}
+
+export function clearCheckInUpload(): Promise<void> {
+  return runStoreRequest('readwrite', (store) => store.delete(CURRENT_UPLOAD_KEY)).then(() => undefined)
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DATABASE_NAME, DATABASE_VERSION)
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(STORE_NAME)
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB is not available.'))
+  })
+}
+
+async function runStoreRequest<T>(mode: IDBTransactionMode, createRequest: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const database = await openDatabase()
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = database.transaction(STORE_NAME, mode)
+      const request = createRequest(transaction.objectStore(STORE_NAME))
+      transaction.oncomplete = () => resolve(request.result)
+      transaction.onerror = () => reject(transaction.error ?? new Error('IndexedDB request failed.'))
+      transaction.onabort = () => reject(transaction.error ?? new Error('IndexedDB request was aborted.'))
+    })
+  } finally {
+    database.close()
+  }
+}
+
+function isCheckInUpload(value: unknown): value is CheckInUpload {
+  if (typeof value !== 'object' || value === null) {
+    return false
+  }
+  const upload = value as CheckInUpload
+  return upload.file instanceof Blob && typeof upload.options === 'object' && upload.options !== null
+}
@@ -0,0 +1,62 @@
+import { scaleLinear } from 'd3-scale'
+import {
+  interpolateViridis,
+  schemeBlues,
+  schemeBrBG,
+  schemeOrRd,
+  schemePuOr,
+  schemeRdYlBu,
+  schemeYlGnBu,
+} from 'd3-scale-chromatic'
+import type { PaletteKey } from '../types/demographics'
+
+export const MIN_CLASS_COUNT = 3
+export const MAX_CLASS_COUNT = 9
+export const CLASS_COUNT_OPTIONS = Array.from({ length: MAX_CLASS_COUNT - MIN_CLASS_COUNT + 1 }, (_, index) => MIN_CLASS_COUNT + index)
+
+const AYNA_BLUE_STOPS = ['#eff4ff', '#dbe8ff', '#b8d2ff', '#7eadff', '#2970ff']
+
+// AYNA Blue is the app's own ramp and RdYlBu is kept for familiarity; the others come from the ColorBrewer /
+// matplotlib sets marked as safe for common color-vision deficiencies.
+export const PALETTES: Array<{ key: PaletteKey; kind: 'sequential' | 'diverging'; label: string }> = [
+  { key: 'aynaBlue', kind: 'sequential', label: 'AYNA Blue' },
+  { key: 'blues', kind: 'sequential', label: 'Blues' },
+  { key: 'ylGnBu', kind: 'sequential', label: 'YlGnBu' },
+  { key: 'orRd', kind: 'sequential', label: 'OrRd' },
+  { key: 'viridis', kind: 'sequential', label: 'Viridis' },
+  { key: 'rdYlBu', kind: 'diverging', label: 'RdYlBu' },
+  { key: 'puOr', kind: 'diverging', label: 'PuOr' },
+  { key: 'brBG', kind: 'diverging', label: 'BrBG' },
+]
+
+export function getPaletteColors(palette: PaletteKey, classCount: number): string[] {
+  const count = Math.min(Math.max(Math.round(classCount), MIN_CLASS_COUNT), MAX_CLASS_COUNT)
+
+  switch (palette) {
+    case 'aynaBlue':
+      return samplePalette(count, (ratio) =>
+        scaleLinear<string>()
+          .domain(AYNA_BLUE_STOPS.map((_, index) => index / (AYNA_BLUE_STOPS.length - 1)))
+          .range(AYNA_BLUE_STOPS)(ratio),
+      )
+    case 'viridis':
+      // Viridis ends on near-black, so the darkest tenth is skipped to keep zone borders readable.
+      return samplePalette(count, (ratio) => interpolateViridis(1 - ratio * 0.9))
+    case 'blues':
+      return [...schemeBlues[count]]
+    case 'ylGnBu':
+      return [...schemeYlGnBu[count]]
+    case 'orRd':
+      return [...schemeOrRd[count]]
+    case 'rdYlBu':
+      return [...schemeRdYlBu[count]].reverse()
+    case 'puOr':
+      return [...schemePuOr[count]]
+    case 'brBG':
+      return [...schemeBrBG[count]]
+  }
+}
+
+function samplePalette(count: number, interpolate: (ratio: number) => string): string[] {
+  return Array.from({ length: count }, (_, index) => interpolate(index / (count - 1)))
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest'
+import { computeClassBreaks, getClassIndex, parseManualBreaks } from './classification'
+
+describe('computeClassBreaks', () => {
+  it('splits quantile classes with R-7 interpolation', () => {
+    expect(computeClassBreaks([5, 1, 4, 2, 3], 'quantile', 4)).toEqual([1, 2, 3, 4, 5])
+    expect(computeClassBreaks([1, 2, 3, 4], 'quantile', 2)).toEqual([1, 2.5, 4])
+  })
+
+  it('drops repeated quantile breaks from tied values', () => {
+    expect(computeClassBreaks([1, 1, 1, 1, 5], 'quantile', 4)).toEqual([1, 5])
+    expect(computeClassBreaks([3, 3, 3], 'quantile', 5)).toEqual([3, 3])
+  })
+
+  it('places Jenks breaks at the gaps between clusters', () => {
+    const values = [1, 2, 3, 10, 11, 12, 20, 21, 22]
+    expect(computeClassBreaks(values, 'jenks', 3)).toEqual([1, 10, 20, 22])
+  })
+
+  it('caps Jenks classes at the number of values', () => {
+    expect(computeClassBreaks([4, 8], 'jenks', 5)).toEqual([4, 8])
+    expect(computeClassBreaks([7], 'jenks', 5)).toEqual([7, 7])
+  })
+
+  it('ignores non-finite values', () => {
+    expect(computeClassBreaks([Number.NaN, 1, Infinity, 3], 'equalInterval', 2)).toEqual([1, 2, 3])
+    expect(computeClassBreaks([Number.NaN], 'quantile', 3)).toEqual([])
+  })
+
+  it('keeps only manual breaks inside the value range', () => {
+    expect(computeClassBreaks([0, 100], 'manual', 5, [-5, 10, 50, 150])).toEqual([0, 10, 50, 100])
+  })
+})
+
+describe('getClassIndex', () => {
+  it('assigns break values to the class they open', () => {
+    const breaks = [0, 10, 20, 30]
+    expect(getClassIndex(0, breaks)).toBe(0)
+    expect(getClassIndex(9.99, breaks)).toBe(0)
+    expect(getClassIndex(10, breaks)).toBe(1)
+    expect(getClassIndex(30, breaks)).toBe(2)
+  })
+})
+
+describe('parseManualBreaks', () => {
+  it('sorts and dedupes the entered values', () => {
+    expect(parseManualBreaks('30, 10; 20 10')).toEqual([10, 20, 30])
+  })
+
+  it('rejects the whole input when a value is not a number', () => {
+    expect(parseManualBreaks('10, abc')).toEqual([])
+  })
+})
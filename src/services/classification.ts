@@ -0,0 +1,153 @@
+import type { ClassificationScheme } from '../types/demographics'
+
+export const CLASSIFICATION_SCHEMES: ClassificationScheme[] = ['quantile', 'equalInterval', 'jenks', 'standardDeviation', 'manual']
+
+// Returns class boundaries [min, b1, ..., max]; class i covers [boundaries[i], boundaries[i + 1]).
+export function computeClassBreaks(
+  values: number[],
+  scheme: ClassificationScheme,
+  classCount: number,
+  manualBreaks: number[] = [],
+): number[] {
+  const sorted = values.filter((value) => Number.isFinite(value)).sort((a, b) => a - b)
+  if (sorted.length === 0) {
+    return []
+  }
+
+  return dedupeBreaks(getSchemeBreaks(sorted, scheme, classCount, manualBreaks))
+}
+
+function getSchemeBreaks(sorted: number[], scheme: ClassificationScheme, classCount: number, manualBreaks: number[]): number[] {
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+
+  switch (scheme) {
+    case 'quantile':
+      return [min, ...Array.from({ length: classCount - 1 }, (_, index) => quantileSorted(sorted, (index + 1) / classCount)), max]
+    case 'equalInterval': {
+      const step = (max - min) / classCount
+      return [min, ...Array.from({ length: classCount - 1 }, (_, index) => min + step * (index + 1)), max]
+    }
+    case 'jenks':
+      return computeJenksBreaks(sorted, classCount)
+    case 'standardDeviation':
+      return computeStandardDeviationBreaks(sorted, classCount)
+    case 'manual':
+      return [min, ...manualBreaks.filter((value) => value > min && value < max), max]
+  }
+}
+
+// Index of the class a value falls into, matching d3's scaleThreshold over the inner breaks.
+export function getClassIndex(value: number, breaks: number[]): number {
+  let classIndex = 0
+  for (let index = 1; index < breaks.length - 1; index += 1) {
+    if (value >= breaks[index]) {
+      classIndex = index
+    }
+  }
+  return classIndex
+}
+
+export function parseManualBreaks(input: string): number[] {
+  const values = input
+    .split(/[,;\s]+/)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 0)
+    .map(Number)
+
+  if (values.some((value) => !Number.isFinite(value))) {
+    return []
+  }
+
+  return [...new Set(values)].sort((a, b) => a - b)
+}
+
+// Skewed or tied values make quantile and standard-deviation breaks coincide; repeated breaks would render as
+// empty "x – x" legend rows, so only strictly increasing ones are kept. A constant column keeps its [min, max] pair.
+function dedupeBreaks(breaks: number[]): number[] {
+  const unique = breaks.filter((value, index) => index === 0 || value > breaks[index - 1])
+  return unique.length === 1 ? [unique[0], unique[0]] : unique
+}
+
+// Same R-7 interpolation as d3's quantile scale, so the default legend matches the previous one.
+function quantileSorted(sorted: number[], probability: number): number {
+  const position = (sorted.length - 1) * probability
+  const lowerIndex = Math.floor(position)
+  const lower = sorted[lowerIndex]
+  const upper = sorted[Math.min(lowerIndex + 1, sorted.length - 1)]
+  return lower + (upper - lower) * (position - lowerIndex)
+}
+
+function computeStandardDeviationBreaks(sorted: number[], classCount: number): number[] {
+  const mean = sorted.reduce((sum, value) => sum + value, 0) / sorted.length
+  const variance = sorted.reduce((sum, value) => sum + (value - mean) ** 2, 0) / sorted.length
+  const deviation = Math.sqrt(variance)
+  const min = sorted[0]
+  const max = sorted[sorted.length - 1]
+
+  // One-sigma wide classes centred on the mean; an odd class count puts the mean in the middle of a class.
+  const inner = Array.from({ length: classCount - 1 }, (_, index) => mean + (index + 1 - classCount / 2) * deviation).map((value) =>
+    Math.min(Math.max(value, min), max),
+  )
+
+  return [min, ...inner, max]
+}
+
+// Fisher-Jenks natural breaks: minimises within-class variance with dynamic programming over the sorted values.
+function computeJenksBreaks(sorted: number[], classCount: number): number[] {
+  const count = sorted.length
+  const classes = Math.min(classCount, count)
+  if (classes < 2) {
+    return [sorted[0], sorted[count - 1]]
+  }
+
+  const lowerClassLimits = Array.from({ length: count + 1 }, () => new Array<number>(classes + 1).fill(0))
+  const varianceCombinations = Array.from({ length: count + 1 }, () => new Array<number>(classes + 1).fill(Infinity))
+
+  for (let classIndex = 1; classIndex <= classes; classIndex += 1) {
+    lowerClassLimits[1][classIndex] = 1
+    varianceCombinations[1][classIndex] = 0
+  }
+
+  for (let upper = 2; upper <= count; upper += 1) {
+    let sum = 0
+    let sumSquares = 0
+    let weight = 0
+    let variance = 0
+
+    for (let offset = 1; offset <= upper; offset += 1) {
+      const lower = upper - offset + 1
+      const value = sorted[lower - 1]
+      weight += 1
+      sum += value
+      sumSquares += value * value
+      variance = sumSquares - (sum * sum) / weight
+
+      if (lower > 1) {
+        for (let classIndex = 2; classIndex <= classes; classIndex += 1) {
+          const candidate = variance + varianceCombinations[lower - 1][classIndex - 1]
+          if (varianceCombinations[upper][classIndex] >= candidate) {
+            lowerClassLimits[upper][classIndex] = lower
+            varianceCombinations[upper][classIndex] = candidate
+          }
+        }
+      }
+    }
+
+    lowerClassLimits[upper][1] = 1
+    varianceCombinations[upper][1] = variance
+  }
+
+  const breaks = new Array<number>(classes + 1)
+  breaks[classes] = sorted[count - 1]
+  breaks[0] = sorted[0]
+
+  let upper = count
+  for (let classIndex = classes; classIndex >= 2; classIndex -= 1) {
+    const lower = lowerClassLimits[upper][classIndex] - 1
+    breaks[classIndex - 1] = sorted[lower]
+    upper = lower
+  }
+
+  return breaks
+}
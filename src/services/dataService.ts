@@ -1,7 +1,29 @@
 import axios from 'axios'
-import * as Papa from 'papaparse'
 import type { Position } from 'geojson'
-import type { CsvRecord, GenericProperties, RegionsGeoJson, RouteFeature, RouteGeometry } from '../types/data'
+import type {
+  AnalyticsColumnStore,
+  AnalyticsColumnTyping,
+  AnalyticsRawStore,
+  BusAnalyticsBuild,
+  BusAnalyticsLoadProgress,
+  BusAnalyticsPreview,
+  BusAnalyticsWorkerIncomingMessage,
+  BusAnalyticsWorkerRequest,
+  BusAnalyticsWorkerSuccessPayload,
+  CheckInUpload,
+  PivotConfig,
+  PivotTable,
+} from '../types/busAnalytics'
+import type { GenericProperties, RegionFeature, RegionsGeoJson, RouteFeature, RouteGeometry } from '../types/data'
+import type {
+  AggregatedRegionLevel,
+  DatasetSchema,
+  RegionDissolveWorkerIncomingMessage,
+  RegionDissolveWorkerRequest,
+  TransitCoverage,
+  TransitStop,
+} from '../types/demographics'
+import { normalizeRouteNumber } from './routeScorecards'
 
 const REGIONS_DATA_PATH = '/data/zone_attributes_synthetic.geojson'
 const LEGACY_REGIONS_DATA_PATH = '/zone_attributes_synthetic%20.geojson'
@@ -16,6 +38,7 @@ const BUS_DETAILS_CACHE_TTL_MS = 90 * 1000
 
 let busListCache: { data: AynaBusSummary[]; expiresAt: number } | null = null
 const busDetailsCache = new Map<number, { data: AynaBusDetails; expiresAt: number }>()
+const dissolvedRegionsCache = new WeakMap<RegionFeature[], Map<string, Promise<RegionFeature[]>>>()
 
 export function clearAynaBusCaches(): void {
   busListCache = null
@@ -33,6 +56,87 @@ export async function loadRegionsGeoJson(): Promise<RegionsGeoJson> {
   return payload
 }
 
+export function loadDissolvedRegions(
+  features: RegionFeature[],
+  level: AggregatedRegionLevel,
+  schema: DatasetSchema,
+): Promise<RegionFeature[]> {
+  return loadCachedAggregation(features, `${level}:${JSON.stringify(schema)}`, { type: 'dissolve', level, features, schema })
+}
+
+// Hex grid re-aggregation shares the dissolve cache, keyed by the source feature array.
+export function loadHexGridRegions(features: RegionFeature[], edgeKm: number, schema: DatasetSchema): Promise<RegionFeature[]> {
+  return loadCachedAggregation(features, `hex:${edgeKm}:${JSON.stringify(schema)}`, { type: 'hexbin', edgeKm, features, schema })
+}
+
+// Aggregations only run in the worker: on the main thread a large dataset would freeze the page, so a worker failure
+// reaches the caller instead. A rejected run is dropped from the cache so a later render can retry it.
+function loadCachedAggregation(
+  features: RegionFeature[],
+  cacheKey: string,
+  request: RegionDissolveWorkerRequest,
+): Promise<RegionFeature[]> {
+  let cachedLevels = dissolvedRegionsCache.get(features)
+  if (!cachedLevels) {
+    cachedLevels = new Map()
+    dissolvedRegionsCache.set(features, cachedLevels)
+  }
+
+  const cached = cachedLevels.get(cacheKey)
+  if (cached) {
+    return cached
+  }
+
+  const levels = cachedLevels
+  const pending = runRegionWorker(request, getWorkerFeatures)
+  levels.set(cacheKey, pending)
+  pending.catch(() => {
+    if (levels.get(cacheKey) === pending) {
+      levels.delete(cacheKey)
+    }
+  })
+  return pending
+}
+
+export function loadTransitCoverage(
+  features: RegionFeature[],
+  stops: TransitStop[],
+  radiusM: number,
+  schema: DatasetSchema,
+): Promise<TransitCoverage> {
+  return runRegionWorker({ type: 'coverage', features, stops, radiusM, schema }, (message) =>
+    message.type === 'coverage-success' ? message.coverage : null,
+  )
+}
+
+function runRegionWorker<T>(
+  request: RegionDissolveWorkerRequest,
+  readResult: (message: RegionDissolveWorkerIncomingMessage) => T | null,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/regionDissolveWorker.ts', import.meta.url), { type: 'module' })
+    worker.onmessage = (event: MessageEvent<RegionDissolveWorkerIncomingMessage>) => {
+      worker.terminate()
+      const result = readResult(event.data)
+      if (result !== null) {
+        resolve(result)
+        return
+      }
+      reject(new Error(event.data.type === 'dissolve-error' ? event.data.message : `Unexpected ${event.data.type} message.`))
+    }
+    worker.onerror = () => {
+      worker.terminate()
+      reject(new Error('Region dissolve worker failed.'))
+    }
+
+    worker.postMessage(request)
+  })
+}
+
+function getWorkerFeatures(message: RegionDissolveWorkerIncomingMessage): RegionFeature[] | null {
+  return message.type === 'dissolve-success' || message.type === 'hexbin-success' ? message.features : null
+}
+
 async function loadFirstAvailableJson(paths: string[]): Promise<Response> {
   for (const path of paths) {
     const response = await fetch(path)
@@ -44,24 +148,95 @@ async function loadFirstAvailableJson(paths: string[]): Promise<Response> {
   throw new Error(`Could not load any JSON resource from: ${paths.join(', ')}`)
 }
 
-export async function loadBusCsv(): Promise<CsvRecord[]> {
-  const response = await fetch(BUS_CSV_PATH)
-  if (!response.ok) {
-    throw new Error(`Could not load ${BUS_CSV_PATH}.`)
-  }
-
-  const csvText = await response.text()
-  const result = Papa.parse<CsvRecord>(csvText, {
-    header: true,
-    skipEmptyLines: true,
-    dynamicTyping: true,
-  })
+export type BusAnalyticsLoadHandlers = {
+  onProgress: (progress: BusAnalyticsLoadProgress) => void
+  onPreview: (preview: BusAnalyticsPreview) => void
+}
+
+// Parsing runs in the analytics worker; aborting the signal terminates it, which also cancels the download.
+// Without an upload the bundled check-in CSV is loaded.
+export function loadBusAnalytics(
+  upload: CheckInUpload | null,
+  handlers: BusAnalyticsLoadHandlers,
+  signal: AbortSignal,
+): Promise<BusAnalyticsWorkerSuccessPayload> {
+  const request: BusAnalyticsWorkerRequest = upload ? { type: 'parse-file', upload } : { type: 'parse-csv', csvUrl: BUS_CSV_PATH }
+  return runBusAnalyticsWorker(request, signal, (message) => (message.type === 'parse-success' ? message.payload : null), handlers)
+}
+
+// Re-types the loaded columns without reading the file again. The raw store is copied to the worker, not transferred,
+// so the page can keep re-typing it.
+export function buildBusAnalytics(
+  raw: AnalyticsRawStore,
+  typings: Record<string, AnalyticsColumnTyping>,
+  signal: AbortSignal,
+): Promise<BusAnalyticsBuild> {
+  return runBusAnalyticsWorker({ type: 'build-store', raw, typings }, signal, (message) =>
+    message.type === 'build-success' ? message.build : null,
+  )
+}
+
+// Only the columns the pivot reads are sent to the worker.
+export function buildPivotTable(
+  store: AnalyticsColumnStore,
+  rowIndexes: Uint32Array | null,
+  config: PivotConfig,
+  signal: AbortSignal,
+): Promise<PivotTable> {
+  const fields = new Set([...config.rows, ...config.columns, ...config.values.map((value) => value.field)])
+  const pivotStore: AnalyticsColumnStore = { ...store, columns: store.columns.filter((column) => fields.has(column.field)) }
+  return runBusAnalyticsWorker({ type: 'pivot', store: pivotStore, rowIndexes, config }, signal, (message) =>
+    message.type === 'pivot-success' ? message.pivot : null,
+  )
+}
+
+function runBusAnalyticsWorker<T>(
+  request: BusAnalyticsWorkerRequest,
+  signal: AbortSignal,
+  readResult: (message: BusAnalyticsWorkerIncomingMessage) => T | null,
+  handlers?: BusAnalyticsLoadHandlers,
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('../workers/busAnalyticsWorker.ts', import.meta.url), { type: 'module' })
+    const cancel = () => {
+      worker.terminate()
+      reject(new DOMException('Bus analytics loading was cancelled.', 'AbortError'))
+    }
+    if (signal.aborted) {
+      cancel()
+      return
+    }
+    signal.addEventListener('abort', cancel, { once: true })
 
-  if (result.errors.length > 0) {
-    throw new Error(`CSV parse error: ${result.errors[0].message}`)
-  }
+    const finish = () => {
+      signal.removeEventListener('abort', cancel)
+      worker.terminate()
+    }
+    worker.onmessage = (event: MessageEvent<BusAnalyticsWorkerIncomingMessage>) => {
+      const message = event.data
+      if (message.type === 'parse-progress') {
+        handlers?.onProgress(message.progress)
+        return
+      }
+      if (message.type === 'parse-preview') {
+        handlers?.onPreview(message.preview)
+        return
+      }
+      finish()
+      const result = readResult(message)
+      if (result !== null) {
+        resolve(result)
+        return
+      }
+      reject(new Error(message.type === 'analytics-error' ? message.message : `Unexpected ${message.type} message.`))
+    }
+    worker.onerror = () => {
+      finish()
+      reject(new Error('Bus analytics worker failed.'))
+    }
 
-  return result.data
+    worker.postMessage(request)
+  })
 }
 
 export async function loadRouteFeatures(endpoint = DEFAULT_ROUTES_ENDPOINT): Promise<RouteFeature[]> {
@@ -79,6 +254,11 @@ export type AynaBusSummary = {
   number: string
 }
 
+export type AynaBusStop = TransitStop & {
+  code: string | null
+  directionTypeId: number | null
+}
+
 export type AynaBusDetails = {
   id: number
   number: string
@@ -86,8 +266,15 @@ export type AynaBusDetails = {
   firstPoint: string | null
   lastPoint: string | null
   tariffStr: string | null
+  // Fare in AZN, from tariff (given in qəpik) or else read from tariffStr.
+  fareAzn: number | null
   durationMinuts: number | null
+  // Route length in km.
+  routLength: number | null
+  workingZoneTypeId: number | null
+  workingZoneType: string | null
   features: RouteFeature[]
+  stops: AynaBusStop[]
   source: 'live-api' | 'snapshot-fallback'
 }
 
@@ -161,6 +348,46 @@ export async function loadAynaBusDetails(
   return mapped
 }
 
+// Details of the AYNA buses whose number matches one of the given check-in routes. Without the live API only the bundled
+// example bus can match.
+export async function loadAynaRouteMetadata(
+  routes: string[],
+  apiBaseUrl?: string,
+): Promise<{ buses: AynaBusDetails[]; source: 'live-api' | 'snapshot-fallback' }> {
+  const wanted = new Set(routes.map(normalizeRouteNumber))
+
+  for (const baseUrl of getApiBaseCandidates(apiBaseUrl)) {
+    const sanitizedBase = sanitizeBaseUrl(baseUrl)
+    try {
+      const busList = await getBusList(sanitizedBase)
+      const busIds = busList
+        .filter((bus) => typeof bus.id === 'number' && wanted.has(normalizeRouteNumber(bus.number ?? String(bus.id))))
+        .map((bus) => bus.id)
+      if (busIds.length === 0) {
+        throw new Error('No check-in route in getBusList response')
+      }
+
+      const detailResponses = await getBusDetailsInBatches(sanitizedBase, busIds, 20)
+      const buses = detailResponses
+        .filter((item): item is PromiseFulfilledResult<BusDetailResponse> => item.status === 'fulfilled')
+        .map((item) => mapBusDetails(item.value, 'live-api'))
+      for (const bus of buses) {
+        busDetailsCache.set(bus.id, { data: bus, expiresAt: Date.now() + BUS_DETAILS_CACHE_TTL_MS })
+      }
+      return { buses, source: 'live-api' }
+    } catch {
+      continue
+    }
+  }
+
+  const response = await fetch(BUS_BY_ID_SNAPSHOT_PATH)
+  const example = response.ok ? mapBusDetails((await response.json()) as BusDetailResponse, 'snapshot-fallback') : null
+  return {
+    buses: example && wanted.has(normalizeRouteNumber(example.number)) ? [example] : [],
+    source: 'snapshot-fallback',
+  }
+}
+
 export async function loadAynaRouteFeatures(apiBaseUrl?: string): Promise<LiveRouteResult> {
   for (const baseUrl of getApiBaseCandidates(apiBaseUrl)) {
     const sanitizedBase = sanitizeBaseUrl(baseUrl)
@@ -231,6 +458,20 @@ type BusRouteItem = {
   flowCoordinates?: FlowPoint[]
 }
 
+type BusStopItem = {
+  stopId?: number
+  stopCode?: string
+  stopName?: string
+  directionTypeId?: number
+  stop?: {
+    id?: number
+    code?: string
+    name?: string
+    latitude?: string | number
+    longitude?: string | number
+  }
+}
+
 type BusDetailResponse = {
   id?: number
   number?: string
@@ -238,8 +479,13 @@ type BusDetailResponse = {
   firstPoint?: string | null
   lastPoint?: string | null
   tariffStr?: string | null
+  tariff?: number | null
   durationMinuts?: number | null
+  routLength?: number | null
+  workingZoneTypeId?: number | null
+  workingZoneType?: { id?: number; name?: string } | null
   routes?: BusRouteItem[]
+  stops?: BusStopItem[]
 }
 
 async function getBusList(baseUrl: string): Promise<BusListItem[]> {
@@ -358,6 +604,13 @@ function mapBusDetailToFeatures(bus: BusDetailResponse): RouteFeature[] {
     .filter((item): item is RouteFeature => item !== null)
 }
 
+// Reads "0.50 AZN" or "0,50 AZN".
+function parseTariffStr(value: string | null | undefined): number | null {
+  const match = value?.match(/\d+(?:[.,]\d+)?/)
+  const fare = match ? Number(match[0].replace(',', '.')) : Number.NaN
+  return Number.isFinite(fare) && fare > 0 ? fare : null
+}
+
 function mapBusDetails(bus: BusDetailResponse, source: 'live-api' | 'snapshot-fallback'): AynaBusDetails {
   const safeId = typeof bus.id === 'number' ? bus.id : -1
   const safeNumber = typeof bus.number === 'string' && bus.number.trim().length > 0 ? bus.number : String(safeId)
@@ -369,12 +622,44 @@ function mapBusDetails(bus: BusDetailResponse, source: 'live-api' | 'snapshot-fa
     firstPoint: typeof bus.firstPoint === 'string' ? bus.firstPoint : null,
     lastPoint: typeof bus.lastPoint === 'string' ? bus.lastPoint : null,
     tariffStr: typeof bus.tariffStr === 'string' ? bus.tariffStr : null,
+    fareAzn: typeof bus.tariff === 'number' && bus.tariff > 0 ? bus.tariff / 100 : parseTariffStr(bus.tariffStr),
     durationMinuts: typeof bus.durationMinuts === 'number' ? bus.durationMinuts : null,
+    routLength: typeof bus.routLength === 'number' && bus.routLength > 0 ? bus.routLength : null,
+    workingZoneTypeId: typeof bus.workingZoneTypeId === 'number' ? bus.workingZoneTypeId : (bus.workingZoneType?.id ?? null),
+    workingZoneType: typeof bus.workingZoneType?.name === 'string' ? bus.workingZoneType.name : null,
     features: mapBusDetailToFeatures(bus),
+    stops: mapBusStops(bus),
     source,
   }
 }
 
+// Stops without a usable position (the API reports 0 / 0 for some) are left out.
+function mapBusStops(bus: BusDetailResponse): AynaBusStop[] {
+  if (!Array.isArray(bus.stops)) {
+    return []
+  }
+
+  return bus.stops.flatMap((item) => {
+    const lat = Number(item.stop?.latitude)
+    const lng = Number(item.stop?.longitude)
+    const id = item.stop?.id ?? item.stopId
+    if (typeof id !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lng) || lat === 0 || lng === 0) {
+      return []
+    }
+
+    return [
+      {
+        id,
+        code: item.stop?.code ?? item.stopCode ?? null,
+        name: item.stop?.name ?? item.stopName ?? String(id),
+        lat,
+        lng,
+        directionTypeId: typeof item.directionTypeId === 'number' ? item.directionTypeId : null,
+      },
+    ]
+  })
+}
+
 function sanitizeBaseUrl(baseUrl: string): string {
   const value = baseUrl.trim()
   if (!value) {
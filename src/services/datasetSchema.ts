@@ -0,0 +1,100 @@
+import type { RegionFeature } from '../types/data'
+import type { DatasetIssue, DatasetMetric, DatasetSchema, DatasetValidationReport, RegionLevel } from '../types/demographics'
+import { getRegionName, readNumericField } from './regionAttributes'
+
+// Schema of the bundled zone_attributes_synthetic dataset.
+export const DEFAULT_DATASET_SCHEMA: DatasetSchema = {
+  metrics: [
+    { key: 'population', field: 'population', label: 'population', unit: 'unitPeople', aggregation: 'sum', decimals: 0 },
+    { key: 'jobs', field: 'tot_jobs', label: 'jobs', unit: 'unitJobs', aggregation: 'sum', decimals: 0 },
+  ],
+  roles: { population: 'population', jobs: 'jobs' },
+  hierarchy: { micro: 'MICRO', meso: 'MESO', macro: 'MACRO' },
+  levelField: null,
+}
+
+// Only used to pre-fill the field mapping dialog for an imported file; the confirmed schema is what the app reads.
+const FIELD_SUGGESTIONS = {
+  population: ['population', 'pop', 'population_total', 'residents'],
+  jobs: ['tot_jobs', 'jobs', 'employment', 'job_count', 'jobs_total'],
+  micro: ['MICRO', 'micro', 'zone_id', 'id', 'fid'],
+  meso: ['MESO', 'meso', 'region_name', 'zone_name'],
+  macro: ['MACRO', 'macro', 'district', 'region_name'],
+  level: ['level', 'region_level', 'zone_level', 'category', 'LEVEL', 'REGION_LEVEL', 'ZONE_LEVEL', 'CATEGORY'],
+}
+
+const MAX_REPORTED_ISSUES = 500
+
+export function suggestDatasetSchema(fields: string[]): DatasetSchema {
+  const available = new Set(fields)
+  const pick = (candidates: string[]) => candidates.find((field) => available.has(field)) ?? null
+  const populationField = pick(FIELD_SUGGESTIONS.population)
+  const jobsField = pick(FIELD_SUGGESTIONS.jobs)
+  const [populationMetric, jobsMetric] = DEFAULT_DATASET_SCHEMA.metrics
+
+  const metrics: DatasetMetric[] = [
+    ...(populationField ? [{ ...populationMetric, field: populationField }] : []),
+    ...(jobsField ? [{ ...jobsMetric, field: jobsField }] : []),
+  ]
+
+  return {
+    metrics,
+    roles: { population: populationField ? 'population' : null, jobs: jobsField ? 'jobs' : null },
+    hierarchy: { micro: pick(FIELD_SUGGESTIONS.micro), meso: pick(FIELD_SUGGESTIONS.meso), macro: pick(FIELD_SUGGESTIONS.macro) },
+    levelField: pick(FIELD_SUGGESTIONS.level),
+  }
+}
+
+export function listPropertyFields(features: RegionFeature[]): string[] {
+  const fields = new Set<string>()
+  for (const feature of features) {
+    for (const key of Object.keys(feature.properties ?? {})) {
+      fields.add(key)
+    }
+  }
+  return [...fields]
+}
+
+// Lists features whose metric values are missing or not numeric, and features without a key at a configured hierarchy level.
+export function validateDataset(features: RegionFeature[], schema: DatasetSchema): DatasetValidationReport {
+  const issues: DatasetIssue[] = []
+  const counts = new Map<string, { missing: number; nonNumeric: number }>()
+  const hierarchyFields = (Object.entries(schema.hierarchy) as Array<[RegionLevel, string | null]>).filter(
+    (entry): entry is [RegionLevel, string] => entry[1] !== null,
+  )
+
+  const record = (feature: RegionFeature, featureIndex: number, field: string, kind: DatasetIssue['kind'], value: unknown) => {
+    const fieldCounts = counts.get(field) ?? { missing: 0, nonNumeric: 0 }
+    fieldCounts[kind] += 1
+    counts.set(field, fieldCounts)
+    if (issues.length < MAX_REPORTED_ISSUES) {
+      issues.push({ featureIndex, featureName: getRegionName(feature.properties, 'micro', schema), field, kind, value })
+    }
+  }
+
+  features.forEach((feature, featureIndex) => {
+    for (const metric of schema.metrics) {
+      const value = feature.properties[metric.field]
+      if (value === null || value === undefined || value === '') {
+        record(feature, featureIndex, metric.field, 'missing', value)
+      } else if (readNumericField(value) === null) {
+        record(feature, featureIndex, metric.field, 'nonNumeric', value)
+      }
+    }
+
+    for (const [, field] of hierarchyFields) {
+      const value = feature.properties[field]
+      if (value === null || value === undefined || String(value).trim().length === 0) {
+        record(feature, featureIndex, field, 'missing', value)
+      }
+    }
+  })
+
+  const checkedFields = [...new Set([...schema.metrics.map((metric) => metric.field), ...hierarchyFields.map(([, field]) => field)])]
+
+  return {
+    featureCount: features.length,
+    fields: checkedFields.map((field) => ({ field, ...(counts.get(field) ?? { missing: 0, nonNumeric: 0 }) })),
+    issues,
+  }
+}
@@ -0,0 +1,208 @@
+import * as Papa from 'papaparse'
+import type { Map as LeafletMap } from 'leaflet'
+import type { RegionFeature } from '../types/data'
+import type { DatasetSchema, RegionLevel } from '../types/demographics'
+import { getRegionName } from './regionAttributes'
+import { getFeatureAreaKm2 } from './regionGeometry'
+
+export type ZoneExportContext = {
+  level: RegionLevel
+  metric: string
+  schema: DatasetSchema
+  getDisplayValue: (feature: RegionFeature) => number
+  getClassIndex: (feature: RegionFeature) => number
+  // Set in bivariate mode, where a zone is classed by population and jobs together instead of one display value.
+  getBivariateCell?: (feature: RegionFeature) => BivariateExportCell
+}
+
+export type BivariateExportCell = {
+  population: number
+  jobs: number
+  populationClass: number
+  jobsClass: number
+}
+
+export type MapImageLegendItem = {
+  color: string
+  label: string
+}
+
+export type MapImageOptions = {
+  title: string
+  subtitle: string
+  legendTitle: string
+  legend: MapImageLegendItem[]
+}
+
+const HEADER_HEIGHT = 68
+const LEGEND_ITEM_WIDTH = 230
+const LEGEND_ROW_HEIGHT = 24
+const PADDING = 16
+
+export function buildZoneGeoJson(features: RegionFeature[], context: ZoneExportContext): string {
+  const collection = {
+    type: 'FeatureCollection',
+    features: features.map((feature) => ({
+      type: 'Feature',
+      geometry: feature.geometry,
+      properties: {
+        ...feature.properties,
+        name: getRegionName(feature.properties, context.level, context.schema),
+        region_level: context.level,
+        ...getClassificationFields(feature, context),
+      },
+    })),
+  }
+
+  return JSON.stringify(collection)
+}
+
+export function buildZoneAttributeCsv(features: RegionFeature[], context: ZoneExportContext): string {
+  const rows = features.map((feature) => ({
+    name: getRegionName(feature.properties, context.level, context.schema),
+    region_level: context.level,
+    ...flattenProperties(feature.properties),
+    area_km2: getFeatureAreaKm2(feature),
+    ...getClassificationFields(feature, context),
+  }))
+
+  const fields: string[] = []
+  const seen = new Set<string>()
+  for (const row of rows) {
+    for (const key of Object.keys(row)) {
+      if (!seen.has(key)) {
+        seen.add(key)
+        fields.push(key)
+      }
+    }
+  }
+
+  return Papa.unparse({ fields, data: rows.map((row) => fields.map((field) => (row as Record<string, unknown>)[field] ?? '')) })
+}
+
+// Composites the loaded tiles and the SVG overlay of the map into a PNG with a title band and a legend below it.
+// Tiles must be requested with crossOrigin, otherwise the canvas is tainted and toBlob rejects.
+export async function renderMapImage(map: LeafletMap, options: MapImageOptions): Promise<Blob> {
+  const container = map.getContainer()
+  const origin = container.getBoundingClientRect()
+  const mapWidth = Math.round(origin.width)
+  const mapHeight = Math.round(origin.height)
+  const legendColumns = Math.max(1, Math.floor((mapWidth - PADDING * 2) / LEGEND_ITEM_WIDTH))
+  const legendRows = Math.ceil(options.legend.length / legendColumns)
+  const legendHeight = PADDING * 2 + 22 + legendRows * LEGEND_ROW_HEIGHT
+  const scale = Math.min(window.devicePixelRatio || 1, 2)
+
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(mapWidth * scale)
+  canvas.height = Math.round((HEADER_HEIGHT + mapHeight + legendHeight) * scale)
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Canvas 2D context is not available')
+  }
+
+  context.scale(scale, scale)
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, mapWidth, HEADER_HEIGHT + mapHeight + legendHeight)
+
+  context.fillStyle = '#1b4699'
+  context.font = '700 20px Manrope, "Noto Sans", sans-serif'
+  context.textBaseline = 'top'
+  context.fillText(options.title, PADDING, 14)
+  context.fillStyle = '#3a5b9f'
+  context.font = '13px Manrope, "Noto Sans", sans-serif'
+  context.fillText(options.subtitle, PADDING, 42)
+
+  context.save()
+  context.beginPath()
+  context.rect(0, HEADER_HEIGHT, mapWidth, mapHeight)
+  context.clip()
+  context.fillStyle = '#eef3ff'
+  context.fillRect(0, HEADER_HEIGHT, mapWidth, mapHeight)
+
+  const tiles = container.querySelectorAll<HTMLImageElement>('.leaflet-tile-pane img.leaflet-tile-loaded')
+  for (const tile of tiles) {
+    const rect = tile.getBoundingClientRect()
+    context.drawImage(tile, rect.left - origin.left, HEADER_HEIGHT + rect.top - origin.top, rect.width, rect.height)
+  }
+
+  // Canvas overlays hold the dot-density layer; document order keeps them stacked as on screen.
+  const overlays = container.querySelectorAll<SVGSVGElement | HTMLCanvasElement>('.leaflet-overlay-pane svg, .leaflet-overlay-pane canvas')
+  for (const overlay of overlays) {
+    const rect = overlay.getBoundingClientRect()
+    const image =
+      overlay instanceof HTMLCanvasElement
+        ? overlay
+        : await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(overlay))}`)
+    context.drawImage(image, rect.left - origin.left, HEADER_HEIGHT + rect.top - origin.top, rect.width, rect.height)
+  }
+  context.restore()
+
+  context.strokeStyle = 'rgba(41, 112, 255, 0.24)'
+  context.strokeRect(0.5, HEADER_HEIGHT + 0.5, mapWidth - 1, mapHeight - 1)
+
+  const legendTop = HEADER_HEIGHT + mapHeight + PADDING
+  context.fillStyle = '#1b4699'
+  context.font = '600 14px Manrope, "Noto Sans", sans-serif'
+  context.fillText(options.legendTitle, PADDING, legendTop)
+  context.font = '12px Manrope, "Noto Sans", sans-serif'
+  options.legend.forEach((item, index) => {
+    const x = PADDING + (index % legendColumns) * LEGEND_ITEM_WIDTH
+    const y = legendTop + 24 + Math.floor(index / legendColumns) * LEGEND_ROW_HEIGHT
+    context.fillStyle = item.color
+    context.fillRect(x, y, 16, 16)
+    context.strokeStyle = 'rgba(27, 70, 153, 0.35)'
+    context.strokeRect(x + 0.5, y + 0.5, 15, 15)
+    context.fillStyle = '#1b4699'
+    context.fillText(item.label, x + 24, y + 2, LEGEND_ITEM_WIDTH - 32)
+  })
+
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Map image could not be encoded'))), 'image/png')
+  })
+}
+
+export function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  link.remove()
+  window.setTimeout(() => URL.revokeObjectURL(url), 0)
+}
+
+function getClassificationFields(feature: RegionFeature, context: ZoneExportContext): Record<string, number | string> {
+  if (context.getBivariateCell) {
+    const cell = context.getBivariateCell(feature)
+    return {
+      metric: context.metric,
+      population: cell.population,
+      jobs: cell.jobs,
+      population_class: cell.populationClass,
+      jobs_class: cell.jobsClass,
+      class_index: context.getClassIndex(feature),
+    }
+  }
+
+  return {
+    metric: context.metric,
+    display_value: context.getDisplayValue(feature),
+    class_index: context.getClassIndex(feature),
+  }
+}
+
+function flattenProperties(properties: Record<string, unknown>): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(properties).map(([key, value]) => [key, value !== null && typeof value === 'object' ? JSON.stringify(value) : value]),
+  )
+}
+
+function loadImage(source: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image()
+    image.onload = () => resolve(image)
+    image.onerror = () => reject(new Error('Map overlay could not be rendered'))
+    image.src = source
+  })
+}
@@ -0,0 +1,4 @@
+// Leaflet tooltips take raw HTML, so attribute values have to be escaped before they are interpolated.
+export function escapeHtml(value: string): string {
+  return value.replaceAll('&', '&amp;').replaceAll('<', '&lt;').replaceAll('>', '&gt;').replaceAll('"', '&quot;').replaceAll("'", '&#039;')
+}
@@ -0,0 +1,118 @@
+import type { AnalyticsColumnStore } from '../types/busAnalytics'
+import { getCellValue } from './analyticsStore'
+import { asNumber, getCheckInColumns, getCheckInRoutes } from './busAnalytics'
+import type { AynaBusDetails } from './dataService'
+import {
+  getRouteFares,
+  PAYMENT_CHANNELS,
+  priceCheckIns,
+  splitCheckIns,
+  type ChannelFares,
+  type FareTable,
+  type PaymentChannel,
+} from './fareTable'
+import { matchRouteBuses } from './routeScorecards'
+
+export type RevenueBreakdown = 'route' | 'operator' | 'day'
+
+export type RevenueGroup = Record<PaymentChannel, number> & {
+  label: string
+  total: number
+}
+
+export type FareRevenue = {
+  total: number
+  byChannel: Record<PaymentChannel, number>
+  passengers: number
+  // Revenue per check-in; null without check-ins.
+  averageFare: number | null
+  // Routes priced with their own AYNA tariff, the rest use the zone fares.
+  routeTariffCount: number
+  groups: RevenueGroup[]
+}
+
+export const REVENUE_BREAKDOWNS: RevenueBreakdown[] = ['route', 'operator', 'day']
+
+// Route and operator charts keep the largest groups; days are all shown in order.
+const MAX_REVENUE_GROUPS = 15
+
+export function estimateFareRevenue(
+  store: AnalyticsColumnStore,
+  rowIndexes: ArrayLike<number> | null,
+  buses: AynaBusDetails[],
+  fareTable: FareTable,
+  breakdown: RevenueBreakdown,
+): FareRevenue {
+  const columns = getCheckInColumns(store)
+  const routeColumn = columns.route
+  const readRoute = (rowIndex: number) => (routeColumn ? String(getCellValue(routeColumn, rowIndex) ?? 'Unknown') : 'Unknown')
+  const readGroup = (rowIndex: number): string | null => {
+    if (breakdown === 'route') {
+      return routeColumn ? readRoute(rowIndex) : null
+    }
+    if (breakdown === 'operator') {
+      return columns.operator ? String(getCellValue(columns.operator, rowIndex) ?? 'Unknown') : null
+    }
+    const time = columns.date ? columns.date.values[rowIndex] : Number.NaN
+    return Number.isNaN(time) ? null : new Date(time).toISOString().slice(0, 10)
+  }
+
+  // Routes are matched to AYNA buses once, and fares looked up once per route rather than per row.
+  const busesByRoute = matchRouteBuses(getCheckInRoutes(store), buses)
+  const faresByRoute = new Map<string, ChannelFares>()
+  let routeTariffCount = 0
+  const getFares = (route: string) => {
+    const cached = faresByRoute.get(route)
+    if (cached) {
+      return cached
+    }
+    const { fares, routeTariff } = getRouteFares(busesByRoute.get(route) ?? null, fareTable)
+    routeTariffCount += routeTariff ? 1 : 0
+    faresByRoute.set(route, fares)
+    return fares
+  }
+
+  const byChannel = createChannelTotals()
+  const groups = new Map<string, RevenueGroup>()
+  let passengers = 0
+  const rowCount = rowIndexes ? rowIndexes.length : store.rowCount
+  for (let position = 0; position < rowCount; position += 1) {
+    const rowIndex = rowIndexes ? rowIndexes[position] : position
+    const smartCard = columns.smartCard ? asNumber(getCellValue(columns.smartCard, rowIndex)) : 0
+    const qr = columns.qr ? asNumber(getCellValue(columns.qr, rowIndex)) : 0
+    const totalCount = columns.totalCount ? asNumber(getCellValue(columns.totalCount, rowIndex)) : smartCard + qr
+    const revenue = priceCheckIns(splitCheckIns(smartCard, qr, totalCount), getFares(readRoute(rowIndex)))
+    passengers += Math.max(totalCount, smartCard + qr)
+
+    const label = readGroup(rowIndex)
+    const group = label === null ? null : (groups.get(label) ?? { label, total: 0, ...createChannelTotals() })
+    for (const channel of PAYMENT_CHANNELS) {
+      byChannel[channel] += revenue[channel]
+      if (group) {
+        group[channel] += revenue[channel]
+        group.total += revenue[channel]
+      }
+    }
+    if (group) {
+      groups.set(group.label, group)
+    }
+  }
+
+  const total = byChannel.smartCard + byChannel.qr + byChannel.other
+  const sortedGroups =
+    breakdown === 'day'
+      ? [...groups.values()].sort((left, right) => left.label.localeCompare(right.label))
+      : [...groups.values()].sort((left, right) => right.total - left.total).slice(0, MAX_REVENUE_GROUPS)
+  return {
+    total,
+    byChannel,
+    passengers,
+    averageFare: passengers > 0 ? total / passengers : null,
+    routeTariffCount,
+    groups: sortedGroups,
+  }
+}
+
+function createChannelTotals(): Record<PaymentChannel, number> {
+  return { smartCard: 0, qr: 0, other: 0 }
+}
@@ -0,0 +1,64 @@
+import type { AynaBusDetails } from './dataService'
+
+export type FareZone = 'city' | 'suburban'
+// Check-ins the file does not split into SmartCard or QR are counted as other, at the SmartCard fare.
+export type PaymentChannel = 'smartCard' | 'qr' | 'other'
+export type ChannelFares = Record<Exclude<PaymentChannel, 'other'>, number>
+
+// Fares in AZN by working zone and payment channel. With useRouteTariffs a route's own AYNA tariff replaces the zone
+// fare for every channel.
+export type FareTable = {
+  zones: Record<FareZone, ChannelFares>
+  useRouteTariffs: boolean
+}
+
+export type RouteFares = {
+  fares: ChannelFares
+  // True when the route's own AYNA tariff set the fares rather than its zone.
+  routeTariff: boolean
+}
+
+export const FARE_ZONES: FareZone[] = ['city', 'suburban']
+export const PAYMENT_CHANNELS: PaymentChannel[] = ['smartCard', 'qr', 'other']
+
+export const DEFAULT_FARE_TABLE: FareTable = {
+  zones: {
+    city: { smartCard: 0.6, qr: 0.6 },
+    suburban: { smartCard: 0.8, qr: 0.8 },
+  },
+  useRouteTariffs: true,
+}
+
+// AYNA names the suburban working zone "Şəhərətrafı" (id 3); everything else is priced as city.
+const SUBURBAN_ZONE_PATTERN = /ətraf|suburb|пригород/i
+const SUBURBAN_ZONE_TYPE_ID = 3
+
+// Shared by the revenue view and the route scorecards, so a route is priced the same on both tabs. A route without
+// an AYNA match is priced at the city fare.
+export function getRouteFares(bus: AynaBusDetails | null, fareTable: FareTable): RouteFares {
+  const routeFare = fareTable.useRouteTariffs ? (bus?.fareAzn ?? null) : null
+  return routeFare !== null
+    ? { fares: { smartCard: routeFare, qr: routeFare }, routeTariff: true }
+    : { fares: fareTable.zones[getFareZone(bus)], routeTariff: false }
+}
+
+export function getFareZone(bus: AynaBusDetails | null): FareZone {
+  if (!bus) {
+    return 'city'
+  }
+  const suburban = bus.workingZoneType ? SUBURBAN_ZONE_PATTERN.test(bus.workingZoneType) : bus.workingZoneTypeId === SUBURBAN_ZONE_TYPE_ID
+  return suburban ? 'suburban' : 'city'
+}
+
+// Check-ins of one row by channel; Total Count beyond SmartCard + QR is the other channel.
+export function splitCheckIns(smartCard: number, qr: number, totalCount: number): Record<PaymentChannel, number> {
+  return { smartCard, qr, other: Math.max(totalCount - smartCard - qr, 0) }
+}
+
+export function priceCheckIns(checkIns: Record<PaymentChannel, number>, fares: ChannelFares): Record<PaymentChannel, number> {
+  return {
+    smartCard: checkIns.smartCard * fares.smartCard,
+    qr: checkIns.qr * fares.qr,
+    other: checkIns.other * fares.smartCard,
+  }
+}
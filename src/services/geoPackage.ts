@@ -0,0 +1,215 @@
+import initSqlJs, { type Database, type SqlValue } from 'sql.js'
+import sqlWasmUrl from 'sql.js/dist/sql-wasm.wasm?url'
+import proj4 from 'proj4'
+import type { Geometry, LineString, Point, Polygon, Position } from 'geojson'
+import type { GenericProperties, RegionFeature, RegionsGeoJson } from '../types/data'
+
+type WkbCursor = {
+  view: DataView
+  offset: number
+  littleEndian: boolean
+}
+
+type GeometryColumn = {
+  tableName: string
+  columnName: string
+  srsId: number
+}
+
+let sqlModule: ReturnType<typeof initSqlJs> | null = null
+
+// Reads the first feature table of a GeoPackage with the WASM SQLite build and returns it as WGS84 GeoJSON.
+export async function readGeoPackage(buffer: ArrayBuffer): Promise<RegionsGeoJson> {
+  if (!sqlModule) {
+    sqlModule = initSqlJs({ locateFile: () => sqlWasmUrl })
+  }
+  const SQL = await sqlModule
+  const database = new SQL.Database(new Uint8Array(buffer))
+
+  try {
+    const geometryColumn = getFirstGeometryColumn(database)
+    const transform = getTransform(database, geometryColumn.srsId)
+    const statement = database.prepare(`SELECT * FROM ${quoteIdentifier(geometryColumn.tableName)}`)
+    const features: RegionFeature[] = []
+
+    try {
+      while (statement.step()) {
+        const row = statement.getAsObject()
+        const blob = row[geometryColumn.columnName]
+        const geometry = blob instanceof Uint8Array ? decodeGeoPackageGeometry(blob) : null
+        if (!geometry) {
+          continue
+        }
+
+        features.push({
+          type: 'Feature',
+          geometry: transform ? transformGeometry(geometry, transform) : geometry,
+          properties: toProperties(row, geometryColumn.columnName),
+        })
+      }
+    } finally {
+      statement.free()
+    }
+
+    return { type: 'FeatureCollection', features }
+  } finally {
+    database.close()
+  }
+}
+
+function getFirstGeometryColumn(database: Database): GeometryColumn {
+  const result = database.exec(
+    `SELECT g.table_name, g.column_name, g.srs_id
+     FROM gpkg_geometry_columns g
+     JOIN gpkg_contents c ON c.table_name = g.table_name
+     WHERE c.data_type = 'features'
+     ORDER BY c.table_name
+     LIMIT 1`,
+  )
+  const row = result[0]?.values[0]
+  if (!row) {
+    throw new Error('GeoPackage does not contain a feature table.')
+  }
+
+  return { tableName: String(row[0]), columnName: String(row[1]), srsId: Number(row[2]) }
+}
+
+function getTransform(database: Database, srsId: number): ((position: Position) => Position) | null {
+  if (srsId === 4326 || srsId <= 0) {
+    return null
+  }
+
+  const result = database.exec('SELECT organization, organization_coordsys_id, definition FROM gpkg_spatial_ref_sys WHERE srs_id = ?', [
+    srsId,
+  ])
+  const row = result[0]?.values[0]
+  const organization = String(row?.[0] ?? '').toUpperCase()
+  const code = Number(row?.[1] ?? srsId)
+  const definition = typeof row?.[2] === 'string' ? row[2] : ''
+  if (organization === 'EPSG' && code === 4326) {
+    return null
+  }
+
+  const source = organization === 'EPSG' && proj4.defs(`EPSG:${code}`) ? `EPSG:${code}` : definition
+  if (!source) {
+    throw new Error(`Unsupported GeoPackage spatial reference system ${srsId}.`)
+  }
+
+  const converter = proj4(source, 'EPSG:4326')
+  return (position) => converter.forward([position[0], position[1]])
+}
+
+// GeoPackage binary: "GP" magic, version, flags, srs id and an optional envelope, followed by standard WKB.
+function decodeGeoPackageGeometry(blob: Uint8Array): Geometry | null {
+  const view = new DataView(blob.buffer, blob.byteOffset, blob.byteLength)
+  if (view.getUint8(0) !== 0x47 || view.getUint8(1) !== 0x50) {
+    throw new Error('Invalid GeoPackage geometry header.')
+  }
+
+  const flags = view.getUint8(3)
+  const isEmpty = (flags & 0x10) !== 0
+  if (isEmpty) {
+    return null
+  }
+
+  const envelopeSizes = [0, 32, 48, 48, 64]
+  const envelopeSize = envelopeSizes[(flags >> 1) & 0x07] ?? 0
+  return readWkbGeometry({ view, offset: 8 + envelopeSize, littleEndian: true })
+}
+
+function readWkbGeometry(cursor: WkbCursor): Geometry {
+  cursor.littleEndian = cursor.view.getUint8(cursor.offset) === 1
+  cursor.offset += 1
+
+  const rawType = readUint32(cursor)
+  const isoDimensions = Math.floor((rawType & 0xffff) / 1000)
+  const hasZ = (rawType & 0x80000000) !== 0 || isoDimensions === 1 || isoDimensions === 3
+  const hasM = (rawType & 0x40000000) !== 0 || isoDimensions === 2 || isoDimensions === 3
+  const dimensions = 2 + (hasZ ? 1 : 0) + (hasM ? 1 : 0)
+
+  switch ((rawType & 0xffff) % 1000) {
+    case 1:
+      return { type: 'Point', coordinates: readPosition(cursor, dimensions) }
+    case 2:
+      return { type: 'LineString', coordinates: readPositions(cursor, dimensions) }
+    case 3:
+      return { type: 'Polygon', coordinates: readRings(cursor, dimensions) }
+    case 4:
+      return { type: 'MultiPoint', coordinates: readChildren(cursor).map((child) => (child as Point).coordinates) }
+    case 5:
+      return { type: 'MultiLineString', coordinates: readChildren(cursor).map((child) => (child as LineString).coordinates) }
+    case 6:
+      return { type: 'MultiPolygon', coordinates: readChildren(cursor).map((child) => (child as Polygon).coordinates) }
+    case 7:
+      return { type: 'GeometryCollection', geometries: readChildren(cursor) }
+    default:
+      throw new Error(`Unsupported WKB geometry type ${rawType}.`)
+  }
+}
+
+function readChildren(cursor: WkbCursor): Geometry[] {
+  const count = readUint32(cursor)
+  return Array.from({ length: count }, () => readWkbGeometry(cursor))
+}
+
+function readRings(cursor: WkbCursor, dimensions: number): Position[][] {
+  const count = readUint32(cursor)
+  return Array.from({ length: count }, () => readPositions(cursor, dimensions))
+}
+
+function readPositions(cursor: WkbCursor, dimensions: number): Position[] {
+  const count = readUint32(cursor)
+  return Array.from({ length: count }, () => readPosition(cursor, dimensions))
+}
+
+function readPosition(cursor: WkbCursor, dimensions: number): Position {
+  const x = readDouble(cursor)
+  const y = readDouble(cursor)
+  // Z and M are skipped; the map only draws 2D shapes.
+  cursor.offset += (dimensions - 2) * 8
+  return [x, y]
+}
+
+function readUint32(cursor: WkbCursor): number {
+  const value = cursor.view.getUint32(cursor.offset, cursor.littleEndian)
+  cursor.offset += 4
+  return value
+}
+
+function readDouble(cursor: WkbCursor): number {
+  const value = cursor.view.getFloat64(cursor.offset, cursor.littleEndian)
+  cursor.offset += 8
+  return value
+}
+
+function transformGeometry(geometry: Geometry, transform: (position: Position) => Position): Geometry {
+  switch (geometry.type) {
+    case 'Point':
+      return { ...geometry, coordinates: transform(geometry.coordinates) }
+    case 'MultiPoint':
+    case 'LineString':
+      return { ...geometry, coordinates: geometry.coordinates.map(transform) }
+    case 'MultiLineString':
+    case 'Polygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((line) => line.map(transform)) }
+    case 'MultiPolygon':
+      return { ...geometry, coordinates: geometry.coordinates.map((polygon) => polygon.map((ring) => ring.map(transform))) }
+    case 'GeometryCollection':
+      return { ...geometry, geometries: geometry.geometries.map((child) => transformGeometry(child, transform)) }
+  }
+}
+
+function toProperties(row: Record<string, SqlValue>, geometryColumn: string): GenericProperties {
+  const properties: GenericProperties = {}
+  for (const [key, value] of Object.entries(row)) {
+    if (key === geometryColumn || value instanceof Uint8Array) {
+      continue
+    }
+    properties[key] = value
+  }
+  return properties
+}
+
+function quoteIdentifier(name: string): string {
+  return `"${name.replaceAll('"', '""')}"`
+}
@@ -0,0 +1,124 @@
+import type { Position } from 'geojson'
+import type { RegionFeature } from '../types/data'
+import type { DatasetSchema, MetricRole } from '../types/demographics'
+import { getRoleValue } from './regionAttributes'
+import { isPointInRing } from './regionGeometry'
+
+export type DotPoint = {
+  role: MetricRole
+  lat: number
+  lng: number
+}
+
+export type DotDensityResult = {
+  points: DotPoint[]
+  // Value one dot stands for; raised above the requested value when the layer would exceed MAX_DOTS.
+  dotValue: number
+}
+
+export const DOT_VALUE_OPTIONS = [100, 250, 500, 1000, 2500, 5000]
+export const DOT_COLORS: Record<MetricRole, string> = { population: '#1570ef', jobs: '#f04438' }
+export const MAX_SYMBOL_RADIUS = 28
+
+const DOT_ROLES: MetricRole[] = ['population', 'jobs']
+const MAX_DOTS = 60000
+const MAX_ATTEMPTS_PER_DOT = 40
+const DOT_SEED = 20240611
+
+// Dots are placed by rejection sampling inside each polygon with a seeded generator, so the pattern is stable
+// between renders. Fractional dot counts are rounded stochastically to keep the totals unbiased.
+export function generateDotDensity(features: RegionFeature[], schema: DatasetSchema, requestedDotValue: number): DotDensityResult {
+  const roles = DOT_ROLES.filter((role) => schema.roles[role] !== null)
+  let total = 0
+  for (const feature of features) {
+    for (const role of roles) {
+      total += Math.max(getRoleValue(feature.properties, role, schema), 0)
+    }
+  }
+
+  const dotValue = Math.max(requestedDotValue, Math.ceil(total / MAX_DOTS))
+  const random = createRandom(DOT_SEED)
+  const points: DotPoint[] = []
+
+  for (const feature of features) {
+    const polygons = getPolygons(feature)
+    const bounds = getBounds(polygons)
+    if (!bounds) {
+      continue
+    }
+
+    for (const role of roles) {
+      const expected = Math.max(getRoleValue(feature.properties, role, schema), 0) / dotValue
+      const count = Math.floor(expected) + (random() < expected - Math.floor(expected) ? 1 : 0)
+      for (let dot = 0; dot < count; dot += 1) {
+        const point = samplePoint(polygons, bounds, random)
+        if (point) {
+          points.push({ role, lng: point[0], lat: point[1] })
+        }
+      }
+    }
+  }
+
+  // Shuffled so neither colour is consistently drawn on top of the other.
+  for (let index = points.length - 1; index > 0; index -= 1) {
+    const swap = Math.floor(random() * (index + 1))
+    ;[points[index], points[swap]] = [points[swap], points[index]]
+  }
+
+  return { points, dotValue }
+}
+
+// Circle area, not radius, is proportional to the value.
+export function getSymbolRadius(value: number, maxValue: number): number {
+  if (value <= 0 || maxValue <= 0) {
+    return 0
+  }
+  return Math.max(Math.sqrt(value / maxValue) * MAX_SYMBOL_RADIUS, 2)
+}
+
+function getPolygons(feature: RegionFeature): Position[][][] {
+  const geometry = feature.geometry
+  return geometry?.type === 'Polygon' ? [geometry.coordinates] : geometry?.type === 'MultiPolygon' ? geometry.coordinates : []
+}
+
+function getBounds(polygons: Position[][][]): [number, number, number, number] | null {
+  let west = Infinity
+  let south = Infinity
+  let east = -Infinity
+  let north = -Infinity
+  for (const [outerRing] of polygons) {
+    for (const [lng, lat] of outerRing ?? []) {
+      west = Math.min(west, lng)
+      south = Math.min(south, lat)
+      east = Math.max(east, lng)
+      north = Math.max(north, lat)
+    }
+  }
+  return Number.isFinite(west) ? [west, south, east, north] : null
+}
+
+function samplePoint(polygons: Position[][][], [west, south, east, north]: [number, number, number, number], random: () => number) {
+  for (let attempt = 0; attempt < MAX_ATTEMPTS_PER_DOT; attempt += 1) {
+    const point: Position = [west + random() * (east - west), south + random() * (north - south)]
+    const inside = polygons.some(
+      ([outerRing, ...holes]) =>
+        outerRing !== undefined && isPointInRing(point, outerRing) && !holes.some((hole) => isPointInRing(point, hole)),
+    )
+    if (inside) {
+      return point
+    }
+  }
+  return null
+}
+
+// mulberry32
+function createRandom(seed: number): () => number {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let value = state
+    value = Math.imul(value ^ (value >>> 15), value | 1)
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61)
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import { computePivotTable } from './pivotTable'
+import type { AnalyticsColumn, AnalyticsColumnStore } from '../types/busAnalytics'
+
+// Code 0 is the empty cell, as in the stores the worker builds.
+function textColumn(field: string, values: string[]): AnalyticsColumn {
+  const dictionary = ['']
+  const codes = values.map((value) => {
+    const index = dictionary.indexOf(value)
+    return index >= 0 ? index : dictionary.push(value) - 1
+  })
+  return { field, kind: 'text', codes: new Uint32Array(codes), dictionary }
+}
+
+function numberColumn(field: string, values: number[]): AnalyticsColumn {
+  return { field, kind: 'number', values: new Float64Array(values) }
+}
+
+const store: AnalyticsColumnStore = {
+  rowCount: 5,
+  columns: [
+    textColumn('Operator', ['B', 'A', 'A', 'A', 'B']),
+    textColumn('Route', ['3', '1', '2', '1', '3']),
+    textColumn('Day', ['Mon', 'Mon', 'Tue', 'Tue', 'Tue']),
+    numberColumn('Count', [4, 10, 7, 5, Number.NaN]),
+  ],
+}
+
+describe('computePivotTable', () => {
+  it('closes each outer group with a subtotal and ends with the grand total', () => {
+    const pivot = computePivotTable(store, null, {
+      rows: ['Operator', 'Route'],
+      columns: [],
+      values: [{ field: 'Count', aggregation: 'sum' }],
+    })
+
+    expect(pivot.rows).toEqual([
+      { kind: 'row', keys: ['A', '1'], cells: [15] },
+      { kind: 'row', keys: ['A', '2'], cells: [7] },
+      { kind: 'subtotal', keys: ['A'], cells: [22] },
+      { kind: 'row', keys: ['B', '3'], cells: [4] },
+      { kind: 'subtotal', keys: ['B'], cells: [4] },
+      { kind: 'total', keys: [], cells: [26] },
+    ])
+  })
+
+  it('aggregates subtotals per column and in the row total', () => {
+    const pivot = computePivotTable(store, null, {
+      rows: ['Operator', 'Route'],
+      columns: ['Day'],
+      values: [
+        { field: 'Count', aggregation: 'mean' },
+        { field: 'Count', aggregation: 'count' },
+      ],
+    })
+
+    expect(pivot.columnKeys).toEqual([['Mon'], ['Tue']])
+    const subtotalA = pivot.rows.find((row) => row.kind === 'subtotal' && row.keys[0] === 'A')
+    // Mon: 10; Tue: 7 and 5; total: 10, 7 and 5.
+    expect(subtotalA?.cells).toEqual([10, 1, 6, 2, 22 / 3, 3])
+    // The empty Count cell of B on Tuesday is skipped by both aggregations.
+    const subtotalB = pivot.rows.find((row) => row.kind === 'subtotal' && row.keys[0] === 'B')
+    expect(subtotalB?.cells).toEqual([4, 1, null, 0, 4, 1])
+    expect(pivot.rows.at(-1)?.cells).toEqual([7, 2, 6, 2, 6.5, 4])
+  })
+
+  it('only counts the filtered rows', () => {
+    const pivot = computePivotTable(store, new Uint32Array([1, 3]), {
+      rows: ['Operator'],
+      columns: [],
+      values: [{ field: 'Count', aggregation: 'sum' }],
+    })
+
+    expect(pivot.rows).toEqual([
+      { kind: 'row', keys: ['A'], cells: [15] },
+      { kind: 'total', keys: [], cells: [15] },
+    ])
+  })
+})
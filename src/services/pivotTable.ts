@@ -0,0 +1,254 @@
+import * as Papa from 'papaparse'
+import type { AnalyticsColumn, AnalyticsColumnStore, PivotAggregation, PivotConfig, PivotRow, PivotTable } from '../types/busAnalytics'
+import { formatDateValue } from './analyticsSchema'
+
+type Accumulator = {
+  sum: number
+  count: number
+  min: number
+  max: number
+}
+
+type KeyReader = {
+  read: (rowIndex: number) => string
+  compare: (left: string, right: string) => number
+}
+
+type ValueReader = (rowIndex: number) => number
+
+export type PivotChartData = {
+  data: Array<Record<string, string | number>>
+  series: string[]
+}
+
+export const PIVOT_AGGREGATIONS: PivotAggregation[] = ['sum', 'mean', 'count', 'min', 'max']
+
+// A wide pivot stops being readable long before this; the hidden columns still count towards the row totals.
+const MAX_PIVOT_COLUMNS = 60
+const MAX_CHART_ROWS = 30
+const KEY_SEPARATOR = '\u001f'
+const TOTAL_COLUMN_KEY = '\u001e'
+const COLUMN_KEY_PREFIX = '\u001d'
+
+// Every row is added to its leaf group and to each enclosing subtotal group, for its column and for the row total, so
+// one pass over the rows fills every cell. Counts need no numeric column; other aggregations skip empty cells.
+export function computePivotTable(store: AnalyticsColumnStore, rowIndexes: ArrayLike<number> | null, config: PivotConfig): PivotTable {
+  const rowReaders = config.rows.map((field) => createKeyReader(findColumn(store, field)))
+  const columnReaders = config.columns.map((field) => createKeyReader(findColumn(store, field)))
+  const valueReaders = config.values.map((value) => createValueReader(findColumn(store, value.field), value.aggregation))
+  const rowParts = new Map<string, string[]>()
+  const columnParts = new Map<string, string[]>()
+  const accumulators = new Map<string, Accumulator[]>()
+
+  const accumulate = (groupKey: string, rowIndex: number) => {
+    let cell = accumulators.get(groupKey)
+    if (!cell) {
+      cell = valueReaders.map(() => ({ sum: 0, count: 0, min: Number.POSITIVE_INFINITY, max: Number.NEGATIVE_INFINITY }))
+      accumulators.set(groupKey, cell)
+    }
+    valueReaders.forEach((readValue, index) => {
+      const value = readValue(rowIndex)
+      if (Number.isNaN(value)) {
+        return
+      }
+      const accumulator = cell[index]
+      accumulator.sum += value
+      accumulator.count += 1
+      accumulator.min = Math.min(accumulator.min, value)
+      accumulator.max = Math.max(accumulator.max, value)
+    })
+  }
+
+  const rowCount = rowIndexes ? rowIndexes.length : store.rowCount
+  for (let position = 0; position < rowCount; position += 1) {
+    const rowIndex = rowIndexes ? rowIndexes[position] : position
+    const keys = rowReaders.map((reader) => reader.read(rowIndex))
+    const columnKeys = columnReaders.map((reader) => reader.read(rowIndex))
+    const leafKey = keys.join(KEY_SEPARATOR)
+    const columnKey = columnKeys.join(KEY_SEPARATOR)
+    if (!rowParts.has(leafKey)) {
+      rowParts.set(leafKey, keys)
+    }
+    if (columnReaders.length > 0 && !columnParts.has(columnKey)) {
+      columnParts.set(columnKey, columnKeys)
+    }
+
+    for (let level = 0; level <= keys.length; level += 1) {
+      const groupKey = getGroupKey(keys, level)
+      accumulate(`${groupKey}${TOTAL_COLUMN_KEY}`, rowIndex)
+      if (columnReaders.length > 0) {
+        accumulate(`${groupKey}${COLUMN_KEY_PREFIX}${columnKey}`, rowIndex)
+      }
+    }
+  }
+
+  const sortedColumns = sortKeyParts([...columnParts.values()], columnReaders)
+  const visibleColumns = sortedColumns.slice(0, MAX_PIVOT_COLUMNS)
+  const columnKeyStrings = visibleColumns.map((parts) => parts.join(KEY_SEPARATOR))
+  const readCells = (groupKey: string): (number | null)[] => {
+    const cells: (number | null)[] = []
+    for (const columnKey of columnKeyStrings) {
+      const cell = accumulators.get(`${groupKey}${COLUMN_KEY_PREFIX}${columnKey}`)
+      config.values.forEach((value, index) => cells.push(cell ? finishAggregate(cell[index], value.aggregation) : null))
+    }
+    const total = accumulators.get(`${groupKey}${TOTAL_COLUMN_KEY}`)
+    config.values.forEach((value, index) => cells.push(total ? finishAggregate(total[index], value.aggregation) : null))
+    return cells
+  }
+
+  const rows: PivotRow[] = []
+  const closeGroups = (keys: string[], fromLevel: number) => {
+    for (let level = config.rows.length - 1; level >= fromLevel; level -= 1) {
+      rows.push({ kind: 'subtotal', keys: keys.slice(0, level), cells: readCells(getGroupKey(keys, level)) })
+    }
+  }
+
+  // Without row fields the only group is the grand total.
+  const leafKeys = config.rows.length > 0 ? sortKeyParts([...rowParts.values()], rowReaders) : []
+  let previous: string[] | null = null
+  for (const keys of leafKeys) {
+    if (previous) {
+      const changedAt = keys.findIndex((key, index) => key !== previous?.[index])
+      closeGroups(previous, Math.max(changedAt + 1, 1))
+    }
+    rows.push({ kind: 'row', keys, cells: readCells(getGroupKey(keys, keys.length)) })
+    previous = keys
+  }
+  if (previous) {
+    closeGroups(previous, 1)
+  }
+  rows.push({ kind: 'total', keys: [], cells: readCells(getGroupKey([], 0)) })
+
+  return { config, columnKeys: visibleColumns, rows, truncatedColumns: sortedColumns.length > visibleColumns.length }
+}
+
+// Drops fields the store no longer has and falls back to counts for fields that are no longer numeric, so a config restored
+// from the URL or kept across a re-typing still runs.
+export function fitPivotConfig(config: PivotConfig, store: AnalyticsColumnStore): PivotConfig {
+  const kinds = new Map(store.columns.map((column) => [column.field, column.kind]))
+  return {
+    rows: config.rows.filter((field) => kinds.has(field)),
+    columns: config.columns.filter((field) => kinds.has(field)),
+    values: config.values
+      .filter((value) => kinds.has(value.field))
+      .map((value) => (kinds.get(value.field) === 'number' ? value : { field: value.field, aggregation: 'count' })),
+  }
+}
+
+// Labels are passed in so the export reads in the page's language.
+export function buildPivotCsv(pivot: PivotTable, labels: { total: string; subtotal: string; valueLabels: string[] }): string {
+  const { config } = pivot
+  const getRowLabel = (row: PivotRow) => (row.kind === 'total' ? labels.total : row.kind === 'subtotal' ? labels.subtotal : '')
+  const valueHeaders = (columnLabel: string) =>
+    labels.valueLabels.map((valueLabel) => (columnLabel ? `${columnLabel} · ${valueLabel}` : valueLabel))
+  const fields = [
+    ...config.rows,
+    ...pivot.columnKeys.flatMap((keys) => valueHeaders(keys.join(' / '))),
+    ...valueHeaders(config.columns.length > 0 ? labels.total : ''),
+  ]
+  const data = pivot.rows.map((row) => [
+    ...config.rows.map((_, index) => (index < row.keys.length ? row.keys[index] : index === row.keys.length ? getRowLabel(row) : '')),
+    ...row.cells.map((cell) => cell ?? ''),
+  ])
+  return Papa.unparse({ fields, data })
+}
+
+// First value field per row, one series per column key, or a single total series without column fields.
+export function getPivotChartData(pivot: PivotTable, totalLabel: string): PivotChartData {
+  const valueCount = pivot.config.values.length
+  const leafRows = pivot.rows.filter((row) => row.kind === 'row').slice(0, MAX_CHART_ROWS)
+  const chartRows = leafRows.length > 0 ? leafRows : pivot.rows.filter((row) => row.kind === 'total')
+  const series = pivot.columnKeys.length > 0 ? pivot.columnKeys.map((keys) => keys.join(' / ')) : [totalLabel]
+
+  const data = chartRows.map((row) => {
+    const point: Record<string, string | number> = { label: row.keys.join(' / ') || totalLabel }
+    series.forEach((name, index) => {
+      point[name] = row.cells[index * valueCount] ?? 0
+    })
+    return point
+  })
+  return { data, series }
+}
+
+function findColumn(store: AnalyticsColumnStore, field: string): AnalyticsColumn {
+  const column = store.columns.find((candidate) => candidate.field === field)
+  if (!column) {
+    throw new Error(`Pivot field "${field}" is not in the data.`)
+  }
+  return column
+}
+
+// Level 0 is the grand total; level n groups by the first n row fields.
+function getGroupKey(keys: string[], level: number): string {
+  return `${level}:${keys.slice(0, level).join(KEY_SEPARATOR)}`
+}
+
+function createKeyReader(column: AnalyticsColumn): KeyReader {
+  if (column.kind === 'text') {
+    const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' })
+    return { read: (rowIndex) => column.dictionary[column.codes[rowIndex]], compare: collator.compare }
+  }
+
+  // Numbers and dates sort by value rather than by their text; empty cells come first.
+  const labels = new Map<number, string>()
+  const order = new Map<string, number>()
+  return {
+    read: (rowIndex) => {
+      const value = column.values[rowIndex]
+      let label = labels.get(value)
+      if (label === undefined) {
+        label = Number.isNaN(value) ? '' : column.kind === 'date' ? formatDateValue(value) : String(value)
+        labels.set(value, label)
+        order.set(label, Number.isNaN(value) ? Number.NEGATIVE_INFINITY : value)
+      }
+      return label
+    },
+    compare: (left, right) => (order.get(left) ?? 0) - (order.get(right) ?? 0),
+  }
+}
+
+// NaN marks a cell the aggregation skips.
+function createValueReader(column: AnalyticsColumn, aggregation: PivotAggregation): ValueReader {
+  if (column.kind === 'number') {
+    return aggregation === 'count'
+      ? (rowIndex) => (Number.isNaN(column.values[rowIndex]) ? Number.NaN : 1)
+      : (rowIndex) => column.values[rowIndex]
+  }
+  if (aggregation !== 'count') {
+    throw new Error(`Pivot field "${column.field}" is not numeric.`)
+  }
+  return column.kind === 'text'
+    ? (rowIndex) => (column.codes[rowIndex] === 0 ? Number.NaN : 1)
+    : (rowIndex) => (Number.isNaN(column.values[rowIndex]) ? Number.NaN : 1)
+}
+
+function finishAggregate(accumulator: Accumulator, aggregation: PivotAggregation): number | null {
+  if (aggregation === 'count') {
+    return accumulator.count
+  }
+  if (accumulator.count === 0) {
+    return null
+  }
+  switch (aggregation) {
+    case 'sum':
+      return accumulator.sum
+    case 'mean':
+      return accumulator.sum / accumulator.count
+    case 'min':
+      return accumulator.min
+    case 'max':
+      return accumulator.max
+  }
+}
+
+function sortKeyParts(parts: string[][], readers: KeyReader[]): string[][] {
+  return parts.sort((left, right) => {
+    for (let index = 0; index < readers.length; index += 1) {
+      const difference = readers[index].compare(left[index], right[index])
+      if (difference !== 0) {
+        return difference
+      }
+    }
+    return 0
+  })
+}
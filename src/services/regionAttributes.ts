@@ -0,0 +1,94 @@
+import type { DatasetSchema, MetricKey, MetricRole, RegionLevel } from '../types/demographics'
+
+// Display-name fallbacks used when the schema's hierarchy field is empty for a feature.
+const NAME_FALLBACK_FIELDS = ['name', 'region_name', 'zone_name', 'district', 'id']
+
+export function getRegionName(properties: Record<string, unknown>, level: RegionLevel, schema: DatasetSchema): string {
+  const hierarchyField = schema.hierarchy[level]
+  const candidates = hierarchyField ? [hierarchyField, ...NAME_FALLBACK_FIELDS] : NAME_FALLBACK_FIELDS
+  for (const key of candidates) {
+    const value = properties[key]
+    if (typeof value === 'string' && value.trim().length > 0) {
+      return value
+    }
+    if (typeof value === 'number' && Number.isFinite(value)) {
+      return String(value)
+    }
+  }
+  return 'Unknown Region'
+}
+
+export function featureMatchesLevel(properties: Record<string, unknown>, selectedLevel: RegionLevel, schema: DatasetSchema): boolean {
+  const level = getFeatureLevel(properties, schema)
+  if (!level) {
+    return true
+  }
+
+  return level === selectedLevel
+}
+
+export function getFeatureLevel(properties: Record<string, unknown>, schema: DatasetSchema): RegionLevel | null {
+  if (!schema.levelField) {
+    return null
+  }
+
+  const value = properties[schema.levelField]
+  if (typeof value === 'string') {
+    const lower = value.toLowerCase()
+    if (lower === 'micro' || lower === 'meso' || lower === 'macro') {
+      return lower
+    }
+  }
+  if (typeof value === 'number') {
+    if (value === 1) {
+      return 'micro'
+    }
+    if (value === 2) {
+      return 'meso'
+    }
+    if (value === 3) {
+      return 'macro'
+    }
+  }
+
+  return null
+}
+
+// Missing and non-numeric values read as 0 here; validateDataset reports them instead of hiding them.
+export function getMetricValue(properties: Record<string, unknown>, metric: MetricKey, schema: DatasetSchema): number {
+  const field = schema.metrics.find((item) => item.key === metric)?.field
+  if (!field) {
+    return 0
+  }
+
+  return readNumericField(properties[field]) ?? 0
+}
+
+export function getRoleValue(properties: Record<string, unknown>, role: MetricRole, schema: DatasetSchema): number {
+  const metric = schema.roles[role]
+  return metric ? getMetricValue(properties, metric, schema) : 0
+}
+
+export function getHierarchyName(properties: Record<string, unknown>, level: RegionLevel, schema: DatasetSchema): string {
+  const field = schema.hierarchy[level]
+  const value = field ? properties[field] : undefined
+  if (typeof value === 'string' && value.trim().length > 0) {
+    return value
+  }
+  if (typeof value === 'number' && Number.isFinite(value)) {
+    return String(value)
+  }
+
+  return '-'
+}
+
+export function readNumericField(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null
+  }
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value)
+    return Number.isFinite(parsed) ? parsed : null
+  }
+  return null
+}
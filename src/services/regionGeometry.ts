@@ -0,0 +1,486 @@
+import polygonClipping, { type MultiPolygon as ClipMultiPolygon, type Pair } from 'polygon-clipping'
+import type { Geometry, Position } from 'geojson'
+import type { GenericProperties, RegionFeature } from '../types/data'
+import type { AggregatedRegionLevel, DatasetSchema, TransitCoverage, TransitStop } from '../types/demographics'
+import { getHierarchyName, getMetricValue, getRoleValue } from './regionAttributes'
+
+const EARTH_RADIUS_M = 6378137
+
+// Neighbouring zones in the source data do not share vertices exactly, which trips up the sweep-line union.
+// Snapping to ~0.1 m removes those slivers without visibly changing the shapes.
+const SNAP_PRECISION = 1e6
+
+// Hex cell edge lengths offered for the grid re-aggregation.
+export const HEX_GRID_EDGE_KM = [0.5, 1, 2, 4]
+
+const KM_PER_DEGREE_LAT = 110.574
+const KM_PER_DEGREE_LON_AT_EQUATOR = 111.32
+const HEX_CORNER_ANGLES = [30, 90, 150, 210, 270, 330].map((degrees) => (degrees * Math.PI) / 180)
+const BUFFER_SEGMENTS = 32
+
+const featureAreaCache = new WeakMap<RegionFeature, number>()
+const featureCentroidCache = new WeakMap<RegionFeature, Position | null>()
+
+type HexCell = {
+  ring: Pair[]
+  sums: number[]
+  weights: number[]
+  zoneCount: number
+  coveredKm2: number
+  mesoOverlap: Map<string, number>
+  macroOverlap: Map<string, number>
+}
+
+type DissolveGroup = {
+  polygons: ClipMultiPolygon[]
+  sums: number[]
+  weights: number[]
+  zoneCount: number
+  areaKm2: number
+  parentMacro: string | null
+}
+
+export function dissolveRegionFeatures(features: RegionFeature[], level: AggregatedRegionLevel, schema: DatasetSchema): RegionFeature[] {
+  const groups = new Map<string, DissolveGroup>()
+  const { metrics } = schema
+
+  for (const feature of features) {
+    const key = getHierarchyName(feature.properties, level, schema)
+    const group = groups.get(key) ?? {
+      polygons: [],
+      sums: metrics.map(() => 0),
+      weights: metrics.map(() => 0),
+      zoneCount: 0,
+      areaKm2: 0,
+      parentMacro: null,
+    }
+    const polygons = toSnappedMultiPolygon(feature.geometry)
+    if (polygons.length > 0) {
+      group.polygons.push(polygons)
+    }
+
+    metrics.forEach((metric, index) => {
+      const value = getMetricValue(feature.properties, metric.key, schema)
+      const weight =
+        metric.aggregation === 'weightedMean' && metric.weightBy ? getMetricValue(feature.properties, metric.weightBy, schema) : 1
+      group.sums[index] += metric.aggregation === 'sum' ? value : value * weight
+      group.weights[index] += weight
+    })
+    group.zoneCount += 1
+    group.areaKm2 += getFeatureAreaKm2(feature)
+    if (level === 'meso' && group.parentMacro === null) {
+      const macro = getHierarchyName(feature.properties, 'macro', schema)
+      group.parentMacro = macro === '-' ? null : macro
+    }
+    groups.set(key, group)
+  }
+
+  return [...groups.entries()]
+    .filter(([, group]) => group.polygons.length > 0)
+    .map(([name, group], index) => {
+      const properties: GenericProperties = { zone_count: group.zoneCount, area_km2: group.areaKm2 }
+      const levelField = schema.hierarchy[level]
+      const macroField = schema.hierarchy.macro
+      if (levelField) {
+        properties[levelField] = name
+      }
+      if (level === 'meso' && macroField) {
+        properties[macroField] = group.parentMacro
+      }
+      // Aggregated values are written back under the source field names, so the same schema reads both levels.
+      metrics.forEach((metric, metricIndex) => {
+        const sum = group.sums[metricIndex]
+        const weight = group.weights[metricIndex]
+        properties[metric.field] = metric.aggregation === 'sum' ? sum : weight > 0 ? sum / weight : 0
+      })
+
+      return {
+        type: 'Feature',
+        id: index + 1,
+        geometry: {
+          type: 'MultiPolygon',
+          coordinates: unionPolygons(group.polygons),
+        },
+        properties,
+      }
+    })
+}
+
+// Pointy-top hexagons laid out in a local equirectangular projection around the data's mid-latitude, so every cell has
+// the same size in km. Each zone is split across the cells it overlaps in proportion to the overlapping area.
+export function buildHexGridFeatures(features: RegionFeature[], edgeKm: number, schema: DatasetSchema): RegionFeature[] {
+  const zones = features
+    .map((feature) => ({ feature, polygons: toSnappedMultiPolygon(feature.geometry), areaKm2: getFeatureAreaKm2(feature) }))
+    .filter((zone) => zone.polygons.length > 0 && zone.areaKm2 > 0)
+  if (zones.length === 0) {
+    return []
+  }
+
+  const { metrics } = schema
+  let minLon = Infinity
+  let minLat = Infinity
+  let maxLat = -Infinity
+  for (const zone of zones) {
+    const [west, south, , north] = getPolygonsBounds(zone.polygons)
+    minLon = Math.min(minLon, west)
+    minLat = Math.min(minLat, south)
+    maxLat = Math.max(maxLat, north)
+  }
+
+  const kmPerDegreeLon = KM_PER_DEGREE_LON_AT_EQUATOR * Math.cos(toRadians((minLat + maxLat) / 2))
+  const columnSpacing = Math.sqrt(3) * edgeKm
+  const rowSpacing = 1.5 * edgeKm
+  const getCellCenter = (row: number, column: number): Pair => [
+    column * columnSpacing + (Math.abs(row) % 2 === 1 ? columnSpacing / 2 : 0),
+    row * rowSpacing,
+  ]
+  const toLonLat = ([x, y]: Pair): Pair => [minLon + x / kmPerDegreeLon, minLat + y / KM_PER_DEGREE_LAT]
+
+  const cells = new Map<string, HexCell>()
+  for (const zone of zones) {
+    const [west, south, east, north] = getPolygonsBounds(zone.polygons)
+    const minX = (west - minLon) * kmPerDegreeLon
+    const maxX = (east - minLon) * kmPerDegreeLon
+    const minY = (south - minLat) * KM_PER_DEGREE_LAT
+    const maxY = (north - minLat) * KM_PER_DEGREE_LAT
+    const properties = zone.feature.properties
+    const values = metrics.map((metric) => getMetricValue(properties, metric.key, schema))
+    const weightValues = metrics.map((metric) => (metric.weightBy ? getMetricValue(properties, metric.weightBy, schema) : 1))
+    const meso = getHierarchyName(properties, 'meso', schema)
+    const macro = getHierarchyName(properties, 'macro', schema)
+
+    for (let row = Math.floor((minY - edgeKm) / rowSpacing); row <= Math.ceil((maxY + edgeKm) / rowSpacing); row += 1) {
+      for (let column = Math.floor((minX - columnSpacing) / columnSpacing); column <= Math.ceil(maxX / columnSpacing); column += 1) {
+        const [centerX, centerY] = getCellCenter(row, column)
+        if (
+          centerX + columnSpacing / 2 < minX ||
+          centerX - columnSpacing / 2 > maxX ||
+          centerY + edgeKm < minY ||
+          centerY - edgeKm > maxY
+        ) {
+          continue
+        }
+
+        const ring = HEX_CORNER_ANGLES.map((angle) => toLonLat([centerX + edgeKm * Math.cos(angle), centerY + edgeKm * Math.sin(angle)]))
+        ring.push(ring[0])
+
+        let overlapKm2 = 0
+        try {
+          const overlap = polygonClipping.intersection(zone.polygons, [[ring]])
+          overlapKm2 = getGeometryAreaKm2({ type: 'MultiPolygon', coordinates: overlap })
+        } catch {
+          continue
+        }
+        if (overlapKm2 <= 0) {
+          continue
+        }
+
+        const id = `${row}_${column}`
+        const cell = cells.get(id) ?? {
+          ring,
+          sums: metrics.map(() => 0),
+          weights: metrics.map(() => 0),
+          zoneCount: 0,
+          coveredKm2: 0,
+          mesoOverlap: new Map<string, number>(),
+          macroOverlap: new Map<string, number>(),
+        }
+        const fraction = Math.min(overlapKm2 / zone.areaKm2, 1)
+        metrics.forEach((metric, index) => {
+          if (metric.aggregation === 'sum') {
+            cell.sums[index] += values[index] * fraction
+            return
+          }
+          // Means are weighted by overlapping area, or by the apportioned share of the weight metric.
+          const weight = metric.aggregation === 'weightedMean' ? weightValues[index] * fraction : overlapKm2
+          cell.sums[index] += values[index] * weight
+          cell.weights[index] += weight
+        })
+        cell.zoneCount += 1
+        cell.coveredKm2 += overlapKm2
+        cell.mesoOverlap.set(meso, (cell.mesoOverlap.get(meso) ?? 0) + overlapKm2)
+        cell.macroOverlap.set(macro, (cell.macroOverlap.get(macro) ?? 0) + overlapKm2)
+        cells.set(id, cell)
+      }
+    }
+  }
+
+  return [...cells.entries()].map(([id, cell], index) => {
+    const hexId = `H${id}`
+    // area_km2 is the zone-covered part of the cell, so densities are not diluted by cells reaching past the data's edge.
+    const properties: GenericProperties = { hex_id: hexId, name: hexId, zone_count: cell.zoneCount, area_km2: cell.coveredKm2 }
+    const { micro: microField, meso: mesoField, macro: macroField } = schema.hierarchy
+    if (microField) {
+      properties[microField] = hexId
+    }
+    if (mesoField) {
+      properties[mesoField] = getLargestOverlap(cell.mesoOverlap)
+    }
+    if (macroField) {
+      properties[macroField] = getLargestOverlap(cell.macroOverlap)
+    }
+    metrics.forEach((metric, metricIndex) => {
+      const sum = cell.sums[metricIndex]
+      const weight = cell.weights[metricIndex]
+      properties[metric.field] = metric.aggregation === 'sum' ? sum : weight > 0 ? sum / weight : 0
+    })
+
+    return {
+      type: 'Feature',
+      id: index + 1,
+      geometry: { type: 'Polygon', coordinates: [cell.ring] },
+      properties,
+    }
+  })
+}
+
+// Stop buffers are unioned first so overlapping walking areas are not counted twice; each zone's population and jobs
+// are then apportioned by the share of its area that falls inside the union.
+export function buildTransitCoverage(
+  features: RegionFeature[],
+  stops: TransitStop[],
+  radiusM: number,
+  schema: DatasetSchema,
+): TransitCoverage {
+  const buffers = stops.length > 0 ? unionPolygons(stops.map((stop) => [[getBufferRing(stop, radiusM)]])) : []
+  const bufferBounds = buffers.map((polygon) => getPolygonsBounds([polygon]))
+
+  const zones = features.map((feature) => {
+    const properties = feature.properties
+    const population = getRoleValue(properties, 'population', schema)
+    const jobs = getRoleValue(properties, 'jobs', schema)
+    const areaKm2 = getFeatureAreaKm2(feature)
+    const polygons = toSnappedMultiPolygon(feature.geometry)
+    const [west, south, east, north] = getPolygonsBounds(polygons)
+    const nearby = buffers.filter((_, index) => {
+      const [bufferWest, bufferSouth, bufferEast, bufferNorth] = bufferBounds[index]
+      return bufferWest <= east && bufferEast >= west && bufferSouth <= north && bufferNorth >= south
+    })
+
+    let coveredKm2 = 0
+    if (nearby.length > 0 && polygons.length > 0) {
+      try {
+        coveredKm2 = getGeometryAreaKm2({ type: 'MultiPolygon', coordinates: polygonClipping.intersection(polygons, nearby) })
+      } catch {
+        coveredKm2 = 0
+      }
+    }
+    const coveredShare = areaKm2 > 0 ? Math.min(coveredKm2 / areaKm2, 1) : 0
+
+    return {
+      key: getHierarchyName(properties, 'micro', schema),
+      meso: getHierarchyName(properties, 'meso', schema),
+      macro: getHierarchyName(properties, 'macro', schema),
+      population,
+      jobs,
+      coveredShare,
+      coveredPopulation: population * coveredShare,
+      coveredJobs: jobs * coveredShare,
+    }
+  })
+
+  return { zones, buffers }
+}
+
+export function getHexCellAreaKm2(edgeKm: number): number {
+  return ((3 * Math.sqrt(3)) / 2) * edgeKm * edgeKm
+}
+
+// Dissolved districts carry the summed area of their zones, so aggregated densities match the micro totals.
+export function getFeatureAreaKm2(feature: RegionFeature): number {
+  const storedArea = feature.properties.area_km2
+  if (typeof storedArea === 'number' && Number.isFinite(storedArea)) {
+    return storedArea
+  }
+
+  const cached = featureAreaCache.get(feature)
+  if (cached !== undefined) {
+    return cached
+  }
+
+  const area = getGeometryAreaKm2(feature.geometry)
+  featureAreaCache.set(feature, area)
+  return area
+}
+
+// Centroid of the largest polygon part, so multi-part zones get a point inside their main body rather than in between.
+export function getFeatureCentroid(feature: RegionFeature): Position | null {
+  if (featureCentroidCache.has(feature)) {
+    return featureCentroidCache.get(feature) ?? null
+  }
+
+  const geometry = feature.geometry
+  const polygons = geometry?.type === 'Polygon' ? [geometry.coordinates] : geometry?.type === 'MultiPolygon' ? geometry.coordinates : []
+
+  let largestRing: Position[] | null = null
+  let largestArea = 0
+  for (const [outerRing] of polygons) {
+    const area = outerRing ? getRingAreaM2(outerRing) : 0
+    if (outerRing && area > largestArea) {
+      largestArea = area
+      largestRing = outerRing
+    }
+  }
+
+  const centroid = largestRing ? getRingCentroid(largestRing) : null
+  featureCentroidCache.set(feature, centroid)
+  return centroid
+}
+
+export function isPointInRing(point: Position, ring: Position[]): boolean {
+  const [x, y] = point
+  let inside = false
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index, index += 1) {
+    const [xi, yi] = ring[index]
+    const [xj, yj] = ring[previous]
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+      inside = !inside
+    }
+  }
+  return inside
+}
+
+function getRingCentroid(ring: Position[]): Position {
+  let twiceArea = 0
+  let x = 0
+  let y = 0
+  for (let index = 0, previous = ring.length - 1; index < ring.length; previous = index, index += 1) {
+    const [x0, y0] = ring[previous]
+    const [x1, y1] = ring[index]
+    const cross = x0 * y1 - x1 * y0
+    twiceArea += cross
+    x += (x0 + x1) * cross
+    y += (y0 + y1) * cross
+  }
+
+  if (twiceArea === 0) {
+    const count = ring.length || 1
+    return [ring.reduce((sum, point) => sum + point[0], 0) / count, ring.reduce((sum, point) => sum + point[1], 0) / count]
+  }
+
+  return [x / (3 * twiceArea), y / (3 * twiceArea)]
+}
+
+function getGeometryAreaKm2(geometry: Geometry | null): number {
+  if (!geometry) {
+    return 0
+  }
+
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.type === 'MultiPolygon' ? geometry.coordinates : []
+
+  let areaM2 = 0
+  for (const [outerRing, ...holes] of polygons) {
+    if (!outerRing) {
+      continue
+    }
+    areaM2 += getRingAreaM2(outerRing) - holes.reduce((sum, hole) => sum + getRingAreaM2(hole), 0)
+  }
+
+  return Math.max(areaM2, 0) / 1_000_000
+}
+
+function getRingAreaM2(ring: Position[]): number {
+  const first = ring[0]
+  const last = ring[ring.length - 1]
+  const points = first && last && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring
+  if (points.length < 3) {
+    return 0
+  }
+
+  let total = 0
+  for (let index = 0; index < points.length; index += 1) {
+    const previous = points[(index - 1 + points.length) % points.length]
+    const next = points[(index + 1) % points.length]
+    total += toRadians(next[0] - previous[0]) * Math.sin(toRadians(points[index][1]))
+  }
+
+  return Math.abs((total * EARTH_RADIUS_M * EARTH_RADIUS_M) / 2)
+}
+
+function getPolygonsBounds(polygons: ClipMultiPolygon): [number, number, number, number] {
+  let west = Infinity
+  let south = Infinity
+  let east = -Infinity
+  let north = -Infinity
+  for (const polygon of polygons) {
+    for (const [lon, lat] of polygon[0] ?? []) {
+      west = Math.min(west, lon)
+      south = Math.min(south, lat)
+      east = Math.max(east, lon)
+      north = Math.max(north, lat)
+    }
+  }
+  return [west, south, east, north]
+}
+
+function getBufferRing(stop: TransitStop, radiusM: number): Pair[] {
+  const latRadius = radiusM / 1000 / KM_PER_DEGREE_LAT
+  const lngRadius = radiusM / 1000 / (KM_PER_DEGREE_LON_AT_EQUATOR * Math.cos(toRadians(stop.lat)))
+  const ring: Pair[] = []
+  for (let segment = 0; segment < BUFFER_SEGMENTS; segment += 1) {
+    const angle = (segment / BUFFER_SEGMENTS) * 2 * Math.PI
+    ring.push([stop.lng + lngRadius * Math.cos(angle), stop.lat + latRadius * Math.sin(angle)])
+  }
+  ring.push(ring[0])
+  return ring
+}
+
+function getLargestOverlap(overlaps: Map<string, number>): string | null {
+  let largest: string | null = null
+  let largestArea = 0
+  for (const [name, area] of overlaps) {
+    if (name !== '-' && area > largestArea) {
+      largest = name
+      largestArea = area
+    }
+  }
+  return largest
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180
+}
+
+function unionPolygons(polygons: ClipMultiPolygon[]): ClipMultiPolygon {
+  if (polygons.length === 1) {
+    return polygons[0]
+  }
+
+  try {
+    const [first, ...rest] = polygons
+    return polygonClipping.union(first, ...rest)
+  } catch {
+    // A group that still cannot be unioned is kept as one multipolygon, so it behaves as a single district.
+    return polygons.flat()
+  }
+}
+
+function toSnappedMultiPolygon(geometry: Geometry | null): ClipMultiPolygon {
+  if (!geometry) {
+    return []
+  }
+
+  const polygons =
+    geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.type === 'MultiPolygon' ? geometry.coordinates : []
+
+  return polygons
+    .map((polygon) => polygon.map(snapRing))
+    .filter((polygon) => polygon.length > 0 && polygon[0].length >= 4)
+    .map((polygon) => polygon.filter((ring) => ring.length >= 4))
+}
+
+function snapRing(ring: Position[]): Pair[] {
+  const snapped: Pair[] = []
+  for (const position of ring) {
+    const point: Pair = [
+      Math.round(position[0] * SNAP_PRECISION) / SNAP_PRECISION,
+      Math.round(position[1] * SNAP_PRECISION) / SNAP_PRECISION,
+    ]
+    const previous = snapped[snapped.length - 1]
+    if (!previous || previous[0] !== point[0] || previous[1] !== point[1]) {
+      snapped.push(point)
+    }
+  }
+  return snapped
+}
@@ -0,0 +1,50 @@
+import type { Feature, FeatureCollection } from 'geojson'
+import type { RegionFeature, RegionsGeoJson } from '../types/data'
+
+export const REGION_FILE_ACCEPT = '.geojson,.json,.zip,.gpkg'
+
+// Parses a dropped zone file in the browser. Shapefile and GeoPackage readers are loaded on demand
+// so the WASM SQLite build only ships to users who actually open a .gpkg.
+export async function readRegionFile(file: File): Promise<RegionsGeoJson> {
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? ''
+
+  switch (extension) {
+    case 'geojson':
+    case 'json':
+      return toRegionCollection(JSON.parse(await file.text()) as FeatureCollection)
+    case 'zip': {
+      const { default: readShapefile } = await import('shpjs')
+      const result = await readShapefile(await file.arrayBuffer())
+      const layers = Array.isArray(result) ? result : [result]
+      const polygonLayer = layers.find((layer) => layer.features.some(isPolygonFeature)) ?? layers[0]
+      return toRegionCollection(polygonLayer)
+    }
+    case 'gpkg': {
+      const { readGeoPackage } = await import('./geoPackage')
+      return toRegionCollection(await readGeoPackage(await file.arrayBuffer()))
+    }
+    default:
+      throw new Error(`Unsupported file type ".${extension}". Use GeoJSON, a zipped Shapefile or a GeoPackage.`)
+  }
+}
+
+function toRegionCollection(collection: FeatureCollection | undefined): RegionsGeoJson {
+  if (!collection || collection.type !== 'FeatureCollection' || !Array.isArray(collection.features)) {
+    throw new Error('File is not a valid GeoJSON FeatureCollection.')
+  }
+
+  const features: RegionFeature[] = collection.features.filter(isPolygonFeature).map((feature) => ({
+    ...feature,
+    properties: feature.properties ?? {},
+  }))
+
+  if (features.length === 0) {
+    throw new Error('File does not contain any polygon features.')
+  }
+
+  return { type: 'FeatureCollection', features }
+}
+
+function isPolygonFeature(feature: Feature): boolean {
+  return feature.geometry?.type === 'Polygon' || feature.geometry?.type === 'MultiPolygon'
+}
@@ -0,0 +1,128 @@
+import type { RegionFeature } from '../types/data'
+import type { DatasetSchema, DerivedMetricKey, HierarchyTotals, MetricKey, RegionLevel, ZoneShare } from '../types/demographics'
+import { featureMatchesLevel, getHierarchyName, getMetricValue, getRoleValue } from './regionAttributes'
+import { getFeatureAreaKm2 } from './regionGeometry'
+
+export type MetricOption = {
+  key: MetricKey
+  label: string
+  unit: string
+}
+
+const DERIVED_METRIC_KEYS: DerivedMetricKey[] = ['populationDensity', 'jobDensity', 'jobsPerResident', 'residentsPerJob']
+
+// Schema metrics first, then the derived metrics whose population/jobs roles are mapped.
+export function getMetricOptions(schema: DatasetSchema): MetricOption[] {
+  const hasPopulation = schema.roles.population !== null
+  const hasJobs = schema.roles.jobs !== null
+  const derivedAvailable: Record<DerivedMetricKey, boolean> = {
+    populationDensity: hasPopulation,
+    jobDensity: hasJobs,
+    jobsPerResident: hasPopulation && hasJobs,
+    residentsPerJob: hasPopulation && hasJobs,
+  }
+
+  return [
+    ...schema.metrics.map((metric) => ({ key: metric.key, label: metric.label, unit: metric.unit })),
+    ...DERIVED_METRIC_KEYS.filter((key) => derivedAvailable[key]).map((key) => ({ key, label: key, unit: '' })),
+  ]
+}
+
+export function getFeatureMetricValue(feature: RegionFeature, metric: MetricKey, schema: DatasetSchema): number {
+  const properties = feature.properties
+
+  switch (metric) {
+    case 'populationDensity':
+      return safeRatio(getRoleValue(properties, 'population', schema), getFeatureAreaKm2(feature))
+    case 'jobDensity':
+      return safeRatio(getRoleValue(properties, 'jobs', schema), getFeatureAreaKm2(feature))
+    case 'jobsPerResident':
+      return safeRatio(getRoleValue(properties, 'jobs', schema), getRoleValue(properties, 'population', schema))
+    case 'residentsPerJob':
+      return safeRatio(getRoleValue(properties, 'population', schema), getRoleValue(properties, 'jobs', schema))
+    default:
+      return getMetricValue(properties, metric, schema)
+  }
+}
+
+export function formatMetricValue(value: number | undefined, metric: MetricKey, schema: DatasetSchema): string {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return '-'
+  }
+
+  const schemaMetric = schema.metrics.find((item) => item.key === metric)
+  const maximumFractionDigits = schemaMetric ? (schemaMetric.decimals ?? 2) : metric.endsWith('Density') ? 1 : 2
+  return value.toLocaleString(undefined, { maximumFractionDigits })
+}
+
+export function computeHierarchyTotals(features: RegionFeature[], schema: DatasetSchema): HierarchyTotals {
+  const totals: HierarchyTotals = {
+    meso: new Map(),
+    macro: new Map(),
+    all: { population: 0, jobs: 0 },
+  }
+
+  for (const feature of features) {
+    if (!featureMatchesLevel(feature.properties, 'micro', schema)) {
+      continue
+    }
+    const population = getRoleValue(feature.properties, 'population', schema)
+    const jobs = getRoleValue(feature.properties, 'jobs', schema)
+    for (const level of ['meso', 'macro'] as const) {
+      const key = getHierarchyName(feature.properties, level, schema)
+      const current = totals[level].get(key) ?? { population: 0, jobs: 0 }
+      current.population += population
+      current.jobs += jobs
+      totals[level].set(key, current)
+    }
+    totals.all.population += population
+    totals.all.jobs += jobs
+  }
+
+  return totals
+}
+
+// Shares of the zone in every parent level above its own, followed by its share of the whole dataset.
+export function getZoneShares(
+  properties: Record<string, unknown>,
+  level: RegionLevel,
+  schema: DatasetSchema,
+  totals: HierarchyTotals,
+): ZoneShare[] {
+  const population = getRoleValue(properties, 'population', schema)
+  const jobs = getRoleValue(properties, 'jobs', schema)
+  const parentLevels: Array<'meso' | 'macro'> = level === 'micro' ? ['meso', 'macro'] : level === 'meso' ? ['macro'] : []
+
+  const shares: ZoneShare[] = parentLevels.map((parentLevel) => {
+    const parentName = getHierarchyName(properties, parentLevel, schema)
+    const parentTotals = totals[parentLevel].get(parentName)
+    return {
+      parentLevel,
+      parentName,
+      populationShare: parentTotals ? safeShare(population, parentTotals.population) : null,
+      jobsShare: parentTotals ? safeShare(jobs, parentTotals.jobs) : null,
+    }
+  })
+  shares.push({
+    parentLevel: 'total',
+    parentName: '',
+    populationShare: safeShare(population, totals.all.population),
+    jobsShare: safeShare(jobs, totals.all.jobs),
+  })
+
+  return shares
+}
+
+export function safeShare(value: number, total: number): number | null {
+  if (total <= 0) {
+    return null
+  }
+  return value / total
+}
+
+function safeRatio(numerator: number, denominator: number): number {
+  if (denominator <= 0) {
+    return 0
+  }
+  return numerator / denominator
+}
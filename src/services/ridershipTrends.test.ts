@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest'
+import { findRidershipAnomalies } from './ridershipTrends'
+import type { DailyRidership } from '../types/busAnalytics'
+
+const MS_PER_DAY = 86400000
+
+// Four weeks from Monday 2024-01-01. Weekends carry half the weekday load and every weekday alternates ±10 around
+// its level, so each weekday's median is the level itself and the median absolute deviation is 10.
+function buildDays(totalFor: (dayIndex: number, level: number, noise: number) => number = (_, level, noise) => level + noise) {
+  return Array.from({ length: 28 }, (_, dayIndex): DailyRidership => {
+    const weekend = dayIndex % 7 >= 5
+    const level = weekend ? 500 : 1000
+    const noise = Math.floor(dayIndex / 7) % 2 === 0 ? 10 : -10
+    return {
+      date: new Date(Date.UTC(2024, 0, 1) + dayIndex * MS_PER_DAY).toISOString().slice(0, 10),
+      total: totalFor(dayIndex, level, noise),
+      byRoute: {},
+      byOperator: {},
+    }
+  })
+}
+
+describe('findRidershipAnomalies', () => {
+  it('does not flag the weekly cycle', () => {
+    expect(findRidershipAnomalies(buildDays())).toEqual([])
+  })
+
+  // With a MAD of 10 the robust scale is 10 / 0.6745, so the 3.5 cut-off sits at a residual of about 51.9.
+  it('flags a day from a modified z-score of 3.5', () => {
+    const below = buildDays((dayIndex, level, noise) => (dayIndex === 0 ? level + 51 : level + noise))
+    expect(findRidershipAnomalies(below)).toEqual([])
+
+    const above = buildDays((dayIndex, level, noise) => (dayIndex === 0 ? level + 52 : level + noise))
+    const anomalies = findRidershipAnomalies(above)
+    expect(anomalies).toHaveLength(1)
+    expect(anomalies[0]).toMatchObject({ date: '2024-01-01', total: 1052, expected: 1000 })
+    expect(anomalies[0].zScore).toBeCloseTo((52 * 0.6745) / 10, 6)
+  })
+
+  it('compares a day with its own weekday', () => {
+    // 1000 riders is an ordinary Monday but a Saturday outlier.
+    const days = buildDays((dayIndex, level, noise) => (dayIndex === 5 ? 1000 : level + noise))
+    expect(findRidershipAnomalies(days).map((anomaly) => anomaly.date)).toEqual(['2024-01-06'])
+  })
+
+  it('falls back to the mean absolute deviation when most days match exactly', () => {
+    const days = buildDays((dayIndex, level) => (dayIndex === 10 ? 0 : level))
+    const anomalies = findRidershipAnomalies(days)
+    expect(anomalies.map((anomaly) => anomaly.date)).toEqual(['2024-01-11'])
+    expect(anomalies[0].zScore).toBeLessThan(0)
+  })
+
+  it('returns nothing for perfectly flat ridership', () => {
+    expect(findRidershipAnomalies(buildDays((_, level) => level))).toEqual([])
+  })
+})
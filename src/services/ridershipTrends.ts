@@ -0,0 +1,160 @@
+import type { DailyRidership } from '../types/busAnalytics'
+
+export type TrendGranularity = 'daily' | 'weekly'
+export type TrendBreakdown = 'total' | 'route' | 'operator'
+
+export type RidershipTrendPoint = {
+  // yyyy-MM-dd of the day, or of the Monday starting the week.
+  date: string
+  total: number
+  // Trailing 7-day mean; null for the first six days and for weeks.
+  movingAverage: number | null
+  weekend: boolean
+  anomaly: boolean
+  groups: Record<string, number>
+}
+
+export type RidershipAnomaly = {
+  date: string
+  total: number
+  // Median of the same weekday, which the day is compared against.
+  expected: number
+  zScore: number
+}
+
+export type RidershipTrends = {
+  points: RidershipTrendPoint[]
+  // Largest groups of the breakdown, in descending order; empty for the total.
+  groups: string[]
+  anomalies: RidershipAnomaly[]
+  weekdayAverage: number | null
+  weekendAverage: number | null
+}
+
+export const TREND_GRANULARITIES: TrendGranularity[] = ['daily', 'weekly']
+export const TREND_BREAKDOWNS: TrendBreakdown[] = ['total', 'route', 'operator']
+
+const MOVING_AVERAGE_DAYS = 7
+const MAX_TREND_GROUPS = 6
+// Iglewicz and Hoaglin's cut-off for the modified z-score.
+const ANOMALY_Z_SCORE = 3.5
+// Scales the median absolute deviation to a standard deviation for normally distributed data.
+const MAD_SCALE = 0.6745
+// Same for the mean absolute deviation, used when more than half of the deviations are zero.
+const MEAN_AD_SCALE = 0.7979
+const MS_PER_DAY = 86400000
+
+export function buildRidershipTrends(daily: DailyRidership[], granularity: TrendGranularity, breakdown: TrendBreakdown): RidershipTrends {
+  const anomalies = findRidershipAnomalies(daily)
+  const anomalyDates = new Set(anomalies.map((anomaly) => anomaly.date))
+  const groups = breakdown === 'total' ? [] : getTopGroups(daily, breakdown)
+  const readGroups = (day: DailyRidership) => pickGroups(breakdown === 'route' ? day.byRoute : day.byOperator, groups)
+
+  const dailyPoints = daily.map((day, index): RidershipTrendPoint => {
+    const window = index + 1 >= MOVING_AVERAGE_DAYS ? daily.slice(index + 1 - MOVING_AVERAGE_DAYS, index + 1) : null
+    return {
+      date: day.date,
+      total: day.total,
+      movingAverage: window ? window.reduce((sum, item) => sum + item.total, 0) / MOVING_AVERAGE_DAYS : null,
+      weekend: isWeekend(day.date),
+      anomaly: anomalyDates.has(day.date),
+      groups: readGroups(day),
+    }
+  })
+
+  const weekdayTotals = daily.filter((day) => !isWeekend(day.date)).map((day) => day.total)
+  const weekendTotals = daily.filter((day) => isWeekend(day.date)).map((day) => day.total)
+  return {
+    points: granularity === 'daily' ? dailyPoints : groupByWeek(dailyPoints),
+    groups,
+    anomalies,
+    weekdayAverage: average(weekdayTotals),
+    weekendAverage: average(weekendTotals),
+  }
+}
+
+// Ridership follows a weekly cycle, so each day is compared with the median of the same weekday; the residuals are then
+// scored with a robust z-score (median absolute deviation), which a few outage days cannot drag along.
+export function findRidershipAnomalies(daily: DailyRidership[]): RidershipAnomaly[] {
+  const totalsByWeekday = new Map<number, number[]>()
+  for (const day of daily) {
+    const totals = totalsByWeekday.get(getWeekday(day.date)) ?? []
+    totals.push(day.total)
+    totalsByWeekday.set(getWeekday(day.date), totals)
+  }
+  const expectedByWeekday = new Map([...totalsByWeekday.entries()].map(([weekday, totals]) => [weekday, median(totals)]))
+
+  const residuals = daily.map((day) => day.total - (expectedByWeekday.get(getWeekday(day.date)) ?? 0))
+  const center = median(residuals)
+  const deviations = residuals.map((residual) => Math.abs(residual - center))
+  const medianDeviation = median(deviations)
+  const meanDeviation = average(deviations) ?? 0
+  const scale = medianDeviation > 0 ? medianDeviation / MAD_SCALE : meanDeviation / MEAN_AD_SCALE
+  if (scale === 0) {
+    return []
+  }
+
+  return daily.flatMap((day, index) => {
+    const zScore = (residuals[index] - center) / scale
+    return Math.abs(zScore) >= ANOMALY_Z_SCORE
+      ? [{ date: day.date, total: day.total, expected: expectedByWeekday.get(getWeekday(day.date)) ?? 0, zScore }]
+      : []
+  })
+}
+
+function getTopGroups(daily: DailyRidership[], breakdown: Exclude<TrendBreakdown, 'total'>): string[] {
+  const totals = new Map<string, number>()
+  for (const day of daily) {
+    for (const [group, value] of Object.entries(breakdown === 'route' ? day.byRoute : day.byOperator)) {
+      totals.set(group, (totals.get(group) ?? 0) + value)
+    }
+  }
+  return [...totals.entries()]
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_TREND_GROUPS)
+    .map(([group]) => group)
+}
+
+function pickGroups(values: Record<string, number>, groups: string[]): Record<string, number> {
+  return Object.fromEntries(groups.map((group) => [group, values[group] ?? 0]))
+}
+
+// Weeks start on Monday; a week is flagged when any of its days is.
+function groupByWeek(points: RidershipTrendPoint[]): RidershipTrendPoint[] {
+  const weeks = new Map<string, RidershipTrendPoint>()
+  for (const point of points) {
+    const time = Date.parse(point.date)
+    const monday = new Date(time - ((getWeekday(point.date) + 6) % 7) * MS_PER_DAY).toISOString().slice(0, 10)
+    const week = weeks.get(monday) ?? { date: monday, total: 0, movingAverage: null, weekend: false, anomaly: false, groups: {} }
+    week.total += point.total
+    week.anomaly = week.anomaly || point.anomaly
+    for (const [group, value] of Object.entries(point.groups)) {
+      week.groups[group] = (week.groups[group] ?? 0) + value
+    }
+    weeks.set(monday, week)
+  }
+  return [...weeks.values()]
+}
+
+// 0 is Sunday, as with Date.getUTCDay.
+function getWeekday(date: string): number {
+  return new Date(Date.parse(date)).getUTCDay()
+}
+
+function isWeekend(date: string): boolean {
+  const weekday = getWeekday(date)
+  return weekday === 0 || weekday === 6
+}
+
+function median(values: number[]): number {
+  if (values.length === 0) {
+    return 0
+  }
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 1 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2
+}
+
+function average(values: number[]): number | null {
+  return values.length === 0 ? null : values.reduce((sum, value) => sum + value, 0) / values.length
+}
@@ -0,0 +1,115 @@
+import type { AnalyticsColumnStore, DailyRidership } from '../types/busAnalytics'
+import { getCellValue } from './analyticsStore'
+import { asNumber, getCheckInColumns } from './busAnalytics'
+import type { AynaBusDetails } from './dataService'
+import { getRouteFares, priceCheckIns, splitCheckIns, type FareTable } from './fareTable'
+
+export type RouteScorecard = {
+  route: string
+  // AYNA bus the route was matched to; null leaves the metadata columns empty.
+  busId: number | null
+  carrier: string | null
+  totalCount: number
+  // Sum of Number Of Busses over the rows, i.e. buses in service per hour.
+  busCount: number
+  passengersPerBus: number | null
+  routeLengthKm: number | null
+  passengersPerKm: number | null
+  durationMinutes: number | null
+  fareAzn: number | null
+  estimatedRevenue: number
+  // Shares of SmartCard and QR check-ins, between 0 and 1.
+  smartCardShare: number | null
+  qrShare: number | null
+  // Total Count per day, for the sparkline.
+  daily: number[]
+}
+
+type RouteTotals = {
+  totalCount: number
+  busCount: number
+  smartCard: number
+  qr: number
+  // Check-ins beyond SmartCard + QR, summed per row as the revenue view does.
+  other: number
+}
+
+// Route numbers are compared without case, surrounding spaces or leading zeros, so "013a" in a CSV matches bus "13A".
+export function normalizeRouteNumber(value: string): string {
+  return value
+    .trim()
+    .toUpperCase()
+    .replace(/^0+(?=\d)/, '')
+}
+
+// One scorecard per check-in route, over the given rows. Revenue uses the fare table of the revenue view.
+export function buildRouteScorecards(
+  store: AnalyticsColumnStore,
+  rowIndexes: ArrayLike<number> | null,
+  daily: DailyRidership[],
+  buses: AynaBusDetails[],
+  fareTable: FareTable,
+): RouteScorecard[] {
+  const columns = getCheckInColumns(store)
+  const routeColumn = columns.route
+  if (!routeColumn) {
+    return []
+  }
+
+  const totalsByRoute = new Map<string, RouteTotals>()
+  const rowCount = rowIndexes ? rowIndexes.length : store.rowCount
+  for (let position = 0; position < rowCount; position += 1) {
+    const rowIndex = rowIndexes ? rowIndexes[position] : position
+    const route = String(getCellValue(routeColumn, rowIndex) ?? 'Unknown')
+    const totals = totalsByRoute.get(route) ?? { totalCount: 0, busCount: 0, smartCard: 0, qr: 0, other: 0 }
+    const smartCard = columns.smartCard ? asNumber(getCellValue(columns.smartCard, rowIndex)) : 0
+    const qr = columns.qr ? asNumber(getCellValue(columns.qr, rowIndex)) : 0
+    const totalCount = columns.totalCount ? asNumber(getCellValue(columns.totalCount, rowIndex)) : 0
+    totals.totalCount += totalCount
+    totals.busCount += columns.busCount ? asNumber(getCellValue(columns.busCount, rowIndex)) : 0
+    totals.smartCard += smartCard
+    totals.qr += qr
+    totals.other += splitCheckIns(smartCard, qr, totalCount).other
+    totalsByRoute.set(route, totals)
+  }
+
+  const busesByNumber = matchRouteBuses([...totalsByRoute.keys()], buses)
+  return [...totalsByRoute.entries()].map(([route, totals]) => {
+    const bus = busesByNumber.get(route) ?? null
+    const payments = totals.smartCard + totals.qr
+    const revenue = priceCheckIns(totals, getRouteFares(bus, fareTable).fares)
+    return {
+      route,
+      busId: bus?.id ?? null,
+      carrier: bus?.carrier ?? null,
+      totalCount: totals.totalCount,
+      busCount: totals.busCount,
+      passengersPerBus: totals.busCount > 0 ? totals.totalCount / totals.busCount : null,
+      routeLengthKm: bus?.routLength ?? null,
+      passengersPerKm: bus?.routLength ? totals.totalCount / bus.routLength : null,
+      durationMinutes: bus?.durationMinuts ?? null,
+      fareAzn: bus?.fareAzn ?? null,
+      estimatedRevenue: revenue.smartCard + revenue.qr + revenue.other,
+      smartCardShare: payments > 0 ? totals.smartCard / payments : null,
+      qrShare: payments > 0 ? totals.qr / payments : null,
+      daily: daily.map((day) => day.byRoute[route] ?? 0),
+    }
+  })
+}
+
+// Keyed by the check-in route; a route without a bus of the same number is left out.
+export function matchRouteBuses(routes: string[], buses: AynaBusDetails[]): Map<string, AynaBusDetails> {
+  const busesByNumber = new Map<string, AynaBusDetails>()
+  for (const bus of buses) {
+    const number = normalizeRouteNumber(bus.number)
+    if (!busesByNumber.has(number)) {
+      busesByNumber.set(number, bus)
+    }
+  }
+  return new Map(
+    routes.flatMap((route) => {
+      const bus = busesByNumber.get(normalizeRouteNumber(route))
+      return bus ? [[route, bus] as const] : []
+    }),
+  )
+}
@@ -0,0 +1,57 @@
+import type { AggregatedRegionLevel, ZoneTransitCoverage } from '../types/demographics'
+import { safeShare } from './regionMetrics'
+
+// Walking radii offered for the stop buffers, in metres.
+export const WALKING_RADIUS_OPTIONS_M = [300, 400, 500, 800, 1000]
+export const DEFAULT_WALKING_RADIUS_M = 400
+
+export type DistrictTransitCoverage = {
+  key: string
+  zoneCount: number
+  population: number
+  jobs: number
+  coveredPopulation: number
+  coveredJobs: number
+  populationShare: number
+  jobsShare: number
+}
+
+// Least-covered districts first, so under-served areas lead the list.
+export function summarizeTransitCoverage(zones: ZoneTransitCoverage[], level: AggregatedRegionLevel): DistrictTransitCoverage[] {
+  const districts = new Map<string, ZoneTransitCoverage[]>()
+  for (const zone of zones) {
+    const district = districts.get(zone[level])
+    if (district) {
+      district.push(zone)
+    } else {
+      districts.set(zone[level], [zone])
+    }
+  }
+
+  return [...districts.entries()]
+    .map(([key, districtZones]) => ({ key, ...getTransitCoverageTotals(districtZones) }))
+    .sort((a, b) => a.populationShare - b.populationShare || a.jobsShare - b.jobsShare || a.key.localeCompare(b.key))
+}
+
+export function getTransitCoverageTotals(zones: ZoneTransitCoverage[]): Omit<DistrictTransitCoverage, 'key'> {
+  let population = 0
+  let jobs = 0
+  let coveredPopulation = 0
+  let coveredJobs = 0
+  for (const zone of zones) {
+    population += zone.population
+    jobs += zone.jobs
+    coveredPopulation += zone.coveredPopulation
+    coveredJobs += zone.coveredJobs
+  }
+
+  return {
+    zoneCount: zones.length,
+    population,
+    jobs,
+    coveredPopulation,
+    coveredJobs,
+    populationShare: safeShare(coveredPopulation, population) ?? 0,
+    jobsShare: safeShare(coveredJobs, jobs) ?? 0,
+  }
+}
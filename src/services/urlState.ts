@@ -0,0 +1,77 @@
+// Readers for view state restored from the query string. Anything missing or malformed falls back to the default,
+// so an old or hand-edited link still opens a valid view.
+export type UrlStateValue = string | number | boolean | null | undefined
+
+export function readStringParam(params: URLSearchParams, key: string): string | null {
+  const value = params.get(key)
+  return value !== null && value.trim().length > 0 ? value : null
+}
+
+export function readEnumParam<T extends string>(params: URLSearchParams, key: string, allowed: readonly T[], fallback: T): T {
+  const value = params.get(key)
+  return allowed.find((option) => option === value) ?? fallback
+}
+
+export function readNumberParam(params: URLSearchParams, key: string): number | null {
+  const value = params.get(key)
+  if (value === null || value.trim().length === 0) {
+    return null
+  }
+  const parsed = Number(value)
+  return Number.isFinite(parsed) ? parsed : null
+}
+
+export function readNumberOptionParam(params: URLSearchParams, key: string, options: readonly number[]): number | null {
+  const value = readNumberParam(params, key)
+  return value !== null && options.includes(value) ? value : null
+}
+
+export function readBooleanParam(params: URLSearchParams, key: string): boolean {
+  return params.get(key) === '1'
+}
+
+export function readNumberListParam(params: URLSearchParams, key: string): number[] {
+  return (params.get(key) ?? '')
+    .split(',')
+    .filter((item) => item.trim().length > 0)
+    .map(Number)
+    .filter((item) => Number.isFinite(item))
+}
+
+// Written as a JSON array, because route and operator names can themselves contain commas.
+export function readStringListParam(params: URLSearchParams, key: string): string[] {
+  return (readJsonParam(params, key, isStringList) ?? []).filter((item) => item.trim().length > 0)
+}
+
+export function readJsonParam<T>(params: URLSearchParams, key: string, isValid: (value: unknown) => value is T): T | null {
+  const value = params.get(key)
+  if (!value) {
+    return null
+  }
+  try {
+    const parsed: unknown = JSON.parse(value)
+    return isValid(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// null, undefined and false are left out, so default views keep a clean URL.
+export function buildUrlStateQuery(state: Record<string, UrlStateValue>): string {
+  const params = new URLSearchParams()
+  for (const [key, value] of Object.entries(state)) {
+    if (value === null || value === undefined || value === false) {
+      continue
+    }
+    params.set(key, value === true ? '1' : String(value))
+  }
+  return params.toString()
+}
+
+export function unlessDefault<T extends UrlStateValue>(value: T, fallback: T): T | null {
+  return value === fallback ? null : value
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string')
+}
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest'
+import { readXlsxRows } from './xlsxReader'
+
+// A zip of uncompressed (stored) entries; the reader does not check CRCs, so they are left at zero.
+function buildStoredZip(files: Record<string, string>): ArrayBuffer {
+  const encoder = new TextEncoder()
+  const localParts: Uint8Array[] = []
+  const centralParts: Uint8Array[] = []
+  let offset = 0
+
+  for (const [name, content] of Object.entries(files)) {
+    const nameBytes = encoder.encode(name)
+    const data = encoder.encode(content)
+    const local = new Uint8Array(30 + nameBytes.length + data.length)
+    const localView = new DataView(local.buffer)
+    localView.setUint32(0, 0x04034b50, true)
+    localView.setUint32(18, data.length, true)
+    localView.setUint32(22, data.length, true)
+    localView.setUint16(26, nameBytes.length, true)
+    local.set(nameBytes, 30)
+    local.set(data, 30 + nameBytes.length)
+
+    const central = new Uint8Array(46 + nameBytes.length)
+    const centralView = new DataView(central.buffer)
+    centralView.setUint32(0, 0x02014b50, true)
+    centralView.setUint32(20, data.length, true)
+    centralView.setUint32(24, data.length, true)
+    centralView.setUint16(28, nameBytes.length, true)
+    centralView.setUint32(42, offset, true)
+    central.set(nameBytes, 46)
+
+    localParts.push(local)
+    centralParts.push(central)
+    offset += local.length
+  }
+
+  const centralSize = centralParts.reduce((size, part) => size + part.length, 0)
+  const end = new Uint8Array(22)
+  const endView = new DataView(end.buffer)
+  endView.setUint32(0, 0x06054b50, true)
+  endView.setUint16(8, centralParts.length, true)
+  endView.setUint16(10, centralParts.length, true)
+  endView.setUint32(12, centralSize, true)
+  endView.setUint32(16, offset, true)
+
+  const bytes = new Uint8Array(offset + centralSize + end.length)
+  let position = 0
+  for (const part of [...localParts, ...centralParts, end]) {
+    bytes.set(part, position)
+    position += part.length
+  }
+  return bytes.buffer
+}
+
+// Style 1 uses built-in format 14 (m/d/yyyy), so its serials are dates; style 0 is a plain number.
+const STYLES_XML = '<styleSheet><cellXfs count="2"><xf numFmtId="0"/><xf numFmtId="14"/></cellXfs></styleSheet>'
+
+function buildWorkbook(workbookPr: string, sheetData: string): ArrayBuffer {
+  return buildStoredZip({
+    'xl/workbook.xml': `<workbook>${workbookPr}<sheets><sheet name="Sheet1" sheetId="1"/></sheets></workbook>`,
+    'xl/styles.xml': STYLES_XML,
+    'xl/sharedStrings.xml': '<sst><si><t>Date</t></si><si><t>Count</t></si></sst>',
+    'xl/worksheets/sheet1.xml': `<worksheet><sheetData>${sheetData}</sheetData></worksheet>`,
+  })
+}
+
+const HEADER_ROW = '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1" t="s"><v>1</v></c></row>'
+
+describe('readXlsxRows', () => {
+  it('converts date-styled serials from the 1900 date system', async () => {
+    const buffer = buildWorkbook('', `${HEADER_ROW}<row r="2"><c r="A2" s="1"><v>45292.5</v></c><c r="B2" s="0"><v>45292</v></c></row>`)
+
+    expect(await readXlsxRows(buffer)).toEqual([
+      ['Date', 'Count'],
+      [new Date(Date.UTC(2024, 0, 1, 12)), 45292],
+    ])
+  })
+
+  it('counts serials from 1904-01-01 when the workbook uses the 1904 date system', async () => {
+    const sheetData = `${HEADER_ROW}<row r="2"><c r="A2" s="1"><v>43830</v></c><c r="B2"><v>43830</v></c></row>`
+
+    for (const workbookPr of ['<workbookPr date1904="1"/>', '<workbookPr defaultThemeVersion="166925" date1904="true"/>']) {
+      const rows = await readXlsxRows(buildWorkbook(workbookPr, sheetData))
+      expect(rows[1]).toEqual([new Date(Date.UTC(2024, 0, 1)), 43830])
+    }
+  })
+
+  it('keeps the 1900 date system when date1904 is off', async () => {
+    const rows = await readXlsxRows(buildWorkbook('<workbookPr date1904="0"/>', `<row r="1"><c r="A1" s="1"><v>0</v></c></row>`))
+    expect(rows[0]).toEqual([new Date(Date.UTC(1899, 11, 30))])
+  })
+
+  it('keeps sheet row positions and stops at the row limit', async () => {
+    const buffer = buildWorkbook('', `${HEADER_ROW}<row r="3"><c r="B3"><v>7</v></c></row><row r="4"><c r="A4"><v>8</v></c></row>`)
+
+    expect(await readXlsxRows(buffer, 3)).toEqual([['Date', 'Count'], [], [null, 7]])
+  })
+})
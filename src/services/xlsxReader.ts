@@ -0,0 +1,250 @@
+type ZipEntry = {
+  method: number
+  compressedSize: number
+  localHeaderOffset: number
+}
+
+// Workbook-wide lookups every cell value is read against.
+type CellContext = {
+  sharedStrings: string[]
+  dateStyles: Set<number>
+  epochOffsetDays: number
+}
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50
+const LOCAL_FILE_HEADER = 0x04034b50
+// Excel counts days from 1899-12-30, so serial 25569 is the Unix epoch. Workbooks saved with the 1904 date system
+// count from 1904-01-01 instead, 1462 days later.
+const EXCEL_EPOCH_OFFSET_DAYS = 25569
+const EXCEL_1904_EPOCH_OFFSET_DAYS = 24107
+const MS_PER_DAY = 86400000
+// Built-in number formats Excel renders as dates or times.
+const BUILT_IN_DATE_FORMATS = new Set([14, 15, 16, 17, 18, 19, 20, 21, 22, 45, 46, 47])
+// One pattern per attribute name, built on first use; readAttribute runs for every cell.
+const ATTRIBUTE_PATTERNS = new Map<string, RegExp>()
+
+// Reads the first worksheet of an .xlsx workbook into rows of cell values. Only what check-in exports contain is
+// supported: shared and inline strings, numbers, booleans and date-formatted serials, which become UTC Dates.
+// Unzipping uses the browser's DecompressionStream, so no spreadsheet library is bundled.
+export async function readXlsxRows(buffer: ArrayBuffer, rowLimit = Number.POSITIVE_INFINITY): Promise<unknown[][]> {
+  const entries = readZipEntries(buffer)
+  const readEntry = async (name: string) => {
+    const entry = entries.get(name)
+    return entry ? readEntryText(buffer, entry) : null
+  }
+
+  const workbookXml = await readEntry('xl/workbook.xml')
+  const sheetPath = await findFirstSheetPath(workbookXml, readEntry)
+  const sheetXml = await readEntry(sheetPath)
+  if (sheetXml === null) {
+    throw new Error('Workbook does not contain a worksheet.')
+  }
+
+  const sharedStrings = parseSharedStrings((await readEntry('xl/sharedStrings.xml')) ?? '')
+  const dateStyles = parseDateStyles((await readEntry('xl/styles.xml')) ?? '')
+  const epochOffsetDays = usesDate1904(workbookXml ?? '') ? EXCEL_1904_EPOCH_OFFSET_DAYS : EXCEL_EPOCH_OFFSET_DAYS
+  return parseSheetRows(sheetXml, { sharedStrings, dateStyles, epochOffsetDays }, rowLimit)
+}
+
+function readZipEntries(buffer: ArrayBuffer): Map<string, ZipEntry> {
+  const view = new DataView(buffer)
+  let endOffset = -1
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset -= 1) {
+    if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset
+      break
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('File is not a valid .xlsx workbook.')
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true)
+  const decoder = new TextDecoder()
+  const entries = new Map<string, ZipEntry>()
+  let offset = view.getUint32(endOffset + 16, true)
+  for (let index = 0; index < entryCount && view.getUint32(offset, true) === CENTRAL_DIRECTORY_ENTRY; index += 1) {
+    const nameLength = view.getUint16(offset + 28, true)
+    const extraLength = view.getUint16(offset + 30, true)
+    const commentLength = view.getUint16(offset + 32, true)
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength))
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localHeaderOffset: view.getUint32(offset + 42, true),
+    })
+    offset += 46 + nameLength + extraLength + commentLength
+  }
+  return entries
+}
+
+async function readEntryText(buffer: ArrayBuffer, entry: ZipEntry): Promise<string> {
+  const view = new DataView(buffer)
+  if (view.getUint32(entry.localHeaderOffset, true) !== LOCAL_FILE_HEADER) {
+    throw new Error('File is not a valid .xlsx workbook.')
+  }
+
+  const dataOffset =
+    entry.localHeaderOffset + 30 + view.getUint16(entry.localHeaderOffset + 26, true) + view.getUint16(entry.localHeaderOffset + 28, true)
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize)
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data)
+  }
+  if (entry.method !== 8) {
+    throw new Error('Workbook uses an unsupported compression method.')
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'))
+  return new Response(stream).text()
+}
+
+async function findFirstSheetPath(
+  workbookXml: string | null,
+  readEntry: (name: string) => Promise<string | null>,
+): Promise<string> {
+  const fallback = 'xl/worksheets/sheet1.xml'
+  const relationshipsXml = await readEntry('xl/_rels/workbook.xml.rels')
+  const relationshipId = workbookXml?.match(/<sheet\b[^>]*\br:id="([^"]+)"/)?.[1]
+  if (!relationshipId || !relationshipsXml) {
+    return fallback
+  }
+
+  for (const match of relationshipsXml.matchAll(/<Relationship\b([^>]*)\/?>/g)) {
+    if (readAttribute(match[1], 'Id') === relationshipId) {
+      const target = readAttribute(match[1], 'Target') ?? ''
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`
+    }
+  }
+  return fallback
+}
+
+function usesDate1904(workbookXml: string): boolean {
+  const properties = workbookXml.match(/<workbookPr\b([^>]*)\/?>/)?.[1] ?? ''
+  const value = readAttribute(properties, 'date1904')
+  return value === '1' || value === 'true'
+}
+
+function parseSharedStrings(xml: string): string[] {
+  return [...xml.matchAll(/<si>([\s\S]*?)<\/si>/g)].map((match) => readTextRuns(match[1]))
+}
+
+// Indexes of cell styles (cellXfs) whose number format shows a date or time.
+function parseDateStyles(xml: string): Set<number> {
+  const customDateFormats = new Set<number>()
+  for (const match of xml.matchAll(/<numFmt\b([^>]*)\/?>/g)) {
+    const code = (readAttribute(match[1], 'formatCode') ?? '').replace(/"[^"]*"|\[[^\]]*\]/g, '')
+    if (/[dmyhs]/i.test(code)) {
+      customDateFormats.add(Number(readAttribute(match[1], 'numFmtId')))
+    }
+  }
+
+  const cellFormats = xml.match(/<cellXfs\b[^>]*>([\s\S]*?)<\/cellXfs>/)?.[1] ?? ''
+  const dateStyles = new Set<number>()
+  ;[...cellFormats.matchAll(/<xf\b([^>]*)>/g)].forEach((match, styleIndex) => {
+    const formatId = Number(readAttribute(match[1], 'numFmtId') ?? 0)
+    if (BUILT_IN_DATE_FORMATS.has(formatId) || customDateFormats.has(formatId)) {
+      dateStyles.add(styleIndex)
+    }
+  })
+  return dateStyles
+}
+
+// Rows keep their sheet positions, so rows the sheet leaves out come back empty and a header row number matches Excel.
+function parseSheetRows(xml: string, context: CellContext, rowLimit: number): unknown[][] {
+  const rows: unknown[][] = []
+  for (const rowMatch of xml.matchAll(/<row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/row>)/g)) {
+    const rowNumber = Number(readAttribute(rowMatch[1], 'r') ?? rows.length + 1)
+    while (rows.length < Math.min(rowNumber - 1, rowLimit)) {
+      rows.push([])
+    }
+    if (rows.length >= rowLimit) {
+      break
+    }
+
+    const row: unknown[] = []
+    for (const cellMatch of (rowMatch[2] ?? '').matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g)) {
+      const attributes = cellMatch[1]
+      const reference = readAttribute(attributes, 'r')
+      const columnIndex = reference ? getColumnIndex(reference) : row.length
+      row[columnIndex] = readCellValue(attributes, cellMatch[2] ?? '', context)
+    }
+
+    rows.push(Array.from(row, (value) => value ?? null))
+  }
+  return rows
+}
+
+function readCellValue(attributes: string, content: string, context: CellContext): unknown {
+  const type = readAttribute(attributes, 't') ?? 'n'
+  if (type === 'inlineStr') {
+    return readTextRuns(content)
+  }
+
+  const rawValue = content.match(/<v>([\s\S]*?)<\/v>/)?.[1]
+  if (rawValue === undefined) {
+    return null
+  }
+
+  switch (type) {
+    case 's':
+      return context.sharedStrings[Number(rawValue)] ?? null
+    case 'str':
+    case 'e':
+      return decodeXmlEntities(rawValue)
+    case 'b':
+      return rawValue === '1'
+    default: {
+      const value = Number(rawValue)
+      if (!Number.isFinite(value)) {
+        return null
+      }
+      const styleIndex = Number(readAttribute(attributes, 's') ?? -1)
+      return context.dateStyles.has(styleIndex) ? new Date(Math.round((value - context.epochOffsetDays) * MS_PER_DAY)) : value
+    }
+  }
+}
+
+function readTextRuns(xml: string): string {
+  return [...xml.matchAll(/<t\b[^>]*>([\s\S]*?)<\/t>/g)].map((match) => decodeXmlEntities(match[1])).join('')
+}
+
+function readAttribute(attributes: string, name: string): string | null {
+  let pattern = ATTRIBUTE_PATTERNS.get(name)
+  if (!pattern) {
+    pattern = new RegExp(`(?:^|\\s)${name}="([^"]*)"`)
+    ATTRIBUTE_PATTERNS.set(name, pattern)
+  }
+  const value = attributes.match(pattern)?.[1]
+  return value === undefined ? null : decodeXmlEntities(value)
+}
+
+// "B12" -> 1.
+function getColumnIndex(reference: string): number {
+  let index = 0
+  for (const char of reference.replace(/\d+$/, '').toUpperCase()) {
+    index = index * 26 + (char.charCodeAt(0) - 64)
+  }
+  return index - 1
+}
+
+function decodeXmlEntities(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (_, code: string) => {
+    switch (code.toLowerCase()) {
+      case 'amp':
+        return '&'
+      case 'lt':
+        return '<'
+      case 'gt':
+        return '>'
+      case 'quot':
+        return '"'
+      case 'apos':
+        return "'"
+      default:
+        return code[1] === 'x' || code[1] === 'X'
+          ? String.fromCodePoint(parseInt(code.slice(2), 16))
+          : String.fromCodePoint(Number(code.slice(1)))
+    }
+  })
+}
@@ -0,0 +1,106 @@
+import type { RegionFeature } from '../types/data'
+import type { DatasetSchema, HierarchyTotals, RegionLevel, ZoneShare } from '../types/demographics'
+import { getRegionName, getRoleValue } from './regionAttributes'
+import { getFeatureAreaKm2 } from './regionGeometry'
+import { getFeatureMetricValue, getZoneShares } from './regionMetrics'
+
+export type ComparedZone = {
+  name: string
+  level: RegionLevel
+  population: number
+  jobs: number
+  areaKm2: number
+  populationDensity: number
+  jobDensity: number
+  shares: ZoneShare[]
+}
+
+export type ZoneComparisonRowKind = 'count' | 'area' | 'density' | 'share'
+
+export type ZoneComparisonRow = {
+  key: string
+  // Translation key of the compared quantity; share labels name the parent level they are relative to.
+  label: string
+  kind: ZoneComparisonRowKind
+  first: number | null
+  second: number | null
+  // second - first; percentage points for share rows.
+  delta: number | null
+  // delta relative to first; null for share rows, which are already relative.
+  relativeDelta: number | null
+}
+
+// Micro zones sit at the bottom of the hierarchy and are never a parent.
+type ShareParentLevel = Exclude<ZoneShare['parentLevel'], 'micro'>
+
+const SHARE_PARENT_LEVELS: ShareParentLevel[] = ['meso', 'macro', 'total']
+
+// Same parent wording as the selection side panel: share of the meso or macro zone, or of all zones.
+const SHARE_LABELS: Record<ShareParentLevel, { population: string; jobs: string }> = {
+  meso: { population: 'populationShareOfMeso', jobs: 'jobsShareOfMeso' },
+  macro: { population: 'populationShareOfMacro', jobs: 'jobsShareOfMacro' },
+  total: { population: 'populationShareOfAllZones', jobs: 'jobsShareOfAllZones' },
+}
+
+export function getComparedZone(feature: RegionFeature, level: RegionLevel, schema: DatasetSchema, totals: HierarchyTotals): ComparedZone {
+  return {
+    name: getRegionName(feature.properties, level, schema),
+    level,
+    population: getRoleValue(feature.properties, 'population', schema),
+    jobs: getRoleValue(feature.properties, 'jobs', schema),
+    areaKm2: getFeatureAreaKm2(feature),
+    populationDensity: getFeatureMetricValue(feature, 'populationDensity', schema),
+    jobDensity: getFeatureMetricValue(feature, 'jobDensity', schema),
+    shares: getZoneShares(feature.properties, level, schema, totals),
+  }
+}
+
+// Share rows are only listed for parent levels that sit above at least one of the two zones.
+export function buildZoneComparisonRows(first: ComparedZone, second: ComparedZone): ZoneComparisonRow[] {
+  const rows: ZoneComparisonRow[] = [
+    createRow('population', 'population', 'count', first.population, second.population),
+    createRow('jobs', 'jobs', 'count', first.jobs, second.jobs),
+    createRow('areaKm2', 'areaKm2', 'area', first.areaKm2, second.areaKm2),
+    createRow('populationDensity', 'populationDensity', 'density', first.populationDensity, second.populationDensity),
+    createRow('jobDensity', 'jobDensity', 'density', first.jobDensity, second.jobDensity),
+  ]
+
+  for (const parentLevel of SHARE_PARENT_LEVELS) {
+    const firstShare = first.shares.find((share) => share.parentLevel === parentLevel)
+    const secondShare = second.shares.find((share) => share.parentLevel === parentLevel)
+    if (!firstShare && !secondShare) {
+      continue
+    }
+
+    rows.push(
+      createRow(
+        `populationShare:${parentLevel}`,
+        SHARE_LABELS[parentLevel].population,
+        'share',
+        firstShare?.populationShare ?? null,
+        secondShare?.populationShare ?? null,
+      ),
+      createRow(
+        `jobsShare:${parentLevel}`,
+        SHARE_LABELS[parentLevel].jobs,
+        'share',
+        firstShare?.jobsShare ?? null,
+        secondShare?.jobsShare ?? null,
+      ),
+    )
+  }
+
+  return rows
+}
+
+function createRow(
+  key: string,
+  label: string,
+  kind: ZoneComparisonRowKind,
+  first: number | null,
+  second: number | null,
+): ZoneComparisonRow {
+  const delta = first !== null && second !== null ? second - first : null
+  const relativeDelta = kind !== 'share' && delta !== null && first !== null && first !== 0 ? delta / Math.abs(first) : null
+  return { key, label, kind, first, second, delta, relativeDelta }
+}
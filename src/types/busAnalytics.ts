@@ -9,33 +9,239 @@ export type ChartItem = {
   value: number
 }
 
+// Total Count of one calendar day (yyyy-MM-dd), overall and split by route and operator.
+export type DailyRidership = {
+  date: string
+  total: number
+  byRoute: Record<string, number>
+  byOperator: Record<string, number>
+}
+
+// Total Count of one route for each hour of the day.
+export type RouteHours = {
+  route: string
+  hours: number[]
+}
+
 export type BusAnalyticsChartData = {
   hourly: ChartItem[]
   topRoutes: ChartItem[]
   operatorSplit: ChartItem[]
   paymentMix: ChartItem[]
+  // Every day from the first to the last check-in; empty without a date column.
+  daily: DailyRidership[]
+  // Days with check-ins left out of daily because they lie far outside the other dates, e.g. a mistyped year.
+  outlierDays: number
+  // Total Count by weekday (0 is Sunday, as with Date.getUTCDay) and hour; empty without a date or hour.
+  weekdayHours: number[][]
+  // Busiest routes by hour, in descending order of their Total Count.
+  routeHours: RouteHours[]
 }
 
-export type BusAnalyticsWorkerSuccessPayload = {
-  rows: AnalyticsRow[]
-  fields: string[]
-  numericFields: string[]
+// Check-ins are kept column by column so multi-million-row exports stay compact: numbers and dates in a Float64Array
+// (NaN when empty; dates as UTC milliseconds of the wall-clock time) and text as codes into the column's distinct
+// values, where code 0 is the empty cell.
+export type AnalyticsTextColumn = {
+  field: string
+  kind: 'text'
+  codes: Uint32Array<ArrayBuffer>
+  dictionary: string[]
+}
+
+export type AnalyticsColumn =
+  | {
+      field: string
+      kind: 'number'
+      values: Float64Array<ArrayBuffer>
+    }
+  | {
+      field: string
+      kind: 'date'
+      values: Float64Array<ArrayBuffer>
+    }
+  | AnalyticsTextColumn
+
+export type AnalyticsColumnStore = {
+  rowCount: number
+  columns: AnalyticsColumn[]
+}
+
+// Every column as the text found in the file, so a column can be re-typed without parsing the file again.
+export type AnalyticsRawStore = {
+  rowCount: number
+  columns: AnalyticsTextColumn[]
+}
+
+export type AnalyticsColumnType = 'integer' | 'decimal' | 'date' | 'boolean' | 'category' | 'text'
+
+// iso: yyyy-MM-dd[ HH:mm[:ss]]; dmy-dot: dd.MM.yyyy; dmy-slash: dd/MM/yyyy; mdy-slash: MM/dd/yyyy. Times are optional.
+export type AnalyticsDateFormat = 'iso' | 'dmy-dot' | 'dmy-slash' | 'mdy-slash'
+
+export type AnalyticsColumnTyping = {
+  type: AnalyticsColumnType
+  // Only set for date columns.
+  dateFormat: AnalyticsDateFormat | null
+}
+
+// Inferred from every value in the column, not from a sample.
+export type AnalyticsColumnProfile = {
+  field: string
+  inferred: AnalyticsColumnTyping
+  nullCount: number
+  distinctCount: number
+}
+
+export type AnalyticsQualityReport = {
+  // Values per field that do not parse as the column's type; they are shown as empty cells.
+  conflicts: Record<string, number>
+  // Values of the hour column outside the whole hours 0-23.
+  outOfRangeHours: number
+  // Negative values per count column.
+  negativeCounts: Record<string, number>
+}
+
+// Everything the grid and charts are built from, for one set of column types.
+export type BusAnalyticsBuild = {
+  typings: Record<string, AnalyticsColumnTyping>
+  store: AnalyticsColumnStore
   firstMetricField: string | null
   firstMetricTotal: number | null
   chartData: BusAnalyticsChartData
+  quality: AnalyticsQualityReport
+}
+
+// First rows of the file, shown while the rest is still streaming in.
+export type BusAnalyticsPreview = {
+  fields: string[]
+  numericFields: string[]
+  rows: AnalyticsRow[]
+}
+
+export type BusAnalyticsWorkerSuccessPayload = {
+  raw: AnalyticsRawStore
+  profiles: AnalyticsColumnProfile[]
+  duplicateRows: number
+  // Built with the inferred types.
+  build: BusAnalyticsBuild
 }
 
-export type BusAnalyticsWorkerRequest = {
-  type: 'parse-csv'
-  csvUrl: string
+// parse: the body is downloaded and parsed together; summarize: totals and chart data over the finished store.
+export type BusAnalyticsLoadStage = 'parse' | 'summarize'
+
+export type BusAnalyticsLoadProgress = {
+  stage: BusAnalyticsLoadStage
+  loadedBytes: number
+  // Unknown when the server sends no Content-Length.
+  totalBytes: number | null
+  rows: number
+}
+
+export type PivotAggregation = 'sum' | 'mean' | 'count' | 'min' | 'max'
+
+export type PivotValueField = {
+  field: string
+  aggregation: PivotAggregation
+}
+
+export type PivotConfig = {
+  rows: string[]
+  columns: string[]
+  values: PivotValueField[]
+}
+
+// subtotal rows close each group of all but the last row field; the total row comes last.
+export type PivotRow = {
+  kind: 'row' | 'subtotal' | 'total'
+  // Values of the row fields; a subtotal row has only the fields it groups by.
+  keys: string[]
+  // One cell per column key and value field, column by column, then the row total for each value field.
+  cells: (number | null)[]
+}
+
+export type PivotTable = {
+  config: PivotConfig
+  // Values of the column fields for each column, in display order.
+  columnKeys: string[][]
+  rows: PivotRow[]
+  // Set when more distinct column keys exist than the table shows; totals still include them.
+  truncatedColumns: boolean
+}
+
+// An empty delimiter lets PapaParse detect it.
+export type CheckInDelimiter = '' | ',' | ';' | '\t' | '|'
+
+export type CheckInEncoding = 'utf-8' | 'windows-1251'
+
+export type CheckInImportOptions = {
+  delimiter: CheckInDelimiter
+  encoding: CheckInEncoding
+  // 1-based row holding the column names; rows above it are skipped. Delimiter and encoding do not apply to XLSX.
+  headerRow: number
+}
+
+// Filters shared by the table, KPI cards and charts, on top of the grid's own column filters. Dates are yyyy-MM-dd and
+// both ends are inclusive; hours are whole hours 0-23.
+export type CheckInFilters = {
+  dateFrom: string | null
+  dateTo: string | null
+  hourFrom: number
+  hourTo: number
+  // 0 is Sunday; empty keeps every day of the week.
+  weekdays: number[]
+  routes: string[]
+  operators: string[]
+}
+
+// A check-in export picked by the analyst, used instead of the bundled CSV.
+export type CheckInUpload = {
+  file: File
+  options: CheckInImportOptions
 }
 
+export type BusAnalyticsWorkerRequest =
+  | {
+      type: 'parse-csv'
+      csvUrl: string
+    }
+  | {
+      type: 'parse-file'
+      upload: CheckInUpload
+    }
+  | {
+      type: 'build-store'
+      raw: AnalyticsRawStore
+      typings: Record<string, AnalyticsColumnTyping>
+    }
+  | {
+      type: 'pivot'
+      // Only the columns the pivot reads; rowIndexes is null for every row.
+      store: AnalyticsColumnStore
+      rowIndexes: Uint32Array | null
+      config: PivotConfig
+    }
+
 export type BusAnalyticsWorkerIncomingMessage =
+  | {
+      type: 'parse-progress'
+      progress: BusAnalyticsLoadProgress
+    }
+  | {
+      type: 'parse-preview'
+      preview: BusAnalyticsPreview
+    }
   | {
       type: 'parse-success'
       payload: BusAnalyticsWorkerSuccessPayload
     }
   | {
-      type: 'parse-error'
+      type: 'build-success'
+      build: BusAnalyticsBuild
+    }
+  | {
+      type: 'pivot-success'
+      pivot: PivotTable
+    }
+  | {
+      type: 'analytics-error'
       message: string
     }
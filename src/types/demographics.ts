@@ -0,0 +1,134 @@
+import type { Position } from 'geojson'
+import type { RegionFeature } from './data'
+
+export type RegionLevel = 'micro' | 'meso' | 'macro'
+export type AggregatedRegionLevel = Exclude<RegionLevel, 'micro'>
+export type MetricRole = 'population' | 'jobs'
+export type DerivedMetricKey = 'populationDensity' | 'jobDensity' | 'jobsPerResident' | 'residentsPerJob'
+// A schema metric key or one of the derived metrics computed from the population and jobs roles.
+export type MetricKey = string
+export type MetricAggregation = 'sum' | 'mean' | 'weightedMean'
+export type ChoroplethMode = 'univariate' | 'bivariate'
+export type MapRenderer = 'choropleth' | 'dotDensity' | 'proportional'
+export type ClassificationScheme = 'quantile' | 'equalInterval' | 'jenks' | 'standardDeviation' | 'manual'
+export type PaletteKey = 'aynaBlue' | 'blues' | 'ylGnBu' | 'viridis' | 'orRd' | 'rdYlBu' | 'puOr' | 'brBG'
+
+export type DatasetMetric = {
+  key: string
+  field: string
+  // Translation key or literal label.
+  label: string
+  unit: string
+  aggregation: MetricAggregation
+  // Metric key whose values weight a weightedMean aggregation.
+  weightBy?: string
+  decimals?: number
+}
+
+export type DatasetSchema = {
+  metrics: DatasetMetric[]
+  roles: Record<MetricRole, string | null>
+  hierarchy: Record<RegionLevel, string | null>
+  levelField: string | null
+}
+
+export type CountTotals = {
+  population: number
+  jobs: number
+}
+
+// Population and jobs of the micro zones summed per meso / macro name and over the whole dataset.
+export type HierarchyTotals = {
+  meso: Map<string, CountTotals>
+  macro: Map<string, CountTotals>
+  all: CountTotals
+}
+
+export type ZoneShare = {
+  parentLevel: RegionLevel | 'total'
+  parentName: string
+  populationShare: number | null
+  jobsShare: number | null
+}
+
+export type DatasetIssueKind = 'missing' | 'nonNumeric'
+
+export type DatasetIssue = {
+  featureIndex: number
+  featureName: string
+  field: string
+  kind: DatasetIssueKind
+  value: unknown
+}
+
+export type DatasetValidationReport = {
+  featureCount: number
+  fields: Array<{ field: string; missing: number; nonNumeric: number }>
+  issues: DatasetIssue[]
+}
+
+export type TransitStop = {
+  id: number
+  name: string
+  lat: number
+  lng: number
+}
+
+export type ZoneTransitCoverage = {
+  key: string
+  meso: string
+  macro: string
+  population: number
+  jobs: number
+  // Share of the zone's area inside the walking buffers; population and jobs are apportioned by it.
+  coveredShare: number
+  coveredPopulation: number
+  coveredJobs: number
+}
+
+export type TransitCoverage = {
+  zones: ZoneTransitCoverage[]
+  // Union of all stop buffers as GeoJSON multipolygon coordinates.
+  buffers: Position[][][]
+}
+
+export type RegionDissolveWorkerRequest =
+  | {
+      type: 'dissolve'
+      level: AggregatedRegionLevel
+      features: RegionFeature[]
+      schema: DatasetSchema
+    }
+  | {
+      type: 'hexbin'
+      edgeKm: number
+      features: RegionFeature[]
+      schema: DatasetSchema
+    }
+  | {
+      type: 'coverage'
+      features: RegionFeature[]
+      stops: TransitStop[]
+      radiusM: number
+      schema: DatasetSchema
+    }
+
+export type RegionDissolveWorkerIncomingMessage =
+  | {
+      type: 'dissolve-success'
+      level: AggregatedRegionLevel
+      features: RegionFeature[]
+    }
+  | {
+      type: 'hexbin-success'
+      edgeKm: number
+      features: RegionFeature[]
+    }
+  | {
+      type: 'coverage-success'
+      coverage: TransitCoverage
+    }
+  | {
+      type: 'dissolve-error'
+      message: string
+    }
@@ -0,0 +1,8 @@
+// shpjs 6 ships no typings and @types/shpjs describes the 3.x API, so only the call used by regionImport is declared.
+declare module 'shpjs' {
+  import type { FeatureCollection } from 'geojson'
+
+  type ShapefileCollection = FeatureCollection & { fileName?: string }
+
+  export default function readShapefile(input: ArrayBuffer): Promise<ShapefileCollection | ShapefileCollection[]>
+}
@@ -1,288 +1,371 @@
 /// <reference lib="webworker" />
 
 import * as Papa from 'papaparse'
+import { buildTypedStore, countDuplicateRows, getQualityReport, inferColumnProfile } from '../services/analyticsSchema'
+import { getNumericFields, getStoreFields, getStoreRows } from '../services/analyticsStore'
+import { buildChartData } from '../services/busAnalytics'
+import { computePivotTable } from '../services/pivotTable'
+import { DEFAULT_CHECK_IN_IMPORT_OPTIONS, isBlankRecord, isXlsxFile } from '../services/checkInImport'
+import { readXlsxRows } from '../services/xlsxReader'
 import type {
-  AnalyticsCell,
-  AnalyticsRow,
-  BusAnalyticsChartData,
+  AnalyticsColumn,
+  AnalyticsColumnProfile,
+  AnalyticsColumnTyping,
+  AnalyticsRawStore,
+  AnalyticsTextColumn,
+  BusAnalyticsBuild,
+  BusAnalyticsLoadProgress,
   BusAnalyticsWorkerIncomingMessage,
   BusAnalyticsWorkerRequest,
   BusAnalyticsWorkerSuccessPayload,
+  CheckInImportOptions,
+  CheckInUpload,
 } from '../types/busAnalytics'
 
-type RawRecord = Record<string, unknown>
+type ColumnBuilder = {
+  field: string
+  sourceIndex: number
+  codes: Uint32Array<ArrayBuffer>
+  dictionary: string[]
+  codeByText: Map<string, number>
+}
+
+type StoreBuilder = {
+  columns: ColumnBuilder[]
+  rowCount: number
+  capacity: number
+}
+
+type ProgressReporter = (progress: BusAnalyticsLoadProgress, force?: boolean) => void
+
+// The part of Papa's config shared by file and download parsing.
+type CsvChunkConfig = {
+  delimiter: string
+  chunkSize: number
+  chunk: (results: Papa.ParseResult<unknown[]>, parser: Papa.Parser) => void
+  complete: () => void
+  error: (error: Error) => void
+}
+
+type IngestState = {
+  headerRow: number
+  skippedRows: number
+  builder: StoreBuilder | null
+  previewRows: number
+}
 
 const workerScope: DedicatedWorkerGlobalScope = self as DedicatedWorkerGlobalScope
 
+const INITIAL_CAPACITY = 65536
+const PREVIEW_ROW_LIMIT = 100
+const PROGRESS_INTERVAL_MS = 120
+const PARSE_CHUNK_SIZE = 1024 * 1024
+// No check-in row spans this many chunks; past it the file has an unterminated quote.
+const MAX_CHUNKS_PER_ROW = 16
+
 workerScope.onmessage = async (event: MessageEvent<BusAnalyticsWorkerRequest>) => {
   const request = event.data
-  if (request.type !== 'parse-csv') {
-    return
-  }
+  const reportProgress = createProgressReporter()
 
   try {
-    const response = await fetch(request.csvUrl)
-    if (!response.ok) {
-      throw new Error(`CSV file not found. Expected ${request.csvUrl}.`)
+    if (request.type === 'build-store') {
+      const build = buildAnalytics(request.raw, request.typings)
+      const message: BusAnalyticsWorkerIncomingMessage = { type: 'build-success', build }
+      workerScope.postMessage(message, getTransferables(build.store.columns))
+      return
     }
-
-    const csvText = await response.text()
-    const parsed = Papa.parse<RawRecord>(csvText, {
-      header: true,
-      skipEmptyLines: true,
-      dynamicTyping: true,
-    })
-
-    if (parsed.errors.length > 0) {
-      throw new Error(`CSV parse error: ${parsed.errors[0].message}`)
+    if (request.type === 'pivot') {
+      const message: BusAnalyticsWorkerIncomingMessage = {
+        type: 'pivot-success',
+        pivot: computePivotTable(request.store, request.rowIndexes, request.config),
+      }
+      workerScope.postMessage(message)
+      return
     }
 
-    const records = parsed.data.filter(isRecord)
-    const fields = getColumnKeys(records)
-    const dateFields = new Set(fields.filter((field) => isDateColumn(records, field)))
-    const numericFields = fields.filter((field) => isNumericColumn(records, field))
-    const rows = records.map((record, index) => normalizeRow(record, fields, dateFields, index + 1))
-
-    const firstMetricField = numericFields[0] ?? null
-    const firstMetricTotal =
-      firstMetricField === null
-        ? null
-        : rows.reduce((sum, row) => sum + asNumber(row[firstMetricField]), 0)
+    const builder =
+      request.type === 'parse-file' ? await readUpload(request.upload, reportProgress) : await readCsvUrl(request.csvUrl, reportProgress)
+    const raw = finishRawStore(builder)
+    reportProgress({ stage: 'summarize', loadedBytes: 0, totalBytes: null, rows: raw.rowCount }, true)
 
+    const profiles = raw.columns.map((column) => inferColumnProfile(column, raw.rowCount))
     const payload: BusAnalyticsWorkerSuccessPayload = {
-      rows,
-      fields,
-      numericFields,
-      firstMetricField,
-      firstMetricTotal,
-      chartData: buildChartData(rows, fields),
+      raw,
+      profiles,
+      duplicateRows: countDuplicateRows(raw),
+      build: buildAnalytics(raw, getInferredTypings(profiles)),
     }
 
     const message: BusAnalyticsWorkerIncomingMessage = {
       type: 'parse-success',
       payload,
     }
-    workerScope.postMessage(message)
+    workerScope.postMessage(message, getTransferables([...raw.columns, ...payload.build.store.columns]))
   } catch (error) {
     const message: BusAnalyticsWorkerIncomingMessage = {
-      type: 'parse-error',
+      type: 'analytics-error',
       message: error instanceof Error ? error.message : 'Failed to process CSV data.',
     }
     workerScope.postMessage(message)
   }
 }
 
-function normalizeRow(record: RawRecord, fields: string[], dateFields: Set<string>, id: number): AnalyticsRow {
-  const row: Record<string, AnalyticsCell> = {}
-
-  for (const field of fields) {
-    row[field] = normalizeCell(record[field], dateFields.has(field))
-  }
-
+// Typed columns, totals and charts for one set of column types; run again whenever the analyst overrides a type.
+function buildAnalytics(raw: AnalyticsRawStore, typings: Record<string, AnalyticsColumnTyping>): BusAnalyticsBuild {
+  const { store, conflicts } = buildTypedStore(raw, typings)
+  const numericColumn = store.columns.find((column) => column.kind === 'number')
   return {
-    ...row,
-    id,
+    typings,
+    store,
+    firstMetricField: numericColumn?.field ?? null,
+    firstMetricTotal: numericColumn?.kind === 'number' ? sumValues(numericColumn.values) : null,
+    chartData: buildChartData(store),
+    quality: getQualityReport(store, conflicts),
   }
 }
 
-function normalizeCell(value: unknown, formatAsDate: boolean): AnalyticsCell {
-  if (formatAsDate) {
-    return formatDateTime(value)
+// Papa downloads the file in ranged chunks, so only its size is asked for up front, to report byte progress.
+async function readCsvUrl(csvUrl: string, reportProgress: ProgressReporter): Promise<StoreBuilder> {
+  const response = await fetch(csvUrl, { method: 'HEAD' })
+  if (!response.ok) {
+    throw new Error(`CSV file not found. Expected ${csvUrl}.`)
   }
 
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : 0
-  }
+  const contentLength = Number(response.headers.get('content-length'))
+  const totalBytes = Number.isFinite(contentLength) && contentLength > 0 ? contentLength : null
+  return parseCsvChunks(
+    (config) => Papa.parse<unknown[]>(csvUrl, { ...config, download: true }),
+    totalBytes,
+    DEFAULT_CHECK_IN_IMPORT_OPTIONS,
+    reportProgress,
+  )
+}
 
-  if (typeof value === 'string' || typeof value === 'boolean') {
-    return value
+// Uploaded CSV is read in chunks like the bundled file. XLSX is zipped XML, so the workbook is read whole.
+async function readUpload({ file, options }: CheckInUpload, reportProgress: ProgressReporter): Promise<StoreBuilder> {
+  if (!isXlsxFile(file)) {
+    return parseCsvChunks(
+      (config) => Papa.parse<unknown[], File>(file, { ...config, encoding: options.encoding }),
+      file.size,
+      options,
+      reportProgress,
+    )
   }
 
-  if (value === null || value === undefined) {
-    return null
-  }
+  const ingest = createIngestState(options)
+  ingestRecords(ingest, await readXlsxRows(await file.arrayBuffer()))
+  reportProgress({ stage: 'parse', loadedBytes: file.size, totalBytes: file.size, rows: ingest.builder?.rowCount ?? 0 }, true)
+  return finishIngest(ingest)
+}
 
-  if (value instanceof Date) {
-    return formatDateTime(value)
-  }
+// Papa reads PARSE_CHUNK_SIZE bytes at a time and carries a row split across two chunks into the next one, so memory
+// holds one chunk of text plus the columnar store rather than the whole file twice.
+function parseCsvChunks(
+  start: (config: CsvChunkConfig) => void,
+  totalBytes: number | null,
+  options: CheckInImportOptions,
+  reportProgress: ProgressReporter,
+): Promise<StoreBuilder> {
+  const ingest = createIngestState(options)
+  return new Promise((resolve, reject) => {
+    let parsedChunks = 0
+    let chunksWithoutRows = 0
+    start({
+      delimiter: options.delimiter,
+      chunkSize: PARSE_CHUNK_SIZE,
+      chunk: (results, parser) => {
+        const error = results.errors.find((item) => item.type !== 'Delimiter')
+        // An unterminated quote makes Papa hold everything after it as one unfinished row; stop before that
+        // row grows to the rest of the file.
+        chunksWithoutRows = results.data.length === 0 ? chunksWithoutRows + 1 : 0
+        if (error || chunksWithoutRows > MAX_CHUNKS_PER_ROW) {
+          parser.abort()
+          reject(new Error(`CSV parse error: ${error?.message ?? 'Quoted field unterminated.'}`))
+          return
+        }
+        ingestRecords(ingest, results.data)
+        parsedChunks += 1
+        const loadedBytes = parsedChunks * PARSE_CHUNK_SIZE
+        reportProgress({
+          stage: 'parse',
+          loadedBytes: totalBytes === null ? loadedBytes : Math.min(loadedBytes, totalBytes),
+          totalBytes,
+          rows: ingest.builder?.rowCount ?? 0,
+        })
+      },
+      complete: () => {
+        try {
+          resolve(finishIngest(ingest))
+        } catch (error) {
+          reject(error)
+        }
+      },
+      error: (error) => reject(error),
+    })
+  })
+}
 
-  return String(value)
+function createIngestState(options: CheckInImportOptions): IngestState {
+  return { headerRow: Math.max(Math.floor(options.headerRow), 1), skippedRows: 0, builder: null, previewRows: 0 }
 }
 
-function getColumnKeys(records: RawRecord[]): string[] {
-  const keys = new Set<string>()
+// Rows above the header row are dropped, and blank rows after it are skipped.
+function ingestRecords(ingest: IngestState, records: unknown[][]) {
+  let start = 0
+  if (!ingest.builder) {
+    start = Math.min(ingest.headerRow - 1 - ingest.skippedRows, records.length)
+    ingest.skippedRows += start
+    if (start === records.length) {
+      return
+    }
+    ingest.builder = createStoreBuilder(records[start])
+    start += 1
+  }
 
-  for (const record of records) {
-    for (const key of Object.keys(record)) {
-      if (key.trim().length > 0) {
-        keys.add(key)
-      }
+  const builder = ingest.builder
+  for (let index = start; index < records.length; index += 1) {
+    if (!isBlankRecord(records[index])) {
+      appendRecord(builder, records[index])
     }
   }
 
-  return [...keys]
+  if (ingest.previewRows < PREVIEW_ROW_LIMIT && builder.rowCount > ingest.previewRows) {
+    ingest.previewRows = Math.min(builder.rowCount, PREVIEW_ROW_LIMIT)
+    postPreview(builder, ingest.previewRows)
+  }
 }
 
-function isNumericColumn(records: RawRecord[], field: string): boolean {
-  const sample = records.find((record) => record[field] !== undefined && record[field] !== null)
-  if (!sample) {
-    return false
+function finishIngest(ingest: IngestState): StoreBuilder {
+  if (!ingest.builder) {
+    throw new Error('File is empty.')
   }
-
-  return typeof sample[field] === 'number'
+  return ingest.builder
 }
 
-function isDateColumn(records: RawRecord[], field: string): boolean {
-  const lowerField = field.toLowerCase()
-  if (lowerField.includes('date') || lowerField.includes('time')) {
-    return true
-  }
+// Every column is kept as text codes while loading; types are inferred over the finished columns, not a sample.
+function createStoreBuilder(header: unknown[]): StoreBuilder {
+  const usedFields = new Set<string>()
+  const columns = header.flatMap((value, sourceIndex): ColumnBuilder[] => {
+    const name = String(value ?? '').trim()
+    if (name.length === 0) {
+      return []
+    }
+    let field = name
+    for (let suffix = 1; usedFields.has(field); suffix += 1) {
+      field = `${name}_${suffix}`
+    }
+    usedFields.add(field)
+    return [{ field, sourceIndex, codes: new Uint32Array(INITIAL_CAPACITY), dictionary: [''], codeByText: new Map([['', 0]]) }]
+  })
 
-  const sample = records.find((record) => typeof record[field] === 'string' || record[field] instanceof Date)
-  if (!sample) {
-    return false
-  }
+  return { columns, rowCount: 0, capacity: INITIAL_CAPACITY }
+}
 
-  const value = sample[field]
-  if (value instanceof Date) {
-    return !Number.isNaN(value.getTime())
+function appendRecord(builder: StoreBuilder, record: unknown[]) {
+  if (builder.rowCount === builder.capacity) {
+    builder.capacity *= 2
+    for (const column of builder.columns) {
+      const codes = new Uint32Array(builder.capacity)
+      codes.set(column.codes)
+      column.codes = codes
+    }
   }
 
-  if (typeof value === 'string') {
-    return !Number.isNaN(Date.parse(value))
+  const rowIndex = builder.rowCount
+  for (const column of builder.columns) {
+    column.codes[rowIndex] = getTextCode(column, toText(record[column.sourceIndex]))
   }
-
-  return false
+  builder.rowCount += 1
 }
 
-function formatDateTime(value: unknown): string {
+// XLSX cells arrive typed; they are written back as text the schema inference recognises.
+function toText(value: unknown): string {
   if (value instanceof Date) {
-    if (Number.isNaN(value.getTime())) {
-      return ''
-    }
-
-    const day = String(value.getUTCDate()).padStart(2, '0')
-    const month = String(value.getUTCMonth() + 1).padStart(2, '0')
-    const year = value.getUTCFullYear()
-    const hours = String(value.getUTCHours()).padStart(2, '0')
-    const minutes = String(value.getUTCMinutes()).padStart(2, '0')
-    return `${day}.${month}.${year} ${hours}:${minutes}`
-  }
-
-  if (typeof value !== 'string') {
-    return String(value ?? '')
+    return Number.isNaN(value.getTime()) ? '' : value.toISOString()
   }
+  return String(value ?? '')
+}
 
-  const isoLike = /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}/.test(value)
-  const parsed = new Date(value)
-  if (Number.isNaN(parsed.getTime())) {
-    return value
+function getTextCode(column: ColumnBuilder, text: string): number {
+  let code = column.codeByText.get(text)
+  if (code === undefined) {
+    code = column.dictionary.length
+    column.dictionary.push(text)
+    column.codeByText.set(text, code)
   }
+  return code
+}
 
-  if (isoLike) {
-    const day = String(parsed.getUTCDate()).padStart(2, '0')
-    const month = String(parsed.getUTCMonth() + 1).padStart(2, '0')
-    const year = parsed.getUTCFullYear()
-    const hours = String(parsed.getUTCHours()).padStart(2, '0')
-    const minutes = String(parsed.getUTCMinutes()).padStart(2, '0')
-    return `${day}.${month}.${year} ${hours}:${minutes}`
+// Copies each column to its exact length, so the buffers handed to the page carry no spare capacity.
+function finishRawStore(builder: StoreBuilder): AnalyticsRawStore {
+  return {
+    rowCount: builder.rowCount,
+    columns: builder.columns.map((column) => toRawColumn(column, builder.rowCount, true)),
   }
-
-  const day = String(parsed.getDate()).padStart(2, '0')
-  const month = String(parsed.getMonth() + 1).padStart(2, '0')
-  const year = parsed.getFullYear()
-  const hours = String(parsed.getHours()).padStart(2, '0')
-  const minutes = String(parsed.getMinutes()).padStart(2, '0')
-  return `${day}.${month}.${year} ${hours}:${minutes}`
 }
 
-function buildChartData(rows: AnalyticsRow[], fields: string[]): BusAnalyticsChartData {
-  const hourField = findFieldName(fields, /hour/i)
-  const routeField = findFieldName(fields, /^route$/i)
-  const totalCountField = findFieldName(fields, /total\s*count/i)
-  const operatorField = findFieldName(fields, /operator/i)
-  const smartCardField = findFieldName(fields, /smart\s*card/i)
-  const qrField = findFieldName(fields, /\bqr\b/i)
-
-  const hourlyTotals = new Map<string, number>()
-  const routeTotals = new Map<string, number>()
-  const operatorTotals = new Map<string, number>()
-  let smartCardTotal = 0
-  let qrTotal = 0
-
-  for (const row of rows) {
-    const countValue = totalCountField ? asNumber(row[totalCountField]) : 0
-    if (countValue <= 0) {
-      continue
-    }
-
-    if (hourField) {
-      const hourValue = String(row[hourField] ?? '')
-      const hourLabel = hourValue.length > 0 ? `${hourValue.padStart(2, '0')}:00` : 'Unknown'
-      hourlyTotals.set(hourLabel, (hourlyTotals.get(hourLabel) ?? 0) + countValue)
-    }
-
-    if (routeField) {
-      const route = String(row[routeField] ?? 'Unknown')
-      routeTotals.set(route, (routeTotals.get(route) ?? 0) + countValue)
-    }
-
-    if (operatorField) {
-      const operator = String(row[operatorField] ?? 'Unknown')
-      operatorTotals.set(operator, (operatorTotals.get(operator) ?? 0) + countValue)
-    }
-
-    if (smartCardField) {
-      smartCardTotal += asNumber(row[smartCardField])
-    }
-
-    if (qrField) {
-      qrTotal += asNumber(row[qrField])
-    }
+// A view shares the builder's buffers, for reading rows while parsing continues.
+function getRawView(builder: StoreBuilder, rowCount: number): AnalyticsRawStore {
+  return {
+    rowCount,
+    columns: builder.columns.map((column) => toRawColumn(column, rowCount, false)),
   }
+}
 
-  const hourly = [...hourlyTotals.entries()]
-    .sort((a, b) => a[0].localeCompare(b[0]))
-    .map(([label, value]) => ({ label, value }))
-
-  const topRoutes = [...routeTotals.entries()]
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 12)
-    .map(([label, value]) => ({ label, value }))
-
-  const operatorSplit = [...operatorTotals.entries()]
-    .sort((a, b) => b[1] - a[1])
-    .slice(0, 6)
-    .map(([label, value]) => ({ label, value }))
-
-  const paymentMix = [
-    { label: 'SmartCard', value: smartCardTotal },
-    { label: 'QR', value: qrTotal },
-  ].filter((item) => item.value > 0)
+function toRawColumn(column: ColumnBuilder, rowCount: number, copy: boolean): AnalyticsTextColumn {
+  const codes = copy ? column.codes.slice(0, rowCount) : column.codes.subarray(0, rowCount)
+  return { field: column.field, kind: 'text', codes, dictionary: column.dictionary }
+}
 
-  return { hourly, topRoutes, operatorSplit, paymentMix }
+function getInferredTypings(profiles: AnalyticsColumnProfile[]): Record<string, AnalyticsColumnTyping> {
+  return Object.fromEntries(profiles.map((profile) => [profile.field, profile.inferred]))
 }
 
-function findFieldName(fields: string[], matcher: RegExp): string | null {
-  const found = fields.find((field) => matcher.test(field))
-  return found ?? null
+// Text columns of a build share their buffer with the raw store, so each buffer is listed once.
+function getTransferables(columns: AnalyticsColumn[]): ArrayBuffer[] {
+  const buffers = new Set(columns.map((column) => (column.kind === 'text' ? column.codes.buffer : column.values.buffer)))
+  return [...buffers]
 }
 
-function asNumber(value: unknown): number {
-  if (typeof value === 'number') {
-    return Number.isFinite(value) ? value : 0
+// The first rows are typed by inference over themselves, so the preview reads like the finished table.
+function postPreview(builder: StoreBuilder, rowCount: number) {
+  const raw = getRawView(builder, rowCount)
+  const typings = getInferredTypings(raw.columns.map((column) => inferColumnProfile(column, rowCount)))
+  const { store } = buildTypedStore(raw, typings)
+  const rowIndexes = Array.from({ length: rowCount }, (_, index) => index)
+  const message: BusAnalyticsWorkerIncomingMessage = {
+    type: 'parse-preview',
+    preview: {
+      fields: getStoreFields(store),
+      numericFields: getNumericFields(store),
+      rows: getStoreRows(store, rowIndexes),
+    },
   }
+  workerScope.postMessage(message)
+}
 
-  if (typeof value === 'string') {
-    const parsed = Number(value)
-    return Number.isFinite(parsed) ? parsed : 0
+function sumValues(values: Float64Array): number {
+  let total = 0
+  for (const value of values) {
+    if (!Number.isNaN(value)) {
+      total += value
+    }
   }
-
-  return 0
+  return total
 }
 
-function isRecord(value: unknown): value is RawRecord {
-  return typeof value === 'object' && value !== null
+// Throttled so a large file does not flood the page with progress messages. Each request gets its own reporter.
+function createProgressReporter(): ProgressReporter {
+  let lastProgressAt = 0
+  return (progress, force = false) => {
+    const now = Date.now()
+    if (now - lastProgressAt < PROGRESS_INTERVAL_MS && !force) {
+      return
+    }
+    lastProgressAt = now
+    const message: BusAnalyticsWorkerIncomingMessage = { type: 'parse-progress', progress }
+    workerScope.postMessage(message)
+  }
 }
 
 export {}
@@ -0,0 +1,42 @@
+/// <reference lib="webworker" />
+
+import { buildHexGridFeatures, buildTransitCoverage, dissolveRegionFeatures } from '../services/regionGeometry'
+import type { RegionDissolveWorkerIncomingMessage, RegionDissolveWorkerRequest } from '../types/demographics'
+
+const workerScope: DedicatedWorkerGlobalScope = self as DedicatedWorkerGlobalScope
+
+workerScope.onmessage = (event: MessageEvent<RegionDissolveWorkerRequest>) => {
+  try {
+    workerScope.postMessage(handleRequest(event.data))
+  } catch (error) {
+    const message: RegionDissolveWorkerIncomingMessage = {
+      type: 'dissolve-error',
+      message: error instanceof Error ? error.message : 'Failed to dissolve region geometries.',
+    }
+    workerScope.postMessage(message)
+  }
+}
+
+function handleRequest(request: RegionDissolveWorkerRequest): RegionDissolveWorkerIncomingMessage {
+  switch (request.type) {
+    case 'hexbin':
+      return {
+        type: 'hexbin-success',
+        edgeKm: request.edgeKm,
+        features: buildHexGridFeatures(request.features, request.edgeKm, request.schema),
+      }
+    case 'coverage':
+      return {
+        type: 'coverage-success',
+        coverage: buildTransitCoverage(request.features, request.stops, request.radiusM, request.schema),
+      }
+    default:
+      return {
+        type: 'dissolve-success',
+        level: request.level,
+        features: dissolveRegionFeatures(request.features, request.level, request.schema),
+      }
+  }
+}
+
+export {}